@@ -8,16 +8,42 @@
  * @module
  */
 
+import type * as adminInvitations from "../adminInvitations.js";
 import type * as adminUsers from "../adminUsers.js";
+import type * as analytics from "../analytics.js";
+import type * as auditLog from "../auditLog.js";
+import type * as backup from "../backup.js";
 import type * as contactSubmissions from "../contactSubmissions.js";
+import type * as crons from "../crons.js";
+import type * as events from "../events.js";
 import type * as files from "../files.js";
 import type * as homepageContent from "../homepageContent.js";
+import type * as lib_aggregates from "../lib/aggregates.js";
+import type * as lib_analytics from "../lib/analytics.js";
+import type * as lib_audit from "../lib/audit.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as lib_backup from "../lib/backup.js";
+import type * as lib_cascade from "../lib/cascade.js";
+import type * as lib_eventCounters from "../lib/eventCounters.js";
+import type * as lib_events from "../lib/events.js";
+import type * as lib_fixtures from "../lib/fixtures.js";
+import type * as lib_leads from "../lib/leads.js";
+import type * as lib_permissions from "../lib/permissions.js";
+import type * as lib_publication from "../lib/publication.js";
+import type * as lib_reservations from "../lib/reservations.js";
+import type * as lib_softDelete from "../lib/softDelete.js";
+import type * as lib_unitImport from "../lib/unitImport.js";
+import type * as lib_zones from "../lib/zones.js";
 import type * as locations from "../locations.js";
+import type * as migrations from "../migrations.js";
 import type * as projectBuildings from "../projectBuildings.js";
 import type * as projectPhases from "../projectPhases.js";
 import type * as projectUnits from "../projectUnits.js";
 import type * as projects from "../projects.js";
+import type * as publishing from "../publishing.js";
+import type * as reservations from "../reservations.js";
 import type * as seed from "../seed.js";
+import type * as trash from "../trash.js";
 
 import type {
   ApiFromModules,
@@ -26,16 +52,42 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  adminInvitations: typeof adminInvitations;
   adminUsers: typeof adminUsers;
+  analytics: typeof analytics;
+  auditLog: typeof auditLog;
+  backup: typeof backup;
   contactSubmissions: typeof contactSubmissions;
+  crons: typeof crons;
+  events: typeof events;
   files: typeof files;
   homepageContent: typeof homepageContent;
+  "lib/aggregates": typeof lib_aggregates;
+  "lib/analytics": typeof lib_analytics;
+  "lib/audit": typeof lib_audit;
+  "lib/auth": typeof lib_auth;
+  "lib/backup": typeof lib_backup;
+  "lib/cascade": typeof lib_cascade;
+  "lib/eventCounters": typeof lib_eventCounters;
+  "lib/events": typeof lib_events;
+  "lib/fixtures": typeof lib_fixtures;
+  "lib/leads": typeof lib_leads;
+  "lib/permissions": typeof lib_permissions;
+  "lib/publication": typeof lib_publication;
+  "lib/reservations": typeof lib_reservations;
+  "lib/softDelete": typeof lib_softDelete;
+  "lib/unitImport": typeof lib_unitImport;
+  "lib/zones": typeof lib_zones;
   locations: typeof locations;
+  migrations: typeof migrations;
   projectBuildings: typeof projectBuildings;
   projectPhases: typeof projectPhases;
   projectUnits: typeof projectUnits;
   projects: typeof projects;
+  publishing: typeof publishing;
+  reservations: typeof reservations;
   seed: typeof seed;
+  trash: typeof trash;
 }>;
 
 /**
@@ -0,0 +1,166 @@
+import { mutation, query } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { authError, getCurrentAdmin, requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const roleValidator = v.union(v.literal("admin"), v.literal("super_admin"));
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Pending invitations, newest first, with the inviter's name (super_admin only)
+export const listPending = query({
+  args: {},
+  handler: async (ctx) => {
+    await requirePermission(ctx, "admins.manage");
+    const invites = await ctx.db.query("admin_invitations").order("desc").collect();
+    const pending = invites.filter((i) => i.status === "pending");
+    return await Promise.all(
+      pending.map(async (invite) => {
+        const inviter = await ctx.db.get(invite.invitedBy);
+        return { ...invite, invitedByName: inviter?.name ?? null };
+      })
+    );
+  },
+});
+
+// Invite an email address to the dashboard (super_admin only). Returns the
+// token for the invite link; sharing the link is up to the inviter.
+export const create = mutation({
+  args: { email: v.string(), role: roleValidator },
+  handler: async (ctx, args) => {
+    const inviter = await requirePermission(ctx, "admins.manage");
+    const email = normalizeEmail(args.email);
+    if (!email.includes("@")) throw new ConvexError({ message: "Enter a valid email address" });
+
+    const existingAdmin = await ctx.db
+      .query("admin_users")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .first();
+    if (existingAdmin) throw new ConvexError({ message: `${email} is already an admin` });
+
+    // Re-inviting replaces any earlier pending invite for the same address
+    const previous = await ctx.db
+      .query("admin_invitations")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .collect();
+    for (const invite of previous) {
+      if (invite.status === "pending") await ctx.db.patch(invite._id, { status: "revoked" });
+    }
+
+    const now = Date.now();
+    const token = crypto.randomUUID();
+    const id = await ctx.db.insert("admin_invitations", {
+      email,
+      role: args.role,
+      token,
+      expiresAt: now + INVITE_TTL_MS,
+      invitedBy: inviter._id,
+      status: "pending",
+      createdAt: now,
+    });
+    await logAudit(ctx, {
+      actor: inviter,
+      entityType: "admin_invitation",
+      entityId: id,
+      action: "create",
+      after: { email, role: args.role },
+    });
+    return token;
+  },
+});
+
+// Issue a fresh token and expiry for a pending invite (super_admin only).
+// No email is sent; the dashboard copies the new link for the admin to share.
+export const resend = mutation({
+  args: { id: v.id("admin_invitations") },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "admins.manage");
+    const invite = await ctx.db.get(args.id);
+    if (!invite || invite.status !== "pending") {
+      throw new ConvexError({ message: "This invitation is no longer pending" });
+    }
+    const token = crypto.randomUUID();
+    const expiresAt = Date.now() + INVITE_TTL_MS;
+    await ctx.db.patch(args.id, { token, expiresAt });
+    await logAudit(ctx, {
+      actor,
+      entityType: "admin_invitation",
+      entityId: args.id,
+      action: "update",
+      before: { email: invite.email, expiresAt: invite.expiresAt },
+      after: { email: invite.email, expiresAt },
+    });
+    return token;
+  },
+});
+
+export const revoke = mutation({
+  args: { id: v.id("admin_invitations") },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "admins.manage");
+    const invite = await ctx.db.get(args.id);
+    if (!invite || invite.status !== "pending") return;
+    await ctx.db.patch(args.id, { status: "revoked" });
+    await logAudit(ctx, {
+      actor,
+      entityType: "admin_invitation",
+      entityId: args.id,
+      action: "update",
+      before: { email: invite.email, status: invite.status },
+      after: { email: invite.email, status: "revoked" },
+    });
+  },
+});
+
+// Called by the admin layout for signed-in users who are not admins yet.
+// Links the Clerk user to a new admin_users row when a live invite matches
+// their email (and the link's token, if they arrived through one).
+// Returns the admin id, or null when there is nothing to claim.
+export const accept = mutation({
+  args: { token: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw authError("UNAUTHENTICATED", "You must be signed in");
+
+    const current = await getCurrentAdmin(ctx);
+    if (current) return current._id;
+
+    if (!identity.email || identity.emailVerified === false) return null;
+    const email = normalizeEmail(identity.email);
+
+    const now = Date.now();
+    const invites = await ctx.db
+      .query("admin_invitations")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .collect();
+    const invite = invites.find(
+      (i) =>
+        i.status === "pending" &&
+        i.expiresAt > now &&
+        (args.token === undefined || i.token === args.token)
+    );
+    if (!invite) return null;
+
+    const adminId = await ctx.db.insert("admin_users", {
+      clerkUserId: identity.subject,
+      email,
+      name: identity.name ?? email,
+      role: invite.role,
+      createdAt: now,
+    });
+    await ctx.db.patch(invite._id, { status: "accepted", acceptedAt: now });
+    const admin = await ctx.db.get(adminId);
+    if (admin) {
+      await logAudit(ctx, {
+        actor: admin,
+        entityType: "admin_user",
+        entityId: adminId,
+        action: "create",
+        after: admin,
+      });
+    }
+    return adminId;
+  },
+});
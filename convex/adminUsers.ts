@@ -1,61 +1,99 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { authError, getCurrentAdmin, requireAdmin, requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
 
-// Check if a Clerk user is an admin
+// Check if the signed-in Clerk user is an admin
 export const isAdmin = query({
-  args: { clerkUserId: v.string() },
-  handler: async (ctx, args) => {
-    const admin = await ctx.db
-      .query("admin_users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", args.clerkUserId))
-      .unique();
+  args: {},
+  handler: async (ctx) => {
+    const admin = await getCurrentAdmin(ctx);
     return admin !== null;
   },
 });
 
+// The admin_users row for the signed-in Clerk user (null if not an admin)
 export const getAdmin = query({
-  args: { clerkUserId: v.string() },
-  handler: async (ctx, args) => {
-    return await ctx.db
-      .query("admin_users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", args.clerkUserId))
-      .unique();
+  args: {},
+  handler: async (ctx) => {
+    return await getCurrentAdmin(ctx);
   },
 });
 
 export const getAll = query({
   args: {},
   handler: async (ctx) => {
+    await requireAdmin(ctx);
     return await ctx.db.query("admin_users").collect();
   },
 });
 
-// Add an admin user (super_admin only or first-time setup)
-export const addAdmin = mutation({
-  args: {
-    clerkUserId: v.string(),
-    email: v.string(),
-    name: v.string(),
-    role: v.union(v.literal("admin"), v.literal("super_admin")),
+// True while admin_users is empty — the admin layout offers the bootstrap then
+export const needsBootstrap = query({
+  args: {},
+  handler: async (ctx) => {
+    const first = await ctx.db.query("admin_users").first();
+    return first === null;
   },
-  handler: async (ctx, args) => {
-    // Check if already exists
-    const existing = await ctx.db
-      .query("admin_users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", args.clerkUserId))
-      .unique();
-    if (existing) return existing._id;
+});
 
-    return await ctx.db.insert("admin_users", {
-      ...args,
+// One-time setup: the first signed-in user claims super_admin.
+// Refuses once any admin exists.
+export const bootstrap = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw authError("UNAUTHENTICATED", "You must be signed in");
+    const first = await ctx.db.query("admin_users").first();
+    if (first) throw authError("FORBIDDEN", "An admin already exists");
+    const id = await ctx.db.insert("admin_users", {
+      clerkUserId: identity.subject,
+      email: identity.email ?? "",
+      name: identity.name ?? identity.email ?? "Super Admin",
+      role: "super_admin",
       createdAt: Date.now(),
     });
+    const admin = await ctx.db.get(id);
+    if (admin) {
+      await logAudit(ctx, {
+        actor: admin,
+        entityType: "admin_user",
+        entityId: id,
+        action: "create",
+        after: admin,
+      });
+    }
+    return id;
   },
 });
 
 export const removeAdmin = mutation({
   args: { id: v.id("admin_users") },
   handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "admins.manage");
+    const target = await ctx.db.get(args.id);
+    if (!target) return;
+    // Never leave the dashboard without a super admin
+    if (target.role === "super_admin") {
+      const superAdmins = (await ctx.db.query("admin_users").collect())
+        .filter((a) => a.role === "super_admin");
+      if (superAdmins.length <= 1) {
+        throw authError("FORBIDDEN", "Cannot remove the last super admin");
+      }
+    }
+    // Their leads go back to the unassigned pool
+    const leads = await ctx.db
+      .query("contact_submissions")
+      .withIndex("by_assignee", (q) => q.eq("assignedTo", args.id))
+      .collect();
+    for (const lead of leads) await ctx.db.patch(lead._id, { assignedTo: undefined });
     await ctx.db.delete(args.id);
+    await logAudit(ctx, {
+      actor,
+      entityType: "admin_user",
+      entityId: args.id,
+      action: "delete",
+      before: target,
+    });
   },
 });
@@ -0,0 +1,151 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAdmin } from "./lib/auth";
+import { bucketSizeFor, bucketStart, bucketStarts } from "./lib/analytics";
+import { isLive } from "./lib/softDelete";
+
+type Inventory = {
+  units: number;
+  available: number;
+  reserved: number;
+  sold: number;
+  totalValue: number;
+  soldValue: number;
+};
+
+function emptyInventory(): Inventory {
+  return { units: 0, available: 0, reserved: 0, sold: 0, totalValue: 0, soldValue: 0 };
+}
+
+function addUnit(inv: Inventory, unit: Doc<"project_units">) {
+  inv.units++;
+  inv[unit.status]++;
+  inv.totalValue += unit.price;
+  if (unit.status === "sold") inv.soldValue += unit.price;
+}
+
+// ─── Inventory ────────────────────────────────────────────────────────────────
+
+/**
+ * Inventory dashboard for /admin/analytics. Stock and sales value are a
+ * snapshot of the live (non-trashed) units, drafts included; absorption is
+ * built from unit_status_history between `from` and `to`. Units sold before
+ * the history existed count as sold stock but never show up as absorption.
+ */
+export const inventory = query({
+  args: {
+    from: v.number(),
+    to: v.number(),
+    projectId: v.optional(v.id("projects")),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const projects = (
+      args.projectId
+        ? [await ctx.db.get(args.projectId)].filter((p) => p !== null)
+        : await ctx.db.query("projects").collect()
+    ).filter(isLive);
+
+    const units: Doc<"project_units">[] = [];
+    const phaseNames = new Map<Id<"project_phases">, string>();
+    for (const project of projects) {
+      const [projectUnits, phases] = await Promise.all([
+        ctx.db
+          .query("project_units")
+          .withIndex("by_project", (q) => q.eq("projectId", project._id))
+          .collect(),
+        ctx.db
+          .query("project_phases")
+          .withIndex("by_project", (q) => q.eq("projectId", project._id))
+          .collect(),
+      ]);
+      units.push(...projectUnits.filter(isLive));
+      for (const phase of phases.filter(isLive)) phaseNames.set(phase._id, phase.name);
+    }
+    const unitsById = new Map(units.map((u) => [u._id, u]));
+
+    // Stock and value per project, split by phase
+    const totals = emptyInventory();
+    const byProject = projects.map((project) => {
+      const inv = emptyInventory();
+      const phases = new Map<string, { phaseId: Id<"project_phases"> | null; name: string } & Inventory>();
+      for (const unit of units) {
+        if (unit.projectId !== project._id) continue;
+        addUnit(inv, unit);
+        addUnit(totals, unit);
+        const phaseId = unit.phaseId && phaseNames.has(unit.phaseId) ? unit.phaseId : null;
+        const key = phaseId ?? "none";
+        if (!phases.has(key)) {
+          phases.set(key, {
+            phaseId,
+            name: phaseId ? phaseNames.get(phaseId)! : "No phase",
+            ...emptyInventory(),
+          });
+        }
+        addUnit(phases.get(key)!, unit);
+      }
+      return {
+        projectId: project._id,
+        name: project.name,
+        ...inv,
+        phases: [...phases.values()].sort((a, b) => a.name.localeCompare(b.name)),
+      };
+    });
+
+    // Absorption: net units moving into "sold" (and "reserved") per bucket
+    const bucket = bucketSizeFor(args.from, args.to);
+    const series = new Map(
+      bucketStarts(args.from, args.to, bucket).map((start) => [start, { start, sold: 0, reserved: 0 }])
+    );
+    let soldInRange = 0;
+    let soldSinceFrom = 0;
+    const history = ctx.db
+      .query("unit_status_history")
+      .withIndex("by_created", (q) => q.gte("createdAt", args.from));
+    for await (const change of history) {
+      if (!unitsById.has(change.unitId)) continue;
+      const sold = (change.to === "sold" ? 1 : 0) - (change.from === "sold" ? 1 : 0);
+      const reserved = (change.to === "reserved" ? 1 : 0) - (change.from === "reserved" ? 1 : 0);
+      soldSinceFrom += sold;
+      if (change.createdAt > args.to) continue;
+      soldInRange += sold;
+      const point = series.get(bucketStart(change.createdAt, bucket));
+      if (point) {
+        point.sold += sold;
+        point.reserved += reserved;
+      }
+    }
+    // Share of the stock that was unsold at `from` which sold within the range
+    const unsoldAtStart = totals.units - totals.sold + soldSinceFrom;
+    const days = Math.max(1, (args.to - args.from) / (24 * 60 * 60 * 1000));
+
+    // Average price per sqft by unit type, weighted by area
+    const types = new Map<string, { units: number; price: number; area: number }>();
+    for (const unit of units) {
+      if (unit.area_sqft <= 0) continue;
+      const type = unit.unit_type?.trim() || "Unspecified";
+      const t = types.get(type) ?? { units: 0, price: 0, area: 0 };
+      t.units++;
+      t.price += unit.price;
+      t.area += unit.area_sqft;
+      types.set(type, t);
+    }
+
+    return {
+      totals,
+      projects: byProject.sort((a, b) => a.name.localeCompare(b.name)),
+      absorption: {
+        bucket,
+        series: [...series.values()],
+        soldInRange,
+        rate: unsoldAtStart > 0 ? soldInRange / unsoldAtStart : 0,
+        soldPerMonth: (soldInRange / days) * 30,
+      },
+      pricePerSqft: [...types.entries()]
+        .map(([unitType, t]) => ({ unitType, units: t.units, avgPricePerSqft: t.price / t.area }))
+        .sort((a, b) => b.avgPricePerSqft - a.avgPricePerSqft),
+    };
+  },
+});
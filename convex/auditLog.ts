@@ -0,0 +1,54 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { requireAdmin } from "./lib/auth";
+import { auditEntityTypeValidator } from "./lib/audit";
+
+const MAX_ENTRIES = 200;
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+// Newest entries first, filtered by entity type, actor and a createdAt range
+export const list = query({
+  args: {
+    entityType: v.optional(auditEntityTypeValidator),
+    actorId: v.optional(v.id("admin_users")),
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const from = args.from ?? 0;
+    const to = args.to ?? Number.MAX_SAFE_INTEGER;
+
+    const base = args.actorId
+      ? ctx.db
+          .query("audit_log")
+          .withIndex("by_actor", (q) =>
+            q.eq("actorId", args.actorId!).gte("createdAt", from).lte("createdAt", to)
+          )
+      : ctx.db
+          .query("audit_log")
+          .withIndex("by_created", (q) => q.gte("createdAt", from).lte("createdAt", to));
+
+    const entityType = args.entityType;
+    const filtered = entityType
+      ? base.filter((q) => q.eq(q.field("entityType"), entityType))
+      : base;
+    return await filtered.order("desc").take(MAX_ENTRIES);
+  },
+});
+
+// History of a single project, phase, unit, … newest first
+export const getForEntity = query({
+  args: { entityType: auditEntityTypeValidator, entityId: v.string() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    return await ctx.db
+      .query("audit_log")
+      .withIndex("by_entity", (q) =>
+        q.eq("entityType", args.entityType).eq("entityId", args.entityId)
+      )
+      .order("desc")
+      .take(50);
+  },
+});
@@ -0,0 +1,10 @@
+// Clerk issues the JWTs that Convex verifies. Create a "convex" JWT template
+// in the Clerk dashboard and set CLERK_JWT_ISSUER_DOMAIN on the deployment.
+export default {
+  providers: [
+    {
+      domain: process.env.CLERK_JWT_ISSUER_DOMAIN,
+      applicationID: "convex",
+    },
+  ],
+};
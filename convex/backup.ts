@@ -0,0 +1,303 @@
+import { mutation, query } from "./_generated/server";
+import { ConvexError, GenericValidator, v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import schema from "./schema";
+import { refreshProjectStats } from "./lib/aggregates";
+import { requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  bundleValidator,
+  duplicateSlugs,
+  ProjectBundle,
+  toBundleDoc,
+} from "./lib/backup";
+import { collectStorageUrls } from "./lib/cascade";
+import { changeUnitStatus } from "./lib/reservations";
+import { getLiveProjectBySlug, isLive } from "./lib/softDelete";
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+/**
+ * The project and everything under it as a bundle manifest. Trashed children
+ * are left out. `fileUrls` lists the stored files the documents point at, for
+ * the client to embed when the backup should include them.
+ */
+export const exportProject = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "content.edit");
+    const project = await ctx.db.get(args.projectId);
+    if (!project || !isLive(project)) throw new ConvexError({ message: "Project not found" });
+
+    const [phases, buildings, units] = await Promise.all([
+      ctx.db.query("project_phases").withIndex("by_project", (q) => q.eq("projectId", project._id)).collect(),
+      ctx.db.query("project_buildings").withIndex("by_project", (q) => q.eq("projectId", project._id)).collect(),
+      ctx.db.query("project_units").withIndex("by_project", (q) => q.eq("projectId", project._id)).collect(),
+    ]);
+
+    const { locationId, ...projectDoc } = toBundleDoc(project);
+    const location = locationId ? await ctx.db.get(locationId) : null;
+    const bundle: ProjectBundle = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: Date.now(),
+      project: { ...projectDoc, locationSlug: location?.slug },
+      phases: phases.filter(isLive).map(toBundleDoc),
+      buildings: buildings.map(toBundleDoc),
+      units: units.filter(isLive).map(toBundleDoc),
+    };
+    return { bundle, fileUrls: [...collectStorageUrls(bundle)] };
+  },
+});
+
+// ─── Shape checks ─────────────────────────────────────────────────────────────
+
+const MAX_SHAPE_PROBLEMS = 20;
+
+// Table fields a bundle leaves out; restore fills them in
+const NOT_CARRIED = new Set(["projectId", "deletedAt"]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Why `value` doesn't fit `validator`, or null. Ids are only checked to be
+ * text: they come from another deployment and are remapped on restore.
+ */
+function mismatch(validator: GenericValidator, value: unknown, path: string): string | null {
+  if (value === undefined) return validator.isOptional === "optional" ? null : `${path} is missing`;
+  switch (validator.kind) {
+    case "id":
+    case "string":
+      return typeof value === "string" ? null : `${path} should be text`;
+    case "float64":
+      return typeof value === "number" ? null : `${path} should be a number`;
+    case "int64":
+      return typeof value === "bigint" ? null : `${path} should be an integer`;
+    case "boolean":
+      return typeof value === "boolean" ? null : `${path} should be true or false`;
+    case "null":
+      return value === null ? null : `${path} should be empty`;
+    case "literal":
+      return value === validator.value ? null : `${path} should be ${JSON.stringify(validator.value)}`;
+    case "bytes":
+      return value instanceof ArrayBuffer ? null : `${path} should be binary data`;
+    case "any":
+      return null;
+    case "array":
+      if (!Array.isArray(value)) return `${path} should be a list`;
+      for (const [i, item] of value.entries()) {
+        const problem = mismatch(validator.element, item, `${path}[${i}]`);
+        if (problem) return problem;
+      }
+      return null;
+    case "record":
+      if (!isPlainObject(value)) return `${path} should be an object`;
+      for (const [key, item] of Object.entries(value)) {
+        const problem = mismatch(validator.value, item, `${path}.${key}`);
+        if (problem) return problem;
+      }
+      return null;
+    case "object":
+      return fieldMismatch(validator.fields, value, path);
+    case "union":
+      if (validator.members.some((m: GenericValidator) => mismatch(m, value, path) === null)) return null;
+      return validator.members.length === 1
+        ? mismatch(validator.members[0], value, path)
+        : `${path} is not one of the allowed values`;
+  }
+}
+
+function fieldMismatch(
+  fields: Record<string, GenericValidator>,
+  value: unknown,
+  path: string,
+  skip: Set<string> = new Set()
+): string | null {
+  if (!isPlainObject(value)) return `${path} should be an object`;
+  for (const key of Object.keys(value)) {
+    if (!(key in fields) && !skip.has(key)) return `${path}.${key} is not a known field`;
+  }
+  for (const [key, field] of Object.entries(fields)) {
+    if (skip.has(key)) continue;
+    const problem = mismatch(field, value[key], `${path}.${key}`);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+/**
+ * Bundle documents that don't fit the tables they are restored into, one
+ * line each for the restore screen (the first few only). Checked before any
+ * insert, so a malformed file is explained instead of failing mid-restore.
+ */
+function bundleProblems(bundle: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+  const check = (
+    table: "projects" | "project_phases" | "project_buildings" | "project_units",
+    doc: unknown,
+    label: string,
+    extra: Record<string, GenericValidator> = {}
+  ) => {
+    const skip = new Set([...NOT_CARRIED, ...(table === "projects" ? ["locationId"] : [])]);
+    const fields = { ...schema.tables[table].validator.fields, _id: v.string(), ...extra };
+    const name = isPlainObject(doc) && typeof doc.name === "string" ? `${label} "${doc.name}"` : label;
+    const problem = fieldMismatch(fields, doc, name, skip);
+    if (problem) problems.push(problem);
+  };
+
+  check("projects", bundle.project, "Project", { locationSlug: v.optional(v.string()) });
+  const lists = [
+    ["phases", "project_phases", "Phase"],
+    ["buildings", "project_buildings", "Building"],
+    ["units", "project_units", "Unit"],
+  ] as const;
+  for (const [key, table, label] of lists) {
+    const docs = bundle[key];
+    if (!Array.isArray(docs)) problems.push(`The backup has no ${key} list`);
+    else docs.forEach((doc, i) => check(table, doc, `${label} ${i + 1}`));
+  }
+
+  return problems.length > MAX_SHAPE_PROBLEMS
+    ? [...problems.slice(0, MAX_SHAPE_PROBLEMS), `…and ${problems.length - MAX_SHAPE_PROBLEMS} more`]
+    : problems;
+}
+
+// ─── Restore ──────────────────────────────────────────────────────────────────
+
+/**
+ * Recreate a bundled project with fresh ids. The project comes back as a
+ * draft under `slug` (defaults to the bundled slug). With `dryRun`, or when
+ * the bundle has problems or the slug is taken, nothing is written and the
+ * checks are returned for the restore screen.
+ *
+ * Stored files are uploaded by the client first; the bundle it sends here
+ * already points at the new URLs.
+ */
+export const importProject = mutation({
+  args: {
+    bundle: bundleValidator,
+    slug: v.optional(v.string()),
+    dryRun: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const bundle = args.bundle as ProjectBundle;
+    if (bundle.version > BUNDLE_VERSION) {
+      throw new ConvexError({ message: "This backup was made by a newer version of the site and can't be restored here" });
+    }
+
+    // A file that doesn't fit the tables is reported as it is, before anything
+    // else reads its documents
+    const shapeProblems = bundleProblems(args.bundle);
+    if (shapeProblems.length > 0) {
+      const project: Record<string, unknown> = typeof bundle.project === "object" && bundle.project ? bundle.project : {};
+      const count = (docs: unknown) => (Array.isArray(docs) ? docs.length : 0);
+      return {
+        name: typeof project.name === "string" ? project.name : "",
+        slug: (args.slug ?? (typeof project.slug === "string" ? project.slug : "")).trim(),
+        slugTaken: false,
+        problems: shapeProblems,
+        missingLocation: null,
+        exportedAt: bundle.exportedAt,
+        counts: { phases: count(bundle.phases), buildings: count(bundle.buildings), units: count(bundle.units) },
+        projectId: null,
+      };
+    }
+
+    const slug = (args.slug ?? bundle.project.slug).trim();
+    const slugTaken = !slug || (await getLiveProjectBySlug(ctx, slug)) !== null;
+    const problems = [
+      ...duplicateSlugs(bundle.phases).map((s) => `Two phases share the slug "${s}"`),
+      ...duplicateSlugs(bundle.buildings).map((s) => `Two buildings share the slug "${s}"`),
+      ...duplicateSlugs(bundle.units).map((s) => `Two units share the slug "${s}"`),
+    ];
+    const { locationSlug } = bundle.project;
+    const location = locationSlug
+      ? await ctx.db.query("locations").withIndex("by_slug", (q) => q.eq("slug", locationSlug)).unique()
+      : null;
+    const check = {
+      name: bundle.project.name,
+      slug,
+      slugTaken,
+      problems,
+      missingLocation: locationSlug && !location ? locationSlug : null, // restored without a location
+
+      exportedAt: bundle.exportedAt,
+      counts: { phases: bundle.phases.length, buildings: bundle.buildings.length, units: bundle.units.length },
+    };
+    if (args.dryRun || slugTaken || problems.length > 0) return { ...check, projectId: null };
+
+    // ── Insert everything, remembering old id → new id ──
+    const { _id: _oldProjectId, master_plan_zones, locationSlug: _slug, ...projectFields } = bundle.project;
+    const projectId = await ctx.db.insert("projects", {
+      ...projectFields,
+      locationId: location?._id,
+      slug,
+      publishStatus: "draft",
+      publishAt: undefined,
+    });
+
+    const phaseIds = new Map<string, Id<"project_phases">>();
+    for (const { _id, phase_unit_zones: _zones, ...fields } of bundle.phases) {
+      phaseIds.set(_id, await ctx.db.insert("project_phases", { ...fields, projectId }));
+    }
+
+    const buildingIds = new Map<string, Id<"project_buildings">>();
+    for (const { _id, floor_plan_zones: _zones, ...fields } of bundle.buildings) {
+      buildingIds.set(_id, await ctx.db.insert("project_buildings", { ...fields, projectId }));
+    }
+
+    const unitIds = new Map<string, Id<"project_units">>();
+    for (const { _id, phaseId, buildingId, ...fields } of bundle.units) {
+      const id = await ctx.db.insert("project_units", {
+        ...fields,
+        projectId,
+        phaseId: phaseId ? phaseIds.get(phaseId) : undefined,
+        buildingId: buildingId ? buildingIds.get(buildingId) : undefined,
+      });
+      unitIds.set(_id, id);
+      const unit = (await ctx.db.get(id))!;
+      await changeUnitStatus(ctx, unit, unit.status, { reason: "created", actor });
+    }
+
+    // ── Zones last, once every target has its new id ──
+    // A link to something that wasn't in the bundle is dropped; the zone stays
+    await ctx.db.patch(projectId, {
+      master_plan_zones: master_plan_zones?.map(({ phaseId, ...zone }) => ({
+        ...zone,
+        phaseId: phaseId ? phaseIds.get(phaseId) : undefined,
+      })),
+    });
+    for (const phase of bundle.phases) {
+      if (!phase.phase_unit_zones) continue;
+      await ctx.db.patch(phaseIds.get(phase._id)!, {
+        phase_unit_zones: phase.phase_unit_zones.map(({ unitId, ...zone }) => ({
+          ...zone,
+          unitId: unitId ? unitIds.get(unitId) : undefined,
+        })),
+      });
+    }
+    for (const building of bundle.buildings) {
+      if (!building.floor_plan_zones) continue;
+      await ctx.db.patch(buildingIds.get(building._id)!, {
+        floor_plan_zones: building.floor_plan_zones.map(({ unitId, ...zone }) => ({
+          ...zone,
+          unitId: unitId ? unitIds.get(unitId) : undefined,
+        })),
+      });
+    }
+
+    await refreshProjectStats(ctx, projectId);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project",
+      entityId: projectId,
+      action: "create",
+      after: await ctx.db.get(projectId),
+    });
+    return { ...check, projectId };
+  },
+});
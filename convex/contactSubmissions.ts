@@ -1,5 +1,9 @@
 import { mutation, query } from "./_generated/server";
-import { v } from "convex/values";
+import { ConvexError, v } from "convex/values";
+import { requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
+import { leadStatusValidator, leadViewingValidator } from "./lib/leads";
+import { visibleOrNull } from "./lib/publication";
 
 export const submit = mutation({
   args: {
@@ -16,20 +20,122 @@ export const submit = mutation({
       phone: args.phone,
       message: args.message,
       project_interest: args.project_interest,
+      status: "new",
     });
   },
 });
 
+// "Enquire about this unit" from the phase and unit viewers. The project and
+// phase are taken from the unit rather than trusted from the client.
+export const submitUnitEnquiry = mutation({
+  args: {
+    unitId: v.id("project_units"),
+    full_name: v.string(),
+    email: v.string(),
+    phone: v.string(),
+    message: v.string(),
+    viewing: v.optional(leadViewingValidator),
+  },
+  handler: async (ctx, { unitId, ...args }) => {
+    // Only units the public can see: published, in a published project
+    const unit = visibleOrNull(await ctx.db.get(unitId), false);
+    const project = unit && visibleOrNull(await ctx.db.get(unit.projectId), false);
+    if (!unit || !project) throw new ConvexError({ message: "This unit is no longer available" });
+    await ctx.db.insert("contact_submissions", {
+      ...args,
+      project_interest: project.name,
+      projectId: unit.projectId,
+      phaseId: unit.phaseId,
+      unitId,
+      status: "new",
+    });
+  },
+});
+
+// Viewer enquiries come back with the names of the unit and phase they link to
 export const getAll = query({
   args: {},
   handler: async (ctx) => {
-    return await ctx.db.query("contact_submissions").order("desc").collect();
+    await requirePermission(ctx, "leads.manage");
+    const submissions = await ctx.db.query("contact_submissions").order("desc").collect();
+    return await Promise.all(
+      submissions.map(async (s) => {
+        const [unit, phase] = await Promise.all([
+          s.unitId ? ctx.db.get(s.unitId) : null,
+          s.phaseId ? ctx.db.get(s.phaseId) : null,
+        ]);
+        return { ...s, unitName: unit?.name, phaseName: phase?.name };
+      })
+    );
+  },
+});
+
+// ─── Lead pipeline ────────────────────────────────────────────────────────────
+
+// Pass null to clear the assignee or follow-up date
+export const update = mutation({
+  args: {
+    id: v.id("contact_submissions"),
+    status: v.optional(leadStatusValidator),
+    assignedTo: v.optional(v.union(v.id("admin_users"), v.null())),
+    followUpAt: v.optional(v.union(v.number(), v.null())),
+  },
+  handler: async (ctx, { id, status, assignedTo, followUpAt }) => {
+    const actor = await requirePermission(ctx, "leads.manage");
+    const before = await ctx.db.get(id);
+    if (!before) throw new ConvexError({ message: "Submission not found" });
+    if (assignedTo && !(await ctx.db.get(assignedTo))) {
+      throw new ConvexError({ message: "That admin no longer exists" });
+    }
+    await ctx.db.patch(id, {
+      ...(status !== undefined && { status }),
+      ...(assignedTo !== undefined && { assignedTo: assignedTo ?? undefined }),
+      ...(followUpAt !== undefined && { followUpAt: followUpAt ?? undefined }),
+    });
+    await logAudit(ctx, {
+      actor,
+      entityType: "contact_submission",
+      entityId: id,
+      action: "update",
+      before,
+      after: await ctx.db.get(id),
+    });
+  },
+});
+
+export const addNote = mutation({
+  args: { id: v.id("contact_submissions"), body: v.string() },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "leads.manage");
+    const body = args.body.trim();
+    if (!body) throw new ConvexError({ message: "Note is empty" });
+    const before = await ctx.db.get(args.id);
+    if (!before) throw new ConvexError({ message: "Submission not found" });
+    const note = { body, authorId: actor._id, authorName: actor.name, createdAt: Date.now() };
+    await ctx.db.patch(args.id, { notes: [...(before.notes ?? []), note] });
+    await logAudit(ctx, {
+      actor,
+      entityType: "contact_submission",
+      entityId: args.id,
+      action: "update",
+      before,
+      after: await ctx.db.get(args.id),
+    });
   },
 });
 
 export const remove = mutation({
   args: { id: v.id("contact_submissions") },
   handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "leads.manage");
+    const before = await ctx.db.get(args.id);
     await ctx.db.delete(args.id);
+    await logAudit(ctx, {
+      actor,
+      entityType: "contact_submission",
+      entityId: args.id,
+      action: "purge", // a hard delete: the submission cannot be restored
+      before,
+    });
   },
 });
@@ -0,0 +1,16 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Permanently remove projects, phases and units that have sat in the trash
+// longer than TRASH_RETENTION_MS
+crons.daily("purge trash", { hourUTC: 2, minuteUTC: 0 }, internal.trash.purgeExpired);
+
+// Flip "scheduled" projects, phases and units to published once publishAt passes
+crons.interval("publish scheduled content", { minutes: 5 }, internal.publishing.publishScheduled);
+
+// Forget which sessions were counted on past days and months
+crons.daily("prune visitor session marks", { hourUTC: 3, minuteUTC: 0 }, internal.events.pruneSessionMarks);
+
+export default crons;
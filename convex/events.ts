@@ -0,0 +1,227 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { bucketStart } from "./lib/analytics";
+import { requireAdmin } from "./lib/auth";
+import { assertReportRange, countEvents, readCounters } from "./lib/eventCounters";
+import {
+  CounterKind,
+  EventType,
+  MAX_DWELL_MS,
+  MAX_EVENT_BATCH,
+  trackedEventValidator,
+} from "./lib/events";
+
+const TOP_N = 10;
+const PRUNE_BATCH = 4000;
+
+function clip(value: string | undefined, max: number) {
+  return value === undefined ? undefined : value.slice(0, max);
+}
+
+// ─── Tracking ─────────────────────────────────────────────────────────────────
+
+// Public: the viewers batch events and flush them every few seconds
+export const track = mutation({
+  args: {
+    sessionId: v.string(),
+    events: v.array(trackedEventValidator),
+  },
+  handler: async (ctx, args) => {
+    if (args.events.length > MAX_EVENT_BATCH || args.sessionId.length > 64) {
+      throw new ConvexError({ message: "Too many events" });
+    }
+    const now = Date.now();
+    const events = args.events.map((event) => ({
+      ...event,
+      label: clip(event.label, 200),
+      url: clip(event.url, 2000),
+      durationMs:
+        event.durationMs === undefined
+          ? undefined
+          : Math.min(MAX_DWELL_MS, Math.max(0, Math.round(event.durationMs))),
+      sessionId: args.sessionId,
+      createdAt: now,
+    }));
+    for (const event of events) await ctx.db.insert("events", event);
+    await countEvents(ctx, events);
+  },
+});
+
+// Daily cron: session marks only matter for the current day and month
+export const pruneSessionMarks = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    let removed = 0;
+    for (const bucket of ["day", "month"] as const) {
+      if (removed === PRUNE_BATCH) break;
+      const stale = await ctx.db
+        .query("event_sessions")
+        .withIndex("by_scope", (q) => q.eq("bucket", bucket).lt("start", bucketStart(now, bucket)))
+        .take(PRUNE_BATCH - removed);
+      for (const mark of stale) await ctx.db.delete(mark._id);
+      removed += stale.length;
+    }
+    if (removed === PRUNE_BATCH) await ctx.scheduler.runAfter(0, internal.events.pruneSessionMarks, {});
+    return { removed };
+  },
+});
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+type ZoneStats = {
+  projectId?: Id<"projects">;
+  phaseId?: Id<"project_phases">;
+  zoneId: string;
+  label: string;
+  clicks: number;
+  hovers: number;
+};
+
+/**
+ * Visitor report for /admin/analytics: what buyers look at and click. Read
+ * from the counters in whole UTC days, so sessions and unit visitors are
+ * summed per day (or month) and a visitor seen on two days counts twice.
+ */
+export const report = query({
+  args: {
+    from: v.number(),
+    to: v.number(),
+    projectId: v.optional(v.id("projects")),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    assertReportRange(args.from, args.to);
+    const read = (kind: CounterKind) =>
+      readCounters(ctx, kind, args.from, args.to, { projectId: args.projectId }).then((rows) => [...rows.values()]);
+
+    const sessions = (await read("session")).find((s) => s.key === (args.projectId ?? "all"))?.count ?? 0;
+
+    const counts: Partial<Record<EventType, number>> = {};
+    for (const row of await read("event")) {
+      const type = row.label as EventType;
+      counts[type] = (counts[type] ?? 0) + row.count;
+    }
+
+    const topUnits = await Promise.all(
+      (await read("unit"))
+        .filter((u) => u.count > 0)
+        .sort((a, b) => b.count - a.count || b.dwellMs - a.dwellMs)
+        .slice(0, TOP_N)
+        .map(async (u) => {
+          const unit = u.unitId && (await ctx.db.get(u.unitId));
+          const project = unit && (await ctx.db.get(unit.projectId));
+          return {
+            unitId: u.unitId!,
+            name: unit?.name ?? "Deleted unit",
+            projectName: project?.name,
+            views: u.count,
+            sessions: u.sessions,
+            dwellMs: u.dwellMs,
+          };
+        })
+    );
+
+    const zones = new Map<string, ZoneStats>();
+    for (const kind of ["zone_click", "zone_hover"] as const) {
+      for (const row of await read(kind)) {
+        const z = zones.get(row.key) ?? {
+          projectId: row.projectId,
+          phaseId: row.phaseId,
+          zoneId: row.zoneId ?? row.key,
+          label: row.label ?? row.zoneId ?? row.key,
+          clicks: 0,
+          hovers: 0,
+        };
+        if (kind === "zone_click") z.clicks += row.count;
+        else z.hovers += row.count;
+        zones.set(row.key, z);
+      }
+    }
+    const topZones = await Promise.all(
+      [...zones.values()]
+        .sort((a, b) => b.clicks - a.clicks || b.hovers - a.hovers)
+        .slice(0, TOP_N)
+        .map(async (z) => {
+          const plan = z.phaseId
+            ? (await ctx.db.get(z.phaseId))?.name
+            : z.projectId && `${(await ctx.db.get(z.projectId))?.name ?? "Project"} master plan`;
+          return { ...z, plan: plan ?? "Deleted plan" };
+        })
+    );
+
+    // Site-wide, the same media in two projects has a row per project
+    const media = new Map<string, { url: string; label?: string; unitId?: Id<"project_units">; views: number; dwellMs: number }>();
+    for (const row of await read("media")) {
+      const url = row.url ?? row.key;
+      const m = media.get(url) ?? { url, label: row.label, unitId: row.unitId, views: 0, dwellMs: 0 };
+      m.views += row.count;
+      m.dwellMs += row.dwellMs;
+      media.set(url, m);
+    }
+
+    const tabs = new Map<string, number>();
+    for (const row of await read("tab")) {
+      const label = row.label ?? row.key;
+      tabs.set(label, (tabs.get(label) ?? 0) + row.count);
+    }
+
+    return {
+      sessions,
+      counts,
+      topUnits,
+      topZones,
+      topMedia: [...media.values()].sort((a, b) => b.dwellMs - a.dwellMs).slice(0, TOP_N),
+      topPanoramas: (await read("panorama"))
+        .map((p) => ({ label: p.label ?? p.key, opens: p.count }))
+        .sort((a, b) => b.opens - a.opens)
+        .slice(0, TOP_N),
+      tabs: [...tabs.entries()]
+        .map(([label, switches]) => ({ label, switches }))
+        .sort((a, b) => b.switches - a.switches),
+    };
+  },
+});
+
+// ─── Zone heatmap ─────────────────────────────────────────────────────────────
+
+/**
+ * Zone engagement on one plan for the admin heatmap: pass `phaseId` for a
+ * phase plan, or only `projectId` for the project's master plan.
+ */
+export const zoneHeatmap = query({
+  args: {
+    projectId: v.optional(v.id("projects")),
+    phaseId: v.optional(v.id("project_phases")),
+    metric: v.union(v.literal("clicks"), v.literal("hovers")),
+    from: v.number(),
+    to: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    assertReportRange(args.from, args.to);
+    const kind = args.metric === "clicks" ? "zone_click" : "zone_hover";
+
+    let rows: Doc<"event_counters">[];
+    if (args.phaseId) {
+      rows = [...(await readCounters(ctx, kind, args.from, args.to, { phaseId: args.phaseId })).values()];
+    } else if (args.projectId) {
+      // Master plan zone counters are the project's counters without a phase
+      rows = [...(await readCounters(ctx, kind, args.from, args.to, { projectId: args.projectId })).values()]
+        .filter((row) => row.phaseId === undefined);
+    } else {
+      throw new ConvexError({ message: "Pick a project or a phase" });
+    }
+
+    const counts: Record<string, number> = {};
+    let total = 0;
+    for (const row of rows) {
+      if (!row.zoneId) continue;
+      counts[row.zoneId] = (counts[row.zoneId] ?? 0) + row.count;
+      total += row.count;
+    }
+    return { counts, total, max: Math.max(0, ...Object.values(counts)) };
+  },
+});
@@ -1,10 +1,14 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { requirePermission } from "./lib/auth";
+import { collectStorageUrls, FILE_TABLES } from "./lib/cascade";
 
 /** Generate a short-lived upload URL for client-side file uploads to Convex storage */
 export const generateUploadUrl = mutation({
   args: {},
   handler: async (ctx) => {
+    await requirePermission(ctx, "content.edit");
     return await ctx.storage.generateUploadUrl();
   },
 });
@@ -13,6 +17,7 @@ export const generateUploadUrl = mutation({
 export const getUrl = mutation({
   args: { storageId: v.id("_storage") },
   handler: async (ctx, args) => {
+    await requirePermission(ctx, "content.edit");
     return await ctx.storage.getUrl(args.storageId);
   },
 });
@@ -29,6 +34,7 @@ export const getUrlQuery = query({
 export const deleteFile = mutation({
   args: { storageId: v.id("_storage") },
   handler: async (ctx, args) => {
+    await requirePermission(ctx, "content.edit");
     try {
       await ctx.storage.delete(args.storageId);
       return { success: true };
@@ -37,3 +43,47 @@ export const deleteFile = mutation({
     }
   },
 });
+
+/**
+ * Clean up files a client uploaded for something it then failed to save.
+ * Only files no document uses are deleted, so passing a URL that is in use
+ * does nothing.
+ */
+export const discardUploads = mutation({
+  args: { urls: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "content.edit");
+    if (args.urls.length > 0) await ctx.scheduler.runAfter(0, internal.files.deleteUnreferenced, { urls: args.urls });
+  },
+});
+
+/**
+ * Delete the stored files behind `urls` unless some document still uses them.
+ * Scheduled after cascading deletes. Content only keeps the served URL, whose
+ * last segment is not the `_storage` id, so ids are resolved by matching each
+ * stored file's ctx.storage.getUrl. Both scans stop as soon as nothing is left
+ * to look for.
+ */
+export const deleteUnreferenced = internalMutation({
+  args: { urls: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const orphaned = new Set(args.urls);
+    for (const table of FILE_TABLES) {
+      for await (const doc of ctx.db.query(table)) {
+        if (orphaned.size === 0) return { deleted: 0 };
+        for (const url of collectStorageUrls(doc)) orphaned.delete(url);
+      }
+    }
+
+    let deleted = 0;
+    for await (const file of ctx.db.system.query("_storage")) {
+      if (orphaned.size === 0) break;
+      const url = await ctx.storage.getUrl(file._id);
+      if (url && orphaned.delete(url)) {
+        await ctx.storage.delete(file._id);
+        deleted++;
+      }
+    }
+    return { deleted };
+  },
+});
@@ -1,5 +1,7 @@
 import { query, mutation } from "./_generated/server";
 import { v } from "convex/values";
+import { requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
 
 /** Get the homepage content document (single row) */
 export const get = query({
@@ -24,12 +26,29 @@ export const upsert = mutation({
     cta_bg: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "homepage.edit");
     const existing = await ctx.db.query("homepage_content").collect();
     if (existing[0]) {
       await ctx.db.patch(existing[0]._id, args);
+      await logAudit(ctx, {
+        actor,
+        entityType: "homepage_content",
+        entityId: existing[0]._id,
+        action: "update",
+        before: existing[0],
+        after: await ctx.db.get(existing[0]._id),
+      });
       return existing[0]._id;
     } else {
-      return await ctx.db.insert("homepage_content", args);
+      const id = await ctx.db.insert("homepage_content", args);
+      await logAudit(ctx, {
+        actor,
+        entityType: "homepage_content",
+        entityId: id,
+        action: "create",
+        after: args,
+      });
+      return id;
     }
   },
 });
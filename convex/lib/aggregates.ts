@@ -0,0 +1,87 @@
+import { Infer, v } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import { MutationCtx } from "../_generated/server";
+import { isPublished } from "./publication";
+import { isLive } from "./softDelete";
+
+/**
+ * Figures shown on the public site that are derived from other rows rather
+ * than typed in: a project's price/bedroom/area ranges and its phases' unit
+ * counts come from its units, and a location's project count from projects.
+ * Only live, published rows count, so nothing hidden leaks into them.
+ *
+ * Every mutation that creates, edits, trashes, restores or (un)publishes a
+ * unit or project calls the matching refresh below before returning.
+ */
+
+/**
+ * What a project's figures were taken from:
+ * "available" — its available units;
+ * "all"       — every unit, because none is available any more;
+ * "none"      — nothing yet, the project has no published units.
+ * Unset on rows entered by hand before the figures were derived.
+ */
+export const statsBasisValidator = v.union(
+  v.literal("available"),
+  v.literal("all"),
+  v.literal("none")
+);
+export type StatsBasis = Infer<typeof statsBasisValidator>;
+
+type UnitLike = Pick<Doc<"project_units">, "status" | "price" | "bedrooms" | "area_sqft">;
+
+/** The project range fields for a set of public units */
+export function projectStats(units: UnitLike[]) {
+  const available = units.filter((u) => u.status === "available");
+  const basis: StatsBasis = available.length > 0 ? "available" : units.length > 0 ? "all" : "none";
+  const pool = available.length > 0 ? available : units;
+  const range = (values: number[]) => (values.length > 0 ? [Math.min(...values), Math.max(...values)] : [0, 0]);
+  const [price_from] = range(pool.map((u) => u.price));
+  const [bedrooms_min, bedrooms_max] = range(pool.map((u) => u.bedrooms));
+  const [area_from, area_to] = range(pool.map((u) => u.area_sqft));
+  return { price_from, bedrooms_min, bedrooms_max, area_from, area_to, stats_basis: basis };
+}
+
+/** Patch only the fields that changed, so unchanged figures don't re-render every subscriber */
+async function patchIfChanged<T extends "projects" | "project_phases" | "locations">(
+  ctx: MutationCtx,
+  doc: Doc<T>,
+  fields: Partial<Doc<T>>
+) {
+  const changed = Object.entries(fields).filter(([key, value]) => doc[key as keyof Doc<T>] !== value);
+  if (changed.length > 0) await ctx.db.patch(doc._id, Object.fromEntries(changed) as Partial<Doc<T>>);
+}
+
+/** Recompute a project's ranges and its phases' unit counts */
+export async function refreshProjectStats(ctx: MutationCtx, projectId: Id<"projects">) {
+  const project = await ctx.db.get(projectId);
+  if (!project) return;
+  const [phases, units] = await Promise.all([
+    ctx.db.query("project_phases").withIndex("by_project", (q) => q.eq("projectId", projectId)).collect(),
+    ctx.db.query("project_units").withIndex("by_project", (q) => q.eq("projectId", projectId)).collect(),
+  ]);
+  const counted = units.filter((u) => isLive(u) && isPublished(u));
+
+  await patchIfChanged(ctx, project, projectStats(counted));
+  for (const phase of phases) {
+    const inPhase = counted.filter((u) => u.phaseId === phase._id);
+    await patchIfChanged(ctx, phase, {
+      total_units: inPhase.length,
+      available_units: inPhase.filter((u) => u.status === "available").length,
+    });
+  }
+}
+
+/** Recompute projects_count on every location */
+export async function refreshLocationCounts(ctx: MutationCtx) {
+  const [locations, projects] = await Promise.all([
+    ctx.db.query("locations").collect(),
+    ctx.db.query("projects").collect(),
+  ]);
+  const counted = projects.filter((p) => isLive(p) && isPublished(p));
+  for (const location of locations) {
+    await patchIfChanged(ctx, location, {
+      projects_count: counted.filter((p) => p.locationId === location._id).length,
+    });
+  }
+}
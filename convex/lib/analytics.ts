@@ -0,0 +1,37 @@
+// Time bucketing shared by the admin analytics queries. Buckets are in UTC so
+// the same range always yields the same series regardless of server locale.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BucketSize = "day" | "week" | "month";
+
+/** Pick a granularity that keeps a chart between roughly 7 and 60 bars */
+export function bucketSizeFor(from: number, to: number): BucketSize {
+  const days = (to - from) / DAY_MS;
+  if (days <= 62) return "day";
+  if (days <= 366) return "week";
+  return "month";
+}
+
+/** Start of the bucket containing `ts` (weeks start on Monday) */
+export function bucketStart(ts: number, size: BucketSize): number {
+  const d = new Date(ts);
+  if (size === "month") return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1);
+  const day = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+  if (size === "day") return day;
+  return day - ((d.getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+export function nextBucket(start: number, size: BucketSize): number {
+  if (size === "day") return start + DAY_MS;
+  if (size === "week") return start + 7 * DAY_MS;
+  const d = new Date(start);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+}
+
+/** Every bucket start covering [from, to], oldest first */
+export function bucketStarts(from: number, to: number, size: BucketSize): number[] {
+  const starts: number[] = [];
+  for (let s = bucketStart(from, size); s <= to; s = nextBucket(s, size)) starts.push(s);
+  return starts;
+}
@@ -0,0 +1,87 @@
+import { Infer, v } from "convex/values";
+import { Doc } from "../_generated/dataModel";
+import { MutationCtx } from "../_generated/server";
+
+export const auditEntityTypeValidator = v.union(
+  v.literal("project"),
+  v.literal("project_phase"),
+  v.literal("project_unit"),
+  v.literal("project_building"),
+  v.literal("location"),
+  v.literal("homepage_content"),
+  v.literal("contact_submission"),
+  v.literal("admin_user"),
+  v.literal("admin_invitation"),
+);
+
+export const auditActionValidator = v.union(
+  v.literal("create"),
+  v.literal("update"),
+  v.literal("delete"),   // soft delete — moved to the trash
+  v.literal("restore"),  // brought back from the trash
+  v.literal("purge"),    // permanently removed
+);
+
+export const auditChangeValidator = v.object({
+  field: v.string(),
+  before: v.optional(v.any()),
+  after: v.optional(v.any()),
+});
+
+export type AuditEntityType = Infer<typeof auditEntityTypeValidator>;
+export type AuditAction = Infer<typeof auditActionValidator>;
+export type AuditChange = Infer<typeof auditChangeValidator>;
+
+// Convex system fields never count as a content change
+const IGNORED_FIELDS = new Set(["_id", "_creationTime"]);
+
+/** Field-level diff of two document snapshots (either side may be missing) */
+export function diffFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChange[] {
+  const prev = before ?? {};
+  const next = after ?? {};
+  const fields = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  const changes: AuditChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    if (JSON.stringify(prev[field]) === JSON.stringify(next[field])) continue;
+    changes.push({ field, before: prev[field], after: next[field] });
+  }
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
+
+/**
+ * Record an admin change in audit_log. Pass the document as it was before
+ * and after the write; updates that change nothing are not logged.
+ * `actor` is null for scheduled jobs such as the trash purge.
+ */
+export async function logAudit(
+  ctx: MutationCtx,
+  entry: {
+    actor: Doc<"admin_users"> | null;
+    entityType: AuditEntityType;
+    entityId: string;
+    action: AuditAction;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+  }
+) {
+  const changes = diffFields(entry.before, entry.after);
+  if (entry.action === "update" && changes.length === 0) return;
+
+  const snapshot = entry.after ?? entry.before;
+  const label = snapshot?.name ?? snapshot?.full_name ?? snapshot?.email;
+
+  await ctx.db.insert("audit_log", {
+    actorId: entry.actor?._id,
+    actorName: entry.actor?.name ?? "System",
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    entityLabel: typeof label === "string" ? label : undefined,
+    action: entry.action,
+    changes,
+    createdAt: Date.now(),
+  });
+}
@@ -0,0 +1,50 @@
+import { ConvexError } from "convex/values";
+import { Doc } from "../_generated/dataModel";
+import { QueryCtx } from "../_generated/server";
+import { hasPermission, Permission } from "./permissions";
+
+export type AuthErrorCode = "UNAUTHENTICATED" | "FORBIDDEN";
+
+/** Typed error thrown when a caller may not run an admin function */
+export type AuthError = { code: AuthErrorCode; message: string };
+
+export function authError(code: AuthErrorCode, message: string) {
+  return new ConvexError<AuthError>({ code, message });
+}
+
+/** Look up the admin_users row for the signed-in Clerk user, if any */
+export async function getCurrentAdmin(ctx: QueryCtx): Promise<Doc<"admin_users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+  return await ctx.db
+    .query("admin_users")
+    .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+    .unique();
+}
+
+/**
+ * Resolve the caller via ctx.auth and make sure they are in admin_users.
+ * Every admin query and mutation calls this before touching data.
+ */
+export async function requireAdmin(ctx: QueryCtx): Promise<Doc<"admin_users">> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw authError("UNAUTHENTICATED", "You must be signed in");
+  const admin = await ctx.db
+    .query("admin_users")
+    .withIndex("by_clerk_id", (q) => q.eq("clerkUserId", identity.subject))
+    .unique();
+  if (!admin) throw authError("FORBIDDEN", "Admin access required");
+  return admin;
+}
+
+/** Like requireAdmin, but also checks the caller's role grants `permission` */
+export async function requirePermission(
+  ctx: QueryCtx,
+  permission: Permission
+): Promise<Doc<"admin_users">> {
+  const admin = await requireAdmin(ctx);
+  if (!hasPermission(admin.role, permission)) {
+    throw authError("FORBIDDEN", "Your role does not allow this action");
+  }
+  return admin;
+}
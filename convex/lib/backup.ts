@@ -0,0 +1,68 @@
+import { v } from "convex/values";
+import { Doc } from "../_generated/dataModel";
+
+/**
+ * Portable project bundles: a project with its phases, buildings and units
+ * as one versioned JSON manifest. Documents keep their original `_id` so the
+ * references between them (phaseId, buildingId, zone links) can be remapped
+ * to fresh ids on restore. The project's location is not part of the bundle;
+ * it travels as a slug and is looked up again on restore.
+ */
+
+export const BUNDLE_FORMAT = "kelani-project-bundle";
+export const BUNDLE_VERSION = 1;
+
+type Exported<T> = Omit<T, "_creationTime" | "deletedAt" | "projectId">;
+
+export type BundleProject = Omit<Exported<Doc<"projects">>, "locationId"> & { locationSlug?: string };
+export type BundlePhase = Exported<Doc<"project_phases">>;
+export type BundleBuilding = Exported<Doc<"project_buildings">>;
+export type BundleUnit = Exported<Doc<"project_units">>;
+
+/**
+ * A stored file carried inside the bundle. `url` is the served URL on the
+ * source deployment, which is how the documents refer to it.
+ */
+export type BundleFile = { url: string; contentType: string; data: string }; // base64
+
+export type ProjectBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  project: BundleProject;
+  phases: BundlePhase[];
+  buildings: BundleBuilding[];
+  units: BundleUnit[];
+  files?: BundleFile[];
+};
+
+// Ids from another deployment would not pass v.id(), so the documents travel
+// as plain values and restore checks them against the schema instead
+export const bundleValidator = v.object({
+  format: v.literal(BUNDLE_FORMAT),
+  version: v.number(),
+  exportedAt: v.number(),
+  project: v.any(),
+  phases: v.array(v.any()),
+  buildings: v.array(v.any()),
+  units: v.array(v.any()),
+});
+
+/** Drop the fields a bundle never carries */
+export function toBundleDoc<T extends { _creationTime: number; deletedAt?: number; projectId?: unknown }>(
+  doc: T
+): Exported<T> {
+  const { _creationTime: _c, deletedAt: _d, projectId: _p, ...rest } = doc;
+  return rest as Exported<T>;
+}
+
+/** Slugs used more than once in a list */
+export function duplicateSlugs(docs: { slug: string }[]) {
+  const seen = new Set<string>();
+  const dupes = new Set<string>();
+  for (const { slug } of docs) {
+    if (seen.has(slug)) dupes.add(slug);
+    seen.add(slug);
+  }
+  return [...dupes];
+}
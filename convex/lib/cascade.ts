@@ -0,0 +1,289 @@
+import { Doc, Id } from "../_generated/dataModel";
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { logAudit } from "./audit";
+import { purgeUnitReservations, UnitStatus } from "./reservations";
+import { isLive } from "./softDelete";
+
+// Every URL handed out by ctx.storage.getUrl contains this path segment
+const STORAGE_PATH = "/api/storage/";
+
+// Tables whose documents may hold Convex storage URLs
+export const FILE_TABLES = [
+  "projects",
+  "project_phases",
+  "project_buildings",
+  "project_units",
+  "locations",
+  "homepage_content",
+] as const;
+
+/** Collect every Convex storage URL found anywhere inside a document */
+export function collectStorageUrls(value: unknown, into: Set<string> = new Set()): Set<string> {
+  if (typeof value === "string") {
+    if (value.includes(STORAGE_PATH)) into.add(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectStorageUrls(item, into);
+  } else if (value && typeof value === "object") {
+    for (const item of Object.values(value)) collectStorageUrls(item, into);
+  }
+  return into;
+}
+
+/** What happens to a phase's units when the phase is deleted */
+export type UnitMode = "detach" | "delete";
+
+// ─── Dry-run plans ────────────────────────────────────────────────────────────
+
+/** Everything deleting a project would take with it, without touching anything */
+export async function planProjectDeletion(ctx: QueryCtx, projectId: Id<"projects">) {
+  const project = await ctx.db.get(projectId);
+  if (!project) return null;
+  const [phases, buildings, units] = await Promise.all([
+    ctx.db
+      .query("project_phases")
+      .withIndex("by_project", (q) => q.eq("projectId", projectId))
+      .collect(),
+    ctx.db
+      .query("project_buildings")
+      .withIndex("by_project", (q) => q.eq("projectId", projectId))
+      .collect(),
+    ctx.db
+      .query("project_units")
+      .withIndex("by_project", (q) => q.eq("projectId", projectId))
+      .collect(),
+  ]);
+  const fileUrls = collectStorageUrls([project, phases, buildings, units]);
+  return { project, phases, buildings, units, fileUrls: [...fileUrls] };
+}
+
+/**
+ * Everything deleting a phase would touch: the phase itself, its live units
+ * (detached or deleted) and the master plan zones that link to it.
+ */
+export async function planPhaseDeletion(
+  ctx: QueryCtx,
+  phaseId: Id<"project_phases">,
+  unitMode: UnitMode
+) {
+  const phase = await ctx.db.get(phaseId);
+  if (!phase) return null;
+  const project = await ctx.db.get(phase.projectId);
+  const units = (
+    await ctx.db
+      .query("project_units")
+      .withIndex("by_phase", (q) => q.eq("phaseId", phaseId))
+      .collect()
+  ).filter(isLive);
+  const linkedZones = (project?.master_plan_zones ?? []).filter((z) => z.phaseId === phaseId);
+  const fileUrls = collectStorageUrls(unitMode === "delete" ? [phase, units] : phase);
+  return { phase, project, units, linkedZones, fileUrls: [...fileUrls] };
+}
+
+// ─── Reference clean-up ───────────────────────────────────────────────────────
+
+/** Unlink master plan zones that point at a phase that is going away */
+export async function unlinkPhaseFromMasterPlan(
+  ctx: MutationCtx,
+  project: Doc<"projects">,
+  phaseId: Id<"project_phases">
+) {
+  const zones = project.master_plan_zones ?? [];
+  if (!zones.some((z) => z.phaseId === phaseId)) return;
+  await ctx.db.patch(project._id, {
+    master_plan_zones: zones.map((zone) => {
+      if (zone.phaseId !== phaseId) return zone;
+      const { phaseId: _removed, ...rest } = zone;
+      return rest;
+    }),
+  });
+}
+
+/**
+ * Unlink phase plan and building floor plan zones that point at deleted units.
+ * Freed zones keep the unit's last status as their manual status.
+ */
+export async function unlinkUnitsFromZones(
+  ctx: MutationCtx,
+  projectId: Id<"projects">,
+  units: Doc<"project_units">[]
+) {
+  if (units.length === 0) return;
+  const deleted = new Map(units.map((u) => [u._id, u.status]));
+  const isDeleted = (id?: Id<"project_units">) => id !== undefined && deleted.has(id);
+  const unlink = <Z extends { unitId?: Id<"project_units">; status?: UnitStatus }>(zone: Z) => {
+    if (!isDeleted(zone.unitId)) return zone;
+    const { unitId, ...rest } = zone;
+    return { ...rest, status: deleted.get(unitId!) };
+  };
+
+  const phases = await ctx.db
+    .query("project_phases")
+    .withIndex("by_project", (q) => q.eq("projectId", projectId))
+    .collect();
+  for (const phase of phases) {
+    const zones = phase.phase_unit_zones ?? [];
+    if (!zones.some((z) => isDeleted(z.unitId))) continue;
+    await ctx.db.patch(phase._id, { phase_unit_zones: zones.map(unlink) });
+  }
+
+  const buildings = await ctx.db
+    .query("project_buildings")
+    .withIndex("by_project", (q) => q.eq("projectId", projectId))
+    .collect();
+  for (const building of buildings) {
+    const zones = building.floor_plan_zones ?? [];
+    if (!zones.some((z) => isDeleted(z.unitId))) continue;
+    await ctx.db.patch(building._id, { floor_plan_zones: zones.map(unlink) });
+  }
+}
+
+// ─── Permanent removal (trash purge) ─────────────────────────────────────────
+
+type Actor = Doc<"admin_users"> | null;
+
+/** Enquiries outlive what they were about; drop their links to purged rows */
+async function unlinkSubmissions(
+  ctx: MutationCtx,
+  ids: { projectId?: Id<"projects">; phaseId?: Id<"project_phases">; unitId?: Id<"project_units"> }
+) {
+  if (ids.projectId) {
+    const rows = await ctx.db
+      .query("contact_submissions")
+      .withIndex("by_project", (q) => q.eq("projectId", ids.projectId))
+      .collect();
+    for (const row of rows) await ctx.db.patch(row._id, { projectId: undefined });
+  }
+  if (ids.phaseId) {
+    const rows = await ctx.db
+      .query("contact_submissions")
+      .withIndex("by_phase", (q) => q.eq("phaseId", ids.phaseId))
+      .collect();
+    for (const row of rows) await ctx.db.patch(row._id, { phaseId: undefined });
+  }
+  if (ids.unitId) {
+    const rows = await ctx.db
+      .query("contact_submissions")
+      .withIndex("by_unit", (q) => q.eq("unitId", ids.unitId))
+      .collect();
+    for (const row of rows) await ctx.db.patch(row._id, { unitId: undefined });
+  }
+}
+
+/** Delete units one by one so each removal lands in the audit log */
+export async function purgeUnits(ctx: MutationCtx, actor: Actor, units: Doc<"project_units">[]) {
+  for (const unit of units) {
+    await purgeUnitReservations(ctx, unit._id);
+    await unlinkSubmissions(ctx, { unitId: unit._id });
+    await ctx.db.delete(unit._id);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_unit",
+      entityId: unit._id,
+      action: "purge",
+      before: unit,
+    });
+  }
+}
+
+/** Schedule storage clean-up for files the removed documents pointed at */
+async function scheduleFileCleanup(ctx: MutationCtx, docs: unknown) {
+  const urls = [...collectStorageUrls(docs)];
+  if (urls.length > 0) {
+    await ctx.scheduler.runAfter(0, internal.files.deleteUnreferenced, { urls });
+  }
+}
+
+/** Permanently delete a project with its phases, buildings and units */
+export async function purgeProject(ctx: MutationCtx, actor: Actor, projectId: Id<"projects">) {
+  const plan = await planProjectDeletion(ctx, projectId);
+  if (!plan) return;
+
+  await purgeUnits(ctx, actor, plan.units);
+  for (const phase of plan.phases) {
+    await unlinkSubmissions(ctx, { phaseId: phase._id });
+    await ctx.db.delete(phase._id);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_phase",
+      entityId: phase._id,
+      action: "purge",
+      before: phase,
+    });
+  }
+  for (const building of plan.buildings) {
+    await ctx.db.delete(building._id);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_building",
+      entityId: building._id,
+      action: "purge",
+      before: building,
+    });
+  }
+  await unlinkSubmissions(ctx, { projectId });
+  await ctx.db.delete(projectId);
+  await logAudit(ctx, {
+    actor,
+    entityType: "project",
+    entityId: projectId,
+    action: "purge",
+    before: plan.project,
+  });
+  await scheduleFileCleanup(ctx, [plan.project, plan.phases, plan.buildings, plan.units]);
+}
+
+/**
+ * Permanently delete a phase. Units trashed together with it are purged too;
+ * any other units still pointing at it (trashed on their own earlier) are
+ * detached and kept at project level.
+ */
+export async function purgePhase(ctx: MutationCtx, actor: Actor, phaseId: Id<"project_phases">) {
+  const phase = await ctx.db.get(phaseId);
+  if (!phase) return;
+  const units = await ctx.db
+    .query("project_units")
+    .withIndex("by_phase", (q) => q.eq("phaseId", phaseId))
+    .collect();
+  const trashedWithPhase = units.filter(
+    (u) => phase.deletedAt !== undefined && u.deletedAt === phase.deletedAt
+  );
+  const kept = units.filter((u) => !trashedWithPhase.includes(u));
+
+  await purgeUnits(ctx, actor, trashedWithPhase);
+  await unlinkUnitsFromZones(ctx, phase.projectId, trashedWithPhase);
+  for (const unit of kept) {
+    await ctx.db.patch(unit._id, { phaseId: undefined });
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_unit",
+      entityId: unit._id,
+      action: "update",
+      before: unit,
+      after: await ctx.db.get(unit._id),
+    });
+  }
+
+  const project = await ctx.db.get(phase.projectId);
+  if (project) await unlinkPhaseFromMasterPlan(ctx, project, phaseId);
+
+  await unlinkSubmissions(ctx, { phaseId });
+  await ctx.db.delete(phaseId);
+  await logAudit(ctx, {
+    actor,
+    entityType: "project_phase",
+    entityId: phaseId,
+    action: "purge",
+    before: phase,
+  });
+  await scheduleFileCleanup(ctx, [phase, trashedWithPhase]);
+}
+
+/** Permanently delete a unit and unlink the zones that pointed at it */
+export async function purgeUnit(ctx: MutationCtx, actor: Actor, unitId: Id<"project_units">) {
+  const unit = await ctx.db.get(unitId);
+  if (!unit) return;
+  await purgeUnits(ctx, actor, [unit]);
+  await unlinkUnitsFromZones(ctx, unit.projectId, [unit]);
+  await scheduleFileCleanup(ctx, unit);
+}
@@ -0,0 +1,185 @@
+// Per-day and per-month totals of the visitor events, kept up to date by
+// `events.track` so the visitor report and zone heatmap never read raw events.
+//
+// Keys, unique per bucket and kind:
+//   event       `<project id>:<type>`              (project id empty when unset)
+//   session     "all", or the project id
+//   unit        the unit id
+//   zone_*      `<phase id or project id>:<zone id>`
+//   media       `<project id>:<url>`
+//   panorama    `<unit, phase or project id>:<label>`
+//   tab         `<project id>:<label>`
+
+import { ConvexError } from "convex/values";
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { bucketStart, nextBucket } from "./analytics";
+import { CounterBucket, CounterKind, MAX_REPORT_RANGE_MS } from "./events";
+
+const BUCKETS: CounterBucket[] = ["day", "month"];
+
+type CountedEvent = Pick<
+  Doc<"events">,
+  "type" | "sessionId" | "projectId" | "phaseId" | "unitId" | "zoneId" | "label" | "url" | "durationMs" | "createdAt"
+>;
+type Fields = Pick<Doc<"event_counters">, "projectId" | "phaseId" | "unitId" | "zoneId" | "label" | "url">;
+type Totals = { count: number; sessions: number; dwellMs: number };
+
+/**
+ * Add events to the counters. A batch is summed in memory first, so each
+ * counter row is written once per call however many events it covers.
+ */
+export async function countEvents(ctx: MutationCtx, events: CountedEvent[]) {
+  const pending = new Map<string, { bucket: CounterBucket; start: number; kind: CounterKind; key: string; fields: Fields } & Totals>();
+  const seen = new Map<string, boolean>();
+
+  // True the first time a session shows up in a scope during the bucket
+  const firstVisit = async (bucket: CounterBucket, start: number, scope: string, sessionId: string) => {
+    const id = `${bucket}:${start}:${scope}:${sessionId}`;
+    if (seen.has(id)) return false;
+    const existing = await ctx.db
+      .query("event_sessions")
+      .withIndex("by_scope", (q) =>
+        q.eq("bucket", bucket).eq("start", start).eq("scope", scope).eq("sessionId", sessionId)
+      )
+      .unique();
+    if (!existing) await ctx.db.insert("event_sessions", { bucket, start, scope, sessionId });
+    seen.set(id, true);
+    return !existing;
+  };
+
+  for (const e of events) {
+    for (const bucket of BUCKETS) {
+      const start = bucketStart(e.createdAt, bucket);
+      const add = (kind: CounterKind, key: string, fields: Fields, totals: Partial<Totals>) => {
+        const id = `${bucket}:${start}:${kind}:${key}`;
+        const row = pending.get(id) ?? { bucket, start, kind, key, fields, count: 0, sessions: 0, dwellMs: 0 };
+        row.count += totals.count ?? 0;
+        row.sessions += totals.sessions ?? 0;
+        row.dwellMs += totals.dwellMs ?? 0;
+        pending.set(id, row);
+      };
+      const project = e.projectId ?? "";
+
+      add("event", `${project}:${e.type}`, { projectId: e.projectId, label: e.type }, { count: 1 });
+      if (await firstVisit(bucket, start, "all", e.sessionId)) add("session", "all", {}, { count: 1 });
+      if (e.projectId && (await firstVisit(bucket, start, e.projectId, e.sessionId))) {
+        add("session", e.projectId, { projectId: e.projectId }, { count: 1 });
+      }
+
+      if (e.type === "page_view" && e.unitId) {
+        const visitor = await firstVisit(bucket, start, `unit:${e.unitId}`, e.sessionId);
+        add("unit", e.unitId, { projectId: e.projectId, unitId: e.unitId }, { count: 1, sessions: visitor ? 1 : 0 });
+      } else if ((e.type === "zone_click" || e.type === "zone_hover") && e.zoneId) {
+        // Phase plan zones carry the phase; master plan zones only the project
+        add(e.type, `${e.phaseId ?? project}:${e.zoneId}`, {
+          projectId: e.projectId,
+          phaseId: e.phaseId,
+          zoneId: e.zoneId,
+          label: e.label ?? e.zoneId,
+        }, { count: 1 });
+      } else if (e.type === "media_dwell" && e.url) {
+        const dwellMs = e.durationMs ?? 0;
+        add("media", `${project}:${e.url}`, { projectId: e.projectId, unitId: e.unitId, label: e.label, url: e.url }, { count: 1, dwellMs });
+        if (e.unitId) add("unit", e.unitId, { projectId: e.projectId, unitId: e.unitId }, { dwellMs });
+      } else if (e.type === "panorama_open" && e.label) {
+        add("panorama", `${e.unitId ?? e.phaseId ?? project}:${e.label}`, {
+          projectId: e.projectId,
+          phaseId: e.phaseId,
+          unitId: e.unitId,
+          label: e.label,
+        }, { count: 1 });
+      } else if (e.type === "tab_switch" && e.label) {
+        add("tab", `${project}:${e.label}`, { projectId: e.projectId, label: e.label }, { count: 1 });
+      }
+    }
+  }
+
+  for (const p of pending.values()) {
+    const row = await ctx.db
+      .query("event_counters")
+      .withIndex("by_key", (q) => q.eq("bucket", p.bucket).eq("start", p.start).eq("kind", p.kind).eq("key", p.key))
+      .unique();
+    if (row) {
+      await ctx.db.patch(row._id, {
+        // Zones and media keep the most recent name they were tracked under
+        label: p.fields.label ?? row.label,
+        count: row.count + p.count,
+        sessions: row.sessions + p.sessions,
+        dwellMs: row.dwellMs + p.dwellMs,
+      });
+    } else {
+      await ctx.db.insert("event_counters", {
+        bucket: p.bucket,
+        start: p.start,
+        kind: p.kind,
+        key: p.key,
+        ...p.fields,
+        count: p.count,
+        sessions: p.sessions,
+        dwellMs: p.dwellMs,
+      });
+    }
+  }
+}
+
+export function assertReportRange(from: number, to: number) {
+  if (to < from || to - from > MAX_REPORT_RANGE_MS) {
+    throw new ConvexError({ message: "Pick a range of a year or less" });
+  }
+}
+
+/**
+ * [from, to] as counter spans: whole UTC months inside it come from the month
+ * rows and the days either side from the day rows. Both ends widen to whole
+ * UTC days.
+ */
+function spansFor(from: number, to: number): { bucket: CounterBucket; from: number; until: number }[] {
+  const first = bucketStart(from, "day");
+  const end = nextBucket(bucketStart(to, "day"), "day");
+  const monthFrom = first === bucketStart(first, "month") ? first : nextBucket(bucketStart(first, "month"), "month");
+  const monthUntil = bucketStart(end, "month");
+  if (monthFrom >= monthUntil) return [{ bucket: "day", from: first, until: end }];
+  return [
+    { bucket: "day", from: first, until: monthFrom },
+    { bucket: "month", from: monthFrom, until: monthUntil },
+    { bucket: "day", from: monthUntil, until: end },
+  ];
+}
+
+/**
+ * Counters of one kind over [from, to], summed per key. Pass `phaseId` for a
+ * phase's rows, `projectId` for a project's, or neither for the whole site.
+ */
+export async function readCounters(
+  ctx: QueryCtx,
+  kind: CounterKind,
+  from: number,
+  to: number,
+  scope: { projectId?: Id<"projects">; phaseId?: Id<"project_phases"> } = {}
+): Promise<Map<string, Doc<"event_counters">>> {
+  const totals = new Map<string, Doc<"event_counters">>();
+  for (const span of spansFor(from, to)) {
+    const rows = scope.phaseId
+      ? ctx.db.query("event_counters").withIndex("by_phase", (q) =>
+          q.eq("phaseId", scope.phaseId).eq("kind", kind).eq("bucket", span.bucket).gte("start", span.from).lt("start", span.until)
+        )
+      : scope.projectId
+        ? ctx.db.query("event_counters").withIndex("by_project", (q) =>
+            q.eq("projectId", scope.projectId).eq("kind", kind).eq("bucket", span.bucket).gte("start", span.from).lt("start", span.until)
+          )
+        : ctx.db.query("event_counters").withIndex("by_kind", (q) =>
+            q.eq("kind", kind).eq("bucket", span.bucket).gte("start", span.from).lt("start", span.until)
+          );
+    for await (const row of rows) {
+      const sum = totals.get(row.key);
+      totals.set(
+        row.key,
+        sum
+          ? { ...sum, label: row.label ?? sum.label, count: sum.count + row.count, sessions: sum.sessions + row.sessions, dwellMs: sum.dwellMs + row.dwellMs }
+          : row
+      );
+    }
+  }
+  return totals;
+}
@@ -0,0 +1,54 @@
+import { Infer, v } from "convex/values";
+
+// Visitor events recorded by the public viewers (see src/hooks/useTracker)
+export const eventTypeValidator = v.union(
+  v.literal("page_view"),       // a master plan, phase or unit viewer opened
+  v.literal("zone_hover"),      // pointer rested on a plan zone
+  v.literal("zone_click"),
+  v.literal("tab_switch"),      // label = the tab or media category
+  v.literal("panorama_open"),   // label = panorama name
+  v.literal("floor_plan_open"),
+  v.literal("media_dwell")      // url = media item, durationMs = time on screen
+);
+export type EventType = Infer<typeof eventTypeValidator>;
+
+/** One event as sent by the client tracker; the server stamps the time */
+export const trackedEventValidator = v.object({
+  type: eventTypeValidator,
+  projectId: v.optional(v.id("projects")),
+  phaseId: v.optional(v.id("project_phases")),
+  unitId: v.optional(v.id("project_units")),
+  zoneId: v.optional(v.string()),
+  label: v.optional(v.string()),
+  url: v.optional(v.string()),
+  durationMs: v.optional(v.number()),
+});
+export type TrackedEvent = Infer<typeof trackedEventValidator>;
+
+/** Largest batch a single `events.track` call accepts */
+export const MAX_EVENT_BATCH = 50;
+
+/** Dwell times above this are treated as an idle tab and clamped */
+export const MAX_DWELL_MS = 10 * 60 * 1000;
+
+// ─── Counters ─────────────────────────────────────────────────────────────────
+
+/** Counter rows are kept per UTC day and per UTC month */
+export const counterBucketValidator = v.union(v.literal("day"), v.literal("month"));
+export type CounterBucket = Infer<typeof counterBucketValidator>;
+
+// What an `event_counters` row counts; see lib/eventCounters for the keys
+export const counterKindValidator = v.union(
+  v.literal("event"),     // count = events of `label` type
+  v.literal("session"),   // count = sessions first seen in the bucket (site-wide, or in `projectId`)
+  v.literal("unit"),      // count = views, sessions = visitors, dwellMs = time on its media
+  v.literal("zone_click"),
+  v.literal("zone_hover"),
+  v.literal("media"),     // count = views, dwellMs = time on screen
+  v.literal("panorama"),  // count = opens
+  v.literal("tab")        // count = switches to `label`
+);
+export type CounterKind = Infer<typeof counterKindValidator>;
+
+/** Widest range the visitor report and heatmap accept */
+export const MAX_REPORT_RANGE_MS = 400 * 24 * 60 * 60 * 1000;
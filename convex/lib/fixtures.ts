@@ -0,0 +1,88 @@
+import { Infer, v } from "convex/values";
+import { publishStatusValidator } from "./publication";
+import { unitStatusValidator } from "./reservations";
+
+/**
+ * Fixture rows for `seed:importFixtures`. Parents are referenced by slug so
+ * the same files load into any deployment; see scripts/seed.mjs. Derived
+ * figures (price ranges, unit and project counts) are not part of a fixture.
+ */
+
+export const locationFixtureValidator = v.object({
+  name: v.string(),
+  slug: v.string(),
+  description: v.string(),
+  image_url: v.string(),
+  country: v.string(),
+  city: v.string(),
+});
+
+export const projectFixtureValidator = v.object({
+  name: v.string(),
+  slug: v.string(),
+  tagline: v.string(),
+  description: v.string(),
+  location: v.string(),
+  locationSlug: v.optional(v.string()), // the location entity the project is listed under
+  country: v.string(),
+  status: v.union(v.literal("ongoing"), v.literal("upcoming"), v.literal("completed")),
+  image_url: v.string(),
+  gallery: v.array(v.string()),
+  amenities: v.array(v.string()),
+  completion_date: v.string(),
+  featured: v.boolean(),
+  floor_plan_url: v.optional(v.string()),
+  video_url: v.optional(v.string()),
+  master_plan_url: v.optional(v.string()),
+  publishStatus: v.optional(publishStatusValidator),
+});
+
+export const phaseFixtureValidator = v.object({
+  project: v.string(), // project slug
+  name: v.string(),
+  slug: v.string(),
+  description: v.optional(v.string()),
+  thumbnail_url: v.optional(v.string()),
+  phase_plan_url: v.optional(v.string()),
+  displayOrder: v.optional(v.number()),
+  publishStatus: v.optional(publishStatusValidator),
+});
+
+export const unitFixtureValidator = v.object({
+  project: v.string(), // project slug
+  phase: v.optional(v.string()), // phase slug within the project
+  name: v.string(),
+  slug: v.string(),
+  description: v.optional(v.string()),
+  bedrooms: v.number(),
+  bathrooms: v.number(),
+  area_sqft: v.number(),
+  price: v.number(),
+  status: unitStatusValidator,
+  unit_type: v.optional(v.string()),
+  floor_number: v.optional(v.number()),
+  thumbnail_url: v.optional(v.string()),
+  amenities: v.optional(v.array(v.string())),
+  featured: v.optional(v.boolean()),
+  displayOrder: v.optional(v.number()),
+  publishStatus: v.optional(publishStatusValidator),
+});
+
+export type LocationFixture = Infer<typeof locationFixtureValidator>;
+export type ProjectFixture = Infer<typeof projectFixtureValidator>;
+export type PhaseFixture = Infer<typeof phaseFixtureValidator>;
+export type UnitFixture = Infer<typeof unitFixtureValidator>;
+
+export type FixtureTable = "locations" | "projects" | "phases" | "units";
+
+export type FixtureReport = Record<FixtureTable, { created: number; updated: number; unchanged: number }>;
+
+/** Fields of `next` whose value differs from `current` (deep, via JSON) */
+export function changedFields<T extends Record<string, unknown>>(current: Record<string, unknown>, next: T): Partial<T> {
+  const patch: Partial<T> = {};
+  for (const [key, value] of Object.entries(next) as [keyof T & string, T[keyof T]][]) {
+    if (value === undefined) continue;
+    if (JSON.stringify(current[key]) !== JSON.stringify(value)) patch[key] = value as T[typeof key];
+  }
+  return patch;
+}
@@ -0,0 +1,37 @@
+import { Infer, v } from "convex/values";
+
+/** Pipeline stages, in board order. Submissions without a status are "new". */
+export const LEAD_STATUSES = [
+  "new",
+  "contacted",
+  "site_visit",
+  "negotiating",
+  "won",
+  "lost",
+] as const;
+
+export const leadStatusValidator = v.union(
+  v.literal("new"),
+  v.literal("contacted"),
+  v.literal("site_visit"),
+  v.literal("negotiating"),
+  v.literal("won"),
+  v.literal("lost")
+);
+export type LeadStatus = Infer<typeof leadStatusValidator>;
+
+export const leadNoteValidator = v.object({
+  body: v.string(),
+  authorId: v.id("admin_users"),
+  authorName: v.string(),
+  createdAt: v.number(),
+});
+export type LeadNote = Infer<typeof leadNoteValidator>;
+
+/** What the visitor had on screen when they enquired from a viewer */
+export const leadViewingValidator = v.object({
+  kind: v.union(v.literal("plan"), v.literal("media"), v.literal("panorama")),
+  url: v.string(),
+  label: v.optional(v.string()), // media caption, category or panorama name
+});
+export type LeadViewing = Infer<typeof leadViewingValidator>;
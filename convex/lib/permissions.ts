@@ -0,0 +1,26 @@
+// Role → permission matrix. Pure data so the admin UI can import it too
+// and hide the actions the current role can't perform.
+
+export type AdminRole = "admin" | "super_admin";
+
+export type Permission =
+  | "content.edit"    // projects, phases, units, buildings, media, uploads
+  | "leads.manage"    // contact submissions and their status
+  | "projects.delete"
+  | "homepage.edit"
+  | "admins.manage";
+
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  admin: ["content.edit", "leads.manage"],
+  super_admin: [
+    "content.edit",
+    "leads.manage",
+    "projects.delete",
+    "homepage.edit",
+    "admins.manage",
+  ],
+};
+
+export function hasPermission(role: AdminRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
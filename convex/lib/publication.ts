@@ -0,0 +1,54 @@
+import { Infer, v } from "convex/values";
+import { Id } from "../_generated/dataModel";
+import { QueryCtx } from "../_generated/server";
+import { getCurrentAdmin } from "./auth";
+import { getLiveProjectBySlug, isLive } from "./softDelete";
+
+export const publishStatusValidator = v.union(
+  v.literal("draft"),
+  v.literal("scheduled"),
+  v.literal("published"),
+  v.literal("archived")
+);
+export type PublishStatus = Infer<typeof publishStatusValidator>;
+
+type Publishable = { deletedAt?: number; publishStatus?: PublishStatus };
+
+/** Rows created before the publishing workflow have no status and stay public */
+export function isPublished(doc: Publishable): boolean {
+  return (doc.publishStatus ?? "published") === "published";
+}
+
+/**
+ * Whether a read should include unpublished content. Admin screens and the
+ * preview pages opt in with `includeDrafts`; for anyone who is not an admin
+ * the flag is ignored and they get the public view.
+ */
+export async function canSeeDrafts(ctx: QueryCtx, includeDrafts: boolean | undefined) {
+  if (!includeDrafts) return false;
+  return (await getCurrentAdmin(ctx)) !== null;
+}
+
+/** Live, and published unless drafts are being shown */
+export function isVisible(doc: Publishable, drafts: boolean): boolean {
+  return isLive(doc) && (drafts || isPublished(doc));
+}
+
+/** Pass a db.get() result through, hiding rows the caller may not see */
+export function visibleOrNull<T extends Publishable>(doc: T | null, drafts: boolean): T | null {
+  return doc && isVisible(doc, drafts) ? doc : null;
+}
+
+/**
+ * Whether the project a phase, building or unit belongs to may be shown.
+ * Reads by id check this, so children of a hidden project stay hidden.
+ */
+export async function isProjectVisible(ctx: QueryCtx, projectId: Id<"projects">, drafts: boolean) {
+  const project = await ctx.db.get(projectId);
+  return !!project && isVisible(project, drafts);
+}
+
+/** getLiveProjectBySlug, also hiding unpublished projects from the public */
+export async function getVisibleProjectBySlug(ctx: QueryCtx, slug: string, drafts: boolean) {
+  return visibleOrNull(await getLiveProjectBySlug(ctx, slug), drafts);
+}
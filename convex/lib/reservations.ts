@@ -0,0 +1,83 @@
+import { Infer, v } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import { MutationCtx } from "../_generated/server";
+
+/** Holds placed from the public unit viewer last this long */
+export const BUYER_HOLD_MS = 48 * 60 * 60 * 1000;
+
+export const unitStatusValidator = v.union(
+  v.literal("available"),
+  v.literal("reserved"),
+  v.literal("sold")
+);
+export type UnitStatus = Infer<typeof unitStatusValidator>;
+
+export const reservationStatusValidator = v.union(
+  v.literal("active"),
+  v.literal("released"),  // let go early by an admin
+  v.literal("expired"),   // ran past expiresAt
+  v.literal("converted")  // turned into a sale
+);
+
+/** Why a unit's status changed, recorded in unit_status_history */
+export const unitStatusReasonValidator = v.union(
+  v.literal("created"),
+  v.literal("manual"),
+  v.literal("imported"),
+  v.literal("hold_placed"),
+  v.literal("hold_released"),
+  v.literal("hold_expired"),
+  v.literal("hold_converted")
+);
+export type UnitStatusReason = Infer<typeof unitStatusReasonValidator>;
+
+/**
+ * Set a unit's status and record the change in unit_status_history. Every
+ * status write goes through here so the history stays complete. No-ops when
+ * the status is unchanged, except for "created" which always records.
+ */
+export async function changeUnitStatus(
+  ctx: MutationCtx,
+  unit: Doc<"project_units">,
+  to: UnitStatus,
+  opts: {
+    reason: UnitStatusReason;
+    actor: Doc<"admin_users"> | null;
+    reservationId?: Id<"unit_reservations">;
+  }
+) {
+  const from = opts.reason === "created" ? undefined : unit.status;
+  if (from === to) return;
+  if (unit.status !== to) await ctx.db.patch(unit._id, { status: to });
+  await ctx.db.insert("unit_status_history", {
+    unitId: unit._id,
+    from,
+    to,
+    reason: opts.reason,
+    reservationId: opts.reservationId,
+    actorId: opts.actor?._id,
+    actorName: opts.actor?.name ?? "System",
+    createdAt: Date.now(),
+  });
+}
+
+/** The unit's active hold, if any */
+export async function getActiveReservation(ctx: MutationCtx, unitId: Id<"project_units">) {
+  return await ctx.db
+    .query("unit_reservations")
+    .withIndex("by_unit", (q) => q.eq("unitId", unitId).eq("status", "active"))
+    .first();
+}
+
+/** Drop a purged unit's reservations and status history */
+export async function purgeUnitReservations(ctx: MutationCtx, unitId: Id<"project_units">) {
+  const [reservations, history] = await Promise.all([
+    ctx.db.query("unit_reservations").withIndex("by_unit", (q) => q.eq("unitId", unitId)).collect(),
+    ctx.db.query("unit_status_history").withIndex("by_unit", (q) => q.eq("unitId", unitId)).collect(),
+  ]);
+  for (const r of reservations) {
+    if (r.status === "active" && r.expiryJobId) await ctx.scheduler.cancel(r.expiryJobId);
+    await ctx.db.delete(r._id);
+  }
+  for (const h of history) await ctx.db.delete(h._id);
+}
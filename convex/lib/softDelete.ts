@@ -0,0 +1,98 @@
+import { Doc } from "../_generated/dataModel";
+import { MutationCtx, QueryCtx } from "../_generated/server";
+
+/** Trashed projects, phases and units are purged for good after this long */
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+type SoftDeletable = { deletedAt?: number };
+
+/** True for rows that are not in the trash */
+export function isLive<T extends SoftDeletable>(doc: T): boolean {
+  return doc.deletedAt === undefined;
+}
+
+/** Pass a db.get() result through, hiding trashed rows */
+export function liveOrNull<T extends SoftDeletable>(doc: T | null): T | null {
+  return doc && isLive(doc) ? doc : null;
+}
+
+/** Look up a project by slug, skipping trashed projects that may share it */
+export async function getLiveProjectBySlug(ctx: QueryCtx, slug: string) {
+  return await ctx.db
+    .query("projects")
+    .withIndex("by_slug", (q) => q.eq("slug", slug))
+    .filter((q) => q.eq(q.field("deletedAt"), undefined))
+    .unique();
+}
+
+// ─── Trash / restore ──────────────────────────────────────────────────────────
+// Children trashed along with a parent share its exact deletedAt, so a restore
+// brings back what went with the parent and nothing that was deleted earlier.
+
+/** Trash a project and its live phases and units */
+export async function trashProject(ctx: MutationCtx, project: Doc<"projects">) {
+  const deletedAt = Date.now();
+  const [phases, units] = await Promise.all([
+    ctx.db
+      .query("project_phases")
+      .withIndex("by_project", (q) => q.eq("projectId", project._id))
+      .collect(),
+    ctx.db
+      .query("project_units")
+      .withIndex("by_project", (q) => q.eq("projectId", project._id))
+      .collect(),
+  ]);
+  for (const doc of [...phases, ...units]) {
+    if (isLive(doc)) await ctx.db.patch(doc._id, { deletedAt });
+  }
+  await ctx.db.patch(project._id, { deletedAt });
+}
+
+/** Trash a phase; its live units go with it when `withUnits` is set */
+export async function trashPhase(
+  ctx: MutationCtx,
+  phase: Doc<"project_phases">,
+  withUnits: boolean
+) {
+  const deletedAt = Date.now();
+  if (withUnits) {
+    const units = await ctx.db
+      .query("project_units")
+      .withIndex("by_phase", (q) => q.eq("phaseId", phase._id))
+      .collect();
+    for (const unit of units) {
+      if (isLive(unit)) await ctx.db.patch(unit._id, { deletedAt });
+    }
+  }
+  await ctx.db.patch(phase._id, { deletedAt });
+}
+
+/** Restore a trashed project with the phases and units trashed alongside it */
+export async function restoreProject(ctx: MutationCtx, project: Doc<"projects">) {
+  const [phases, units] = await Promise.all([
+    ctx.db
+      .query("project_phases")
+      .withIndex("by_project", (q) => q.eq("projectId", project._id))
+      .collect(),
+    ctx.db
+      .query("project_units")
+      .withIndex("by_project", (q) => q.eq("projectId", project._id))
+      .collect(),
+  ]);
+  for (const doc of [...phases, ...units]) {
+    if (doc.deletedAt === project.deletedAt) await ctx.db.patch(doc._id, { deletedAt: undefined });
+  }
+  await ctx.db.patch(project._id, { deletedAt: undefined });
+}
+
+/** Restore a trashed phase with the units trashed alongside it */
+export async function restorePhase(ctx: MutationCtx, phase: Doc<"project_phases">) {
+  const units = await ctx.db
+    .query("project_units")
+    .withIndex("by_phase", (q) => q.eq("phaseId", phase._id))
+    .collect();
+  for (const unit of units) {
+    if (unit.deletedAt === phase.deletedAt) await ctx.db.patch(unit._id, { deletedAt: undefined });
+  }
+  await ctx.db.patch(phase._id, { deletedAt: undefined });
+}
@@ -0,0 +1,210 @@
+import { Infer, v } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import { MutationCtx } from "../_generated/server";
+import { getActiveReservation, UnitStatus } from "./reservations";
+import { isLive } from "./softDelete";
+
+/** Units per import; keeps one apply inside a single transaction's limits */
+export const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * One spreadsheet row after column mapping. Cells arrive as raw text so the
+ * parsing and validation rules live here, next to the write. An empty cell
+ * leaves the field unchanged on an update.
+ */
+export const importRowValidator = v.object({
+  line: v.number(), // row number in the source file, for error messages
+  name: v.optional(v.string()),
+  slug: v.optional(v.string()),
+  bedrooms: v.optional(v.string()),
+  bathrooms: v.optional(v.string()),
+  area_sqft: v.optional(v.string()),
+  price: v.optional(v.string()),
+  status: v.optional(v.string()),
+  unit_type: v.optional(v.string()),
+  floor_number: v.optional(v.string()),
+  phase: v.optional(v.string()), // phase name or slug
+});
+export type ImportRow = Infer<typeof importRowValidator>;
+
+export type ImportField = Exclude<keyof ImportRow, "line">;
+
+export const IMPORT_FIELDS: ImportField[] = [
+  "name", "slug", "bedrooms", "bathrooms", "area_sqft", "price",
+  "status", "unit_type", "floor_number", "phase",
+];
+
+// Required when the row creates a unit
+const REQUIRED_FOR_CREATE: ImportField[] = ["name", "bedrooms", "bathrooms", "area_sqft", "price"];
+
+type UnitValues = {
+  name?: string;
+  slug?: string;
+  bedrooms?: number;
+  bathrooms?: number;
+  area_sqft?: number;
+  price?: number;
+  status?: UnitStatus;
+  unit_type?: string;
+  floor_number?: number;
+  phaseId?: Id<"project_phases">;
+};
+
+export type ImportChange = { field: string; from?: string | number; to: string | number };
+
+export type ImportRowPlan = {
+  line: number;
+  slug: string;
+  name: string;
+  action: "create" | "update" | "unchanged" | "error";
+  unitId?: Id<"project_units">;
+  changes: ImportChange[];
+  errors: string[];
+  values: UnitValues;
+};
+
+function slugify(s: string) {
+  return s.toLowerCase().trim().replace(/\s+/g, "-").replace(/[^a-z0-9-]/g, "");
+}
+
+// "KES 4,500,000" and "1 200" are both fine
+function parseNumber(raw: string, opts: { integer?: boolean; min?: number }) {
+  const n = Number(raw.replace(/kes|sqft|sq\s*ft/gi, "").replace(/[,\s]/g, ""));
+  if (!Number.isFinite(n)) return null;
+  if (opts.integer && !Number.isInteger(n)) return null;
+  if (opts.min !== undefined && n < opts.min) return null;
+  return n;
+}
+
+const NUMBER_FIELDS = {
+  bedrooms: { integer: true, min: 0 },
+  bathrooms: { integer: true, min: 0 },
+  area_sqft: { min: 0 },
+  price: { min: 0 },
+  floor_number: { integer: true },
+} as const;
+
+/**
+ * Validate rows against the project's current units, keyed by slug, and
+ * work out what each row would do. Nothing is written.
+ */
+export async function planUnitImport(
+  ctx: MutationCtx,
+  projectId: Id<"projects">,
+  rows: ImportRow[]
+): Promise<ImportRowPlan[]> {
+  const [units, phases] = await Promise.all([
+    ctx.db.query("project_units").withIndex("by_project", (q) => q.eq("projectId", projectId)).collect(),
+    ctx.db.query("project_phases").withIndex("by_project", (q) => q.eq("projectId", projectId)).collect(),
+  ]);
+  const unitsBySlug = new Map(units.map((u) => [u.slug, u]));
+  const livePhases = phases.filter(isLive);
+  const phaseNames = new Map(livePhases.map((p) => [p._id, p.name]));
+  const findPhase = (ref: string) => {
+    const key = ref.trim().toLowerCase();
+    return livePhases.find((p) => p.slug === key || p.name.trim().toLowerCase() === key);
+  };
+
+  const seen = new Map<string, number>();
+  const plans: ImportRowPlan[] = [];
+
+  for (const row of rows) {
+    const errors: string[] = [];
+    const cell = (field: ImportField) => {
+      const raw = row[field]?.trim();
+      return raw ? raw : undefined;
+    };
+
+    const slug = slugify(cell("slug") ?? cell("name") ?? "");
+    if (!slug) errors.push("Needs a slug or a name");
+    else if (seen.has(slug)) errors.push(`Slug "${slug}" is also used on row ${seen.get(slug)}`);
+    else seen.set(slug, row.line);
+
+    const existing = slug ? unitsBySlug.get(slug) : undefined;
+    if (existing && !isLive(existing)) {
+      errors.push(`A unit with slug "${slug}" is in the trash. Restore or purge it first.`);
+    }
+
+    const values: UnitValues = {};
+    const name = cell("name");
+    if (name) values.name = name;
+    if (slug) values.slug = slug;
+
+    for (const [field, opts] of Object.entries(NUMBER_FIELDS) as [keyof typeof NUMBER_FIELDS, { integer?: boolean; min?: number }][]) {
+      const raw = cell(field);
+      if (raw === undefined) continue;
+      const n = parseNumber(raw, opts);
+      if (n === null) {
+        errors.push(`${field} "${raw}" is not a valid ${opts.integer ? "whole number" : "number"}${opts.min === 0 ? " (0 or more)" : ""}`);
+      } else {
+        values[field] = n;
+      }
+    }
+
+    const status = cell("status")?.toLowerCase();
+    if (status !== undefined) {
+      if (status === "available" || status === "reserved" || status === "sold") values.status = status;
+      else errors.push(`Status "${cell("status")}" must be available, reserved or sold`);
+    }
+
+    const unitType = cell("unit_type");
+    if (unitType) values.unit_type = unitType;
+
+    const phaseRef = cell("phase");
+    if (phaseRef) {
+      const phase = findPhase(phaseRef);
+      if (phase) values.phaseId = phase._id;
+      else errors.push(`No phase called "${phaseRef}" in this project`);
+    }
+
+    const changes: ImportChange[] = [];
+    if (existing && isLive(existing)) {
+      if (values.status !== undefined && values.status !== existing.status && (await getActiveReservation(ctx, existing._id))) {
+        errors.push("Unit has an active hold, so its status can't be changed here");
+      }
+      for (const [field, to] of Object.entries(values) as [keyof UnitValues, string | number][]) {
+        const from = existing[field];
+        if (from === to) continue;
+        changes.push(
+          field === "phaseId"
+            ? { field: "phase", from: from ? phaseNames.get(from as Id<"project_phases">) ?? "Unknown phase" : undefined, to: phaseNames.get(to as Id<"project_phases">)! }
+            : { field, from: from as string | number | undefined, to }
+        );
+      }
+    } else if (!existing) {
+      for (const field of REQUIRED_FOR_CREATE) {
+        if (cell(field) === undefined) errors.push(`${field} is required for a new unit`);
+      }
+    }
+
+    plans.push({
+      line: row.line,
+      slug,
+      name: name ?? existing?.name ?? slug,
+      unitId: existing?._id,
+      action: errors.length > 0 ? "error" : !existing ? "create" : changes.length > 0 ? "update" : "unchanged",
+      changes,
+      errors,
+      values,
+    });
+  }
+
+  return plans;
+}
+
+/** The fields a created unit gets from a validated row */
+export function newUnitFields(projectId: Id<"projects">, values: UnitValues) {
+  return {
+    projectId,
+    phaseId: values.phaseId,
+    name: values.name!,
+    slug: values.slug!,
+    bedrooms: values.bedrooms!,
+    bathrooms: values.bathrooms!,
+    area_sqft: values.area_sqft!,
+    price: values.price!,
+    status: values.status ?? ("available" as const),
+    unit_type: values.unit_type,
+    floor_number: values.floor_number,
+  } satisfies Partial<Doc<"project_units">>;
+}
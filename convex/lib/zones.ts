@@ -0,0 +1,58 @@
+import { v } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import { QueryCtx } from "../_generated/server";
+import { UnitStatus } from "./reservations";
+import { isLive } from "./softDelete";
+
+/**
+ * The part of a plan (normalized to its image or video) that phones show.
+ * Zones without hand-drawn mobile points are mapped into it on the client.
+ */
+export const mobileCropValidator = v.object({
+  x: v.number(),
+  y: v.number(),
+  width: v.number(),
+  height: v.number(),
+});
+
+type UnitZone = { unitId?: Id<"project_units">; status?: UnitStatus };
+
+/**
+ * Fill in each zone's status at read time. A zone linked to a live unit shows
+ * the unit's status; unlinked zones (or zones whose unit is in the trash) keep
+ * their own manual status, defaulting to available.
+ */
+export async function withUnitStatuses<Z extends UnitZone>(
+  ctx: QueryCtx,
+  zones: Z[] | undefined
+): Promise<(Z & { status: UnitStatus })[] | undefined> {
+  if (!zones) return zones;
+  const unitIds = [...new Set(zones.flatMap((z) => (z.unitId ? [z.unitId] : [])))];
+  const units = new Map<Id<"project_units">, Doc<"project_units">>();
+  for (const id of unitIds) {
+    const unit = await ctx.db.get(id);
+    if (unit && isLive(unit)) units.set(id, unit);
+  }
+  return zones.map((zone) => ({
+    ...zone,
+    status: (zone.unitId && units.get(zone.unitId)?.status) || zone.status || "available",
+  }));
+}
+
+/** Linked zones never store a status; drop whatever the editor sent */
+export function stripLinkedStatuses<Z extends UnitZone>(zones: Z[]): Z[] {
+  return zones.map((zone) => {
+    if (!zone.unitId) return zone;
+    const { status: _derived, ...rest } = zone;
+    return rest as Z;
+  });
+}
+
+export async function resolvePhaseZones(ctx: QueryCtx, phase: Doc<"project_phases">) {
+  return { ...phase, phase_unit_zones: await withUnitStatuses(ctx, phase.phase_unit_zones) };
+}
+
+export async function resolveBuildingZones(ctx: QueryCtx, building: Doc<"project_buildings">) {
+  return { ...building, floor_plan_zones: await withUnitStatuses(ctx, building.floor_plan_zones) };
+}
+
@@ -1,4 +1,14 @@
-import { query } from "./_generated/server";
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { ConvexError, v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
+import { collectStorageUrls } from "./lib/cascade";
+import { isVisible } from "./lib/publication";
+import { isLive } from "./lib/softDelete";
+
+// Public reads; projects_count only counts published projects (lib/aggregates)
 
 export const getTopFour = query({
   args: {},
@@ -15,3 +25,140 @@ export const getAll = query({
     return all.sort((a, b) => b.projects_count - a.projects_count);
   },
 });
+
+// The /locations/[slug] page: the location and its published projects
+export const getBySlug = query({
+  args: { slug: v.string() },
+  handler: async (ctx, args) => {
+    const location = await ctx.db
+      .query("locations")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .unique();
+    if (!location) return null;
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("by_location", (q) => q.eq("locationId", location._id))
+      .collect();
+    return { location, projects: projects.filter((p) => isVisible(p, false)) };
+  },
+});
+
+// ─── ADMIN ────────────────────────────────────────────────────────────────────
+
+// Every location with its live projects, drafts included, for /admin/locations
+export const listForAdmin = query({
+  args: {},
+  handler: async (ctx) => {
+    await requirePermission(ctx, "content.edit");
+    const [locations, projects] = await Promise.all([
+      ctx.db.query("locations").collect(),
+      ctx.db.query("projects").collect(),
+    ]);
+    const live = projects.filter(isLive);
+    return locations
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((location) => ({
+        ...location,
+        projects: live
+          .filter((p) => p.locationId === location._id)
+          .map((p) => ({ _id: p._id, name: p.name, publishStatus: p.publishStatus })),
+      }));
+  },
+});
+
+const locationFields = {
+  name: v.string(),
+  slug: v.string(),
+  description: v.string(),
+  image_url: v.string(),
+  country: v.string(),
+  city: v.string(),
+};
+
+async function assertSlugFree(ctx: MutationCtx, slug: string, except?: Id<"locations">) {
+  const existing = await ctx.db
+    .query("locations")
+    .withIndex("by_slug", (q) => q.eq("slug", slug))
+    .first();
+  if (existing && existing._id !== except) {
+    throw new ConvexError({ message: `Another location already uses the slug "${slug}"` });
+  }
+}
+
+export const create = mutation({
+  args: locationFields,
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    await assertSlugFree(ctx, args.slug);
+    const id = await ctx.db.insert("locations", { ...args, projects_count: 0 });
+    await logAudit(ctx, {
+      actor,
+      entityType: "location",
+      entityId: id,
+      action: "create",
+      after: await ctx.db.get(id),
+    });
+    return id;
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id("locations"),
+    name: v.optional(v.string()),
+    slug: v.optional(v.string()),
+    description: v.optional(v.string()),
+    image_url: v.optional(v.string()),
+    country: v.optional(v.string()),
+    city: v.optional(v.string()),
+  },
+  handler: async (ctx, { id, ...fields }) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const before = await ctx.db.get(id);
+    if (!before) throw new ConvexError({ message: "Location not found" });
+    if (fields.slug !== undefined && fields.slug !== before.slug) await assertSlugFree(ctx, fields.slug, id);
+    await ctx.db.patch(id, fields);
+    await logAudit(ctx, {
+      actor,
+      entityType: "location",
+      entityId: id,
+      action: "update",
+      before,
+      after: await ctx.db.get(id),
+    });
+    return id;
+  },
+});
+
+// Only locations no project points at can go; there is no trash for them
+export const remove = mutation({
+  args: { id: v.id("locations") },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const location = await ctx.db.get(args.id);
+    if (!location) return;
+    const linked = await ctx.db
+      .query("projects")
+      .withIndex("by_location", (q) => q.eq("locationId", args.id))
+      .collect();
+    if (linked.length > 0) {
+      const trashed = linked.filter((p) => !isLive(p)).length;
+      throw new ConvexError({
+        message:
+          `${linked.length} project${linked.length === 1 ? " is" : "s are"} still in ${location.name}` +
+          (trashed > 0 ? ` (${trashed} in the trash)` : "") +
+          ". Move them to another location first.",
+      });
+    }
+    await ctx.db.delete(args.id);
+    await logAudit(ctx, {
+      actor,
+      entityType: "location",
+      entityId: args.id,
+      action: "delete",
+      before: location,
+    });
+    const urls = [...collectStorageUrls(location)];
+    if (urls.length > 0) await ctx.scheduler.runAfter(0, internal.files.deleteUnreferenced, { urls });
+  },
+});
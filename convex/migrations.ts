@@ -0,0 +1,197 @@
+import { internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { refreshLocationCounts, refreshProjectStats } from "./lib/aggregates";
+import { countEvents } from "./lib/eventCounters";
+import { UnitStatus } from "./lib/reservations";
+
+type ZoneConflict = {
+  table: "project_phases" | "project_buildings";
+  docId: string;
+  docName: string;
+  zoneId: string;
+  label: string;
+  zoneStatus?: UnitStatus;
+  unitStatus?: UnitStatus; // unset when the linked unit no longer exists
+};
+
+// ─── Zone statuses ────────────────────────────────────────────────────────────
+
+/**
+ * One-off: linked zones used to store their own status next to the unit's.
+ * Drops the stored status from every linked zone (the unit's status wins) and
+ * unlinks zones pointing at units that no longer exist, keeping their stored
+ * status as the manual one. Returns every disagreement it found.
+ *
+ *   npx convex run migrations:reconcileZoneStatuses '{"dryRun": true}'
+ */
+export const reconcileZoneStatuses = internalMutation({
+  args: { dryRun: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const conflicts: ZoneConflict[] = [];
+    let zonesChecked = 0;
+    let docsUpdated = 0;
+
+    const unitStatuses = new Map<Id<"project_units">, UnitStatus | null>();
+    const unitStatus = async (id: Id<"project_units">) => {
+      if (!unitStatuses.has(id)) unitStatuses.set(id, (await ctx.db.get(id))?.status ?? null);
+      return unitStatuses.get(id)!;
+    };
+
+    const reconcile = async <Z extends { id: string; label: string; unitId?: Id<"project_units">; status?: UnitStatus }>(
+      table: ZoneConflict["table"],
+      doc: { _id: string; name: string },
+      zones: Z[]
+    ) => {
+      let changed = false;
+      const next: Z[] = [];
+      for (const zone of zones) {
+        zonesChecked++;
+        if (!zone.unitId) {
+          next.push(zone);
+          continue;
+        }
+        const current = await unitStatus(zone.unitId);
+        if (current === null || (zone.status !== undefined && zone.status !== current)) {
+          conflicts.push({
+            table,
+            docId: doc._id,
+            docName: doc.name,
+            zoneId: zone.id,
+            label: zone.label,
+            zoneStatus: zone.status,
+            unitStatus: current ?? undefined,
+          });
+        }
+        if (current === null) {
+          const { unitId: _missing, ...rest } = zone;
+          next.push({ ...rest, status: zone.status ?? "available" } as Z);
+          changed = true;
+        } else if (zone.status !== undefined) {
+          const { status: _stored, ...rest } = zone;
+          next.push(rest as Z);
+          changed = true;
+        } else {
+          next.push(zone);
+        }
+      }
+      return changed ? next : null;
+    };
+
+    for (const phase of await ctx.db.query("project_phases").collect()) {
+      const zones = await reconcile("project_phases", phase, phase.phase_unit_zones ?? []);
+      if (!zones) continue;
+      docsUpdated++;
+      if (!args.dryRun) await ctx.db.patch(phase._id, { phase_unit_zones: zones });
+    }
+
+    for (const building of await ctx.db.query("project_buildings").collect()) {
+      const zones = await reconcile("project_buildings", building, building.floor_plan_zones ?? []);
+      if (!zones) continue;
+      docsUpdated++;
+      if (!args.dryRun) await ctx.db.patch(building._id, { floor_plan_zones: zones });
+    }
+
+    return { dryRun: !!args.dryRun, zonesChecked, docsUpdated, conflicts };
+  },
+});
+
+// ─── Derived figures ──────────────────────────────────────────────────────────
+
+/**
+ * One-off: project ranges, phase unit counts and location project counts used
+ * to be typed in by hand. Recomputes all of them from the current units and
+ * projects; from then on every write keeps them up to date.
+ *
+ *   npx convex run migrations:deriveAggregates
+ */
+export const deriveAggregates = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const projects = await ctx.db.query("projects").collect();
+    for (const project of projects) await refreshProjectStats(ctx, project._id);
+    await refreshLocationCounts(ctx);
+    return { projects: projects.length };
+  },
+});
+
+// ─── Project locations ────────────────────────────────────────────────────────
+
+/**
+ * One-off: projects only named their location in free text. Links each
+ * unlinked project to the location whose country matches and whose city (or
+ * name) appears in the project's location line, e.g. "Westlands, Nairobi" →
+ * Nairobi. Projects with no match or more than one are reported and left for
+ * an admin to pick in the project form.
+ *
+ *   npx convex run migrations:linkProjectLocations '{"dryRun": true}'
+ */
+export const linkProjectLocations = internalMutation({
+  args: { dryRun: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const locations = await ctx.db.query("locations").collect();
+    const projects = await ctx.db.query("projects").collect();
+    const words = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+    const mentions = (line: string[], place: string) => {
+      const needle = words(place);
+      return needle.length > 0 && needle.every((w) => line.includes(w));
+    };
+
+    const linked: { project: string; location: string }[] = [];
+    const unmatched: string[] = [];
+    const ambiguous: { project: string; candidates: string[] }[] = [];
+
+    for (const project of projects) {
+      if (project.locationId) continue;
+      const line = words(project.location);
+      const inCountry = locations.filter((l) => l.country.toLowerCase() === project.country.trim().toLowerCase());
+      const byCity = inCountry.filter((l) => mentions(line, l.city));
+      const byName = inCountry.filter((l) => mentions(line, l.name));
+      // A city can hold several locations (e.g. two Nairobi suburbs); the name decides then
+      const candidates = byCity.length === 1 ? byCity : byName.length === 1 ? byName : [...new Set([...byCity, ...byName])];
+
+      if (candidates.length === 1) {
+        linked.push({ project: project.name, location: candidates[0].name });
+        if (!args.dryRun) await ctx.db.patch(project._id, { locationId: candidates[0]._id });
+      } else if (candidates.length === 0) {
+        unmatched.push(project.name);
+      } else {
+        ambiguous.push({ project: project.name, candidates: candidates.map((l) => l.name) });
+      }
+    }
+
+    if (!args.dryRun) await refreshLocationCounts(ctx);
+    return { dryRun: !!args.dryRun, linked, unmatched, ambiguous };
+  },
+});
+
+// ─── Visitor event counters ───────────────────────────────────────────────────
+
+const BACKFILL_PAGE = 200;
+
+/**
+ * One-off: the visitor report used to read raw events; it now reads the
+ * counters `events.track` keeps. Counts every event created before `before`
+ * (the time the counters went live), a page at a time, each page scheduling
+ * the next.
+ *
+ *   npx convex run migrations:backfillEventCounters '{"before": 1790000000000}'
+ */
+export const backfillEventCounters = internalMutation({
+  args: { before: v.number(), cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("events")
+      .withIndex("by_created", (q) => q.lt("createdAt", args.before))
+      .paginate({ numItems: BACKFILL_PAGE, cursor: args.cursor ?? null });
+    await countEvents(ctx, page.page);
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillEventCounters, {
+        before: args.before,
+        cursor: page.continueCursor,
+      });
+    }
+    return { counted: page.page.length, done: page.isDone };
+  },
+});
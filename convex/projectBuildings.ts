@@ -1,66 +1,71 @@
 import { mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
+import { collectStorageUrls } from "./lib/cascade";
+import { getVisibleProjectBySlug } from "./lib/publication";
+import { resolveBuildingZones, stripLinkedStatuses } from "./lib/zones";
 
 // ─── Queries ──────────────────────────────────────────────────────────────────
 
 export const getByProject = query({
   args: { projectId: v.id("projects") },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const buildings = await ctx.db
       .query("project_buildings")
       .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
       .collect();
+    return await Promise.all(buildings.map((b) => resolveBuildingZones(ctx, b)));
   },
 });
 
 export const getByProjectSlug = query({
   args: { projectSlug: v.string() },
   handler: async (ctx, args) => {
-    const project = await ctx.db
-      .query("projects")
-      .withIndex("by_slug", (q) => q.eq("slug", args.projectSlug))
-      .unique();
+    const project = await getVisibleProjectBySlug(ctx, args.projectSlug, false);
     if (!project) return [];
-    return await ctx.db
+    const buildings = await ctx.db
       .query("project_buildings")
       .withIndex("by_project", (q) => q.eq("projectId", project._id))
       .collect();
+    return await Promise.all(buildings.map((b) => resolveBuildingZones(ctx, b)));
   },
 });
 
 export const getBySlug = query({
   args: { projectId: v.id("projects"), slug: v.string() },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const building = await ctx.db
       .query("project_buildings")
       .withIndex("by_project_slug", (q) =>
         q.eq("projectId", args.projectId).eq("slug", args.slug)
       )
       .unique();
+    return building && (await resolveBuildingZones(ctx, building));
   },
 });
 
 export const getByProjectSlugAndBuildingSlug = query({
   args: { projectSlug: v.string(), buildingSlug: v.string() },
   handler: async (ctx, args) => {
-    const project = await ctx.db
-      .query("projects")
-      .withIndex("by_slug", (q) => q.eq("slug", args.projectSlug))
-      .unique();
+    const project = await getVisibleProjectBySlug(ctx, args.projectSlug, false);
     if (!project) return null;
-    return await ctx.db
+    const building = await ctx.db
       .query("project_buildings")
       .withIndex("by_project_slug", (q) =>
         q.eq("projectId", project._id).eq("slug", args.buildingSlug)
       )
       .unique();
+    return building && (await resolveBuildingZones(ctx, building));
   },
 });
 
 export const getById = query({
   args: { id: v.id("project_buildings") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const building = await ctx.db.get(args.id);
+    return building && (await resolveBuildingZones(ctx, building));
   },
 });
 
@@ -79,7 +84,8 @@ export const create = mutation({
     displayOrder: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.insert("project_buildings", {
+    const actor = await requirePermission(ctx, "content.edit");
+    const id = await ctx.db.insert("project_buildings", {
       ...args,
       exterior_media: [],
       interior_media: [],
@@ -87,6 +93,14 @@ export const create = mutation({
       panoramas: [],
       floor_plan_zones: [],
     });
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_building",
+      entityId: id,
+      action: "create",
+      after: await ctx.db.get(id),
+    });
+    return id;
   },
 });
 
@@ -107,8 +121,21 @@ export const update = mutation({
     floors: v.optional(v.number()),
     displayOrder: v.optional(v.number()),
   },
-  handler: async (ctx, { id, ...fields }) => {
-    await ctx.db.patch(id, fields);
+  handler: async (ctx, { id, floor_plan_zones, ...fields }) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const before = await ctx.db.get(id);
+    await ctx.db.patch(id, {
+      ...fields,
+      ...(floor_plan_zones && { floor_plan_zones: stripLinkedStatuses(floor_plan_zones) }),
+    });
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_building",
+      entityId: id,
+      action: "update",
+      before,
+      after: await ctx.db.get(id),
+    });
     return id;
   },
 });
@@ -116,7 +143,38 @@ export const update = mutation({
 export const remove = mutation({
   args: { id: v.id("project_buildings") },
   handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const building = await ctx.db.get(args.id);
+    if (!building) return;
+    // Units stay on the project, just without a building
+    const units = await ctx.db
+      .query("project_units")
+      .withIndex("by_building", (q) => q.eq("buildingId", args.id))
+      .collect();
+    for (const unit of units) {
+      await ctx.db.patch(unit._id, { buildingId: undefined });
+      await logAudit(ctx, {
+        actor,
+        entityType: "project_unit",
+        entityId: unit._id,
+        action: "update",
+        before: unit,
+        after: await ctx.db.get(unit._id),
+      });
+    }
     await ctx.db.delete(args.id);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_building",
+      entityId: args.id,
+      action: "delete",
+      before: building,
+    });
+
+    const fileUrls = [...collectStorageUrls(building)];
+    if (fileUrls.length > 0) {
+      await ctx.scheduler.runAfter(0, internal.files.deleteUnreferenced, { urls: fileUrls });
+    }
   },
 });
 
@@ -129,8 +187,18 @@ export const updateProjectMasterPlan = mutation({
     master_plan_zones: v.optional(v.array(v.any())),
   },
   handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
     const { projectId, ...fields } = args;
+    const before = await ctx.db.get(projectId);
     await ctx.db.patch(projectId, fields);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project",
+      entityId: projectId,
+      action: "update",
+      before,
+      after: await ctx.db.get(projectId),
+    });
     return projectId;
   },
 });
@@ -1,54 +1,83 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { refreshProjectStats } from "./lib/aggregates";
+import { requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
+import { planPhaseDeletion } from "./lib/cascade";
+import {
+  canSeeDrafts,
+  getVisibleProjectBySlug,
+  isProjectVisible,
+  isVisible,
+  visibleOrNull,
+} from "./lib/publication";
+import { isLive, trashPhase } from "./lib/softDelete";
+import { mobileCropValidator, resolvePhaseZones, stripLinkedStatuses } from "./lib/zones";
+
+const unitModeValidator = v.union(v.literal("detach"), v.literal("delete"));
 
 // ─── Queries ──────────────────────────────────────────────────────────────────
 
+// Public reads return published phases of published projects only; admin
+// screens and previews pass `includeDrafts`. Zones linked to a unit carry the
+// unit's current status.
+
 export const getByProject = query({
-  args: { projectId: v.id("projects") },
+  args: { projectId: v.id("projects"), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    if (!(await isProjectVisible(ctx, args.projectId, drafts))) return [];
+    const phases = await ctx.db
       .query("project_phases")
       .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
       .collect();
+    return await Promise.all(
+      phases.filter((p) => isVisible(p, drafts)).map((p) => resolvePhaseZones(ctx, p))
+    );
   },
 });
 
 export const getByProjectSlug = query({
-  args: { projectSlug: v.string() },
+  args: { projectSlug: v.string(), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    const project = await ctx.db
-      .query("projects")
-      .withIndex("by_slug", (q) => q.eq("slug", args.projectSlug))
-      .unique();
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    const project = await getVisibleProjectBySlug(ctx, args.projectSlug, drafts);
     if (!project) return [];
-    return await ctx.db
+    const phases = await ctx.db
       .query("project_phases")
       .withIndex("by_project", (q) => q.eq("projectId", project._id))
       .collect();
+    return await Promise.all(
+      phases.filter((p) => isVisible(p, drafts)).map((p) => resolvePhaseZones(ctx, p))
+    );
   },
 });
 
 export const getByProjectSlugAndPhaseSlug = query({
-  args: { projectSlug: v.string(), phaseSlug: v.string() },
+  args: { projectSlug: v.string(), phaseSlug: v.string(), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    const project = await ctx.db
-      .query("projects")
-      .withIndex("by_slug", (q) => q.eq("slug", args.projectSlug))
-      .unique();
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    const project = await getVisibleProjectBySlug(ctx, args.projectSlug, drafts);
     if (!project) return null;
-    return await ctx.db
+    const phase = await ctx.db
       .query("project_phases")
       .withIndex("by_project_slug", (q) =>
         q.eq("projectId", project._id).eq("slug", args.phaseSlug)
       )
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .unique();
+    const visible = visibleOrNull(phase, drafts);
+    return visible && (await resolvePhaseZones(ctx, visible));
   },
 });
 
 export const getById = query({
-  args: { id: v.id("project_phases") },
+  args: { id: v.id("project_phases"), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    const phase = visibleOrNull(await ctx.db.get(args.id), drafts);
+    if (!phase || !(await isProjectVisible(ctx, phase.projectId, drafts))) return null;
+    return await resolvePhaseZones(ctx, phase);
   },
 });
 
@@ -63,17 +92,28 @@ export const create = mutation({
     thumbnail_url: v.optional(v.string()),
     phase_plan_url: v.optional(v.string()),
     phase_plan_video_url: v.optional(v.string()),
-    total_units: v.optional(v.number()),
     displayOrder: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.insert("project_phases", {
+    const actor = await requirePermission(ctx, "content.edit");
+    const id = await ctx.db.insert("project_phases", {
       ...args,
+      publishStatus: "draft",
       exterior_media: [],
       gallery_media: [],
       panoramas: [],
       phase_unit_zones: [],
+      total_units: 0,
+      available_units: 0,
     });
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_phase",
+      entityId: id,
+      action: "create",
+      after: await ctx.db.get(id),
+    });
+    return id;
   },
 });
 
@@ -86,23 +126,87 @@ export const update = mutation({
     thumbnail_url: v.optional(v.string()),
     phase_plan_url: v.optional(v.string()),
     phase_plan_video_url: v.optional(v.string()),
+    // null clears the crop, so phones show the whole plan again
+    phase_plan_mobile_crop: v.optional(v.union(mobileCropValidator, v.null())),
     phase_unit_zones: v.optional(v.array(v.any())),
     exterior_media: v.optional(v.array(v.any())),
     gallery_media: v.optional(v.array(v.any())),
     panoramas: v.optional(v.array(v.any())),
-    total_units: v.optional(v.number()),
     displayOrder: v.optional(v.number()),
   },
-  handler: async (ctx, { id, ...fields }) => {
-    await ctx.db.patch(id, fields);
+  handler: async (ctx, { id, phase_unit_zones, phase_plan_mobile_crop, ...fields }) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const before = await ctx.db.get(id);
+    await ctx.db.patch(id, {
+      ...fields,
+      ...(phase_plan_mobile_crop !== undefined && { phase_plan_mobile_crop: phase_plan_mobile_crop ?? undefined }),
+      ...(phase_unit_zones && { phase_unit_zones: stripLinkedStatuses(phase_unit_zones) }),
+    });
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_phase",
+      entityId: id,
+      action: "update",
+      before,
+      after: await ctx.db.get(id),
+    });
     return id;
   },
 });
 
+// Dry run for `remove`
+export const getDeletionSummary = query({
+  args: { id: v.id("project_phases"), units: unitModeValidator },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "content.edit");
+    const plan = await planPhaseDeletion(ctx, args.id, args.units);
+    if (!plan) return null;
+    return {
+      name: plan.phase.name,
+      units: plan.units.map((u) => u.name),
+      masterPlanZones: plan.linkedZones.map((z) => z.label),
+      files: plan.fileUrls.length,
+    };
+  },
+});
+
+// Moves the phase to the trash. Its units either move to project level right
+// away ("detach") or are trashed with it ("delete"); master plan zones are
+// unlinked when the phase is finally purged.
 export const remove = mutation({
-  args: { id: v.id("project_phases") },
+  args: { id: v.id("project_phases"), units: v.optional(unitModeValidator) },
   handler: async (ctx, args) => {
-    await ctx.db.delete(args.id);
+    const actor = await requirePermission(ctx, "content.edit");
+    const phase = await ctx.db.get(args.id);
+    if (!phase || !isLive(phase)) return;
+    if (args.units !== "delete") {
+      // Detached units must not keep showing under a phase that sits in the trash
+      const units = await ctx.db
+        .query("project_units")
+        .withIndex("by_phase", (q) => q.eq("phaseId", args.id))
+        .collect();
+      for (const unit of units.filter(isLive)) {
+        await ctx.db.patch(unit._id, { phaseId: undefined });
+        await logAudit(ctx, {
+          actor,
+          entityType: "project_unit",
+          entityId: unit._id,
+          action: "update",
+          before: unit,
+          after: await ctx.db.get(unit._id),
+        });
+      }
+    }
+    await trashPhase(ctx, phase, args.units === "delete");
+    await refreshProjectStats(ctx, phase.projectId);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_phase",
+      entityId: args.id,
+      action: "delete",
+      before: phase,
+      after: await ctx.db.get(args.id),
+    });
   },
 });
 
@@ -116,8 +220,18 @@ export const updateProjectMasterPlan = mutation({
     master_plan_zones: v.optional(v.array(v.any())),
   },
   handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
     const { projectId, ...fields } = args;
+    const before = await ctx.db.get(projectId);
     await ctx.db.patch(projectId, fields);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project",
+      entityId: projectId,
+      action: "update",
+      before,
+      after: await ctx.db.get(projectId),
+    });
     return projectId;
   },
 });
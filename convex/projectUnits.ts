@@ -1,84 +1,116 @@
 import { mutation, query } from "./_generated/server";
-import { v } from "convex/values";
+import { ConvexError, v } from "convex/values";
+import { refreshProjectStats } from "./lib/aggregates";
+import { requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
+import {
+  canSeeDrafts,
+  getVisibleProjectBySlug,
+  isProjectVisible,
+  isVisible,
+  visibleOrNull,
+} from "./lib/publication";
+import { changeUnitStatus, getActiveReservation } from "./lib/reservations";
+import { isLive } from "./lib/softDelete";
+import { importRowValidator, MAX_IMPORT_ROWS, newUnitFields, planUnitImport } from "./lib/unitImport";
+
+// Public reads return published units of published projects only; admin
+// screens and previews pass `includeDrafts`.
 
 export const getByProject = query({
-  args: { projectId: v.id("projects") },
+  args: { projectId: v.id("projects"), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    if (!(await isProjectVisible(ctx, args.projectId, drafts))) return [];
+    const units = await ctx.db
       .query("project_units")
       .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
       .collect();
+    return units.filter((u) => isVisible(u, drafts));
   },
 });
 
 export const getById = query({
-  args: { unitId: v.id("project_units") },
+  args: { unitId: v.id("project_units"), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.unitId);
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    const unit = visibleOrNull(await ctx.db.get(args.unitId), drafts);
+    return unit && (await isProjectVisible(ctx, unit.projectId, drafts)) ? unit : null;
   },
 });
 
 export const getByProjectSlug = query({
-  args: { projectSlug: v.string() },
+  args: { projectSlug: v.string(), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    const project = await ctx.db
-      .query("projects")
-      .withIndex("by_slug", (q) => q.eq("slug", args.projectSlug))
-      .unique();
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    const project = await getVisibleProjectBySlug(ctx, args.projectSlug, drafts);
     if (!project) return [];
-    return await ctx.db
+    const units = await ctx.db
       .query("project_units")
       .withIndex("by_project", (q) => q.eq("projectId", project._id))
       .collect();
+    return units.filter((u) => isVisible(u, drafts));
   },
 });
 
 export const getByProjectSlugAndUnitSlug = query({
-  args: { projectSlug: v.string(), unitSlug: v.string() },
+  args: { projectSlug: v.string(), unitSlug: v.string(), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    const project = await ctx.db
-      .query("projects")
-      .withIndex("by_slug", (q) => q.eq("slug", args.projectSlug))
-      .unique();
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    const project = await getVisibleProjectBySlug(ctx, args.projectSlug, drafts);
     if (!project) return null;
-    return await ctx.db
+    const unit = await ctx.db
       .query("project_units")
       .withIndex("by_project_slug", (q) =>
         q.eq("projectId", project._id).eq("slug", args.unitSlug)
       )
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .unique();
+    return visibleOrNull(unit, drafts);
   },
 });
 
 export const getBySlug = query({
-  args: { projectId: v.id("projects"), slug: v.string() },
+  args: { projectId: v.id("projects"), slug: v.string(), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    if (!(await isProjectVisible(ctx, args.projectId, drafts))) return null;
+    const unit = await ctx.db
       .query("project_units")
       .withIndex("by_project_slug", (q) =>
         q.eq("projectId", args.projectId).eq("slug", args.slug)
       )
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .unique();
+    return visibleOrNull(unit, drafts);
   },
 });
 
 export const getByPhase = query({
-  args: { phaseId: v.id("project_phases") },
+  args: { phaseId: v.id("project_phases"), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    const phase = await ctx.db.get(args.phaseId);
+    if (!phase || !(await isProjectVisible(ctx, phase.projectId, drafts))) return [];
+    const units = await ctx.db
       .query("project_units")
       .withIndex("by_phase", (q) => q.eq("phaseId", args.phaseId))
       .collect();
+    return units.filter((u) => isVisible(u, drafts));
   },
 });
 
 export const getByBuilding = query({
-  args: { buildingId: v.id("project_buildings") },
+  args: { buildingId: v.id("project_buildings"), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    const building = await ctx.db.get(args.buildingId);
+    if (!building || !(await isProjectVisible(ctx, building.projectId, drafts))) return [];
+    const units = await ctx.db
       .query("project_units")
       .withIndex("by_building", (q) => q.eq("buildingId", args.buildingId))
       .collect();
+    return units.filter((u) => isVisible(u, drafts));
   },
 });
 
@@ -105,13 +137,26 @@ export const create = mutation({
     displayOrder: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.insert("project_units", {
+    const actor = await requirePermission(ctx, "content.edit");
+    const id = await ctx.db.insert("project_units", {
       ...args,
+      publishStatus: "draft",
       exterior_media: [],
       interior_media: [],
       gallery_media: [],
       panoramas: [],
     });
+    const unit = await ctx.db.get(id);
+    if (unit) await changeUnitStatus(ctx, unit, unit.status, { reason: "created", actor });
+    await refreshProjectStats(ctx, args.projectId);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_unit",
+      entityId: id,
+      action: "create",
+      after: await ctx.db.get(id),
+    });
+    return id;
   },
 });
 
@@ -141,15 +186,104 @@ export const update = mutation({
     featured: v.optional(v.boolean()),
     displayOrder: v.optional(v.number()),
   },
-  handler: async (ctx, { id, ...fields }) => {
+  handler: async (ctx, { id, status, ...fields }) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const before = await ctx.db.get(id);
+    if (!before) throw new ConvexError({ message: "Unit not found" });
     await ctx.db.patch(id, fields);
+    // Status goes through the history; a held unit only changes via its hold
+    if (status !== undefined && status !== before.status) {
+      if (await getActiveReservation(ctx, id)) {
+        throw new ConvexError({ message: "This unit has an active hold. Release or convert it first." });
+      }
+      await changeUnitStatus(ctx, before, status, { reason: "manual", actor });
+    }
+    await refreshProjectStats(ctx, before.projectId);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_unit",
+      entityId: id,
+      action: "update",
+      before,
+      after: await ctx.db.get(id),
+    });
     return id;
   },
 });
 
+// Moves the unit to the trash; zones linking to it are unlinked on purge
 export const remove = mutation({
   args: { id: v.id("project_units") },
   handler: async (ctx, args) => {
-    await ctx.db.delete(args.id);
+    const actor = await requirePermission(ctx, "content.edit");
+    const unit = await ctx.db.get(args.id);
+    if (!unit || !isLive(unit)) return;
+    await ctx.db.patch(args.id, { deletedAt: Date.now() });
+    await refreshProjectStats(ctx, unit.projectId);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_unit",
+      entityId: args.id,
+      action: "delete",
+      before: unit,
+      after: await ctx.db.get(args.id),
+    });
+  },
+});
+
+/**
+ * Bulk create/update units from spreadsheet rows, matched on slug. With
+ * `dryRun` it only returns the plan for the diff preview. Otherwise every
+ * row is applied in this one transaction, or none are if any row has errors.
+ */
+export const importUnits = mutation({
+  args: {
+    projectId: v.id("projects"),
+    rows: v.array(importRowValidator),
+    dryRun: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    if (args.rows.length > MAX_IMPORT_ROWS) {
+      throw new ConvexError({ message: `Import at most ${MAX_IMPORT_ROWS} units at a time` });
+    }
+    const project = await ctx.db.get(args.projectId);
+    if (!project || !isLive(project)) throw new ConvexError({ message: "Project not found" });
+
+    const plans = await planUnitImport(ctx, args.projectId, args.rows);
+    const rows = plans.map(({ values: _values, ...plan }) => plan);
+    const hasErrors = plans.some((p) => p.action === "error");
+    if (args.dryRun || hasErrors) return { applied: false, rows };
+
+    for (const plan of plans) {
+      if (plan.action === "create") {
+        const id = await ctx.db.insert("project_units", {
+          ...newUnitFields(args.projectId, plan.values),
+          publishStatus: "draft",
+          exterior_media: [],
+          interior_media: [],
+          gallery_media: [],
+          panoramas: [],
+        });
+        const unit = await ctx.db.get(id);
+        if (unit) await changeUnitStatus(ctx, unit, unit.status, { reason: "created", actor });
+        await logAudit(ctx, { actor, entityType: "project_unit", entityId: id, action: "create", after: unit });
+      } else if (plan.action === "update" && plan.unitId) {
+        const before = (await ctx.db.get(plan.unitId))!;
+        const { status, ...fields } = plan.values;
+        await ctx.db.patch(plan.unitId, fields);
+        if (status !== undefined) await changeUnitStatus(ctx, before, status, { reason: "imported", actor });
+        await logAudit(ctx, {
+          actor,
+          entityType: "project_unit",
+          entityId: plan.unitId,
+          action: "update",
+          before,
+          after: await ctx.db.get(plan.unitId),
+        });
+      }
+    }
+    await refreshProjectStats(ctx, args.projectId);
+    return { applied: true, rows };
   },
 });
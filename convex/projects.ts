@@ -1,37 +1,49 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { projectStats, refreshLocationCounts } from "./lib/aggregates";
+import { requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
+import { planProjectDeletion } from "./lib/cascade";
+import { canSeeDrafts, getVisibleProjectBySlug, isVisible, visibleOrNull } from "./lib/publication";
+import { isLive, trashProject } from "./lib/softDelete";
+
+// Read queries serve the public site, so they only return published projects.
+// Admin screens and previews pass `includeDrafts` to see everything live.
 
 export const getFeatured = query({
-  args: {},
-  handler: async (ctx) => {
-    return await ctx.db
+  args: { includeDrafts: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    const featured = await ctx.db
       .query("projects")
       .withIndex("by_featured", (q) => q.eq("featured", true))
-      .take(3);
+      .collect();
+    return featured.filter((p) => isVisible(p, drafts)).slice(0, 3);
   },
 });
 
 export const getAll = query({
-  args: {},
-  handler: async (ctx) => {
-    return await ctx.db.query("projects").order("desc").collect();
+  args: { includeDrafts: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    const all = await ctx.db.query("projects").order("desc").collect();
+    return all.filter((p) => isVisible(p, drafts));
   },
 });
 
 export const getBySlug = query({
-  args: { slug: v.string() },
+  args: { slug: v.string(), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    return await ctx.db
-      .query("projects")
-      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
-      .unique();
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    return await getVisibleProjectBySlug(ctx, args.slug, drafts);
   },
 });
 
 export const getById = query({
-  args: { id: v.id("projects") },
+  args: { id: v.id("projects"), includeDrafts: v.optional(v.boolean()) },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const drafts = await canSeeDrafts(ctx, args.includeDrafts);
+    return visibleOrNull(await ctx.db.get(args.id), drafts);
   },
 });
 
@@ -39,7 +51,7 @@ export const getRelated = query({
   args: { slug: v.string() },
   handler: async (ctx, args) => {
     const all = await ctx.db.query("projects").collect();
-    return all.filter((p) => p.slug !== args.slug).slice(0, 2);
+    return all.filter((p) => isVisible(p, false) && p.slug !== args.slug).slice(0, 2);
   },
 });
 
@@ -47,7 +59,7 @@ export const getNamesAndSlugs = query({
   args: {},
   handler: async (ctx) => {
     const all = await ctx.db.query("projects").collect();
-    return all.map((p) => ({ name: p.name, slug: p.slug }));
+    return all.filter((p) => isVisible(p, false)).map((p) => ({ name: p.name, slug: p.slug }));
   },
 });
 
@@ -59,16 +71,12 @@ export const create = mutation({
     slug: v.string(),
     tagline: v.string(),
     description: v.string(),
+    locationId: v.optional(v.id("locations")),
     location: v.string(),
     country: v.string(),
-    price_from: v.number(),
     status: v.union(v.literal("ongoing"), v.literal("upcoming"), v.literal("completed")),
     image_url: v.string(),
     gallery: v.array(v.string()),
-    bedrooms_min: v.number(),
-    bedrooms_max: v.number(),
-    area_from: v.number(),
-    area_to: v.number(),
     amenities: v.array(v.string()),
     completion_date: v.string(),
     featured: v.boolean(),
@@ -76,13 +84,25 @@ export const create = mutation({
     video_url: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.insert("projects", {
+    const actor = await requirePermission(ctx, "content.edit");
+    // No units yet; the figures fill in as published units are added
+    const id = await ctx.db.insert("projects", {
       ...args,
+      ...projectStats([]),
+      publishStatus: "draft",
       exterior_media: [],
       interior_media: [],
       gallery_media: [],
       panoramas: [],
     });
+    await logAudit(ctx, {
+      actor,
+      entityType: "project",
+      entityId: id,
+      action: "create",
+      after: await ctx.db.get(id),
+    });
+    return id;
   },
 });
 
@@ -93,16 +113,12 @@ export const update = mutation({
     slug: v.optional(v.string()),
     tagline: v.optional(v.string()),
     description: v.optional(v.string()),
+    locationId: v.optional(v.union(v.id("locations"), v.null())), // null unlinks
     location: v.optional(v.string()),
     country: v.optional(v.string()),
-    price_from: v.optional(v.number()),
     status: v.optional(v.union(v.literal("ongoing"), v.literal("upcoming"), v.literal("completed"))),
     image_url: v.optional(v.string()),
     gallery: v.optional(v.array(v.string())),
-    bedrooms_min: v.optional(v.number()),
-    bedrooms_max: v.optional(v.number()),
-    area_from: v.optional(v.number()),
-    area_to: v.optional(v.number()),
     amenities: v.optional(v.array(v.string())),
     completion_date: v.optional(v.string()),
     featured: v.optional(v.boolean()),
@@ -115,23 +131,57 @@ export const update = mutation({
     master_plan_url: v.optional(v.string()),
     master_plan_zones: v.optional(v.array(v.any())),
   },
-  handler: async (ctx, { id, ...fields }) => {
-    await ctx.db.patch(id, fields);
+  handler: async (ctx, { id, locationId, ...fields }) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const before = await ctx.db.get(id);
+    await ctx.db.patch(id, locationId === undefined ? fields : { ...fields, locationId: locationId ?? undefined });
+    if (locationId !== undefined && (locationId ?? undefined) !== before?.locationId) await refreshLocationCounts(ctx);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project",
+      entityId: id,
+      action: "update",
+      before,
+      after: await ctx.db.get(id),
+    });
     return id;
   },
 });
 
+// Dry run for `remove`: what a project deletion would take with it
+export const getDeletionSummary = query({
+  args: { id: v.id("projects") },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "projects.delete");
+    const plan = await planProjectDeletion(ctx, args.id);
+    if (!plan) return null;
+    return {
+      name: plan.project.name,
+      phases: plan.phases.map((p) => p.name),
+      buildings: plan.buildings.map((b) => b.name),
+      units: plan.units.length,
+      files: plan.fileUrls.length,
+    };
+  },
+});
+
+// Moves the project to the trash together with its live phases and units.
+// /admin/trash restores it or purges it for good.
 export const remove = mutation({
   args: { id: v.id("projects") },
   handler: async (ctx, args) => {
-    // Also delete all units for this project
-    const units = await ctx.db
-      .query("project_units")
-      .withIndex("by_project", (q) => q.eq("projectId", args.id))
-      .collect();
-    for (const unit of units) {
-      await ctx.db.delete(unit._id);
-    }
-    await ctx.db.delete(args.id);
+    const actor = await requirePermission(ctx, "projects.delete");
+    const project = await ctx.db.get(args.id);
+    if (!project || !isLive(project)) return;
+    await trashProject(ctx, project);
+    await refreshLocationCounts(ctx);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project",
+      entityId: args.id,
+      action: "delete",
+      before: project,
+      after: await ctx.db.get(args.id),
+    });
   },
 });
@@ -0,0 +1,206 @@
+import { internalMutation, mutation, MutationCtx } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { refreshLocationCounts, refreshProjectStats } from "./lib/aggregates";
+import { requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
+import { PublishStatus, publishStatusValidator } from "./lib/publication";
+import { isLive } from "./lib/softDelete";
+
+// Scheduled runs are capped so a large backlog can't blow the mutation limits
+const PUBLISH_BATCH = 50;
+
+type PublishPatch = { publishStatus: PublishStatus; publishAt: number | undefined };
+
+const publishArgs = {
+  status: publishStatusValidator,
+  publishAt: v.optional(v.number()), // required when status is "scheduled"
+  includeChildren: v.optional(v.boolean()),
+};
+
+// Validate a requested state change and turn it into the fields to patch
+function toPatch(status: PublishStatus, publishAt: number | undefined): PublishPatch {
+  if (status !== "scheduled") return { publishStatus: status, publishAt: undefined };
+  if (publishAt === undefined) {
+    throw new ConvexError({ message: "Pick a date and time to publish" });
+  }
+  if (publishAt <= Date.now()) {
+    throw new ConvexError({ message: "The publish time must be in the future" });
+  }
+  return { publishStatus: status, publishAt };
+}
+
+// Children follow a publish or schedule only while they are still drafts (or
+// scheduled), so archived or already-published content is left alone.
+async function applyToDraftChildren(
+  ctx: MutationCtx,
+  children: (Doc<"project_phases"> | Doc<"project_units">)[],
+  patch: PublishPatch
+) {
+  if (patch.publishStatus !== "published" && patch.publishStatus !== "scheduled") return;
+  for (const child of children) {
+    if (!isLive(child)) continue;
+    if (child.publishStatus !== "draft" && child.publishStatus !== "scheduled") continue;
+    await ctx.db.patch(child._id, patch);
+  }
+}
+
+// ─── Publication state ────────────────────────────────────────────────────────
+
+// `includeChildren` publishes or schedules the project's draft phases and units
+// along with it.
+export const setProjectStatus = mutation({
+  args: { id: v.id("projects"), ...publishArgs },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const project = await ctx.db.get(args.id);
+    if (!project || !isLive(project)) throw new ConvexError({ message: "Project not found" });
+    const patch = toPatch(args.status, args.publishAt);
+
+    if (args.includeChildren) {
+      const [phases, units] = await Promise.all([
+        ctx.db
+          .query("project_phases")
+          .withIndex("by_project", (q) => q.eq("projectId", args.id))
+          .collect(),
+        ctx.db
+          .query("project_units")
+          .withIndex("by_project", (q) => q.eq("projectId", args.id))
+          .collect(),
+      ]);
+      await applyToDraftChildren(ctx, [...phases, ...units], patch);
+      await refreshProjectStats(ctx, args.id);
+    }
+    await ctx.db.patch(args.id, patch);
+    await refreshLocationCounts(ctx);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project",
+      entityId: args.id,
+      action: "update",
+      before: project,
+      after: await ctx.db.get(args.id),
+    });
+  },
+});
+
+// `includeChildren` publishes or schedules the phase's draft units along with it
+export const setPhaseStatus = mutation({
+  args: { id: v.id("project_phases"), ...publishArgs },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const phase = await ctx.db.get(args.id);
+    if (!phase || !isLive(phase)) throw new ConvexError({ message: "Phase not found" });
+    const patch = toPatch(args.status, args.publishAt);
+
+    if (args.includeChildren) {
+      const units = await ctx.db
+        .query("project_units")
+        .withIndex("by_phase", (q) => q.eq("phaseId", args.id))
+        .collect();
+      await applyToDraftChildren(ctx, units, patch);
+    }
+    await ctx.db.patch(args.id, patch);
+    await refreshProjectStats(ctx, phase.projectId);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_phase",
+      entityId: args.id,
+      action: "update",
+      before: phase,
+      after: await ctx.db.get(args.id),
+    });
+  },
+});
+
+export const setUnitStatus = mutation({
+  args: {
+    id: v.id("project_units"),
+    status: publishStatusValidator,
+    publishAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const unit = await ctx.db.get(args.id);
+    if (!unit || !isLive(unit)) throw new ConvexError({ message: "Unit not found" });
+    await ctx.db.patch(args.id, toPatch(args.status, args.publishAt));
+    await refreshProjectStats(ctx, unit.projectId);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_unit",
+      entityId: args.id,
+      action: "update",
+      before: unit,
+      after: await ctx.db.get(args.id),
+    });
+  },
+});
+
+// ─── Scheduled publishing ─────────────────────────────────────────────────────
+
+// Cron: publish anything whose scheduled time has passed. Trashed rows are
+// flipped too so they can't clog the index; they stay hidden until restored.
+export const publishScheduled = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const counts = { projects: 0, phases: 0, units: 0 };
+    const touched = new Set<Id<"projects">>();
+
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("by_publish", (q) => q.eq("publishStatus", "scheduled").lte("publishAt", now))
+      .take(PUBLISH_BATCH);
+    for (const project of projects) {
+      await ctx.db.patch(project._id, { publishStatus: "published", publishAt: undefined });
+      await logAudit(ctx, {
+        actor: null,
+        entityType: "project",
+        entityId: project._id,
+        action: "update",
+        before: project,
+        after: await ctx.db.get(project._id),
+      });
+      counts.projects++;
+    }
+
+    const phases = await ctx.db
+      .query("project_phases")
+      .withIndex("by_publish", (q) => q.eq("publishStatus", "scheduled").lte("publishAt", now))
+      .take(PUBLISH_BATCH);
+    for (const phase of phases) {
+      await ctx.db.patch(phase._id, { publishStatus: "published", publishAt: undefined });
+      await logAudit(ctx, {
+        actor: null,
+        entityType: "project_phase",
+        entityId: phase._id,
+        action: "update",
+        before: phase,
+        after: await ctx.db.get(phase._id),
+      });
+      counts.phases++;
+    }
+
+    const units = await ctx.db
+      .query("project_units")
+      .withIndex("by_publish", (q) => q.eq("publishStatus", "scheduled").lte("publishAt", now))
+      .take(PUBLISH_BATCH);
+    for (const unit of units) {
+      await ctx.db.patch(unit._id, { publishStatus: "published", publishAt: undefined });
+      await logAudit(ctx, {
+        actor: null,
+        entityType: "project_unit",
+        entityId: unit._id,
+        action: "update",
+        before: unit,
+        after: await ctx.db.get(unit._id),
+      });
+      touched.add(unit.projectId);
+      counts.units++;
+    }
+
+    for (const projectId of touched) await refreshProjectStats(ctx, projectId);
+    if (counts.projects > 0) await refreshLocationCounts(ctx);
+    return counts;
+  },
+});
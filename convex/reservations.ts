@@ -0,0 +1,261 @@
+import { internalMutation, mutation, MutationCtx, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { ConvexError, v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { refreshProjectStats } from "./lib/aggregates";
+import { logAudit } from "./lib/audit";
+import { authError, requirePermission } from "./lib/auth";
+import { isProjectVisible, isVisible, visibleOrNull } from "./lib/publication";
+import { BUYER_HOLD_MS, changeUnitStatus, getActiveReservation } from "./lib/reservations";
+import { isLive } from "./lib/softDelete";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+type HoldInput = {
+  buyerName: string;
+  buyerEmail?: string;
+  buyerPhone?: string;
+  reference: string;
+  leadId?: Id<"contact_submissions">;
+  expiresAt: number;
+};
+
+// The unit with its active hold, as recorded in the audit log, so placing,
+// extending and ending holds all show up in the unit's history
+async function unitSnapshot(ctx: MutationCtx, unitId: Id<"project_units">) {
+  const unit = await ctx.db.get(unitId);
+  if (!unit) return null;
+  const hold = await getActiveReservation(ctx, unitId);
+  return {
+    ...unit,
+    hold: hold && { buyerName: hold.buyerName, reference: hold.reference, expiresAt: hold.expiresAt },
+  };
+}
+
+// Place a hold on an available unit and schedule its expiry
+async function placeHold(
+  ctx: MutationCtx,
+  unit: Doc<"project_units">,
+  hold: HoldInput,
+  actor: Doc<"admin_users"> | null
+) {
+  if (!isLive(unit)) throw new ConvexError({ message: "Unit not found" });
+  if (unit.status !== "available") {
+    throw new ConvexError({ message: `This unit is ${unit.status}` });
+  }
+  if (hold.expiresAt <= Date.now()) {
+    throw new ConvexError({ message: "The hold must expire in the future" });
+  }
+  const before = await unitSnapshot(ctx, unit._id);
+  const id = await ctx.db.insert("unit_reservations", {
+    ...hold,
+    unitId: unit._id,
+    projectId: unit.projectId,
+    status: "active",
+    placedBy: actor?._id,
+    placedByName: actor?.name ?? hold.buyerName,
+    createdAt: Date.now(),
+  });
+  const expiryJobId = await ctx.scheduler.runAt(hold.expiresAt, internal.reservations.expire, { id });
+  await ctx.db.patch(id, { expiryJobId });
+  await changeUnitStatus(ctx, unit, "reserved", { reason: "hold_placed", actor, reservationId: id });
+  await refreshProjectStats(ctx, unit.projectId);
+  await logAudit(ctx, {
+    actor,
+    entityType: "project_unit",
+    entityId: unit._id,
+    action: "update",
+    before,
+    after: await unitSnapshot(ctx, unit._id),
+  });
+  return id;
+}
+
+// End an active hold, cancel its expiry run and move the unit on
+async function endHold(
+  ctx: MutationCtx,
+  reservation: Doc<"unit_reservations">,
+  outcome: "released" | "expired" | "converted",
+  actor: Doc<"admin_users"> | null
+) {
+  if (outcome !== "expired" && reservation.expiryJobId) {
+    await ctx.scheduler.cancel(reservation.expiryJobId);
+  }
+  const before = await unitSnapshot(ctx, reservation.unitId);
+  await ctx.db.patch(reservation._id, { status: outcome, endedAt: Date.now(), expiryJobId: undefined });
+  const unit = await ctx.db.get(reservation.unitId);
+  if (!unit) return;
+  await changeUnitStatus(ctx, unit, outcome === "converted" ? "sold" : "available", {
+    reason: outcome === "released" ? "hold_released" : outcome === "expired" ? "hold_expired" : "hold_converted",
+    actor,
+    reservationId: reservation._id,
+  });
+  await refreshProjectStats(ctx, unit.projectId);
+  await logAudit(ctx, {
+    actor,
+    entityType: "project_unit",
+    entityId: unit._id,
+    action: "update",
+    before,
+    after: await unitSnapshot(ctx, unit._id),
+  });
+}
+
+async function getActiveOrThrow(ctx: MutationCtx, id: Id<"unit_reservations">) {
+  const reservation = await ctx.db.get(id);
+  if (!reservation || reservation.status !== "active") {
+    throw new ConvexError({ message: "This hold is no longer active" });
+  }
+  return reservation;
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+// Holds and status history for the admin unit page, newest first
+export const getForUnit = query({
+  args: { unitId: v.id("project_units") },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "leads.manage");
+    const [reservations, history] = await Promise.all([
+      ctx.db
+        .query("unit_reservations")
+        .withIndex("by_unit", (q) => q.eq("unitId", args.unitId))
+        .collect(),
+      ctx.db
+        .query("unit_status_history")
+        .withIndex("by_unit", (q) => q.eq("unitId", args.unitId))
+        .order("desc")
+        .take(50),
+    ]);
+    reservations.sort((a, b) => b.createdAt - a.createdAt);
+    return {
+      active: reservations.find((r) => r.status === "active") ?? null,
+      reservations,
+      history,
+    };
+  },
+});
+
+// ─── Admin holds ──────────────────────────────────────────────────────────────
+
+export const place = mutation({
+  args: {
+    unitId: v.id("project_units"),
+    buyerName: v.string(),
+    buyerEmail: v.optional(v.string()),
+    buyerPhone: v.optional(v.string()),
+    reference: v.string(),
+    leadId: v.optional(v.id("contact_submissions")),
+    expiresAt: v.number(),
+  },
+  handler: async (ctx, { unitId, ...hold }) => {
+    const actor = await requirePermission(ctx, "leads.manage");
+    const unit = await ctx.db.get(unitId);
+    if (!unit) throw new ConvexError({ message: "Unit not found" });
+    return await placeHold(ctx, unit, hold, actor);
+  },
+});
+
+// Move the expiry of an active hold; the old scheduled run is replaced
+export const extend = mutation({
+  args: { id: v.id("unit_reservations"), expiresAt: v.number() },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "leads.manage");
+    const reservation = await getActiveOrThrow(ctx, args.id);
+    if (args.expiresAt <= Date.now()) {
+      throw new ConvexError({ message: "The hold must expire in the future" });
+    }
+    const before = await unitSnapshot(ctx, reservation.unitId);
+    if (reservation.expiryJobId) await ctx.scheduler.cancel(reservation.expiryJobId);
+    const expiryJobId = await ctx.scheduler.runAt(args.expiresAt, internal.reservations.expire, { id: args.id });
+    await ctx.db.patch(args.id, { expiresAt: args.expiresAt, expiryJobId });
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_unit",
+      entityId: reservation.unitId,
+      action: "update",
+      before,
+      after: await unitSnapshot(ctx, reservation.unitId),
+    });
+  },
+});
+
+export const release = mutation({
+  args: { id: v.id("unit_reservations") },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "leads.manage");
+    await endHold(ctx, await getActiveOrThrow(ctx, args.id), "released", actor);
+  },
+});
+
+// The buyer went ahead: end the hold and mark the unit sold
+export const convert = mutation({
+  args: { id: v.id("unit_reservations") },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "leads.manage");
+    await endHold(ctx, await getActiveOrThrow(ctx, args.id), "converted", actor);
+  },
+});
+
+// ─── Buyer holds ──────────────────────────────────────────────────────────────
+
+// A signed-in visitor holds a published unit for BUYER_HOLD_MS. Their email is
+// the buyer reference, and they can only hold one unit at a time.
+export const placeBuyerHold = mutation({
+  args: {
+    unitId: v.id("project_units"),
+    buyerName: v.string(),
+    buyerPhone: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity?.email) throw authError("UNAUTHENTICATED", "Sign in to reserve a unit");
+    // Only units the public can see: live and published, in a visible phase and project
+    const unit = visibleOrNull(await ctx.db.get(args.unitId), false);
+    const phase = unit?.phaseId ? await ctx.db.get(unit.phaseId) : null;
+    if (
+      !unit ||
+      !(await isProjectVisible(ctx, unit.projectId, false)) ||
+      (unit.phaseId && !(phase && isVisible(phase, false)))
+    ) {
+      throw new ConvexError({ message: "Unit not found" });
+    }
+
+    const active = await ctx.db
+      .query("unit_reservations")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .filter((q) => q.eq(q.field("reference"), identity.email))
+      .first();
+    if (active) throw new ConvexError({ message: "You already have a unit on hold" });
+
+    const expiresAt = Date.now() + BUYER_HOLD_MS;
+    await placeHold(
+      ctx,
+      unit,
+      {
+        buyerName: args.buyerName.trim() || identity.name || identity.email,
+        buyerEmail: identity.email,
+        buyerPhone: args.buyerPhone,
+        reference: identity.email,
+        expiresAt,
+      },
+      null
+    );
+    return { expiresAt };
+  },
+});
+
+// ─── Expiry ───────────────────────────────────────────────────────────────────
+
+// Scheduled at expiresAt by placeHold/extend. Re-checks the row so a hold that
+// was released, converted or extended in the meantime is left alone. Logged
+// with no actor, which the audit log shows as "System".
+export const expire = internalMutation({
+  args: { id: v.id("unit_reservations") },
+  handler: async (ctx, args) => {
+    const reservation = await ctx.db.get(args.id);
+    if (!reservation || reservation.status !== "active") return;
+    if (reservation.expiresAt > Date.now()) return;
+    await endHold(ctx, reservation, "expired", null);
+  },
+});
@@ -1,5 +1,20 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import {
+  auditActionValidator,
+  auditChangeValidator,
+  auditEntityTypeValidator,
+} from "./lib/audit";
+import { statsBasisValidator } from "./lib/aggregates";
+import { counterBucketValidator, counterKindValidator, eventTypeValidator } from "./lib/events";
+import { leadNoteValidator, leadStatusValidator, leadViewingValidator } from "./lib/leads";
+import { publishStatusValidator } from "./lib/publication";
+import {
+  reservationStatusValidator,
+  unitStatusReasonValidator,
+  unitStatusValidator,
+} from "./lib/reservations";
+import { mobileCropValidator } from "./lib/zones";
 
 // Reusable media item validator
 const mediaItemValidator = v.object({
@@ -52,11 +67,9 @@ const phaseUnitZoneValidator = v.object({
   points: v.array(zonePointValidator),
   mobile_points: v.optional(v.array(zonePointValidator)), // separate coords for mobile view
   unitId: v.optional(v.id("project_units")),
-  status: v.union(
-    v.literal("available"),
-    v.literal("reserved"),
-    v.literal("sold"),
-  ),
+  // Manual status for unlinked zones only; linked zones read the unit's
+  // status at query time (see lib/zones)
+  status: v.optional(unitStatusValidator),
 });
 
 // Legacy building floor plan zone (kept for backwards compat)
@@ -65,11 +78,9 @@ const buildingFloorZoneValidator = v.object({
   label: v.string(),
   points: v.array(zonePointValidator),
   unitId: v.optional(v.id("project_units")),
-  status: v.union(
-    v.literal("available"),
-    v.literal("reserved"),
-    v.literal("sold"),
-  ),
+  // Manual status for unlinked zones only; linked zones read the unit's
+  // status at query time (see lib/zones)
+  status: v.optional(unitStatusValidator),
 });
 
 export default defineSchema({
@@ -79,8 +90,10 @@ export default defineSchema({
     slug: v.string(),
     tagline: v.string(),
     description: v.string(),
-    location: v.string(),
+    locationId: v.optional(v.id("locations")), // the location page that lists this project
+    location: v.string(),                       // area/address line shown on the project, e.g. "Westlands, Nairobi"
     country: v.string(),
+    // price_from, bedrooms_*, area_* are derived from the units (see lib/aggregates)
     price_from: v.number(),
     status: v.union(
       v.literal("ongoing"),
@@ -96,6 +109,7 @@ export default defineSchema({
     amenities: v.array(v.string()),
     completion_date: v.string(),
     featured: v.boolean(),
+    stats_basis: v.optional(statsBasisValidator), // which units the figures above cover
     // Rich media — at project level these are "Site Views" + "Gallery"
     exterior_media: v.optional(v.array(mediaItemValidator)),   // displayed as "Site Views"
     interior_media: v.optional(v.array(mediaItemValidator)),   // displayed as "Project Views"
@@ -107,10 +121,16 @@ export default defineSchema({
     master_plan_url: v.optional(v.string()),
     master_plan_video_url: v.optional(v.string()),            // video that plays behind the master plan canvas
     master_plan_zones: v.optional(v.array(masterPlanZoneValidator)), // phase zones on master plan
+    publishStatus: v.optional(publishStatusValidator), // unset on older rows = published
+    publishAt: v.optional(v.number()),                 // go-live time while "scheduled"
+    deletedAt: v.optional(v.number()), // set while the project is in the trash
   })
     .index("by_slug", ["slug"])
+    .index("by_location", ["locationId"])
     .index("by_featured", ["featured"])
-    .index("by_status", ["status"]),
+    .index("by_status", ["status"])
+    .index("by_deleted", ["deletedAt"])
+    .index("by_publish", ["publishStatus", "publishAt"]),
 
   // ─── PROJECT PHASES ───────────────────────────────────────────────────────
   project_phases: defineTable({
@@ -122,16 +142,23 @@ export default defineSchema({
     // Phase plan — can be image AND/OR video (canvas overlays the video)
     phase_plan_url: v.optional(v.string()),       // image used as canvas background
     phase_plan_video_url: v.optional(v.string()), // video that plays behind canvas
+    phase_plan_mobile_crop: v.optional(mobileCropValidator), // region of the plan shown on phones
     phase_unit_zones: v.optional(v.array(phaseUnitZoneValidator)), // unit zones on phase plan
     // Rich media — "Phase Views" + "Gallery"
     exterior_media: v.optional(v.array(mediaItemValidator)),  // "Phase Views"
     gallery_media: v.optional(v.array(mediaItemValidator)),   // "Gallery"
     panoramas: v.optional(v.array(panoramaValidator)),
     displayOrder: v.optional(v.number()),
-    total_units: v.optional(v.number()),
+    total_units: v.optional(v.number()),     // derived: published units in the phase
+    available_units: v.optional(v.number()), // derived: of those, still available
+    publishStatus: v.optional(publishStatusValidator), // unset on older rows = published
+    publishAt: v.optional(v.number()),                 // go-live time while "scheduled"
+    deletedAt: v.optional(v.number()), // set while the phase is in the trash
   })
     .index("by_project", ["projectId"])
-    .index("by_project_slug", ["projectId", "slug"]),
+    .index("by_project_slug", ["projectId", "slug"])
+    .index("by_deleted", ["deletedAt"])
+    .index("by_publish", ["publishStatus", "publishAt"]),
 
   // ─── PROJECT BUILDINGS (legacy — kept for migration safety) ──────────────
   project_buildings: defineTable({
@@ -182,11 +209,51 @@ export default defineSchema({
     amenities: v.optional(v.array(v.string())),
     featured: v.optional(v.boolean()),
     displayOrder: v.optional(v.number()),
+    publishStatus: v.optional(publishStatusValidator), // unset on older rows = published
+    publishAt: v.optional(v.number()),                 // go-live time while "scheduled"
+    deletedAt: v.optional(v.number()), // set while the unit is in the trash
   })
     .index("by_project", ["projectId"])
     .index("by_phase", ["phaseId"])
     .index("by_building", ["buildingId"])
-    .index("by_project_slug", ["projectId", "slug"]),
+    .index("by_project_slug", ["projectId", "slug"])
+    .index("by_deleted", ["deletedAt"])
+    .index("by_publish", ["publishStatus", "publishAt"]),
+
+  // ─── UNIT RESERVATIONS ────────────────────────────────────────────────────
+  // A hold keeps a unit "reserved" until it expires, is released or converts
+  unit_reservations: defineTable({
+    unitId: v.id("project_units"),
+    projectId: v.id("projects"),
+    buyerName: v.string(),
+    buyerEmail: v.optional(v.string()),
+    buyerPhone: v.optional(v.string()),
+    reference: v.string(),                                 // buyer / deal reference
+    leadId: v.optional(v.id("contact_submissions")),
+    status: reservationStatusValidator,
+    expiresAt: v.number(),
+    expiryJobId: v.optional(v.id("_scheduled_functions")), // pending expire() run
+    placedBy: v.optional(v.id("admin_users")),             // unset for buyer-placed holds
+    placedByName: v.string(),
+    createdAt: v.number(),
+    endedAt: v.optional(v.number()),
+  })
+    .index("by_unit", ["unitId", "status"])
+    .index("by_status", ["status", "expiresAt"]),
+
+  // Every change to project_units.status, newest last
+  unit_status_history: defineTable({
+    unitId: v.id("project_units"),
+    from: v.optional(unitStatusValidator),                 // unset for the initial status
+    to: unitStatusValidator,
+    reason: unitStatusReasonValidator,
+    reservationId: v.optional(v.id("unit_reservations")),
+    actorId: v.optional(v.id("admin_users")),
+    actorName: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_unit", ["unitId", "createdAt"])
+    .index("by_created", ["createdAt"]),
 
   // ─── LOCATIONS ────────────────────────────────────────────────────────────
   locations: defineTable({
@@ -196,7 +263,7 @@ export default defineSchema({
     image_url: v.string(),
     country: v.string(),
     city: v.string(),
-    projects_count: v.number(),
+    projects_count: v.number(), // derived: published projects here (see lib/aggregates)
   }).index("by_slug", ["slug"]),
 
   // ─── CONTACT ──────────────────────────────────────────────────────────────
@@ -206,7 +273,22 @@ export default defineSchema({
     phone: v.string(),
     message: v.string(),
     project_interest: v.string(),
-  }),
+    // Set when the enquiry came from a viewer rather than /contact
+    projectId: v.optional(v.id("projects")),
+    phaseId: v.optional(v.id("project_phases")),
+    unitId: v.optional(v.id("project_units")),
+    viewing: v.optional(leadViewingValidator),
+    // Lead pipeline
+    status: v.optional(leadStatusValidator),              // unset on older rows = "new"
+    assignedTo: v.optional(v.id("admin_users")),
+    followUpAt: v.optional(v.number()),
+    notes: v.optional(v.array(leadNoteValidator)),        // oldest first
+  })
+    .index("by_status", ["status"])
+    .index("by_assignee", ["assignedTo"])
+    .index("by_project", ["projectId"])
+    .index("by_phase", ["phaseId"])
+    .index("by_unit", ["unitId"]),
 
   // ─── HOMEPAGE CONTENT ─────────────────────────────────────────────────
   homepage_content: defineTable({
@@ -231,4 +313,88 @@ export default defineSchema({
   })
     .index("by_clerk_id", ["clerkUserId"])
     .index("by_email", ["email"]),
+
+  // ─── ADMIN INVITATIONS ────────────────────────────────────────────────────
+  // Pending invites are claimed the first time the invitee signs in with the
+  // same email address.
+  admin_invitations: defineTable({
+    email: v.string(), // lowercased
+    role: v.union(v.literal("admin"), v.literal("super_admin")),
+    token: v.string(),
+    expiresAt: v.number(),
+    invitedBy: v.id("admin_users"),
+    status: v.union(v.literal("pending"), v.literal("accepted"), v.literal("revoked")),
+    acceptedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_email", ["email"])
+    .index("by_token", ["token"]),
+
+  // ─── AUDIT LOG ────────────────────────────────────────────────────────────
+  // One row per admin change, with a field-level before/after diff
+  audit_log: defineTable({
+    actorId: v.optional(v.id("admin_users")), // unset for scheduled jobs
+    actorName: v.string(),
+    entityType: auditEntityTypeValidator,
+    entityId: v.string(),
+    entityLabel: v.optional(v.string()),
+    action: auditActionValidator,
+    changes: v.array(auditChangeValidator),
+    createdAt: v.number(),
+  })
+    .index("by_entity", ["entityType", "entityId", "createdAt"])
+    .index("by_actor", ["actorId", "createdAt"])
+    .index("by_created", ["createdAt"]),
+
+  // ─── VISITOR EVENTS ───────────────────────────────────────────────────────
+  // First-party engagement tracking from the public viewers. `sessionId` is a
+  // random per-tab id; no personal data is stored.
+  events: defineTable({
+    type: eventTypeValidator,
+    sessionId: v.string(),
+    projectId: v.optional(v.id("projects")),
+    phaseId: v.optional(v.id("project_phases")),
+    unitId: v.optional(v.id("project_units")),
+    zoneId: v.optional(v.string()),
+    label: v.optional(v.string()),
+    url: v.optional(v.string()),
+    durationMs: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_created", ["createdAt"])
+    .index("by_project", ["projectId", "createdAt"])
+    .index("by_phase", ["phaseId", "createdAt"]),
+
+  // Running totals kept by `events.track` so the visitor report and heatmap
+  // read a few rows per day or month instead of every raw event. `key` is
+  // unique per bucket and kind (see lib/eventCounters).
+  event_counters: defineTable({
+    bucket: counterBucketValidator,
+    start: v.number(), // UTC start of the day or month
+    kind: counterKindValidator,
+    key: v.string(),
+    projectId: v.optional(v.id("projects")),
+    phaseId: v.optional(v.id("project_phases")),
+    unitId: v.optional(v.id("project_units")),
+    zoneId: v.optional(v.string()),
+    label: v.optional(v.string()),
+    url: v.optional(v.string()),
+    count: v.number(),
+    sessions: v.number(),
+    dwellMs: v.number(),
+  })
+    .index("by_key", ["bucket", "start", "kind", "key"])
+    .index("by_kind", ["kind", "bucket", "start"])
+    .index("by_project", ["projectId", "kind", "bucket", "start"])
+    .index("by_phase", ["phaseId", "kind", "bucket", "start"]),
+
+  // Sessions already counted in a bucket, so `session` and unit visitor
+  // counters count each one once. Only the current day and month are needed;
+  // older rows are pruned daily.
+  event_sessions: defineTable({
+    bucket: counterBucketValidator,
+    start: v.number(),
+    scope: v.string(), // "all", a project id or "unit:<unit id>"
+    sessionId: v.string(),
+  }).index("by_scope", ["bucket", "start", "scope", "sessionId"]),
 });
@@ -1,99 +1,244 @@
 import { internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { projectStats, refreshLocationCounts, refreshProjectStats } from "./lib/aggregates";
+import {
+  changedFields,
+  FixtureReport,
+  FixtureTable,
+  locationFixtureValidator,
+  phaseFixtureValidator,
+  projectFixtureValidator,
+  unitFixtureValidator,
+} from "./lib/fixtures";
+import { changeUnitStatus, getActiveReservation } from "./lib/reservations";
+import { getLiveProjectBySlug } from "./lib/softDelete";
 
-type LocationRow = {
-  name: string;
-  slug: string;
-  description: string;
-  image_url: string;
-  country: string;
-  city: string;
-  projects_count: number;
-};
-
-type ProjectRow = {
-  name: string;
-  slug: string;
-  tagline: string;
-  description: string;
-  location: string;
-  country: string;
-  price_from: number;
-  status: "ongoing" | "upcoming" | "completed";
-  image_url: string;
-  gallery: string[];
-  bedrooms_min: number;
-  bedrooms_max: number;
-  area_from: number;
-  area_to: number;
-  amenities: string[];
-  completion_date: string;
-  featured: boolean;
-};
+type FixtureError = { table: FixtureTable; slug: string; message: string };
 
 /**
- * One-time seed mutation to populate Convex with data from Supabase.
+ * Load fixture rows, creating or updating by slug so it is safe to run again.
+ * Phases and units find their project (and units their phase) by slug.
+ * Trashed rows are ignored, as everywhere else that looks up by slug.
+ * Nothing is written when any row has an error, or with `dryRun`.
+ *
+ * Use the seed script rather than calling this directly:
+ *
+ *   npm run seed                       # the demo dataset in fixtures/demo
+ *   npm run seed -- path/to/fixtures --dry-run
  *
- * How to run:
- * 1. Export your data from Supabase Dashboard → Table Editor → Export CSV
- * 2. Replace the placeholder arrays below with your actual data rows
- * 3. Run `npx convex dev` to deploy this file
- * 4. Go to Convex Dashboard → Functions → seed:seedAll → Run Function
- * 5. Verify data in Convex Dashboard → Data tab
- * 6. You can delete this file after seeding is confirmed
+ * `plannedLocations` / `plannedProjects` / `plannedPhases` ("project/phase")
+ * name parents that an earlier batch of the same run creates, so a dry run split into batches
+ * doesn't flag their children as orphans.
  */
-export const seedAll = internalMutation({
-  args: {},
-  handler: async (ctx) => {
-    // --- LOCATIONS ---
-    // Replace with your actual location rows from Supabase
-    const locationsData: LocationRow[] = [
-      // Example:
-      // {
-      //   name: "Nairobi",
-      //   slug: "nairobi",
-      //   description: "Kenya's vibrant capital city...",
-      //   image_url: "https://...",
-      //   country: "Kenya",
-      //   city: "Nairobi",
-      //   projects_count: 3,
-      // },
-    ];
+export const importFixtures = internalMutation({
+  args: {
+    locations: v.optional(v.array(locationFixtureValidator)),
+    projects: v.optional(v.array(projectFixtureValidator)),
+    phases: v.optional(v.array(phaseFixtureValidator)),
+    units: v.optional(v.array(unitFixtureValidator)),
+    dryRun: v.boolean(),
+    plannedLocations: v.optional(v.array(v.string())),
+    plannedProjects: v.optional(v.array(v.string())),
+    plannedPhases: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const report: FixtureReport = {
+      locations: { created: 0, updated: 0, unchanged: 0 },
+      projects: { created: 0, updated: 0, unchanged: 0 },
+      phases: { created: 0, updated: 0, unchanged: 0 },
+      units: { created: 0, updated: 0, unchanged: 0 },
+    };
+    const errors: FixtureError[] = [];
+    const writes: (() => Promise<unknown>)[] = [];
+
+    const duplicates = (table: FixtureTable, keys: string[]) => {
+      const seen = new Set<string>();
+      for (const key of keys) {
+        if (seen.has(key)) errors.push({ table, slug: key, message: "Listed more than once" });
+        seen.add(key);
+      }
+    };
+
+    // Record what a row will do; the write itself waits until every row checks out
+    const plan = (table: FixtureTable, existing: object | null, patch: object, write: () => Promise<unknown>) => {
+      if (!existing) report[table].created++;
+      else if (Object.keys(patch).length > 0) report[table].updated++;
+      else return void report[table].unchanged++;
+      writes.push(write);
+    };
+
+    // ── Locations ──
+    const locations = args.locations ?? [];
+    duplicates("locations", locations.map((l) => l.slug));
+    const locationIds = new Map<string, Id<"locations">>();
+    for (const row of locations) {
+      const existing = await ctx.db
+        .query("locations")
+        .withIndex("by_slug", (q) => q.eq("slug", row.slug))
+        .first();
+      if (existing) locationIds.set(row.slug, existing._id);
+      const patch = existing ? changedFields(existing, row) : {};
+      plan("locations", existing, patch, async () => {
+        if (existing) await ctx.db.patch(existing._id, patch);
+        else locationIds.set(row.slug, await ctx.db.insert("locations", { ...row, projects_count: 0 }));
+      });
+    }
+
+    const plannedLocations = new Set([...locations.map((l) => l.slug), ...(args.plannedLocations ?? [])]);
+    const findLocation = async (slug: string) => {
+      if (locationIds.has(slug)) return locationIds.get(slug)!;
+      const location = await ctx.db
+        .query("locations")
+        .withIndex("by_slug", (q) => q.eq("slug", slug))
+        .first();
+      if (location) locationIds.set(slug, location._id);
+      return location?._id ?? null;
+    };
+
+    // ── Projects ──
+    const projects = args.projects ?? [];
+    duplicates("projects", projects.map((p) => p.slug));
+    const projectIds = new Map<string, Id<"projects">>();
+    for (const { locationSlug, ...row } of projects) {
+      if (locationSlug && !(await findLocation(locationSlug)) && !plannedLocations.has(locationSlug)) {
+        errors.push({ table: "projects", slug: row.slug, message: `No location "${locationSlug}"` });
+        continue;
+      }
+      const existing = await getLiveProjectBySlug(ctx, row.slug);
+      if (existing) projectIds.set(row.slug, existing._id);
+      // A location this run creates has no id yet; any placeholder marks the move
+      const locationRef = locationSlug ? locationIds.get(locationSlug) ?? "new location" : undefined;
+      const patch = existing ? changedFields(existing, { ...row, locationId: locationRef }) : {};
+      plan("projects", existing, patch, async () => {
+        const locationId = locationSlug ? locationIds.get(locationSlug) : undefined;
+        if (existing) await ctx.db.patch(existing._id, changedFields(existing, { ...row, locationId }));
+        else {
+          projectIds.set(row.slug, await ctx.db.insert("projects", {
+            ...row,
+            locationId,
+            ...projectStats([]),
+            exterior_media: [],
+            interior_media: [],
+            gallery_media: [],
+            panoramas: [],
+          }));
+        }
+      });
+    }
+
+    const plannedProjects = new Set([...projects.map((p) => p.slug), ...(args.plannedProjects ?? [])]);
+    const findProject = async (slug: string) => {
+      if (projectIds.has(slug)) return projectIds.get(slug)!;
+      const project = await getLiveProjectBySlug(ctx, slug);
+      if (project) projectIds.set(slug, project._id);
+      return project?._id ?? null;
+    };
 
-    for (const loc of locationsData) {
-      await ctx.db.insert("locations", loc);
+    // ── Phases ──
+    const phases = args.phases ?? [];
+    duplicates("phases", phases.map((p) => `${p.project}/${p.slug}`));
+    const phaseIds = new Map<string, Id<"project_phases">>();
+    for (const { project, ...row } of phases) {
+      const key = `${project}/${row.slug}`;
+      const projectId = await findProject(project);
+      if (!projectId && !plannedProjects.has(project)) {
+        errors.push({ table: "phases", slug: key, message: `No project "${project}"` });
+        continue;
+      }
+      const existing = projectId
+        ? await ctx.db
+            .query("project_phases")
+            .withIndex("by_project_slug", (q) => q.eq("projectId", projectId).eq("slug", row.slug))
+            .filter((q) => q.eq(q.field("deletedAt"), undefined))
+            .first()
+        : null;
+      if (existing) phaseIds.set(key, existing._id);
+      const patch = existing ? changedFields(existing, row) : {};
+      plan("phases", existing, patch, async () => {
+        if (existing) await ctx.db.patch(existing._id, patch);
+        else {
+          phaseIds.set(key, await ctx.db.insert("project_phases", {
+            ...row,
+            projectId: projectIds.get(project)!,
+            exterior_media: [],
+            gallery_media: [],
+            panoramas: [],
+            total_units: 0,
+            available_units: 0,
+          }));
+        }
+      });
     }
 
-    // --- PROJECTS ---
-    // Replace with your actual project rows from Supabase
-    const projectsData: ProjectRow[] = [
-      // Example:
-      // {
-      //   name: "Kelani Heights",
-      //   slug: "kelani-heights",
-      //   tagline: "Where Nairobi meets the sky",
-      //   description: "A landmark development...",
-      //   location: "Westlands, Nairobi",
-      //   country: "Kenya",
-      //   price_from: 12500000,
-      //   status: "ongoing",
-      //   image_url: "https://...",
-      //   gallery: ["https://...", "https://..."],
-      //   bedrooms_min: 2,
-      //   bedrooms_max: 4,
-      //   area_from: 1200,
-      //   area_to: 3500,
-      //   amenities: ["Rooftop pool", "24/7 concierge", "Smart home systems"],
-      //   completion_date: "Q4 2026",
-      //   featured: true,
-      // },
-    ];
+    const plannedPhases = new Set([...phases.map((p) => `${p.project}/${p.slug}`), ...(args.plannedPhases ?? [])]);
+    const findPhase = async (projectSlug: string, slug: string) => {
+      const key = `${projectSlug}/${slug}`;
+      if (phaseIds.has(key)) return phaseIds.get(key)!;
+      const projectId = await findProject(projectSlug);
+      if (!projectId) return null;
+      const phase = await ctx.db
+        .query("project_phases")
+        .withIndex("by_project_slug", (q) => q.eq("projectId", projectId).eq("slug", slug))
+        .filter((q) => q.eq(q.field("deletedAt"), undefined))
+        .first();
+      if (phase) phaseIds.set(key, phase._id);
+      return phase?._id ?? null;
+    };
 
-    for (const project of projectsData) {
-      await ctx.db.insert("projects", project);
+    // ── Units ──
+    const units = args.units ?? [];
+    duplicates("units", units.map((u) => `${u.project}/${u.slug}`));
+    for (const { project, phase, status, ...row } of units) {
+      const key = `${project}/${row.slug}`;
+      const projectId = await findProject(project);
+      if (!projectId && !plannedProjects.has(project)) {
+        errors.push({ table: "units", slug: key, message: `No project "${project}"` });
+        continue;
+      }
+      if (phase && !(await findPhase(project, phase)) && !plannedPhases.has(`${project}/${phase}`)) {
+        errors.push({ table: "units", slug: key, message: `No phase "${phase}" in "${project}"` });
+        continue;
+      }
+      const existing = projectId
+        ? await ctx.db
+            .query("project_units")
+            .withIndex("by_project_slug", (q) => q.eq("projectId", projectId).eq("slug", row.slug))
+            .filter((q) => q.eq(q.field("deletedAt"), undefined))
+            .first()
+        : null;
+      if (existing && existing.status !== status && (await getActiveReservation(ctx, existing._id))) {
+        errors.push({ table: "units", slug: key, message: "Unit has an active hold, so its status can't change" });
+        continue;
+      }
+      // A phase this run creates has no id yet; any placeholder marks the move
+      const phaseRef = phase ? phaseIds.get(`${project}/${phase}`) ?? "new phase" : undefined;
+      const patch = existing ? changedFields(existing, { ...row, status, phaseId: phaseRef }) : {};
+      plan("units", existing, patch, async () => {
+        const phaseId = phase ? phaseIds.get(`${project}/${phase}`) : undefined;
+        if (existing) {
+          await ctx.db.patch(existing._id, changedFields(existing, { ...row, phaseId }));
+          await changeUnitStatus(ctx, existing, status, { reason: "imported", actor: null });
+        } else {
+          const id = await ctx.db.insert("project_units", {
+            ...row,
+            status,
+            projectId: projectIds.get(project)!,
+            phaseId,
+            exterior_media: [],
+            interior_media: [],
+            gallery_media: [],
+            panoramas: [],
+          });
+          await changeUnitStatus(ctx, (await ctx.db.get(id))!, status, { reason: "created", actor: null });
+        }
+      });
     }
 
-    console.log(
-      `Seeded ${locationsData.length} locations and ${projectsData.length} projects.`
-    );
+    if (args.dryRun || errors.length > 0) return { applied: false, report, errors };
+    for (const write of writes) await write();
+    for (const projectId of projectIds.values()) await refreshProjectStats(ctx, projectId);
+    await refreshLocationCounts(ctx);
+    return { applied: true, report, errors };
   },
 });
@@ -0,0 +1,243 @@
+import { internalMutation, mutation, MutationCtx, query } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { refreshLocationCounts, refreshProjectStats } from "./lib/aggregates";
+import { requirePermission } from "./lib/auth";
+import { logAudit } from "./lib/audit";
+import { purgePhase, purgeProject, purgeUnit } from "./lib/cascade";
+import {
+  getLiveProjectBySlug,
+  isLive,
+  restorePhase as restorePhaseWithUnits,
+  restoreProject as restoreProjectWithChildren,
+  TRASH_RETENTION_MS,
+} from "./lib/softDelete";
+
+// Purge runs are capped so a large backlog can't blow the mutation limits
+const PURGE_BATCH = 25;
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+// Everything in the trash. Phases and units trashed together with their
+// parent are folded into the parent's entry rather than listed separately.
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    await requirePermission(ctx, "content.edit");
+    const [projects, phases, units] = await Promise.all([
+      ctx.db.query("projects").withIndex("by_deleted", (q) => q.gt("deletedAt", 0)).collect(),
+      ctx.db.query("project_phases").withIndex("by_deleted", (q) => q.gt("deletedAt", 0)).collect(),
+      ctx.db.query("project_units").withIndex("by_deleted", (q) => q.gt("deletedAt", 0)).collect(),
+    ]);
+    const purgeAt = (deletedAt: number) => deletedAt + TRASH_RETENTION_MS;
+
+    const projectEntries = projects.map((project) => ({
+      _id: project._id,
+      name: project.name,
+      deletedAt: project.deletedAt!,
+      purgeAt: purgeAt(project.deletedAt!),
+      phases: phases.filter((p) => p.projectId === project._id && p.deletedAt === project.deletedAt).length,
+      units: units.filter((u) => u.projectId === project._id && u.deletedAt === project.deletedAt).length,
+    }));
+
+    const phaseEntries = [];
+    for (const phase of phases) {
+      const project = await ctx.db.get(phase.projectId);
+      if (project?.deletedAt === phase.deletedAt) continue;
+      phaseEntries.push({
+        _id: phase._id,
+        name: phase.name,
+        projectName: project?.name ?? "Unknown project",
+        projectTrashed: !!project && !isLive(project),
+        deletedAt: phase.deletedAt!,
+        purgeAt: purgeAt(phase.deletedAt!),
+        units: units.filter((u) => u.phaseId === phase._id && u.deletedAt === phase.deletedAt).length,
+      });
+    }
+
+    const unitEntries = [];
+    for (const unit of units) {
+      const project = await ctx.db.get(unit.projectId);
+      if (project?.deletedAt === unit.deletedAt) continue;
+      const phase = unit.phaseId ? await ctx.db.get(unit.phaseId) : null;
+      if (phase && phase.deletedAt === unit.deletedAt) continue;
+      unitEntries.push({
+        _id: unit._id,
+        name: unit.name,
+        projectName: project?.name ?? "Unknown project",
+        phaseName: phase?.name,
+        projectTrashed: !!project && !isLive(project),
+        deletedAt: unit.deletedAt!,
+        purgeAt: purgeAt(unit.deletedAt!),
+      });
+    }
+
+    const newestFirst = (a: { deletedAt: number }, b: { deletedAt: number }) => b.deletedAt - a.deletedAt;
+    return {
+      projects: projectEntries.sort(newestFirst),
+      phases: phaseEntries.sort(newestFirst),
+      units: unitEntries.sort(newestFirst),
+    };
+  },
+});
+
+// ─── Restore ──────────────────────────────────────────────────────────────────
+// Public pages look content up by slug and expect one live match, so a slug
+// reused while a row sat in the trash blocks its restore.
+
+function slugTaken(what: string, slug: string) {
+  return new ConvexError({
+    message: `Another ${what} now uses the slug "${slug}". Change that ${what}'s slug, then restore this one.`,
+  });
+}
+
+async function assertUnitSlugsFree(ctx: MutationCtx, units: Doc<"project_units">[]) {
+  for (const unit of units) {
+    const live = await ctx.db
+      .query("project_units")
+      .withIndex("by_project_slug", (q) => q.eq("projectId", unit.projectId).eq("slug", unit.slug))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .first();
+    if (live) throw slugTaken("unit", unit.slug);
+  }
+}
+
+export const restoreProject = mutation({
+  args: { id: v.id("projects") },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const project = await ctx.db.get(args.id);
+    if (!project || isLive(project)) return;
+    if (await getLiveProjectBySlug(ctx, project.slug)) throw slugTaken("project", project.slug);
+    await restoreProjectWithChildren(ctx, project);
+    await refreshProjectStats(ctx, project._id);
+    await refreshLocationCounts(ctx);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project",
+      entityId: args.id,
+      action: "restore",
+      before: project,
+      after: await ctx.db.get(args.id),
+    });
+  },
+});
+
+export const restorePhase = mutation({
+  args: { id: v.id("project_phases") },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const phase = await ctx.db.get(args.id);
+    if (!phase || isLive(phase)) return;
+    const project = await ctx.db.get(phase.projectId);
+    if (!project || !isLive(project)) {
+      throw new ConvexError({ message: "Restore the project first" });
+    }
+    const livePhase = await ctx.db
+      .query("project_phases")
+      .withIndex("by_project_slug", (q) => q.eq("projectId", phase.projectId).eq("slug", phase.slug))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .first();
+    if (livePhase) throw slugTaken("phase", phase.slug);
+    const units = await ctx.db
+      .query("project_units")
+      .withIndex("by_phase", (q) => q.eq("phaseId", phase._id))
+      .collect();
+    await assertUnitSlugsFree(ctx, units.filter((u) => u.deletedAt === phase.deletedAt));
+    await restorePhaseWithUnits(ctx, phase);
+    await refreshProjectStats(ctx, phase.projectId);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_phase",
+      entityId: args.id,
+      action: "restore",
+      before: phase,
+      after: await ctx.db.get(args.id),
+    });
+  },
+});
+
+export const restoreUnit = mutation({
+  args: { id: v.id("project_units") },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const unit = await ctx.db.get(args.id);
+    if (!unit || isLive(unit)) return;
+    const project = await ctx.db.get(unit.projectId);
+    if (!project || !isLive(project)) {
+      throw new ConvexError({ message: "Restore the project first" });
+    }
+    await assertUnitSlugsFree(ctx, [unit]);
+    await ctx.db.patch(args.id, { deletedAt: undefined });
+    await refreshProjectStats(ctx, unit.projectId);
+    await logAudit(ctx, {
+      actor,
+      entityType: "project_unit",
+      entityId: args.id,
+      action: "restore",
+      before: unit,
+      after: await ctx.db.get(args.id),
+    });
+  },
+});
+
+// ─── Purge ────────────────────────────────────────────────────────────────────
+// Only trashed rows can be purged; live content goes through `remove` first.
+
+export const purgeProjectNow = mutation({
+  args: { id: v.id("projects") },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "projects.delete");
+    const project = await ctx.db.get(args.id);
+    if (!project || isLive(project)) return;
+    await purgeProject(ctx, actor, args.id);
+  },
+});
+
+export const purgePhaseNow = mutation({
+  args: { id: v.id("project_phases") },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const phase = await ctx.db.get(args.id);
+    if (!phase || isLive(phase)) return;
+    await purgePhase(ctx, actor, args.id);
+  },
+});
+
+export const purgeUnitNow = mutation({
+  args: { id: v.id("project_units") },
+  handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "content.edit");
+    const unit = await ctx.db.get(args.id);
+    if (!unit || isLive(unit)) return;
+    await purgeUnit(ctx, actor, args.id);
+  },
+});
+
+// Daily cron: permanently remove anything trashed longer than the retention window
+export const purgeExpired = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - TRASH_RETENTION_MS;
+
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("by_deleted", (q) => q.gt("deletedAt", 0).lt("deletedAt", cutoff))
+      .take(PURGE_BATCH);
+    for (const project of projects) await purgeProject(ctx, null, project._id);
+
+    const phases = await ctx.db
+      .query("project_phases")
+      .withIndex("by_deleted", (q) => q.gt("deletedAt", 0).lt("deletedAt", cutoff))
+      .take(PURGE_BATCH);
+    for (const phase of phases) await purgePhase(ctx, null, phase._id);
+
+    const units = await ctx.db
+      .query("project_units")
+      .withIndex("by_deleted", (q) => q.gt("deletedAt", 0).lt("deletedAt", cutoff))
+      .take(PURGE_BATCH);
+    for (const unit of units) await purgeUnit(ctx, null, unit._id);
+
+    return { projects: projects.length, phases: phases.length, units: units.length };
+  },
+});
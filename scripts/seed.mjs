@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+/**
+ * Load fixture files into a Convex deployment through seed:importFixtures.
+ *
+ *   npm run seed                              # fixtures/demo into your dev deployment
+ *   npm run seed -- fixtures/demo --dry-run   # report what would change
+ *   npm run seed -- path/to/fixtures --prod   # production deployment
+ *
+ * A fixture directory holds any of locations, projects, phases and units,
+ * each as .json (an array of rows) or .csv (a header row, then one row per
+ * line; list columns are separated with "|"). Rows are matched by slug, so
+ * running the same fixtures twice changes nothing the second time.
+ *
+ * Every run checks the whole set first and only writes when it is clean.
+ */
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { spawnSync } from 'node:child_process';
+
+const TABLES = ['locations', 'projects', 'phases', 'units'];
+
+// Keeps each `convex run` argument well under the OS argument size limit
+const MAX_BATCH_BYTES = 60_000;
+
+// CSV cells are text; these columns are converted before sending
+const NUMBER_COLUMNS = new Set([
+  'displayOrder', 'bedrooms', 'bathrooms', 'area_sqft', 'price', 'floor_number',
+]);
+const BOOLEAN_COLUMNS = new Set(['featured']);
+const LIST_COLUMNS = new Set(['gallery', 'amenities']);
+
+// ─── Arguments ────────────────────────────────────────────────────────────────
+
+const argv = process.argv.slice(2);
+const dryRun = argv.includes('--dry-run');
+const runFlags = argv.includes('--prod') ? ['--prod'] : [];
+const dir = argv.find((a) => !a.startsWith('--')) ?? 'fixtures/demo';
+
+if (!existsSync(dir)) {
+  console.error(`No fixture directory at ${dir}`);
+  process.exit(1);
+}
+
+// ─── Reading fixtures ─────────────────────────────────────────────────────────
+
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += ch;
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+function csvRecords(file) {
+  const [header, ...rows] = parseCsv(readFileSync(file, 'utf8').replace(/^\uFEFF/, ''));
+  return rows.map((cells, i) => {
+    const record = {};
+    header.forEach((column, c) => {
+      const key = column.trim();
+      const raw = (cells[c] ?? '').trim();
+      if (raw === '') return; // empty cells are left out, not blanked
+      if (NUMBER_COLUMNS.has(key)) {
+        const n = Number(raw.replace(/,/g, ''));
+        if (!Number.isFinite(n)) throw new Error(`${file} line ${i + 2}: ${key} "${raw}" is not a number`);
+        record[key] = n;
+      } else if (BOOLEAN_COLUMNS.has(key)) {
+        record[key] = /^(true|yes|1)$/i.test(raw);
+      } else if (LIST_COLUMNS.has(key)) {
+        record[key] = raw.split('|').map((s) => s.trim()).filter(Boolean);
+      } else {
+        record[key] = raw;
+      }
+    });
+    return record;
+  });
+}
+
+function loadTable(table) {
+  const json = join(dir, `${table}.json`);
+  const csv = join(dir, `${table}.csv`);
+  if (existsSync(json)) return JSON.parse(readFileSync(json, 'utf8'));
+  if (existsSync(csv)) return csvRecords(csv);
+  return [];
+}
+
+const fixtures = Object.fromEntries(TABLES.map((t) => [t, loadTable(t)]));
+
+// ─── Running ──────────────────────────────────────────────────────────────────
+
+function batches() {
+  const out = [];
+  for (const table of TABLES) {
+    let current = [];
+    for (const row of fixtures[table]) {
+      if (current.length > 0 && JSON.stringify([...current, row]).length > MAX_BATCH_BYTES) {
+        out.push({ table, rows: current });
+        current = [];
+      }
+      current.push(row);
+    }
+    if (current.length > 0) out.push({ table, rows: current });
+  }
+  return out;
+}
+
+function run(table, rows, dry) {
+  const args = JSON.stringify({
+    [table]: rows,
+    dryRun: dry,
+    plannedLocations: fixtures.locations.map((l) => l.slug),
+    plannedProjects: fixtures.projects.map((p) => p.slug),
+    plannedPhases: fixtures.phases.map((p) => `${p.project}/${p.slug}`),
+  });
+  const res = spawnSync('npx', ['convex', 'run', ...runFlags, 'seed:importFixtures', args], {
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  if (res.error) throw res.error;
+  if (res.status !== 0) process.exit(res.status ?? 1);
+  try {
+    return JSON.parse(res.stdout);
+  } catch {
+    console.error(res.stdout);
+    throw new Error('Unexpected output from convex run');
+  }
+}
+
+function pass(dry) {
+  const totals = Object.fromEntries(TABLES.map((t) => [t, { created: 0, updated: 0, unchanged: 0 }]));
+  const errors = [];
+  for (const { table, rows } of batches()) {
+    const result = run(table, rows, dry);
+    for (const key of ['created', 'updated', 'unchanged']) totals[table][key] += result.report[table][key];
+    errors.push(...result.errors);
+  }
+  return { totals, errors };
+}
+
+const counts = TABLES.map((t) => `${fixtures[t].length} ${t}`).join(', ');
+console.log(`Fixtures in ${dir}: ${counts}`);
+
+const check = pass(true);
+if (check.errors.length > 0) {
+  console.error('\nNothing was written. Fix these rows and run again:');
+  for (const e of check.errors) console.error(`  ${e.table} ${e.slug}: ${e.message}`);
+  process.exit(1);
+}
+
+const { totals } = dryRun ? check : pass(false);
+console.log(dryRun ? '\nDry run, nothing written. Would make:' : '\nDone:');
+for (const t of TABLES) {
+  const { created, updated, unchanged } = totals[t];
+  console.log(`  ${t.padEnd(10)} ${created} created, ${updated} updated, ${unchanged} unchanged`);
+}
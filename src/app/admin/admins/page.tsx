@@ -4,34 +4,58 @@ import { useQuery, useMutation } from 'convex/react';
 import { api } from '@convex/_generated/api';
 import { Id } from '@convex/_generated/dataModel';
 import { useState } from 'react';
-import { Plus, Trash2, Shield, Crown } from 'lucide-react';
+import { Trash2, Shield, Crown, RefreshCw, Link2, X } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { useAdminPermissions } from '@/hooks/useAdminPermissions';
+
+const inviteLink = (token: string) => `${window.location.origin}/admin?invite=${token}`;
 
 export default function AdminUsersPage() {
   const admins = useQuery(api.adminUsers.getAll);
-  const addAdmin = useMutation(api.adminUsers.addAdmin);
   const removeAdmin = useMutation(api.adminUsers.removeAdmin);
+  const { can } = useAdminPermissions();
+  const canManage = can('admins.manage');
+
+  const invitations = useQuery(api.adminInvitations.listPending, canManage ? {} : 'skip');
+  const createInvitation = useMutation(api.adminInvitations.create);
+  const resendInvitation = useMutation(api.adminInvitations.resend);
+  const revokeInvitation = useMutation(api.adminInvitations.revoke);
 
-  const [clerkUserId, setClerkUserId] = useState('');
   const [email, setEmail] = useState('');
-  const [name, setName] = useState('');
   const [role, setRole] = useState<'admin' | 'super_admin'>('admin');
-  const [adding, setAdding] = useState(false);
+  const [inviting, setInviting] = useState(false);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(token));
+      toast.success('Invite link copied. Share it with them yourself');
+    } catch {
+      toast(inviteLink(token), { duration: 10000 });
+    }
+  };
 
-  const handleAdd = async (e: React.FormEvent) => {
+  const handleInvite = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!clerkUserId || !email || !name) return;
-    setAdding(true);
+    if (!email) return;
+    setInviting(true);
     try {
-      await addAdmin({ clerkUserId, email, name, role });
-      toast.success('Admin added');
-      setClerkUserId('');
+      const token = await createInvitation({ email, role });
+      toast.success(`Invitation created for ${email}`);
       setEmail('');
-      setName('');
-    } catch {
-      toast.error('Failed to add admin');
+      await copyLink(token);
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Failed to create invitation');
     } finally {
-      setAdding(false);
+      setInviting(false);
+    }
+  };
+
+  const handleResend = async (id: Id<'admin_invitations'>) => {
+    try {
+      const token = await resendInvitation({ id });
+      await copyLink(token);
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Failed to resend invitation');
     }
   };
 
@@ -42,70 +66,111 @@ export default function AdminUsersPage() {
         <p className="text-gray-500">Manage who has access to this dashboard</p>
       </div>
 
-      {/* Add form */}
-      <div className="bg-white rounded-2xl border border-gray-200 p-6 mb-8">
-        <h2 className="font-semibold text-gray-900 mb-4">Add Admin</h2>
-        <p className="text-sm text-gray-500 mb-4">
-          You need the Clerk User ID from your{' '}
-          <a href="https://dashboard.clerk.com" target="_blank" rel="noreferrer" className="text-olive-500 hover:underline">
-            Clerk dashboard
-          </a>. Users must sign in first so they appear in Clerk.
-        </p>
-        <form onSubmit={handleAdd} className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
-          <div>
-            <label className="text-xs font-medium text-gray-700 block mb-1.5">Clerk User ID</label>
-            <input
-              value={clerkUserId}
-              onChange={(e) => setClerkUserId(e.target.value)}
-              placeholder="user_2abc..."
-              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400"
-              required
-            />
-          </div>
-          <div>
-            <label className="text-xs font-medium text-gray-700 block mb-1.5">Name</label>
-            <input
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="Full name"
-              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400"
-              required
-            />
-          </div>
-          <div>
-            <label className="text-xs font-medium text-gray-700 block mb-1.5">Email</label>
-            <input
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="admin@email.com"
-              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400"
-              required
-            />
-          </div>
-          <div>
-            <label className="text-xs font-medium text-gray-700 block mb-1.5">Role</label>
-            <select
-              value={role}
-              onChange={(e) => setRole(e.target.value as any)}
-              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400"
-            >
-              <option value="admin">Admin</option>
-              <option value="super_admin">Super Admin</option>
-            </select>
+      {/* Invite form */}
+      {canManage && (
+        <div className="bg-white rounded-2xl border border-gray-200 p-6 mb-8">
+          <h2 className="font-semibold text-gray-900 mb-4">Invite Admin</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            No email is sent: creating an invite copies its link, and you share that link with the
+            person yourself. They get access the first time they sign in with this email address.
+            Links expire after 7 days.
+          </p>
+          <form onSubmit={handleInvite} className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+            <div className="sm:col-span-2">
+              <label className="text-xs font-medium text-gray-700 block mb-1.5">Email</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="admin@email.com"
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400"
+                required
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium text-gray-700 block mb-1.5">Role</label>
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as any)}
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400"
+              >
+                <option value="admin">Admin</option>
+                <option value="super_admin">Super Admin</option>
+              </select>
+            </div>
+            <div>
+              <button
+                type="submit"
+                disabled={inviting}
+                className="w-full px-5 py-2.5 bg-olive-500 text-white rounded-xl hover:bg-olive-400 transition-colors text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                <Link2 className="w-4 h-4" />
+                {inviting ? 'Creating...' : 'Create Invite Link'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Pending invitations */}
+      {canManage && invitations && invitations.length > 0 && (
+        <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-100">
+            <h2 className="font-semibold text-gray-900">Pending Invitations</h2>
           </div>
-          <div className="sm:col-span-2 lg:col-span-4">
-            <button
-              type="submit"
-              disabled={adding}
-              className="px-5 py-2.5 bg-olive-500 text-white rounded-xl hover:bg-olive-400 transition-colors text-sm font-medium disabled:opacity-50 flex items-center gap-2"
-            >
-              <Plus className="w-4 h-4" />
-              {adding ? 'Adding...' : 'Add Admin'}
-            </button>
+          <div className="divide-y divide-gray-50">
+            {invitations.map((invite) => {
+              const expired = invite.expiresAt < Date.now();
+              return (
+                <div key={invite._id} className="flex items-center justify-between px-6 py-4">
+                  <div>
+                    <p className="font-medium text-gray-900">{invite.email}</p>
+                    <p className="text-sm text-gray-500">
+                      {invite.role === 'super_admin' ? 'Super Admin' : 'Admin'}
+                      {invite.invitedByName && ` · invited by ${invite.invitedByName}`}
+                      {' · '}
+                      {expired ? (
+                        <span className="text-red-500">expired</span>
+                      ) : (
+                        `expires ${new Date(invite.expiresAt).toLocaleDateString()}`
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {!expired && (
+                      <button
+                        onClick={() => copyLink(invite.token)}
+                        className="p-1.5 text-gray-400 hover:text-olive-500 hover:bg-olive-50 rounded-lg transition-colors"
+                        title="Copy invite link"
+                      >
+                        <Link2 className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleResend(invite._id)}
+                      className="p-1.5 text-gray-400 hover:text-olive-500 hover:bg-olive-50 rounded-lg transition-colors"
+                      title="New link and expiry (copied for you to share)"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={async () => {
+                        if (!confirm(`Revoke the invitation for ${invite.email}?`)) return;
+                        await revokeInvitation({ id: invite._id });
+                        toast.success('Invitation revoked');
+                      }}
+                      className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Revoke"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
           </div>
-        </form>
-      </div>
+        </div>
+      )}
 
       {/* List */}
       <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
@@ -129,16 +194,22 @@ export default function AdminUsersPage() {
                 <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${admin.role === 'super_admin' ? 'bg-amber-100 text-amber-700' : 'bg-olive-100 text-olive-700'}`}>
                   {admin.role === 'super_admin' ? 'Super Admin' : 'Admin'}
                 </span>
-                <button
-                  onClick={async () => {
-                    if (!confirm(`Remove ${admin.name} as admin?`)) return;
-                    await removeAdmin({ id: admin._id });
-                    toast.success('Admin removed');
-                  }}
-                  className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
+                {canManage && (
+                  <button
+                    onClick={async () => {
+                      if (!confirm(`Remove ${admin.name} as admin?`)) return;
+                      try {
+                        await removeAdmin({ id: admin._id });
+                        toast.success('Admin removed');
+                      } catch (e: any) {
+                        toast.error(e?.data?.message ?? 'Failed to remove admin');
+                      }
+                    }}
+                    className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
               </div>
             </div>
           ))}
@@ -0,0 +1,229 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Id } from '@convex/_generated/dataModel';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import DateRangePicker, { lastDays, type DateRange } from '@/components/admin/DateRangePicker';
+import { BarChart, ChartLegend, HorizontalBars, SegmentBar, type ChartSeries } from '@/components/admin/Charts';
+import VisitorReport from '@/components/admin/VisitorReport';
+
+const selectCls =
+  'border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
+
+const TABS = ['inventory', 'visitors'] as const;
+type Tab = (typeof TABS)[number];
+
+type StockKey = 'available' | 'reserved' | 'sold';
+
+const STOCK_SERIES: ChartSeries<StockKey>[] = [
+  { key: 'available', label: 'Available', color: 'bg-emerald-500' },
+  { key: 'reserved', label: 'Reserved', color: 'bg-amber-400' },
+  { key: 'sold', label: 'Sold', color: 'bg-red-400' },
+];
+
+const ABSORPTION_SERIES: ChartSeries<'sold' | 'reserved'>[] = [
+  { key: 'sold', label: 'Sold', color: 'bg-olive-500' },
+  { key: 'reserved', label: 'Reserved', color: 'bg-amber-400' },
+];
+
+function formatKes(n: number) {
+  if (n >= 1_000_000_000) return `KES ${(n / 1_000_000_000).toFixed(2)}B`;
+  if (n >= 1_000_000) return `KES ${(n / 1_000_000).toFixed(1)}M`;
+  return `KES ${Math.round(n).toLocaleString()}`;
+}
+
+function bucketLabel(start: number, bucket: 'day' | 'week' | 'month') {
+  const d = new Date(start);
+  if (bucket === 'month') return d.toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' });
+  return d.toLocaleDateString(undefined, { day: 'numeric', month: 'short', timeZone: 'UTC' });
+}
+
+export default function AnalyticsPage() {
+  const [activeTab, setActiveTab] = useState<Tab>('inventory');
+  const [range, setRange] = useState<DateRange>(() => lastDays(90));
+  const [projectId, setProjectId] = useState<Id<'projects'> | ''>('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const projects = useQuery(api.projects.getAll, { includeDrafts: true });
+  const data = useQuery(
+    api.analytics.inventory,
+    activeTab === 'inventory' ? { from: range.from, to: range.to, projectId: projectId || undefined } : 'skip'
+  );
+
+  const toggle = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
+          <p className="text-gray-500">Stock, sales and visitor engagement across your projects</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={projectId} onChange={(e) => setProjectId(e.target.value as Id<'projects'> | '')} className={selectCls}>
+            <option value="">All projects</option>
+            {projects?.map((p) => (
+              <option key={p._id} value={p._id}>{p.name}</option>
+            ))}
+          </select>
+          <DateRangePicker value={range} onChange={setRange} />
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-1 mb-8 bg-gray-100 p-1 rounded-xl w-fit">
+        {TABS.map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`px-4 py-2 text-sm font-medium rounded-lg transition-all ${
+              activeTab === tab
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {tab.charAt(0).toUpperCase() + tab.slice(1)}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'visitors' ? (
+        <VisitorReport range={range} projectId={projectId || undefined} />
+      ) : data === undefined ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="w-8 h-8 text-olive-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Headline figures */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-5">
+            <Stat label="Units" value={data.totals.units.toLocaleString()}
+              hint={`${data.totals.available} available · ${data.totals.reserved} reserved · ${data.totals.sold} sold`} />
+            <Stat label="Sold value" value={formatKes(data.totals.soldValue)}
+              hint={`of ${formatKes(data.totals.totalValue)} total`} />
+            <Stat label="Absorption" value={`${(data.absorption.rate * 100).toFixed(1)}%`}
+              hint="of unsold stock sold in range" />
+            <Stat label="Sales pace" value={data.absorption.soldPerMonth.toFixed(1)}
+              hint={`units / month · ${data.absorption.soldInRange} sold in range`} />
+          </div>
+
+          {/* Absorption over time */}
+          <div className="bg-white rounded-2xl border border-gray-200 p-6">
+            <h2 className="font-semibold text-gray-900 mb-1">Absorption</h2>
+            <p className="text-sm text-gray-500 mb-5">
+              Net units moving to sold or reserved per {data.absorption.bucket}. Only changes recorded in unit status history are counted.
+            </p>
+            <BarChart
+              points={data.absorption.series.map((p) => ({
+                label: bucketLabel(p.start, data.absorption.bucket),
+                sold: p.sold,
+                reserved: p.reserved,
+              }))}
+              series={ABSORPTION_SERIES}
+            />
+          </div>
+
+          {/* Stock per project and phase */}
+          <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-100">
+              <h2 className="font-semibold text-gray-900">Stock by project</h2>
+              <ChartLegend series={STOCK_SERIES} />
+            </div>
+            {data.projects.length === 0 ? (
+              <p className="px-6 py-10 text-center text-gray-400">No projects yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                    <th className="px-6 py-3 font-medium">Project / phase</th>
+                    <th className="px-3 py-3 font-medium w-1/4">Stock</th>
+                    <th className="px-3 py-3 font-medium text-right">Avail.</th>
+                    <th className="px-3 py-3 font-medium text-right">Res.</th>
+                    <th className="px-3 py-3 font-medium text-right">Sold</th>
+                    <th className="px-3 py-3 font-medium text-right">Total value</th>
+                    <th className="px-6 py-3 font-medium text-right">Sold value</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {data.projects.map((p) => (
+                    <Fragment key={p.projectId}>
+                      <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => toggle(p.projectId)}>
+                        <td className="px-6 py-3 font-medium text-gray-900">
+                          <span className="flex items-center gap-2">
+                            {expanded.has(p.projectId)
+                              ? <ChevronDown className="w-4 h-4 text-gray-400" />
+                              : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                            {p.name}
+                          </span>
+                        </td>
+                        <StockCells row={p} />
+                      </tr>
+                      {expanded.has(p.projectId) && p.phases.map((phase) => (
+                        <tr key={phase.phaseId ?? 'none'} className="bg-gray-50/50">
+                          <td className="pl-12 pr-6 py-2.5 text-gray-600">{phase.name}</td>
+                          <StockCells row={phase} />
+                        </tr>
+                      ))}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Price per sqft */}
+          <div className="bg-white rounded-2xl border border-gray-200 p-6">
+            <h2 className="font-semibold text-gray-900 mb-1">Average price per sqft</h2>
+            <p className="text-sm text-gray-500 mb-5">By unit type, weighted by floor area. Units without an area are left out.</p>
+            {data.pricePerSqft.length === 0 ? (
+              <p className="text-sm text-gray-400">No units with an area yet.</p>
+            ) : (
+              <HorizontalBars
+                rows={data.pricePerSqft.map((t) => ({
+                  label: t.unitType,
+                  hint: `${t.units} unit${t.units === 1 ? '' : 's'}`,
+                  value: t.avgPricePerSqft,
+                  display: `KES ${Math.round(t.avgPricePerSqft).toLocaleString()}`,
+                }))}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint: string }) {
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 p-5">
+      <p className="text-sm text-gray-500 mb-1">{label}</p>
+      <p className="text-2xl font-bold text-gray-900">{value}</p>
+      <p className="text-xs text-gray-400 mt-1">{hint}</p>
+    </div>
+  );
+}
+
+function StockCells({ row }: {
+  row: { available: number; reserved: number; sold: number; totalValue: number; soldValue: number };
+}) {
+  return (
+    <>
+      <td className="px-3 py-3"><SegmentBar values={row} series={STOCK_SERIES} /></td>
+      <td className="px-3 py-3 text-right text-gray-700">{row.available}</td>
+      <td className="px-3 py-3 text-right text-gray-700">{row.reserved}</td>
+      <td className="px-3 py-3 text-right text-gray-700">{row.sold}</td>
+      <td className="px-3 py-3 text-right text-gray-700">{formatKes(row.totalValue)}</td>
+      <td className="px-6 py-3 text-right text-gray-900 font-medium">{formatKes(row.soldValue)}</td>
+    </>
+  );
+}
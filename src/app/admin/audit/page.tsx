@@ -0,0 +1,90 @@
+'use client';
+
+import { useQuery } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Id } from '@convex/_generated/dataModel';
+import type { AuditEntityType } from '@convex/lib/audit';
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { AuditEntry, ENTITY_LABELS } from '@/components/admin/AuditHistory';
+
+const inputCls =
+  'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
+
+// <input type="date"> value → start / end of that day in local time
+const dayStart = (date: string) => (date ? new Date(`${date}T00:00:00`).getTime() : undefined);
+const dayEnd = (date: string) => (date ? new Date(`${date}T23:59:59.999`).getTime() : undefined);
+
+export default function AdminAuditPage() {
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [actorId, setActorId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const admins = useQuery(api.adminUsers.getAll);
+  const entries = useQuery(api.auditLog.list, {
+    entityType: entityType || undefined,
+    actorId: actorId ? (actorId as Id<'admin_users'>) : undefined,
+    from: dayStart(from),
+    to: dayEnd(to),
+  });
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-500">Every change made from the admin panel</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-2xl border border-gray-200 p-5 mb-6 grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label className="text-xs font-medium text-gray-700 block mb-1.5">Entity</label>
+          <select value={entityType} onChange={(e) => setEntityType(e.target.value as AuditEntityType | '')} className={inputCls}>
+            <option value="">All entities</option>
+            {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+              <option key={type} value={type}>{ENTITY_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs font-medium text-gray-700 block mb-1.5">Actor</label>
+          <select value={actorId} onChange={(e) => setActorId(e.target.value)} className={inputCls}>
+            <option value="">Everyone</option>
+            {admins?.map((admin) => (
+              <option key={admin._id} value={admin._id}>{admin.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs font-medium text-gray-700 block mb-1.5">From</label>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputCls} />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-gray-700 block mb-1.5">To</label>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputCls} />
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+        {entries === undefined ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 text-olive-500 animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="px-6 py-12 text-center text-gray-400">No changes match these filters.</p>
+        ) : (
+          <div className="divide-y divide-gray-50">
+            {entries.map((entry) => (
+              <AuditEntry key={entry._id} entry={entry} showEntity />
+            ))}
+          </div>
+        )}
+      </div>
+      {entries && entries.length === 200 && (
+        <p className="text-xs text-gray-400 mt-3">Showing the latest 200 entries — narrow the filters to see older changes.</p>
+      )}
+    </div>
+  );
+}
@@ -2,54 +2,136 @@
 
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '@convex/_generated/api';
+import { Doc, Id } from '@convex/_generated/dataModel';
+import type { FunctionReturnType } from 'convex/server';
+import { LEAD_STATUSES, type LeadStatus } from '@convex/lib/leads';
 import { useState } from 'react';
-import { Trash2, Mail, Phone, MessageSquareText, Search, User, Building2, ChevronDown, ChevronUp } from 'lucide-react';
+import Link from 'next/link';
+import {
+  Trash2, Mail, Phone, MessageSquareText, Search, User, Building2, ChevronDown, ChevronUp,
+  Columns3, List, CalendarClock, StickyNote, X, Loader2, Home, Layers, Eye,
+} from 'lucide-react';
 import toast from 'react-hot-toast';
 
+type Lead = FunctionReturnType<typeof api.contactSubmissions.getAll>[number];
+type Admin = Doc<'admin_users'>;
+
+const STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  site_visit: 'Site visit booked',
+  negotiating: 'Negotiating',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+const STATUS_STYLES: Record<LeadStatus, string> = {
+  new: 'bg-blue-50 text-blue-700',
+  contacted: 'bg-olive-100 text-olive-700',
+  site_visit: 'bg-purple-50 text-purple-700',
+  negotiating: 'bg-amber-50 text-amber-700',
+  won: 'bg-green-100 text-green-700',
+  lost: 'bg-gray-100 text-gray-500',
+};
+
+const inputCls =
+  'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
+
+const UNASSIGNED = 'unassigned';
+
+// Submissions from before the pipeline have no status
+const statusOf = (lead: Lead): LeadStatus => lead.status ?? 'new';
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// <input type="date"> speaks yyyy-mm-dd in local time
+const toDateInput = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const isOverdue = (lead: Lead) =>
+  lead.followUpAt !== undefined && lead.followUpAt < Date.now() && statusOf(lead) !== 'won' && statusOf(lead) !== 'lost';
+
 export default function ContactSubmissionsPage() {
   const submissions = useQuery(api.contactSubmissions.getAll);
-  const removeSubmission = useMutation(api.contactSubmissions.remove);
+  const admins = useQuery(api.adminUsers.getAll);
+  const updateLead = useMutation(api.contactSubmissions.update);
 
+  const [view, setView] = useState<'board' | 'list'>('board');
   const [search, setSearch] = useState('');
-  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [projectFilter, setProjectFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<LeadStatus | ''>('');
+  const [assigneeFilter, setAssigneeFilter] = useState('');
+  const [openId, setOpenId] = useState<Id<'contact_submissions'> | null>(null);
+
+  const projects = Array.from(new Set((submissions ?? []).map((s) => s.project_interest).filter(Boolean))).sort();
 
   const filtered = submissions?.filter((s) => {
     const q = search.toLowerCase();
-    return (
+    const matchesSearch =
       s.full_name.toLowerCase().includes(q) ||
       s.email.toLowerCase().includes(q) ||
       s.message.toLowerCase().includes(q) ||
-      s.project_interest.toLowerCase().includes(q)
-    );
+      s.project_interest.toLowerCase().includes(q);
+    const matchesProject = !projectFilter || s.project_interest === projectFilter;
+    const matchesStatus = !statusFilter || statusOf(s) === statusFilter;
+    const matchesAssignee =
+      !assigneeFilter ||
+      (assigneeFilter === UNASSIGNED ? !s.assignedTo : s.assignedTo === assigneeFilter);
+    return matchesSearch && matchesProject && matchesStatus && matchesAssignee;
   });
 
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
+  const adminName = (id?: Id<'admin_users'>) => admins?.find((a) => a._id === id)?.name;
+  const openLead = submissions?.find((s) => s._id === openId) ?? null;
+
+  const moveLead = async (id: Id<'contact_submissions'>, status: LeadStatus) => {
+    try {
+      await updateLead({ id, status });
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Failed to update lead');
+    }
   };
 
   return (
     <div>
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900">Contact Submissions</h1>
-        <p className="text-gray-500">
-          View and manage enquiries from the contact form
-          {submissions && (
-            <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-olive-100 text-olive-700">
-              {submissions.length} total
-            </span>
-          )}
-        </p>
+      <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Leads</h1>
+          <p className="text-gray-500">
+            Track enquiries from the contact form through the sales pipeline
+            {submissions && (
+              <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-olive-100 text-olive-700">
+                {submissions.length} total
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="flex gap-1 bg-gray-100 p-1 rounded-xl">
+          {(['board', 'list'] as const).map((v) => (
+            <button key={v} onClick={() => setView(v)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-lg transition-all ${
+                view === v ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {v === 'board' ? <Columns3 className="w-4 h-4" /> : <List className="w-4 h-4" />}
+              {v === 'board' ? 'Board' : 'List'}
+            </button>
+          ))}
+        </div>
       </div>
 
-      {/* Search */}
-      <div className="mb-6">
-        <div className="relative max-w-md">
+      {/* Filters */}
+      <div className="mb-6 flex flex-wrap gap-3">
+        <div className="relative flex-1 min-w-[220px] max-w-md">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
           <input
             type="text"
@@ -59,129 +141,401 @@ export default function ContactSubmissionsPage() {
             className="w-full pl-10 pr-4 py-2.5 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400"
           />
         </div>
+        <select value={projectFilter} onChange={(e) => setProjectFilter(e.target.value)} className={`${inputCls} w-auto`}>
+          <option value="">All projects</option>
+          {projects.map((p) => <option key={p} value={p}>{p}</option>)}
+        </select>
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as LeadStatus | '')} className={`${inputCls} w-auto`}>
+          <option value="">All statuses</option>
+          {LEAD_STATUSES.map((s) => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+        </select>
+        <select value={assigneeFilter} onChange={(e) => setAssigneeFilter(e.target.value)} className={`${inputCls} w-auto`}>
+          <option value="">Anyone</option>
+          <option value={UNASSIGNED}>Unassigned</option>
+          {admins?.map((a) => <option key={a._id} value={a._id}>{a.name}</option>)}
+        </select>
       </div>
 
-      {/* List */}
-      <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
-        <div className="divide-y divide-gray-50">
-          {filtered?.map((submission) => {
-            const isExpanded = expandedId === submission._id;
-            return (
-              <div key={submission._id} className="group">
-                {/* Summary row */}
-                <div
-                  className="flex items-center justify-between px-6 py-4 cursor-pointer hover:bg-gray-50/50 transition-colors"
-                  onClick={() => setExpandedId(isExpanded ? null : submission._id)}
-                >
-                  <div className="flex items-center gap-4 min-w-0 flex-1">
-                    <div className="w-10 h-10 rounded-full bg-olive-100 flex items-center justify-center shrink-0">
-                      <User className="w-4 h-4 text-olive-600" />
-                    </div>
-                    <div className="min-w-0 flex-1">
-                      <p className="font-medium text-gray-900 truncate">{submission.full_name}</p>
-                      <p className="text-sm text-gray-500 truncate">{submission.email}</p>
-                    </div>
-                    {submission.project_interest && (
-                      <span className="hidden sm:inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700 shrink-0">
-                        <Building2 className="w-3 h-3" />
-                        {submission.project_interest}
-                      </span>
-                    )}
-                    <span className="hidden md:block text-xs text-gray-400 shrink-0">
-                      {formatDate(submission._creationTime)}
-                    </span>
+      {!submissions ? (
+        <div className="bg-white rounded-2xl border border-gray-200 px-6 py-12 text-center text-gray-400">
+          Loading submissions...
+        </div>
+      ) : view === 'board' ? (
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {LEAD_STATUSES.filter((s) => !statusFilter || s === statusFilter).map((status) => (
+            <BoardColumn
+              key={status}
+              status={status}
+              leads={(filtered ?? []).filter((l) => statusOf(l) === status)}
+              adminName={adminName}
+              onOpen={setOpenId}
+              onDrop={(id) => moveLead(id, status)}
+            />
+          ))}
+        </div>
+      ) : (
+        <LeadList leads={filtered ?? []} admins={admins ?? []} adminName={adminName} filtering={!!search || !!projectFilter || !!statusFilter || !!assigneeFilter} />
+      )}
+
+      {openLead && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center px-4" onClick={() => setOpenId(null)}>
+          <div className="bg-white rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-xl" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-start justify-between px-6 pt-6">
+              <div>
+                <h3 className="font-semibold text-gray-900">{openLead.full_name}</h3>
+                <p className="text-sm text-gray-500">{formatDate(openLead._creationTime)}</p>
+              </div>
+              <button onClick={() => setOpenId(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <LeadDetail lead={openLead} admins={admins ?? []} onDeleted={() => setOpenId(null)} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Board view ───────────────────────────────────────────────────────────────
+
+function BoardColumn({ status, leads, adminName, onOpen, onDrop }: {
+  status: LeadStatus;
+  leads: Lead[];
+  adminName: (id?: Id<'admin_users'>) => string | undefined;
+  onOpen: (id: Id<'contact_submissions'>) => void;
+  onDrop: (id: Id<'contact_submissions'>) => void;
+}) {
+  const [over, setOver] = useState(false);
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); setOver(true); }}
+      onDragLeave={() => setOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setOver(false);
+        const id = e.dataTransfer.getData('text/plain');
+        if (id) onDrop(id as Id<'contact_submissions'>);
+      }}
+      className={`w-72 shrink-0 rounded-2xl border p-3 transition-colors ${
+        over ? 'bg-olive-50 border-olive-300' : 'bg-gray-50 border-gray-200'
+      }`}
+    >
+      <div className="flex items-center justify-between px-1 mb-3">
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+          {STATUS_LABELS[status]}
+        </span>
+        <span className="text-xs text-gray-400">{leads.length}</span>
+      </div>
+      <div className="space-y-2 min-h-[80px]">
+        {leads.map((lead) => (
+          <button
+            key={lead._id}
+            draggable
+            onDragStart={(e) => e.dataTransfer.setData('text/plain', lead._id)}
+            onClick={() => onOpen(lead._id)}
+            className="w-full text-left bg-white rounded-xl border border-gray-200 px-3 py-2.5 hover:border-olive-300 transition-colors"
+          >
+            <p className="font-medium text-gray-900 text-sm truncate">{lead.full_name}</p>
+            {lead.project_interest && (
+              <p className="text-xs text-gray-500 truncate">
+                {lead.project_interest}{lead.unitName && ` · ${lead.unitName}`}
+              </p>
+            )}
+            <div className="flex items-center gap-3 mt-2 text-[11px] text-gray-400">
+              <span className="flex items-center gap-1 truncate">
+                <User className="w-3 h-3" /> {adminName(lead.assignedTo) ?? 'Unassigned'}
+              </span>
+              {lead.followUpAt !== undefined && (
+                <span className={`flex items-center gap-1 ${isOverdue(lead) ? 'text-red-500 font-medium' : ''}`}>
+                  <CalendarClock className="w-3 h-3" /> {new Date(lead.followUpAt).toLocaleDateString()}
+                </span>
+              )}
+              {(lead.notes?.length ?? 0) > 0 && (
+                <span className="flex items-center gap-1">
+                  <StickyNote className="w-3 h-3" /> {lead.notes!.length}
+                </span>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ─── List view ────────────────────────────────────────────────────────────────
+
+function LeadList({ leads, admins, adminName, filtering }: {
+  leads: Lead[];
+  admins: Admin[];
+  adminName: (id?: Id<'admin_users'>) => string | undefined;
+  filtering: boolean;
+}) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+      <div className="divide-y divide-gray-50">
+        {leads.map((submission) => {
+          const isExpanded = expandedId === submission._id;
+          return (
+            <div key={submission._id} className="group">
+              {/* Summary row */}
+              <div
+                className="flex items-center justify-between px-6 py-4 cursor-pointer hover:bg-gray-50/50 transition-colors"
+                onClick={() => setExpandedId(isExpanded ? null : submission._id)}
+              >
+                <div className="flex items-center gap-4 min-w-0 flex-1">
+                  <div className="w-10 h-10 rounded-full bg-olive-100 flex items-center justify-center shrink-0">
+                    <User className="w-4 h-4 text-olive-600" />
                   </div>
-                  <div className="flex items-center gap-2 ml-4 shrink-0">
-                    <button
-                      onClick={async (e) => {
-                        e.stopPropagation();
-                        if (!confirm(`Delete submission from ${submission.full_name}?`)) return;
-                        try {
-                          await removeSubmission({ id: submission._id });
-                          toast.success('Submission deleted');
-                          if (isExpanded) setExpandedId(null);
-                        } catch {
-                          toast.error('Failed to delete');
-                        }
-                      }}
-                      className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                    {isExpanded ? (
-                      <ChevronUp className="w-4 h-4 text-gray-400" />
-                    ) : (
-                      <ChevronDown className="w-4 h-4 text-gray-400" />
-                    )}
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-gray-900 truncate">{submission.full_name}</p>
+                    <p className="text-sm text-gray-500 truncate">{submission.email}</p>
                   </div>
+                  <span className={`px-2.5 py-1 rounded-full text-xs font-medium shrink-0 ${STATUS_STYLES[statusOf(submission)]}`}>
+                    {STATUS_LABELS[statusOf(submission)]}
+                  </span>
+                  {submission.project_interest && (
+                    <span className="hidden sm:inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700 shrink-0">
+                      <Building2 className="w-3 h-3" />
+                      {submission.project_interest}
+                    </span>
+                  )}
+                  <span className="hidden lg:block text-xs text-gray-400 shrink-0 w-28 truncate">
+                    {adminName(submission.assignedTo) ?? 'Unassigned'}
+                  </span>
+                  <span className={`hidden md:block text-xs shrink-0 ${isOverdue(submission) ? 'text-red-500 font-medium' : 'text-gray-400'}`}>
+                    {submission.followUpAt !== undefined
+                      ? `Follow up ${new Date(submission.followUpAt).toLocaleDateString()}`
+                      : formatDate(submission._creationTime)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 ml-4 shrink-0">
+                  {isExpanded ? (
+                    <ChevronUp className="w-4 h-4 text-gray-400" />
+                  ) : (
+                    <ChevronDown className="w-4 h-4 text-gray-400" />
+                  )}
                 </div>
-
-                {/* Expanded detail */}
-                {isExpanded && (
-                  <div className="px-6 pb-5 pt-0 bg-gray-50/50 border-t border-gray-100">
-                    <div className="grid sm:grid-cols-2 gap-4 mt-4">
-                      <div className="flex items-start gap-3">
-                        <Mail className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
-                        <div>
-                          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Email</p>
-                          <a href={`mailto:${submission.email}`} className="text-sm text-olive-600 hover:underline">
-                            {submission.email}
-                          </a>
-                        </div>
-                      </div>
-                      <div className="flex items-start gap-3">
-                        <Phone className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
-                        <div>
-                          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Phone</p>
-                          <p className="text-sm text-gray-900">
-                            {submission.phone ? (
-                              <a href={`tel:${submission.phone}`} className="text-olive-600 hover:underline">
-                                {submission.phone}
-                              </a>
-                            ) : (
-                              <span className="text-gray-400">Not provided</span>
-                            )}
-                          </p>
-                        </div>
-                      </div>
-                      <div className="flex items-start gap-3">
-                        <Building2 className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
-                        <div>
-                          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Project Interest</p>
-                          <p className="text-sm text-gray-900">
-                            {submission.project_interest || <span className="text-gray-400">None selected</span>}
-                          </p>
-                        </div>
-                      </div>
-                      <div className="flex items-start gap-3">
-                        <MessageSquareText className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
-                        <div>
-                          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Submitted</p>
-                          <p className="text-sm text-gray-900">{formatDate(submission._creationTime)}</p>
-                        </div>
-                      </div>
-                    </div>
-                    <div className="mt-4 p-4 bg-white rounded-xl border border-gray-200">
-                      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Message</p>
-                      <p className="text-sm text-gray-900 whitespace-pre-wrap">{submission.message}</p>
-                    </div>
-                  </div>
-                )}
               </div>
-            );
-          })}
 
-          {filtered?.length === 0 && (
-            <div className="px-6 py-12 text-center text-gray-400">
-              {search ? 'No submissions match your search.' : 'No contact submissions yet.'}
+              {/* Expanded detail */}
+              {isExpanded && (
+                <div className="bg-gray-50/50 border-t border-gray-100">
+                  <LeadDetail lead={submission} admins={admins} onDeleted={() => setExpandedId(null)} />
+                </div>
+              )}
             </div>
-          )}
+          );
+        })}
+
+        {leads.length === 0 && (
+          <div className="px-6 py-12 text-center text-gray-400">
+            {filtering ? 'No submissions match your filters.' : 'No contact submissions yet.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Lead detail (contact info, pipeline fields, notes) ───────────────────────
+
+function LeadDetail({ lead, admins, onDeleted }: { lead: Lead; admins: Admin[]; onDeleted: () => void }) {
+  const updateLead = useMutation(api.contactSubmissions.update);
+  const addNote = useMutation(api.contactSubmissions.addNote);
+  const removeSubmission = useMutation(api.contactSubmissions.remove);
+
+  const [note, setNote] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+
+  const update = async (fields: Omit<Parameters<typeof updateLead>[0], 'id'>) => {
+    try {
+      await updateLead({ id: lead._id, ...fields });
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Failed to update lead');
+    }
+  };
+
+  const submitNote = async () => {
+    setSavingNote(true);
+    try {
+      await addNote({ id: lead._id, body: note });
+      setNote('');
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Failed to add note');
+    } finally {
+      setSavingNote(false);
+    }
+  };
 
-          {!submissions && (
-            <div className="px-6 py-12 text-center text-gray-400">Loading submissions...</div>
-          )}
+  return (
+    <div className="px-6 pb-5">
+      <div className="grid sm:grid-cols-3 gap-3 mt-4">
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Status</span>
+          <select value={statusOf(lead)} onChange={(e) => update({ status: e.target.value as LeadStatus })} className={`${inputCls} mt-1`}>
+            {LEAD_STATUSES.map((s) => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Assigned to</span>
+          <select
+            value={lead.assignedTo ?? ''}
+            onChange={(e) => update({ assignedTo: e.target.value ? (e.target.value as Id<'admin_users'>) : null })}
+            className={`${inputCls} mt-1`}
+          >
+            <option value="">Unassigned</option>
+            {admins.map((a) => <option key={a._id} value={a._id}>{a.name}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Follow up</span>
+          <input
+            type="date"
+            value={lead.followUpAt !== undefined ? toDateInput(lead.followUpAt) : ''}
+            onChange={(e) => update({ followUpAt: e.target.value ? new Date(`${e.target.value}T09:00`).getTime() : null })}
+            className={`${inputCls} mt-1 ${isOverdue(lead) ? 'border-red-300 text-red-600' : ''}`}
+          />
+        </label>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4 mt-5">
+        <div className="flex items-start gap-3">
+          <Mail className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Email</p>
+            <a href={`mailto:${lead.email}`} className="text-sm text-olive-600 hover:underline">
+              {lead.email}
+            </a>
+          </div>
+        </div>
+        <div className="flex items-start gap-3">
+          <Phone className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Phone</p>
+            <p className="text-sm text-gray-900">
+              {lead.phone ? (
+                <a href={`tel:${lead.phone}`} className="text-olive-600 hover:underline">
+                  {lead.phone}
+                </a>
+              ) : (
+                <span className="text-gray-400">Not provided</span>
+              )}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-start gap-3">
+          <Building2 className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Project Interest</p>
+            <p className="text-sm text-gray-900">
+              {lead.project_interest || <span className="text-gray-400">None selected</span>}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-start gap-3">
+          <MessageSquareText className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Submitted</p>
+            <p className="text-sm text-gray-900">{formatDate(lead._creationTime)}</p>
+          </div>
+        </div>
+      </div>
+      {lead.unitId && <ViewerContext lead={lead} />}
+
+      <div className="mt-4 p-4 bg-white rounded-xl border border-gray-200">
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Message</p>
+        <p className="text-sm text-gray-900 whitespace-pre-wrap">{lead.message}</p>
+      </div>
+
+      {/* Notes */}
+      <div className="mt-4 p-4 bg-white rounded-xl border border-gray-200">
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-3">Notes</p>
+        {(lead.notes ?? []).length === 0 ? (
+          <p className="text-sm text-gray-400 mb-3">No notes yet.</p>
+        ) : (
+          <ul className="space-y-3 mb-3">
+            {lead.notes!.map((n) => (
+              <li key={n.createdAt} className="text-sm">
+                <p className="text-gray-900 whitespace-pre-wrap">{n.body}</p>
+                <p className="text-xs text-gray-400 mt-0.5">{n.authorName} · {formatDate(n.createdAt)}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Add a note…"
+            rows={2}
+            className={inputCls}
+          />
+          <button
+            onClick={submitNote}
+            disabled={savingNote || !note.trim()}
+            className="self-end flex items-center gap-2 px-4 py-2 bg-olive-500 text-white text-sm font-medium rounded-xl hover:bg-olive-400 transition-colors disabled:opacity-50"
+          >
+            {savingNote && <Loader2 className="w-4 h-4 animate-spin" />}
+            Add
+          </button>
         </div>
       </div>
+
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={async () => {
+            if (!confirm(`Delete submission from ${lead.full_name}?`)) return;
+            try {
+              await removeSubmission({ id: lead._id });
+              toast.success('Submission deleted');
+              onDeleted();
+            } catch {
+              toast.error('Failed to delete');
+            }
+          }}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-600 border border-red-200 hover:bg-red-50 rounded-lg transition-colors"
+        >
+          <Trash2 className="w-3.5 h-3.5" /> Delete
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Viewer enquiry links ─────────────────────────────────────────────────────
+
+const VIEWING_LABELS = { plan: 'Phase plan', media: 'Media', panorama: '360° panorama' } as const;
+
+function ViewerContext({ lead }: { lead: Lead }) {
+  return (
+    <div className="mt-4 p-4 bg-white rounded-xl border border-gray-200">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-3">Enquired from the viewer</p>
+      <div className="flex flex-wrap gap-2">
+        {lead.projectId && lead.unitId && (
+          <Link href={`/admin/projects/${lead.projectId}/units/${lead.unitId}`}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-600 hover:text-olive-600 border border-gray-200 hover:border-olive-300 rounded-lg">
+            <Home className="w-3.5 h-3.5" /> {lead.unitName ?? 'Deleted unit'}
+          </Link>
+        )}
+        {lead.projectId && lead.phaseId && (
+          <Link href={`/admin/projects/${lead.projectId}/phases/${lead.phaseId}`}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-600 hover:text-olive-600 border border-gray-200 hover:border-olive-300 rounded-lg">
+            <Layers className="w-3.5 h-3.5" /> {lead.phaseName ?? 'Deleted phase'}
+          </Link>
+        )}
+        {lead.viewing && (
+          <a href={lead.viewing.url} target="_blank" rel="noreferrer"
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-600 hover:text-olive-600 border border-gray-200 hover:border-olive-300 rounded-lg">
+            <Eye className="w-3.5 h-3.5" />
+            {VIEWING_LABELS[lead.viewing.kind]}{lead.viewing.label && ` · ${lead.viewing.label}`}
+          </a>
+        )}
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -4,8 +4,9 @@ import { useState, useRef } from 'react';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '@convex/_generated/api';
 import { Id } from '@convex/_generated/dataModel';
-import { Upload, X, Loader2, Save, Image as ImageIcon } from 'lucide-react';
+import { Upload, X, Loader2, Save, Image as ImageIcon, Lock } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { useAdminPermissions } from '@/hooks/useAdminPermissions';
 
 const DEFAULTS: Record<string, string> = {
   hero_bg:
@@ -71,13 +72,14 @@ export default function AdminHomepage() {
   const upsert = useMutation(api.homepageContent.upsert);
   const generateUploadUrl = useMutation(api.files.generateUploadUrl);
   const getStorageUrl = useMutation(api.files.getUrl);
+  const { admin, can } = useAdminPermissions();
 
   const [overrides, setOverrides] = useState<ImageFields>({});
   const [uploading, setUploading] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const fileInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
 
-  const loading = content === undefined;
+  const loading = content === undefined || admin === undefined;
 
   const getImageUrl = (key: string) => {
     if (overrides[key] !== undefined) return overrides[key];
@@ -174,6 +176,16 @@ export default function AdminHomepage() {
     );
   }
 
+  if (!can('homepage.edit')) {
+    return (
+      <div className="bg-white rounded-2xl border border-gray-200 p-12 text-center">
+        <Lock className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+        <p className="text-gray-900 font-medium">Super admins only</p>
+        <p className="text-gray-400 text-sm mt-1">Ask a super admin to update homepage images.</p>
+      </div>
+    );
+  }
+
   return (
     <div>
       <div className="flex items-center justify-between mb-8">
@@ -1,24 +1,45 @@
 'use client';
 
-import { useAuth, useUser } from '@clerk/nextjs';
-import { useQuery } from 'convex/react';
+import { useAuth } from '@clerk/nextjs';
+import { useConvexAuth, useMutation, useQuery } from 'convex/react';
 import { api } from '@convex/_generated/api';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import AdminSidebar from '@/components/admin/AdminSidebar';
-import { Loader2, Menu, X } from 'lucide-react';
+import { Crown, Loader2, Menu } from 'lucide-react';
+import toast from 'react-hot-toast';
 
 export default function AdminLayout({ children }: { children: React.ReactNode }) {
   const { isLoaded, isSignedIn } = useAuth();
-  const { user } = useUser();
+  const { isAuthenticated } = useConvexAuth();
   const router = useRouter();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
-  const clerkUserId = user?.id ?? '';
+  // Wait for Convex to receive the Clerk token so the check runs as this user
   const isAdmin = useQuery(
     api.adminUsers.isAdmin,
-    clerkUserId ? { clerkUserId } : 'skip'
+    isAuthenticated ? {} : 'skip'
   );
+  const needsBootstrap = useQuery(
+    api.adminUsers.needsBootstrap,
+    isAdmin === false ? {} : 'skip'
+  );
+  const bootstrap = useMutation(api.adminUsers.bootstrap);
+  const acceptInvitation = useMutation(api.adminInvitations.accept);
+  const [claiming, setClaiming] = useState(false);
+  const [inviteChecked, setInviteChecked] = useState(false);
+
+  // Signed in but not an admin yet: claim a pending invitation for this email, if any
+  useEffect(() => {
+    if (isAdmin !== false || inviteChecked) return;
+    const token = new URLSearchParams(window.location.search).get('invite') ?? undefined;
+    acceptInvitation({ token })
+      .then((adminId) => {
+        if (adminId) toast.success('Invitation accepted — welcome aboard');
+      })
+      .catch(() => {})
+      .finally(() => setInviteChecked(true));
+  }, [isAdmin, inviteChecked, acceptInvitation]);
 
   useEffect(() => {
     if (!isLoaded) return;
@@ -26,12 +47,16 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
       router.push('/sign-in');
       return;
     }
-    if (isAdmin === false) {
+    if (isAdmin === false && inviteChecked && needsBootstrap === false) {
       router.push('/');
     }
-  }, [isLoaded, isSignedIn, isAdmin, router]);
+  }, [isLoaded, isSignedIn, isAdmin, inviteChecked, needsBootstrap, router]);
 
-  if (!isLoaded || isAdmin === undefined) {
+  if (
+    !isLoaded ||
+    isAdmin === undefined ||
+    (isAdmin === false && (!inviteChecked || needsBootstrap === undefined))
+  ) {
     return (
       <div className="min-h-screen bg-charcoal-900 flex items-center justify-center">
         <div className="text-center">
@@ -42,6 +67,40 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
     );
   }
 
+  // First-time setup: nobody is an admin yet, so the signed-in user may claim super admin
+  if (!isAdmin && needsBootstrap) {
+    return (
+      <div className="min-h-screen bg-charcoal-900 flex items-center justify-center px-6">
+        <div className="max-w-sm w-full bg-white/5 border border-white/10 rounded-2xl p-8 text-center">
+          <div className="w-12 h-12 rounded-full bg-amber-100 flex items-center justify-center mx-auto mb-4">
+            <Crown className="w-5 h-5 text-amber-600" />
+          </div>
+          <h1 className="text-white font-semibold text-lg mb-2">Set up the admin panel</h1>
+          <p className="text-white/50 text-sm mb-6">
+            No admins exist yet. Claim this dashboard to become its first super admin.
+          </p>
+          <button
+            onClick={async () => {
+              setClaiming(true);
+              try {
+                await bootstrap();
+                toast.success('You are now the super admin');
+              } catch (e: any) {
+                toast.error(e.data?.message ?? 'Failed to claim admin access');
+              } finally {
+                setClaiming(false);
+              }
+            }}
+            disabled={claiming}
+            className="w-full px-5 py-2.5 bg-olive-500 text-white rounded-xl hover:bg-olive-400 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            {claiming ? 'Claiming...' : 'Become Super Admin'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (!isAdmin) {
     return (
       <div className="min-h-screen bg-charcoal-900 flex items-center justify-center">
@@ -0,0 +1,318 @@
+'use client';
+
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Doc, Id } from '@convex/_generated/dataModel';
+import Link from 'next/link';
+import { useRef, useState } from 'react';
+import { Plus, Edit, Trash2, Eye, Loader2, Upload, Save, X, MapPin } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PublishStatusBadge } from '@/components/admin/PublishControl';
+
+type LocationForm = {
+  name: string;
+  slug: string;
+  description: string;
+  image_url: string;
+  country: string;
+  city: string;
+};
+
+const EMPTY: LocationForm = { name: '', slug: '', description: '', image_url: '', country: 'Kenya', city: '' };
+
+export default function AdminLocationsPage() {
+  const locations = useQuery(api.locations.listForAdmin);
+  const removeLocation = useMutation(api.locations.remove);
+  // The location being edited, or 'new'
+  const [editing, setEditing] = useState<Doc<'locations'> | 'new' | null>(null);
+
+  const handleDelete = async (id: Id<'locations'>, name: string) => {
+    if (!confirm(`Delete "${name}"? This can't be undone.`)) return;
+    try {
+      await removeLocation({ id });
+      toast.success('Location deleted');
+      if (editing !== 'new' && editing?._id === id) setEditing(null);
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Failed to delete location');
+    }
+  };
+
+  if (locations === undefined) {
+    return (
+      <div className="flex items-center justify-center py-32">
+        <Loader2 className="w-8 h-8 text-olive-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Locations</h1>
+          <p className="text-gray-500">Where projects are listed on the site</p>
+        </div>
+        <button
+          onClick={() => setEditing('new')}
+          className="flex items-center gap-2 px-4 py-2.5 bg-olive-500 text-white rounded-xl hover:bg-olive-400 transition-colors text-sm font-medium"
+        >
+          <Plus className="w-4 h-4" />
+          New Location
+        </button>
+      </div>
+
+      {editing && (
+        <LocationEditor
+          key={editing === 'new' ? 'new' : editing._id}
+          location={editing === 'new' ? undefined : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {locations.length === 0 ? (
+        <div className="bg-white rounded-2xl border border-gray-200 px-6 py-16 text-center text-gray-400">
+          <MapPin className="w-10 h-10 mx-auto mb-3 text-gray-200" />
+          No locations yet.
+        </div>
+      ) : (
+        <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-100 bg-gray-50">
+                  <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-6 py-3">Location</th>
+                  <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-6 py-3">Country</th>
+                  <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-6 py-3">Projects</th>
+                  <th className="text-right text-xs font-medium text-gray-500 uppercase tracking-wider px-6 py-3">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {locations.map(({ projects, ...location }) => (
+                  <tr key={location._id} className="hover:bg-gray-50/50 transition-colors align-top">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-3">
+                        <img src={location.image_url} alt={location.name} className="w-10 h-10 rounded-lg object-cover" />
+                        <div>
+                          <p className="font-medium text-gray-900">{location.name}</p>
+                          <p className="text-xs text-gray-400">/{location.slug}</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {location.city ? `${location.city}, ${location.country}` : location.country}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {projects.length === 0 ? (
+                        <span className="text-gray-400">None</span>
+                      ) : (
+                        <ul className="space-y-1">
+                          {projects.map((p) => (
+                            <li key={p._id} className="flex items-center gap-2">
+                              <Link href={`/admin/projects/${p._id}`} className="hover:text-olive-600">
+                                {p.name}
+                              </Link>
+                              <PublishStatusBadge status={p.publishStatus} />
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center justify-end gap-2">
+                        <Link
+                          href={`/locations/${location.slug}`}
+                          target="_blank"
+                          className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="View live"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </Link>
+                        <button
+                          onClick={() => setEditing(location)}
+                          className="p-1.5 text-gray-400 hover:text-olive-500 hover:bg-olive-50 rounded-lg transition-colors"
+                          title="Edit"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(location._id, location.name)}
+                          className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LocationEditor({ location, onClose }: { location?: Doc<'locations'>; onClose: () => void }) {
+  const createLocation = useMutation(api.locations.create);
+  const updateLocation = useMutation(api.locations.update);
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const getStorageUrl = useMutation(api.files.getUrl);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [form, setForm] = useState<LocationForm>(
+    location
+      ? {
+          name: location.name,
+          slug: location.slug,
+          description: location.description,
+          image_url: location.image_url,
+          country: location.country,
+          city: location.city,
+        }
+      : EMPTY
+  );
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const set = (key: keyof LocationForm, value: string) => setForm((f) => ({ ...f, [key]: value }));
+  const autoSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+  const handleFile = async (file: File) => {
+    if (!file.type.startsWith('image/')) return toast.error('Please select an image file');
+    setUploading(true);
+    try {
+      const uploadUrl = await generateUploadUrl();
+      const res = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      });
+      if (!res.ok) throw new Error('Upload failed');
+      const { storageId } = await res.json();
+      const url = await getStorageUrl({ storageId: storageId as Id<'_storage'> });
+      if (!url) throw new Error('Could not get storage URL');
+      set('image_url', url);
+    } catch {
+      toast.error('Upload failed. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim() || !form.slug.trim() || !form.image_url) {
+      return toast.error('Name, slug and image are required');
+    }
+    setSaving(true);
+    try {
+      if (location) {
+        await updateLocation({ id: location._id, ...form });
+        toast.success('Location updated');
+      } else {
+        await createLocation(form);
+        toast.success('Location created');
+      }
+      onClose();
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Failed to save location');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="bg-white rounded-2xl border border-gray-200 p-6 mb-6">
+      <div className="flex items-center justify-between mb-5">
+        <h3 className="font-semibold text-gray-900">{location ? `Edit ${location.name}` : 'New Location'}</h3>
+        <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-[200px_1fr] gap-6">
+        <div>
+          <div className="aspect-[4/5] rounded-xl overflow-hidden bg-gray-100 mb-2 flex items-center justify-center">
+            {uploading ? (
+              <Loader2 className="w-6 h-6 text-olive-500 animate-spin" />
+            ) : form.image_url ? (
+              <img src={form.image_url} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <MapPin className="w-8 h-8 text-gray-300" />
+            )}
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            type="button"
+            disabled={uploading}
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            {form.image_url ? 'Replace image' : 'Upload image'}
+          </button>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700 block mb-1.5">Name</span>
+            <input
+              value={form.name}
+              onChange={(e) => {
+                set('name', e.target.value);
+                if (!location) set('slug', autoSlug(e.target.value));
+              }}
+              placeholder="Nairobi"
+              className={inputCls}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700 block mb-1.5">Slug</span>
+            <input value={form.slug} onChange={(e) => set('slug', e.target.value)} className={inputCls} />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700 block mb-1.5">City</span>
+            <input value={form.city} onChange={(e) => set('city', e.target.value)} placeholder="Nairobi" className={inputCls} />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700 block mb-1.5">Country</span>
+            <input value={form.country} onChange={(e) => set('country', e.target.value)} placeholder="Kenya" className={inputCls} />
+          </label>
+          <label className="block sm:col-span-2">
+            <span className="text-sm font-medium text-gray-700 block mb-1.5">Description</span>
+            <textarea
+              value={form.description}
+              onChange={(e) => set('description', e.target.value)}
+              rows={4}
+              className={inputCls}
+            />
+          </label>
+          <div className="sm:col-span-2 flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || uploading}
+              className="flex items-center gap-2 px-5 py-2.5 bg-olive-500 text-white rounded-xl hover:bg-olive-400 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              {location ? 'Save Changes' : 'Create Location'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+const inputCls = 'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
@@ -10,10 +10,13 @@ import {
   TrendingUp,
   ArrowRight,
   Building2,
+  BarChart3,
 } from 'lucide-react';
+import { useAdminPermissions } from '@/hooks/useAdminPermissions';
 
 export default function AdminDashboard() {
-  const projects = useQuery(api.projects.getAll);
+  const projects = useQuery(api.projects.getAll, { includeDrafts: true });
+  const { can } = useAdminPermissions();
 
   const totalProjects = projects?.length ?? 0;
   const ongoingProjects = projects?.filter((p) => p.status === 'ongoing').length ?? 0;
@@ -90,11 +93,19 @@ export default function AdminDashboard() {
           desc="Edit projects & units"
         />
         <QuickAction
-          href="/admin/admins"
-          icon={<Users className="w-6 h-6 text-purple-500" />}
-          label="Admin Users"
-          desc="Manage admin access"
+          href="/admin/analytics"
+          icon={<BarChart3 className="w-6 h-6 text-emerald-500" />}
+          label="Analytics"
+          desc="Stock, sales & absorption"
         />
+        {can('admins.manage') && (
+          <QuickAction
+            href="/admin/admins"
+            icon={<Users className="w-6 h-6 text-purple-500" />}
+            label="Admin Users"
+            desc="Manage admin access"
+          />
+        )}
       </div>
     </div>
   );
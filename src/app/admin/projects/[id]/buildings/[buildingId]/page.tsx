@@ -39,8 +39,8 @@ export default function EditBuildingPage() {
   const [activeTab, setActiveTab] = useState<Tab>('details');
 
   const building  = useQuery(api.projectBuildings.getById, { id: buildingId as Id<'project_buildings'> });
-  const units     = useQuery(api.projectUnits.getByBuilding, { buildingId: buildingId as Id<'project_buildings'> });
-  const allUnits  = useQuery(api.projectUnits.getByProject,  { projectId: id as Id<'projects'> });
+  const units     = useQuery(api.projectUnits.getByBuilding, { buildingId: buildingId as Id<'project_buildings'>, includeDrafts: true });
+  const allUnits  = useQuery(api.projectUnits.getByProject,  { projectId: id as Id<'projects'>, includeDrafts: true });
 
   const updateBuilding = useMutation(api.projectBuildings.update);
   const generateUrl    = useMutation(api.files.generateUploadUrl);
@@ -12,6 +12,11 @@ import MediaManager from '@/components/admin/MediaManager';
 import PanoramaManager from '@/components/admin/PanoramaManager';
 import UnitsManager from '@/components/admin/UnitsManager';
 import PhasesManager from '@/components/admin/PhasesManager';
+import AuditHistory from '@/components/admin/AuditHistory';
+import PublishControl from '@/components/admin/PublishControl';
+import InventoryExport from '@/components/admin/InventoryExport';
+import ProjectBackup from '@/components/admin/ProjectBackup';
+import { confirmDiscard } from '@/hooks/useUnsavedChangesWarning';
 import dynamic from 'next/dynamic';
 
 const MasterPlanManager = dynamic(
@@ -19,7 +24,7 @@ const MasterPlanManager = dynamic(
   { ssr: false, loading: () => <div className="h-32 flex items-center justify-center"><Loader2 className="w-6 h-6 animate-spin text-olive-500" /></div> }
 );
 
-const TABS = ['details', 'media', 'panoramas', 'master-plan', 'phases', 'units'] as const;
+const TABS = ['details', 'media', 'panoramas', 'master-plan', 'phases', 'units', 'history'] as const;
 type Tab = (typeof TABS)[number];
 
 const TAB_LABELS: Record<Tab, string> = {
@@ -29,14 +34,21 @@ const TAB_LABELS: Record<Tab, string> = {
   'master-plan': 'Master Plan',
   phases: 'Phases',
   units: 'Units',
+  history: 'History',
 };
 
 export default function EditProjectPage() {
   const { id } = useParams<{ id: string }>();
   const [activeTab, setActiveTab] = useState<Tab>('details');
+  const [planDirty, setPlanDirty] = useState(false);
 
-  const project = useQuery(api.projects.getById,   { id: id as Id<'projects'> });
-  const phases  = useQuery(api.projectPhases.getByProject, { projectId: id as Id<'projects'> });
+  // Leaving the master plan tab unmounts its editor, losing unsaved zones and undo history
+  const switchTab = (tab: Tab) => {
+    if (tab === activeTab || confirmDiscard(planDirty)) setActiveTab(tab);
+  };
+
+  const project = useQuery(api.projects.getById,   { id: id as Id<'projects'>, includeDrafts: true });
+  const phases  = useQuery(api.projectPhases.getByProject, { projectId: id as Id<'projects'>, includeDrafts: true });
 
   if (project === undefined || phases === undefined) {
     return (
@@ -68,6 +80,8 @@ export default function EditProjectPage() {
           <p className="text-gray-500 text-sm">/{project.slug}</p>
         </div>
         <div className="flex flex-wrap gap-2 ml-auto">
+          <InventoryExport projectId={project._id} />
+          <ProjectBackup projectId={project._id} />
           <Link href={`/projects/${project.slug}`} target="_blank"
             className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-500 hover:text-olive-500 border border-gray-200 hover:border-olive-300 rounded-lg">
             <ExternalLink className="w-3.5 h-3.5" /> Preview
@@ -83,10 +97,17 @@ export default function EditProjectPage() {
         </div>
       </div>
 
+      <PublishControl
+        target={{ type: 'project', id: project._id }}
+        status={project.publishStatus}
+        publishAt={project.publishAt}
+        previewHref={`/preview/projects/${project.slug}/explore`}
+      />
+
       {/* Tabs */}
       <div className="flex gap-1 mb-8 bg-gray-100 p-1 rounded-xl overflow-x-auto w-fit max-w-full">
         {TABS.map((tab) => (
-          <button key={tab} onClick={() => setActiveTab(tab)}
+          <button key={tab} onClick={() => switchTab(tab)}
             className={`px-4 py-2 text-sm font-medium rounded-lg transition-all whitespace-nowrap ${
               activeTab === tab ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
             }`}
@@ -126,6 +147,7 @@ export default function EditProjectPage() {
           masterPlanVideoUrl={(project as any).master_plan_video_url}
           masterPlanZones={(project as any).master_plan_zones ?? []}
           phases={phases ?? []}
+          onDirtyChange={setPlanDirty}
         />
       )}
 
@@ -147,6 +169,10 @@ export default function EditProjectPage() {
           <UnitsManager projectId={project._id} />
         </div>
       )}
+
+      {activeTab === 'history' && (
+        <AuditHistory entityType="project" entityId={project._id} />
+      )}
     </div>
   );
 }
@@ -5,27 +5,42 @@
  * /admin/projects/[id]/phases/[phaseId]
  *
  * Tabs:
- *  - Details   : name, slug, description, thumbnail, total_units
+ *  - Details   : name, slug, description, thumbnail (unit counts are derived)
  *  - Media     : phase views + gallery (MediaManager)
  *  - Panoramas : 360° panoramas (PanoramaManager)
- *  - Phase Plan: canvas for drawing unit zones over image/video
+ *  - Phase Plan: canvas for drawing unit zones over image/video, with a grid
+ *                generator for repeated plots and apartments, and the mobile
+ *                crop that zones are mapped into for phones
+ *  - Units     : units assigned to this phase
+ *  - History   : audit log entries for this phase
  */
 
 import { useParams } from 'next/navigation';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '@convex/_generated/api';
 import { Id } from '@convex/_generated/dataModel';
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import { useVideoDisplayArea } from '@/hooks/useVideoDisplayArea';
+import { useUndoableState } from '@/hooks/useUndoableState';
+import { confirmDiscard, useUnsavedChangesWarning } from '@/hooks/useUnsavedChangesWarning';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import {
-  ArrowLeft, Loader2, ExternalLink, Save, Upload, X, Trash2,
-  Video, LinkIcon, Info, Plus, Monitor, Smartphone,
+  ArrowLeft, Loader2, ExternalLink, Save, Undo2, Redo2, Upload, X, Trash2,
+  Video, LinkIcon, Info, Plus, Monitor, Smartphone, Grid3x3, RotateCcw,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import PanoramaManager from '@/components/admin/PanoramaManager';
+import AuditHistory from '@/components/admin/AuditHistory';
+import PublishControl from '@/components/admin/PublishControl';
+import InventoryExport from '@/components/admin/InventoryExport';
 import type { CanvasZone, ZonePoint, ZoneStatus } from '@/components/canvas/ImmersiveCanvas';
+import { useZoneHeatmap, ZoneHeatmapBar } from '@/components/admin/ZoneHeatmap';
+import { useZoneArray, ZoneArrayPanel } from '@/components/admin/ZoneArray';
+import { COVERAGE, MobileCoverageReport, MobileCropBar } from '@/components/admin/MobileCoverage';
+import { MobileCropFrame } from '@/components/canvas/MobileCropFrame';
+import { usePlanAspect } from '@/hooks/usePlanAspect';
+import { fromCrop, mobileCoverage, mobileOutline, type MobileCrop } from '@/lib/mobileZones';
 
 const ImmersiveCanvas = dynamic(
   () => import('@/components/canvas/ImmersiveCanvas').then(m => m.ImmersiveCanvas),
@@ -38,7 +53,7 @@ import MediaManager from '@/components/admin/MediaManager';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-const TABS = ['details', 'media', 'panoramas', 'phase-plan', 'units'] as const;
+const TABS = ['details', 'media', 'panoramas', 'phase-plan', 'units', 'history'] as const;
 type Tab = (typeof TABS)[number];
 
 const TAB_LABELS: Record<Tab, string> = {
@@ -47,6 +62,7 @@ const TAB_LABELS: Record<Tab, string> = {
   panoramas:    'Panoramas',
   'phase-plan': 'Phase Plan',
   units:        'Units',
+  history:      'History',
 };
 
 const inputCls =
@@ -71,7 +87,6 @@ function PhaseDetailsForm({ phase, phaseId }: {
     slug:          phase.slug ?? '',
     description:   phase.description ?? '',
     thumbnail_url: phase.thumbnail_url ?? '',
-    total_units:   String(phase.total_units ?? ''),
   });
   const [saving,    setSaving]   = useState(false);
   const [uploading, setUploading] = useState(false);
@@ -118,7 +133,6 @@ function PhaseDetailsForm({ phase, phaseId }: {
         slug:          form.slug || slugify(form.name),
         description:   form.description || undefined,
         thumbnail_url: form.thumbnail_url || undefined,
-        total_units:   form.total_units ? Number(form.total_units) : undefined,
       });
       toast.success('Phase saved');
     } catch (e: any) { toast.error(e.message ?? 'Failed to save'); }
@@ -149,10 +163,11 @@ function PhaseDetailsForm({ phase, phaseId }: {
               rows={3} className={inputCls} placeholder="Phase description…" />
           </div>
           <div>
-            <label className="text-xs font-medium text-gray-600 block mb-1">Total Units</label>
-            <input type="number" min={0} value={form.total_units}
-              onChange={e => setForm(f => ({ ...f, total_units: e.target.value }))}
-              className={inputCls} />
+            <label className="text-xs font-medium text-gray-600 block mb-1">Units</label>
+            <p className="px-3 py-2 text-sm text-gray-700 bg-gray-50 border border-gray-100 rounded-lg">
+              {phase.available_units ?? 0} available of {phase.total_units ?? 0}
+            </p>
+            <p className="text-[11px] text-gray-400 mt-1">Counted from this phase&apos;s published units</p>
           </div>
 
           {/* Thumbnail */}
@@ -203,10 +218,11 @@ type ZoneWithMobile = CanvasZone & {
   mobilePoints?: ZonePoint[];
 };
 
-function PhasePlanManager({ phase, phaseId, units }: {
+function PhasePlanManager({ phase, phaseId, units, onDirtyChange }: {
   phase: any;
   phaseId: Id<'project_phases'>;
   units: any[];
+  onDirtyChange: (dirty: boolean) => void;
 }) {
   const updatePhase   = useMutation(api.projectPhases.update);
   const generateUrl   = useMutation(api.files.generateUploadUrl);
@@ -216,18 +232,43 @@ function PhasePlanManager({ phase, phaseId, units }: {
   const [imageInput, setImageInput] = useState(phase.phase_plan_url ?? '');
   const [videoUrl,   setVideoUrl]   = useState(phase.phase_plan_video_url ?? '');
   const [videoInput, setVideoInput] = useState(phase.phase_plan_video_url ?? '');
+  const planAspect = usePlanAspect(imageUrl || undefined, videoUrl || undefined);
 
-  const [zones, setZones] = useState<ZoneWithMobile[]>(
-    (phase.phase_unit_zones ?? []).map((z: any) => ({
+  // Zones and the mobile crop are edited locally with undo/redo and written on Save
+  const {
+    value: plan, set: setPlan, undo, redo, canUndo, canRedo, dirty, markSaved,
+  } = useUndoableState<{ zones: ZoneWithMobile[]; mobileCrop?: MobileCrop }>({
+    zones: (phase.phase_unit_zones ?? []).map((z: any) => ({
       id: z.id, label: z.label, points: z.points,
       mobilePoints: z.mobile_points,
       status: z.status as ZoneStatus,
       meta: { unitId: z.unitId },
-    }))
-  );
+    })),
+    mobileCrop: phase.phase_plan_mobile_crop,
+  });
+  const { zones, mobileCrop } = plan;
+
+  const setZones = useCallback((next: (prev: ZoneWithMobile[]) => ZoneWithMobile[], mergeKey?: string) => {
+    setPlan(p => {
+      const zones = next(p.zones);
+      return zones === p.zones ? p : { ...p, zones };
+    }, mergeKey);
+  }, [setPlan]);
+
+  // Nudging one crop edge after another is a single undo step
+  const setMobileCrop = (crop: MobileCrop | undefined) => setPlan(p => ({ ...p, mobileCrop: crop }), 'mobile-crop');
+
+  // A new plan image or video is only kept on Save too
+  const unsaved = dirty || imageUrl !== (phase.phase_plan_url ?? '') || videoUrl !== (phase.phase_plan_video_url ?? '');
+  useUnsavedChangesWarning(unsaved);
+
+  // Lets the page ask before a tab switch unmounts the editor
+  useEffect(() => { onDirtyChange(unsaved); }, [unsaved, onDirtyChange]);
+  useEffect(() => () => onDirtyChange(false), [onDirtyChange]);
 
   // Edit mode: desktop or mobile
   const [editMode, setEditMode] = useState<'desktop' | 'mobile'>('desktop');
+  const heat = useZoneHeatmap({ phaseId });
 
   const [saving,    setSaving]   = useState(false);
   const [uploading, setUploading] = useState<'image' | 'video' | null>(null);
@@ -246,6 +287,18 @@ function PhasePlanManager({ phase, phaseId, units }: {
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const videoDisplayArea = useVideoDisplayArea(videoElRef, canvasContainerRef);
 
+  const zoneArray = useZoneArray({
+    zones, units,
+    imageUrl: imageUrl || undefined,
+    videoUrl: videoUrl || undefined,
+  });
+
+  const applyZoneArray = () => {
+    setZones(prev => zoneArray.build(prev));
+    zoneArray.close();
+    toast.success('Zones generated');
+  };
+
   const uploadToConvex = async (file: File): Promise<string> => {
     const uploadUrl = await generateUrl();
     const storageId: Id<'_storage'> = await new Promise((res, rej) => {
@@ -293,6 +346,10 @@ function PhasePlanManager({ phase, phaseId, units }: {
     setPendingLabel(''); setPendingStatus('available'); setPendingUnitId('');
   }, []);
 
+  // Linked zones follow the unit's status; only unlinked zones set their own
+  const unitStatus = (unitId?: string): ZoneStatus | undefined =>
+    units.find((u: any) => u._id === unitId)?.status;
+
   const confirmPendingZone = () => {
     if (!pendingZone) return;
     if (!pendingLabel.trim()) return toast.error('Zone label is required');
@@ -304,7 +361,7 @@ function PhasePlanManager({ phase, phaseId, units }: {
         // Update existing zone with mobile points
         setZones(prev => prev.map(z =>
           z.id === existingZone.id
-            ? { ...z, mobilePoints: pendingZone.points }
+            ? { ...z, mobilePoints: fromCrop(pendingZone.points, mobileCrop) }
             : z
         ));
         toast.success('Mobile zone updated');
@@ -314,8 +371,8 @@ function PhasePlanManager({ phase, phaseId, units }: {
           id: pendingZone.id,
           label: pendingLabel.trim(),
           points: [], // Empty desktop points
-          mobilePoints: pendingZone.points,
-          status: pendingStatus,
+          mobilePoints: fromCrop(pendingZone.points, mobileCrop),
+          status: unitStatus(pendingUnitId) ?? pendingStatus,
           meta: pendingUnitId ? { unitId: pendingUnitId } : {},
         }]);
       }
@@ -325,7 +382,7 @@ function PhasePlanManager({ phase, phaseId, units }: {
         id: pendingZone.id,
         label: pendingLabel.trim(),
         points: pendingZone.points,
-        status: pendingStatus,
+        status: unitStatus(pendingUnitId) ?? pendingStatus,
         meta: pendingUnitId ? { unitId: pendingUnitId } : {},
       }]);
     }
@@ -334,31 +391,44 @@ function PhasePlanManager({ phase, phaseId, units }: {
 
   const handleZoneDelete = useCallback((id: string) => {
     setZones(prev => prev.filter(z => z.id !== id));
-  }, []);
+  }, [setZones]);
+
+  // Reshaped in the canvas; the mobile preview edits the mobile outline, drawn over the crop
+  const handleZoneUpdate = useCallback((id: string, points: ZonePoint[]) => {
+    setZones(prev => prev.map(z =>
+      z.id !== id ? z : editMode === 'mobile' ? { ...z, mobilePoints: fromCrop(points, mobileCrop) } : { ...z, points }
+    ));
+  }, [editMode, mobileCrop, setZones]);
 
   const updateZoneField = (id: string, field: string, value: any) => {
+    // Typing a label is one undo step, not one per keystroke
+    const mergeKey = field === 'label' ? `label:${id}` : undefined;
     setZones(prev => prev.map(z => {
       if (z.id !== id) return z;
       if (field === 'label')  return { ...z, label: value };
       if (field === 'status') return { ...z, status: value };
-      if (field === 'unitId') return { ...z, meta: { unitId: value || undefined } };
+      if (field === 'unitId') return { ...z, status: unitStatus(value) ?? z.status, meta: { unitId: value || undefined } };
       return z;
-    }));
+    }), mergeKey);
   };
 
   const handleSave = async () => {
+    const saved = plan;
     setSaving(true);
     try {
       await updatePhase({
         id: phaseId,
         phase_plan_url:       imageUrl || undefined,
         phase_plan_video_url: videoUrl || undefined,
-        phase_unit_zones: zones.map(z => ({
-          id: z.id, label: z.label, points: z.points, status: z.status,
+        phase_plan_mobile_crop: saved.mobileCrop ?? null,
+        phase_unit_zones: saved.zones.map(z => ({
+          id: z.id, label: z.label, points: z.points,
+          status: z.meta?.unitId ? undefined : z.status,
           unitId: z.meta?.unitId ?? undefined,
           mobile_points: z.mobilePoints,
         })),
       });
+      markSaved(saved);
       toast.success('Phase plan saved');
     } catch { toast.error('Failed to save'); }
     finally { setSaving(false); }
@@ -366,6 +436,14 @@ function PhasePlanManager({ phase, phaseId, units }: {
 
   const hasMedia = !!(imageUrl || videoUrl);
 
+  // What phones show: hand-drawn mobile outlines, else the desktop ones mapped into the crop
+  const mobileZones = zones.map(z => ({ ...z, points: mobileOutline(z.points, z.mobilePoints, mobileCrop) }));
+
+  const coverageOf = (z: ZoneWithMobile) => mobileCoverage(z.points, z.mobilePoints, mobileCrop);
+
+  const resetMobilePoints = (id: string) =>
+    setZones(prev => prev.map(z => z.id === id ? { ...z, mobilePoints: undefined } : z));
+
   return (
     <div className="space-y-5 max-w-5xl">
 
@@ -460,7 +538,8 @@ function PhasePlanManager({ phase, phaseId, units }: {
             <div className="flex-1 min-w-0">
               <h3 className="font-semibold text-gray-900">Draw Unit Zones</h3>
               <p className="text-xs text-gray-500 mt-0.5">
-                Use the pencil tool to draw polygons over each unit location. Link each zone to a unit.
+                Use the pencil tool to draw polygons over each unit location. Link each zone to a unit. Select a zone to drag its points or move it.
+                Repeat a zone as a grid to lay out rows of plots or apartments.
               </p>
             </div>
 
@@ -475,7 +554,7 @@ function PhasePlanManager({ phase, phaseId, units }: {
                 <Monitor className="w-3.5 h-3.5" /> Desktop
               </button>
               <button
-                onClick={() => setEditMode('mobile')}
+                onClick={() => { setEditMode('mobile'); zoneArray.close(); }}
                 className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
                   editMode === 'mobile' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500 hover:text-gray-700'
                 }`}
@@ -484,6 +563,19 @@ function PhasePlanManager({ phase, phaseId, units }: {
               </button>
             </div>
 
+            {/* Undo / redo (Ctrl+Z, Ctrl+Shift+Z) */}
+            <div className="flex items-center gap-1 shrink-0">
+              {unsaved && <span className="text-xs text-amber-600 mr-1">Unsaved changes</span>}
+              <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)"
+                className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent">
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)"
+                className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent">
+                <Redo2 className="w-4 h-4" />
+              </button>
+            </div>
+
             <button onClick={handleSave} disabled={saving}
               className="flex items-center gap-2 px-5 py-2.5 bg-olive-500 text-white rounded-xl text-sm font-semibold hover:bg-olive-400 disabled:opacity-50 shrink-0">
               {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
@@ -491,6 +583,9 @@ function PhasePlanManager({ phase, phaseId, units }: {
             </button>
           </div>
 
+          <ZoneHeatmapBar state={heat} />
+          {editMode === 'mobile' && <MobileCropBar crop={mobileCrop} onChange={setMobileCrop} planAspect={planAspect} />}
+
           <div className="h-[60vh] bg-gray-950 relative flex items-center justify-center">
             {/* Mobile mode: render in mobile aspect ratio container */}
             {editMode === 'mobile' ? (
@@ -502,26 +597,43 @@ function PhasePlanManager({ phase, phaseId, units }: {
                   aspectRatio: '9 / 19.5', // iPhone-like aspect ratio
                 }}
               >
-                {/* Video plays behind if set */}
-                {videoUrl && (
-                  <video ref={videoElRef} src={videoUrl} autoPlay loop muted playsInline
-                    className="absolute inset-0 w-full h-full object-contain" />
+                {mobileCrop ? (
+                  /* Only the crop, as phones show it; zone points are relative to the crop */
+                  <MobileCropFrame crop={mobileCrop} imageUrl={imageUrl || undefined} videoUrl={videoUrl || undefined}>
+                    <ImmersiveCanvas
+                      transparent
+                      zones={mobileZones}
+                      mode="edit"
+                      onZoneAdd={handleZoneAdd}
+                      onZoneDelete={handleZoneDelete}
+                      onZoneUpdate={handleZoneUpdate}
+                      heatmap={heat.heatmap}
+                      className="w-full h-full"
+                    />
+                  </MobileCropFrame>
+                ) : (
+                  <>
+                    {/* Video plays behind if set */}
+                    {videoUrl && (
+                      <video ref={videoElRef} src={videoUrl} autoPlay loop muted playsInline
+                        className="absolute inset-0 w-full h-full object-contain" />
+                    )}
+                    <div className="absolute inset-0">
+                      <ImmersiveCanvas
+                        imageUrl={imageUrl && !videoUrl ? imageUrl : undefined}
+                        transparent={!!videoUrl}
+                        zones={mobileZones}
+                        mode="edit"
+                        onZoneAdd={handleZoneAdd}
+                        onZoneDelete={handleZoneDelete}
+                        onZoneUpdate={handleZoneUpdate}
+                        videoDisplayArea={videoUrl ? videoDisplayArea : undefined}
+                        heatmap={heat.heatmap}
+                        className="w-full h-full"
+                      />
+                    </div>
+                  </>
                 )}
-                <div className="absolute inset-0">
-                  <ImmersiveCanvas
-                    imageUrl={imageUrl && !videoUrl ? imageUrl : undefined}
-                    transparent={!!videoUrl}
-                    zones={zones.map(z => ({
-                      ...z,
-                      points: z.mobilePoints ?? z.points, // Show mobile points if available
-                    }))}
-                    mode="edit"
-                    onZoneAdd={handleZoneAdd}
-                    onZoneDelete={handleZoneDelete}
-                    videoDisplayArea={videoUrl ? videoDisplayArea : undefined}
-                    className="w-full h-full"
-                  />
-                </div>
                 {/* Mobile preview label */}
                 <div className="absolute bottom-2 left-2 right-2 text-center">
                   <span className="text-[10px] text-white/60 bg-black/40 px-2 py-0.5 rounded-full">
@@ -541,11 +653,13 @@ function PhasePlanManager({ phase, phaseId, units }: {
                   <ImmersiveCanvas
                     imageUrl={imageUrl && !videoUrl ? imageUrl : undefined}
                     transparent={!!videoUrl}
-                    zones={zones}
+                    zones={zoneArray.preview ?? zones}
                     mode="edit"
                     onZoneAdd={handleZoneAdd}
                     onZoneDelete={handleZoneDelete}
+                    onZoneUpdate={handleZoneUpdate}
                     videoDisplayArea={videoUrl ? videoDisplayArea : undefined}
+                    heatmap={heat.heatmap}
                     className="w-full h-full"
                   />
                 </div>
@@ -553,6 +667,8 @@ function PhasePlanManager({ phase, phaseId, units }: {
             )}
           </div>
 
+          <ZoneArrayPanel state={zoneArray} onApply={applyZoneArray} />
+
           {/* Pending zone form */}
           {pendingZone && (
             <div className="p-4 border-t border-gray-100 bg-orange-50">
@@ -566,7 +682,7 @@ function PhasePlanManager({ phase, phaseId, units }: {
               </div>
               {editMode === 'mobile' && (
                 <p className="text-xs text-blue-600 mb-3">
-                  Drawing mobile-specific coordinates. If a zone with this label exists, its mobile points will be updated.
+                  Drawing a hand-corrected mobile outline. If a zone with this label exists, its mobile points will be updated.
                 </p>
               )}
               <div className="grid sm:grid-cols-3 gap-3">
@@ -577,7 +693,9 @@ function PhasePlanManager({ phase, phaseId, units }: {
                 </div>
                 <div>
                   <label className="text-xs font-medium text-gray-600 block mb-1">Status</label>
-                  <select value={pendingStatus} onChange={e => setPendingStatus(e.target.value as any)} className={inputCls}>
+                  <select value={unitStatus(pendingUnitId) ?? pendingStatus} onChange={e => setPendingStatus(e.target.value as any)}
+                    disabled={!!pendingUnitId} title={pendingUnitId ? 'Follows the linked unit' : undefined}
+                    className={`${inputCls} disabled:opacity-60`}>
                     <option value="available">Available</option>
                     <option value="reserved">Reserved</option>
                     <option value="sold">Sold</option>
@@ -624,7 +742,9 @@ function PhasePlanManager({ phase, phaseId, units }: {
                         </span>
                       )}
                     </div>
-                    <select value={zone.status} onChange={e => updateZoneField(zone.id, 'status', e.target.value)} className={inputCls}>
+                    <select value={unitStatus(zone.meta?.unitId) ?? zone.status} onChange={e => updateZoneField(zone.id, 'status', e.target.value)}
+                      disabled={!!zone.meta?.unitId} title={zone.meta?.unitId ? 'Follows the linked unit' : undefined}
+                      className={`${inputCls} disabled:opacity-60`}>
                       <option value="available">Available</option>
                       <option value="reserved">Reserved</option>
                       <option value="sold">Sold</option>
@@ -637,6 +757,12 @@ function PhasePlanManager({ phase, phaseId, units }: {
                           <option key={u._id} value={u._id}>{u.name}</option>
                         ))}
                       </select>
+                      {editMode === 'desktop' && zone.points.length >= 3 && (
+                        <button onClick={() => zoneArray.open(zone.id)} title="Repeat as a grid"
+                          className={`p-2 hover:text-sky-600 ${zoneArray.sourceId === zone.id ? 'text-sky-600' : 'text-gray-300'}`}>
+                          <Grid3x3 className="w-4 h-4" />
+                        </button>
+                      )}
                       <button onClick={() => handleZoneDelete(zone.id)} className="p-2 text-gray-300 hover:text-red-500">
                         <Trash2 className="w-4 h-4" />
                       </button>
@@ -648,9 +774,15 @@ function PhasePlanManager({ phase, phaseId, units }: {
                       <Monitor className="w-3 h-3" />
                       Desktop: {zone.points.length > 0 ? `${zone.points.length} pts` : 'Not set'}
                     </span>
-                    <span className={`flex items-center gap-1 ${zone.mobilePoints && zone.mobilePoints.length > 0 ? 'text-blue-600' : 'text-gray-400'}`}>
+                    <span className={`flex items-center gap-1 ${COVERAGE[coverageOf(zone)].text}`}>
                       <Smartphone className="w-3 h-3" />
-                      Mobile: {zone.mobilePoints && zone.mobilePoints.length > 0 ? `${zone.mobilePoints.length} pts` : 'Not set'}
+                      Mobile: {COVERAGE[coverageOf(zone)].label}
+                      {coverageOf(zone) === 'manual' && (
+                        <button onClick={() => resetMobilePoints(zone.id)} title="Drop the hand-drawn outline and derive it from desktop"
+                          className="ml-1 flex items-center gap-0.5 text-gray-400 hover:text-gray-600">
+                          <RotateCcw className="w-3 h-3" /> Use automatic
+                        </button>
+                      )}
                     </span>
                   </div>
                 </div>
@@ -662,6 +794,9 @@ function PhasePlanManager({ phase, phaseId, units }: {
               </button>
             </div>
           )}
+
+          <MobileCoverageReport zones={zones} crop={mobileCrop} planAspect={planAspect}
+            imageUrl={imageUrl && !videoUrl ? imageUrl : undefined} />
         </div>
       )}
 
@@ -682,7 +817,7 @@ function PhaseUnitsPanel({ phaseId, projectId, projectSlug }: {
   projectId: Id<'projects'>;
   projectSlug: string;
 }) {
-  const units      = useQuery(api.projectUnits.getByPhase, { phaseId });
+  const units      = useQuery(api.projectUnits.getByPhase, { phaseId, includeDrafts: true });
   const createUnit = useMutation(api.projectUnits.create);
   const removeUnit = useMutation(api.projectUnits.remove);
 
@@ -827,7 +962,7 @@ function PhaseUnitsPanel({ phaseId, projectId, projectSlug }: {
                 <button
                   onClick={async () => {
                     if (!confirm(`Delete "${u.name}"?`)) return;
-                    try { await removeUnit({ id: u._id }); toast.success('Deleted'); }
+                    try { await removeUnit({ id: u._id }); toast.success('Moved to trash'); }
                     catch { toast.error('Failed'); }
                   }}
                   className="p-1.5 text-gray-300 hover:text-red-500 rounded-lg">
@@ -852,10 +987,16 @@ function PhaseUnitsPanel({ phaseId, projectId, projectSlug }: {
 export default function PhaseAdminPage() {
   const { id, phaseId } = useParams<{ id: string; phaseId: string }>();
   const [activeTab, setActiveTab] = useState<Tab>('details');
+  const [planDirty, setPlanDirty] = useState(false);
 
-  const project = useQuery(api.projects.getById, { id: id as Id<'projects'> });
-  const phase   = useQuery(api.projectPhases.getById, { id: phaseId as Id<'project_phases'> });
-  const units   = useQuery(api.projectUnits.getByPhase, { phaseId: phaseId as Id<'project_phases'> });
+  // Leaving the plan tab unmounts its editor, losing unsaved zones and undo history
+  const switchTab = (tab: Tab) => {
+    if (tab === activeTab || confirmDiscard(planDirty)) setActiveTab(tab);
+  };
+
+  const project = useQuery(api.projects.getById, { id: id as Id<'projects'>, includeDrafts: true });
+  const phase   = useQuery(api.projectPhases.getById, { id: phaseId as Id<'project_phases'>, includeDrafts: true });
+  const units   = useQuery(api.projectUnits.getByPhase, { phaseId: phaseId as Id<'project_phases'>, includeDrafts: true });
 
   if (project === undefined || phase === undefined || units === undefined) {
     return (
@@ -890,6 +1031,7 @@ export default function PhaseAdminPage() {
           <p className="text-gray-500 text-sm">/{phase.slug}</p>
         </div>
         <div className="flex gap-2">
+          <InventoryExport projectId={project._id} phaseId={phase._id} />
           <Link href={`/projects/${project.slug}/phases/${phase.slug}`} target="_blank"
             className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-500 hover:text-olive-500 border border-gray-200 hover:border-olive-300 rounded-lg">
             <ExternalLink className="w-3.5 h-3.5" /> Preview Phase
@@ -897,10 +1039,17 @@ export default function PhaseAdminPage() {
         </div>
       </div>
 
+      <PublishControl
+        target={{ type: 'phase', id: phase._id }}
+        status={phase.publishStatus}
+        publishAt={phase.publishAt}
+        previewHref={`/preview/projects/${project.slug}/phases/${phase.slug}`}
+      />
+
       {/* Tabs */}
       <div className="flex gap-1 mb-8 bg-gray-100 p-1 rounded-xl overflow-x-auto w-fit max-w-full">
         {TABS.map(tab => (
-          <button key={tab} onClick={() => setActiveTab(tab)}
+          <button key={tab} onClick={() => switchTab(tab)}
             className={`px-4 py-2 text-sm font-medium rounded-lg transition-all whitespace-nowrap ${
               activeTab === tab ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
             }`}
@@ -948,6 +1097,7 @@ export default function PhaseAdminPage() {
           phase={phase}
           phaseId={phaseId as Id<'project_phases'>}
           units={units ?? []}
+          onDirtyChange={setPlanDirty}
         />
       )}
 
@@ -958,6 +1108,10 @@ export default function PhaseAdminPage() {
           projectSlug={project.slug}
         />
       )}
+
+      {activeTab === 'history' && (
+        <AuditHistory entityType="project_phase" entityId={phaseId} />
+      )}
     </div>
   );
 }
@@ -10,19 +10,26 @@ import { ArrowLeft, Loader2 } from 'lucide-react';
 import UnitForm from '@/components/admin/UnitForm';
 import MediaManager from '@/components/admin/MediaManager';
 import PanoramaManager from '@/components/admin/PanoramaManager';
+import AuditHistory from '@/components/admin/AuditHistory';
+import PublishControl from '@/components/admin/PublishControl';
+import ReservationPanel from '@/components/admin/ReservationPanel';
+import { useAdminPermissions } from '@/hooks/useAdminPermissions';
 
-const TABS = ['details', 'media', 'panoramas'] as const;
+const TABS = ['details', 'media', 'panoramas', 'reservation', 'history'] as const;
 type Tab = (typeof TABS)[number];
 
 export default function EditUnitPage() {
   const { id, unitId } = useParams<{ id: string; unitId: string }>();
   const [activeTab, setActiveTab] = useState<Tab>('details');
+  const { can } = useAdminPermissions();
 
   const unit = useQuery(api.projectUnits.getById, {
     unitId: unitId as Id<'project_units'>,
+    includeDrafts: true,
   });
+  const project = useQuery(api.projects.getById, { id: id as Id<'projects'>, includeDrafts: true });
 
-  if (unit === undefined) {
+  if (unit === undefined || project === undefined) {
     return (
       <div className="flex items-center justify-center py-20">
         <Loader2 className="w-8 h-8 text-olive-500 animate-spin" />
@@ -56,9 +63,18 @@ export default function EditUnitPage() {
         </div>
       </div>
 
+      {project && (
+        <PublishControl
+          target={{ type: 'unit', id: unit._id }}
+          status={unit.publishStatus}
+          publishAt={unit.publishAt}
+          previewHref={`/preview/projects/${project.slug}/units/${unit.slug}`}
+        />
+      )}
+
       {/* Tabs */}
       <div className="flex gap-1 mb-8 bg-gray-100 p-1 rounded-xl w-fit">
-        {TABS.map((tab) => (
+        {TABS.filter((tab) => tab !== 'reservation' || can('leads.manage')).map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -84,6 +100,10 @@ export default function EditUnitPage() {
           panoramas={unit.panoramas ?? []}
         />
       )}
+      {activeTab === 'reservation' && <ReservationPanel unit={unit} />}
+      {activeTab === 'history' && (
+        <AuditHistory entityType="project_unit" entityId={unit._id} />
+      )}
     </div>
   );
 }
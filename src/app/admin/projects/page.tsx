@@ -5,14 +5,25 @@ import { api } from '@convex/_generated/api';
 import { Id } from '@convex/_generated/dataModel';
 import Link from 'next/link';
 import { useState } from 'react';
-import { Plus, Edit, Trash2, Eye, Search } from 'lucide-react';
+import { Plus, Edit, Trash2, Eye, Search, ArchiveRestore } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { useAdminPermissions } from '@/hooks/useAdminPermissions';
+import DeleteSummaryDialog from '@/components/admin/DeleteSummaryDialog';
+import { PublishStatusBadge } from '@/components/admin/PublishControl';
+import { RestoreProjectPanel } from '@/components/admin/ProjectBackup';
 
 export default function AdminProjectsPage() {
-  const projects = useQuery(api.projects.getAll);
+  const projects = useQuery(api.projects.getAll, { includeDrafts: true });
   const removeProject = useMutation(api.projects.remove);
+  const { can } = useAdminPermissions();
   const [search, setSearch] = useState('');
-  const [deleting, setDeleting] = useState<string | null>(null);
+  const [showRestore, setShowRestore] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<{ id: Id<'projects'>; name: string } | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const deletionSummary = useQuery(
+    api.projects.getDeletionSummary,
+    pendingDelete ? { id: pendingDelete.id } : 'skip'
+  );
 
   const filtered = projects?.filter(
     (p) =>
@@ -20,16 +31,17 @@ export default function AdminProjectsPage() {
       p.location.toLowerCase().includes(search.toLowerCase())
   );
 
-  const handleDelete = async (id: Id<'projects'>, name: string) => {
-    if (!confirm(`Delete "${name}"? This will also delete all units.`)) return;
-    setDeleting(id);
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    setDeleting(true);
     try {
-      await removeProject({ id });
-      toast.success('Project deleted');
+      await removeProject({ id: pendingDelete.id });
+      toast.success('Project moved to trash');
+      setPendingDelete(null);
     } catch {
       toast.error('Failed to delete project');
     } finally {
-      setDeleting(null);
+      setDeleting(false);
     }
   };
 
@@ -40,15 +52,28 @@ export default function AdminProjectsPage() {
           <h1 className="text-2xl font-bold text-gray-900">Projects</h1>
           <p className="text-gray-500">{projects?.length ?? 0} total projects</p>
         </div>
-        <Link
-          href="/admin/projects/new"
-          className="flex items-center gap-2 px-4 py-2.5 bg-olive-500 text-white rounded-xl hover:bg-olive-400 transition-colors text-sm font-medium"
-        >
-          <Plus className="w-4 h-4" />
-          New Project
-        </Link>
+        <div className="flex items-center gap-2">
+          {can('content.edit') && (
+            <button
+              onClick={() => setShowRestore(!showRestore)}
+              className="flex items-center gap-2 px-4 py-2.5 bg-white border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors text-sm font-medium"
+            >
+              <ArchiveRestore className="w-4 h-4" />
+              Restore
+            </button>
+          )}
+          <Link
+            href="/admin/projects/new"
+            className="flex items-center gap-2 px-4 py-2.5 bg-olive-500 text-white rounded-xl hover:bg-olive-400 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            New Project
+          </Link>
+        </div>
       </div>
 
+      {showRestore && <RestoreProjectPanel onClose={() => setShowRestore(false)} />}
+
       {/* Search */}
       <div className="relative mb-6">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
@@ -86,7 +111,9 @@ export default function AdminProjectsPage() {
                         className="w-10 h-10 rounded-lg object-cover"
                       />
                       <div>
-                        <p className="font-medium text-gray-900">{p.name}</p>
+                        <p className="font-medium text-gray-900 flex items-center gap-2">
+                          {p.name} <PublishStatusBadge status={p.publishStatus} />
+                        </p>
                         <p className="text-xs text-gray-400">/{p.slug}</p>
                       </div>
                     </div>
@@ -122,14 +149,15 @@ export default function AdminProjectsPage() {
                       >
                         <Edit className="w-4 h-4" />
                       </Link>
-                      <button
-                        onClick={() => handleDelete(p._id, p.name)}
-                        disabled={deleting === p._id}
-                        className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
-                        title="Delete"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                      {can('projects.delete') && (
+                        <button
+                          onClick={() => setPendingDelete({ id: p._id, name: p.name })}
+                          className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -145,6 +173,22 @@ export default function AdminProjectsPage() {
           </table>
         </div>
       </div>
+
+      {pendingDelete && (
+        <DeleteSummaryDialog
+          title={`Delete "${pendingDelete.name}"?`}
+          note="It moves to the trash and can be restored for 30 days."
+          items={deletionSummary ? [
+            { label: 'Phases', count: deletionSummary.phases.length, names: deletionSummary.phases },
+            { label: 'Buildings', count: deletionSummary.buildings.length, names: deletionSummary.buildings },
+            { label: 'Units', count: deletionSummary.units },
+            { label: 'Uploaded files (removed on purge if unused elsewhere)', count: deletionSummary.files },
+          ] : undefined}
+          confirming={deleting}
+          onConfirm={handleDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
     </div>
   );
 }
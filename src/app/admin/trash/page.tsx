@@ -0,0 +1,145 @@
+'use client';
+
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Loader2, RotateCcw, Trash2, FolderOpen, Layers, Home } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAdminPermissions } from '@/hooks/useAdminPermissions';
+
+type TrashRow = {
+  id: string;
+  name: string;
+  detail: string;
+  deletedAt: number;
+  purgeAt: number;
+  onRestore: () => Promise<unknown>;
+  onPurge?: () => Promise<unknown>;
+};
+
+export default function AdminTrashPage() {
+  const trash = useQuery(api.trash.list);
+  const restoreProject = useMutation(api.trash.restoreProject);
+  const restorePhase = useMutation(api.trash.restorePhase);
+  const restoreUnit = useMutation(api.trash.restoreUnit);
+  const purgeProject = useMutation(api.trash.purgeProjectNow);
+  const purgePhase = useMutation(api.trash.purgePhaseNow);
+  const purgeUnit = useMutation(api.trash.purgeUnitNow);
+  const { can } = useAdminPermissions();
+
+  if (trash === undefined) {
+    return (
+      <div className="flex items-center justify-center py-32">
+        <Loader2 className="w-8 h-8 text-olive-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+  const projectRows: TrashRow[] = trash.projects.map((p) => ({
+    id: p._id,
+    name: p.name,
+    detail: `With ${plural(p.phases, 'phase')} and ${plural(p.units, 'unit')}`,
+    deletedAt: p.deletedAt,
+    purgeAt: p.purgeAt,
+    onRestore: () => restoreProject({ id: p._id }),
+    onPurge: can('projects.delete') ? () => purgeProject({ id: p._id }) : undefined,
+  }));
+  const phaseRows: TrashRow[] = trash.phases.map((p) => ({
+    id: p._id,
+    name: p.name,
+    detail: `${p.projectName}${p.units > 0 ? ` · with ${plural(p.units, 'unit')}` : ''}`,
+    deletedAt: p.deletedAt,
+    purgeAt: p.purgeAt,
+    onRestore: () => restorePhase({ id: p._id }),
+    onPurge: () => purgePhase({ id: p._id }),
+  }));
+  const unitRows: TrashRow[] = trash.units.map((u) => ({
+    id: u._id,
+    name: u.name,
+    detail: u.phaseName ? `${u.projectName} · ${u.phaseName}` : u.projectName,
+    deletedAt: u.deletedAt,
+    purgeAt: u.purgeAt,
+    onRestore: () => restoreUnit({ id: u._id }),
+    onPurge: () => purgeUnit({ id: u._id }),
+  }));
+
+  const isEmpty = projectRows.length + phaseRows.length + unitRows.length === 0;
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+        <p className="text-gray-500">Deleted projects, phases and units are kept here for 30 days</p>
+      </div>
+
+      {isEmpty ? (
+        <div className="bg-white rounded-2xl border border-gray-200 px-6 py-16 text-center text-gray-400">
+          <Trash2 className="w-10 h-10 mx-auto mb-3 text-gray-200" />
+          The trash is empty.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <TrashSection title="Projects" icon={<FolderOpen className="w-4 h-4 text-gray-400" />} rows={projectRows} />
+          <TrashSection title="Phases" icon={<Layers className="w-4 h-4 text-gray-400" />} rows={phaseRows} />
+          <TrashSection title="Units" icon={<Home className="w-4 h-4 text-gray-400" />} rows={unitRows} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TrashSection({ title, icon, rows }: { title: string; icon: React.ReactNode; rows: TrashRow[] }) {
+  if (rows.length === 0) return null;
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast.success(success);
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Something went wrong');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+      <div className="flex items-center gap-2 px-6 py-4 border-b border-gray-100">
+        {icon}
+        <h2 className="font-semibold text-gray-900">{title}</h2>
+        <span className="text-xs text-gray-400">({rows.length})</span>
+      </div>
+      <div className="divide-y divide-gray-50">
+        {rows.map((row) => (
+          <div key={row.id} className="flex items-center justify-between gap-4 px-6 py-4">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 truncate">{row.name}</p>
+              <p className="text-sm text-gray-500 truncate">{row.detail}</p>
+              <p className="text-xs text-gray-400 mt-0.5">
+                Deleted {new Date(row.deletedAt).toLocaleDateString()} · purged {new Date(row.purgeAt).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <button
+                onClick={() => run(row.onRestore, `${row.name} restored`)}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-olive-600 border border-olive-200 hover:bg-olive-50 rounded-lg transition-colors"
+              >
+                <RotateCcw className="w-3.5 h-3.5" /> Restore
+              </button>
+              {row.onPurge && (
+                <button
+                  onClick={() => {
+                    if (!confirm(`Permanently delete "${row.name}"? This cannot be undone.`)) return;
+                    run(row.onPurge!, `${row.name} permanently deleted`);
+                  }}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-600 border border-red-200 hover:bg-red-50 rounded-lg transition-colors"
+                >
+                  <Trash2 className="w-3.5 h-3.5" /> Delete forever
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useQuery } from 'convex/react';
+import { ArrowLeft, ArrowRight, Globe } from 'lucide-react';
+import { api } from '@convex/_generated/api';
+import ProjectCard from '@/components/ProjectCard';
+import { AfricanSectionOverlay, ScrollingAfricanBand } from '@/components/AfricanPatterns';
+
+export default function LocationDetail() {
+  const { slug } = useParams<{ slug: string }>();
+  const data = useQuery(api.locations.getBySlug, { slug: slug ?? '' });
+
+  if (data === undefined) {
+    return (
+      <div className="min-h-screen bg-charcoal-900 flex items-center justify-center">
+        <div className="w-10 h-10 border-2 border-olive-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-charcoal-900 flex flex-col items-center justify-center text-white gap-6">
+        <h2 className="font-display text-3xl">Location not found</h2>
+        <Link
+          href="/locations"
+          className="px-6 py-3 bg-olive-500 rounded-full text-sm font-medium hover:bg-olive-400"
+        >
+          Back to Locations
+        </Link>
+      </div>
+    );
+  }
+
+  const { location, projects } = data;
+
+  return (
+    <div className="bg-charcoal-900 min-h-screen">
+      <section className="relative pt-32 pb-20 overflow-hidden">
+        <img
+          src={location.image_url}
+          alt={location.name}
+          className="absolute inset-0 w-full h-full object-cover"
+        />
+        <div className="absolute inset-0 bg-charcoal-900/75" />
+        <div className="relative z-10 max-w-7xl mx-auto px-6 lg:px-8">
+          <Link
+            href="/locations"
+            className="inline-flex items-center gap-2 text-white/50 text-sm hover:text-white transition-colors mb-8"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            All Locations
+          </Link>
+          <div className="flex items-center gap-2 mb-4">
+            <Globe className="w-4 h-4 text-olive-500" />
+            <span className="text-white/50 text-sm uppercase tracking-[0.2em]">
+              {location.city ? `${location.city}, ${location.country}` : location.country}
+            </span>
+          </div>
+          <h1 className="font-display text-5xl md:text-6xl text-white font-semibold mb-4">
+            {location.name}
+          </h1>
+          <p className="text-white/60 text-lg max-w-2xl">{location.description}</p>
+        </div>
+      </section>
+
+      <div className="bg-white">
+        <ScrollingAfricanBand direction="left" />
+      </div>
+
+      <section className="bg-white py-20 lg:py-28 relative">
+        <AfricanSectionOverlay variant="light" />
+        <div className="max-w-7xl mx-auto px-6 lg:px-8 relative z-10">
+          <h2 className="font-display text-3xl text-charcoal-900 font-semibold mb-10">
+            Projects in {location.name}
+          </h2>
+
+          {projects.length === 0 ? (
+            <div className="text-center py-20 bg-sand-50 rounded-2xl">
+              <p className="text-charcoal-700/50 text-lg mb-6">
+                Projects coming soon to {location.name}. Stay tuned for exciting developments.
+              </p>
+              <Link
+                href="/contact"
+                className="inline-flex items-center gap-2 text-olive-500 text-sm font-medium hover:text-olive-600 transition-colors"
+              >
+                Register your interest
+                <ArrowRight className="w-4 h-4" />
+              </Link>
+            </div>
+          ) : (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {projects.map((project) => (
+                <ProjectCard key={project._id} project={project} />
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
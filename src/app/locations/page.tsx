@@ -8,7 +8,7 @@ import { AfricanDividerLight, AfricanSectionOverlay, ScrollingAfricanBand } from
 
 export default function Locations() {
   const locations = useQuery(api.locations.getAll);
-  const projects = useQuery(api.projects.getAll);
+  const projects = useQuery(api.projects.getAll, {});
   const loading = locations === undefined || projects === undefined;
 
   return (
@@ -71,11 +71,7 @@ export default function Locations() {
           ) : (
             <div className="space-y-24">
               {locations.map((location, index) => {
-                const locationProjects = projects.filter(
-                  (p) =>
-                    p.location.toLowerCase().includes(location.city.toLowerCase()) ||
-                    p.country.toLowerCase() === location.country.toLowerCase()
-                );
+                const locationProjects = projects.filter((p) => p.locationId === location._id);
 
                 return (
                   <div
@@ -159,6 +155,14 @@ export default function Locations() {
                             </p>
                           </div>
                         )}
+
+                        <Link
+                          href={`/locations/${location.slug}`}
+                          className="inline-flex items-center gap-2 text-olive-500 text-sm font-medium hover:text-olive-600 transition-colors"
+                        >
+                          Explore {location.name}
+                          <ArrowRight className="w-4 h-4" />
+                        </Link>
                       </div>
                     </div>
                   </div>
@@ -37,7 +37,7 @@ const IMG_DEFAULTS = {
 };
 
 export default function Home() {
-  const featuredProjects = useQuery(api.projects.getFeatured);
+  const featuredProjects = useQuery(api.projects.getFeatured, {});
   const locations = useQuery(api.locations.getTopFour);
   const homepageContent = useQuery(api.homepageContent.get);
   const loading = featuredProjects === undefined || locations === undefined || homepageContent === undefined;
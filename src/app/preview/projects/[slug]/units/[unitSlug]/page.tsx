@@ -0,0 +1,47 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { useQuery } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Loader2 } from 'lucide-react';
+import UnitViewer from '@/components/unit-viewer/UnitViewer';
+import PreviewBanner from '@/components/PreviewBanner';
+
+// Admin preview of /projects/[slug]/units/[unitSlug], including unpublished content
+export default function UnitPreviewPage() {
+  const { slug, unitSlug } = useParams<{ slug: string; unitSlug: string }>();
+
+  const project = useQuery(api.projects.getBySlug, { slug: slug ?? '', includeDrafts: true });
+  const unit = useQuery(api.projectUnits.getByProjectSlugAndUnitSlug, {
+    projectSlug: slug ?? '',
+    unitSlug: unitSlug ?? '',
+    includeDrafts: true,
+  });
+
+  if (project === undefined || unit === undefined) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Loader2 className="w-10 h-10 text-white/30 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!unit) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <p className="text-white/50 text-lg">Unit not found</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <UnitViewer
+        unit={unit as any}
+        projectSlug={slug}
+        projectName={project?.name ?? 'Project'}
+      />
+      <PreviewBanner />
+    </>
+  );
+}
@@ -6,6 +6,7 @@ import { api } from '@convex/_generated/api';
 import { Loader2 } from 'lucide-react';
 import Link from 'next/link';
 import MasterPlanViewer from '@/components/unit-viewer/MasterPlanViewer';
+import { TrackingProvider } from '@/hooks/useTracker';
 
 export default function ExplorePage() {
   const { slug } = useParams<{ slug: string }>();
@@ -31,9 +32,11 @@ export default function ExplorePage() {
   }
 
   return (
-    <MasterPlanViewer
-      project={project as any}
-      phases={(phases ?? []) as any}
-    />
+    <TrackingProvider projectId={project._id}>
+      <MasterPlanViewer
+        project={project as any}
+        phases={(phases ?? []) as any}
+      />
+    </TrackingProvider>
   );
 }
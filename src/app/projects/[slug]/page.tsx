@@ -32,6 +32,7 @@ import { MainVideo, TransitionVideo, isEmbedUrl } from '@/components/unit-viewer
 import { useVideoTransition } from '@/components/unit-viewer/useVideoTransition';
 import { PanoramaModal } from '@/components/unit-viewer/PanoramaModal';
 import { FloorPlanModal } from '@/components/unit-viewer/FloorPlanModal';
+import { hasUnitFigures, statsNote } from '@/lib/projectStats';
 
 // ─── Types ─────────────────────────────────────────────────────────────────────
 
@@ -297,6 +298,8 @@ export default function ProjectDetail() {
   }
 
   const hasPanoramas = (project.panoramas ?? []).length > 0;
+  const figures = hasUnitFigures(project);
+  const note = statsNote(project);
   const cats: Category[] = ['exterior', 'interior', 'gallery'];
   const catLabels: Record<Category, string> = { exterior: 'Site Views', interior: 'Project Views', gallery: 'Gallery' };
 
@@ -487,18 +490,23 @@ export default function ProjectDetail() {
               </div>
 
               {/* Stats */}
-              <div className="grid grid-cols-2 gap-0">
-                {[
-                  { label: 'Starting From', value: `KES ${formatPrice(project.price_from)}` },
-                  { label: 'Bedrooms', value: `${project.bedrooms_min}–${project.bedrooms_max}` },
-                  { label: 'Area', value: `${project.area_from.toLocaleString()}–${project.area_to.toLocaleString()} sqft` },
-                  { label: 'Completion', value: project.completion_date },
-                ].map(({ label, value }) => (
-                  <div key={label} className="py-2 border-b border-white/10">
-                    <p className="text-white/40 text-[10px] uppercase tracking-wider mb-0.5">{label}</p>
-                    <p className="text-white font-semibold text-sm">{value}</p>
-                  </div>
-                ))}
+              <div>
+                <div className="grid grid-cols-2 gap-0">
+                  {[
+                    ...(figures ? [
+                      { label: 'Starting From', value: `KES ${formatPrice(project.price_from)}` },
+                      { label: 'Bedrooms', value: `${project.bedrooms_min}–${project.bedrooms_max}` },
+                      { label: 'Area', value: `${project.area_from.toLocaleString()}–${project.area_to.toLocaleString()} sqft` },
+                    ] : [{ label: 'Pricing', value: 'To be announced' }]),
+                    { label: 'Completion', value: project.completion_date },
+                  ].map(({ label, value }) => (
+                    <div key={label} className="py-2 border-b border-white/10">
+                      <p className="text-white/40 text-[10px] uppercase tracking-wider mb-0.5">{label}</p>
+                      <p className="text-white font-semibold text-sm">{value}</p>
+                    </div>
+                  ))}
+                </div>
+                {note && <p className="text-white/40 text-[10px] mt-2">{note}</p>}
               </div>
 
               {/* Actions */}
@@ -613,10 +621,17 @@ export default function ProjectDetail() {
               <h1 className="text-white text-4xl font-bold mt-2">{project.name}</h1>
               <p className="text-white/50 text-sm mt-1">{project.tagline}</p>
             </div>
-            <div className="grid grid-cols-2 gap-3 text-sm">
-              <div><p className="text-white/40 text-xs">From</p><p className="text-white font-bold">KES {formatPrice(project.price_from)}</p></div>
-              <div><p className="text-white/40 text-xs">Beds</p><p className="text-white font-bold">{project.bedrooms_min}–{project.bedrooms_max}</p></div>
-            </div>
+            {figures ? (
+              <div>
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div><p className="text-white/40 text-xs">From</p><p className="text-white font-bold">KES {formatPrice(project.price_from)}</p></div>
+                  <div><p className="text-white/40 text-xs">Beds</p><p className="text-white font-bold">{project.bedrooms_min}–{project.bedrooms_max}</p></div>
+                </div>
+                {note && <p className="text-white/40 text-[11px] mt-1.5">{note}</p>}
+              </div>
+            ) : (
+              <p className="text-white/50 text-sm">Pricing to be announced</p>
+            )}
             <div className="space-y-2">
               {hasPanoramas && (
                 <button onClick={() => setShowPanoramaPicker(true)} className="w-full flex items-center justify-center gap-2 py-3 bg-white/10 hover:bg-white/20 border border-white/20 text-white text-sm font-medium rounded-xl">
@@ -723,9 +738,11 @@ export default function ProjectDetail() {
                 <h3 className="font-display text-xl text-charcoal-900 font-semibold mb-6">Project Details</h3>
                 <div className="space-y-5">
                   {[
-                    { label: 'Starting From', value: `KES ${formatPrice(project.price_from)}` },
-                    { label: 'Bedrooms', value: `${project.bedrooms_min} - ${project.bedrooms_max}` },
-                    { label: 'Area', value: `${project.area_from.toLocaleString()} - ${project.area_to.toLocaleString()} sqft` },
+                    ...(figures ? [
+                      { label: 'Starting From', value: `KES ${formatPrice(project.price_from)}` },
+                      { label: 'Bedrooms', value: `${project.bedrooms_min} - ${project.bedrooms_max}` },
+                      { label: 'Area', value: `${project.area_from.toLocaleString()} - ${project.area_to.toLocaleString()} sqft` },
+                    ] : [{ label: 'Pricing', value: 'To be announced' }]),
                     { label: 'Completion', value: project.completion_date },
                     { label: 'Location', value: project.location },
                   ].map(({ label, value }) => (
@@ -735,6 +752,7 @@ export default function ProjectDetail() {
                     </div>
                   ))}
                 </div>
+                {note && <p className="text-charcoal-700/50 text-xs mt-3">{note}</p>}
 
                 {/* Floor Plan & Panorama */}
                 {(project.floor_plan_url || hasPanoramas) && (
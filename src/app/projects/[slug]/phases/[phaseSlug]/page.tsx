@@ -5,6 +5,7 @@ import { api } from '@convex/_generated/api';
 import { useParams } from 'next/navigation';
 import { Loader2 } from 'lucide-react';
 import PhaseViewer from '@/components/unit-viewer/PhaseViewer';
+import { TrackingProvider } from '@/hooks/useTracker';
 
 export default function PhaseViewerPage() {
   const { slug, phaseSlug } = useParams<{ slug: string; phaseSlug: string }>();
@@ -38,11 +39,13 @@ export default function PhaseViewerPage() {
   }
 
   return (
-    <PhaseViewer
-      phase={phase as any}
-      units={(units ?? []) as any}
-      projectSlug={slug}
-      projectName={project.name}
-    />
+    <TrackingProvider projectId={project._id} phaseId={phase._id}>
+      <PhaseViewer
+        phase={phase as any}
+        units={(units ?? []) as any}
+        projectSlug={slug}
+        projectName={project.name}
+      />
+    </TrackingProvider>
   );
 }
@@ -6,6 +6,7 @@ import { api } from '@convex/_generated/api';
 import Link from 'next/link';
 import { ArrowLeft, Loader2 } from 'lucide-react';
 import UnitViewer from '@/components/unit-viewer/UnitViewer';
+import { TrackingProvider } from '@/hooks/useTracker';
 
 export default function UnitViewerPage() {
   const { slug, unitSlug } = useParams<{ slug: string; unitSlug: string }>();
@@ -42,10 +43,12 @@ export default function UnitViewerPage() {
   }
 
   return (
-    <UnitViewer
-      unit={unit as any}
-      projectSlug={slug}
-      projectName={project?.name ?? 'Project'}
-    />
+    <TrackingProvider projectId={unit.projectId} phaseId={unit.phaseId} unitId={unit._id}>
+      <UnitViewer
+        unit={unit as any}
+        projectSlug={slug}
+        projectName={project?.name ?? 'Project'}
+      />
+    </TrackingProvider>
   );
 }
@@ -9,7 +9,7 @@ import { AfricanSectionOverlay, ScrollingAfricanBand } from '@/components/Africa
 const filters = ['All', 'Ongoing', 'Upcoming', 'Completed'];
 
 export default function Projects() {
-  const allProjects = useQuery(api.projects.getAll);
+  const allProjects = useQuery(api.projects.getAll, {});
   const [activeFilter, setActiveFilter] = useState('All');
 
   const loading = allProjects === undefined;
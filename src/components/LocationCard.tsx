@@ -7,7 +7,7 @@ import type { Location } from '../lib/types';
 export default function LocationCard({ location }: { location: Location }) {
   return (
     <Link
-      href={`/locations#${location.slug}`}
+      href={`/locations/${location.slug}`}
       className="group relative block rounded-2xl overflow-hidden h-[400px] cursor-pointer"
     >
       <img
@@ -0,0 +1,20 @@
+'use client';
+
+import { useQuery } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Eye } from 'lucide-react';
+
+// Floating marker on /preview pages so a draft is never mistaken for the live site.
+// Links inside the viewers lead to the public pages, which only show published content.
+export default function PreviewBanner() {
+  const isAdmin = useQuery(api.adminUsers.isAdmin);
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-2 px-4 py-2 rounded-full bg-black/80 backdrop-blur text-white text-xs shadow-lg">
+      <Eye className="w-3.5 h-3.5 text-olive-400" />
+      {isAdmin === false
+        ? 'Preview — sign in as an admin to see unpublished content'
+        : 'Preview — showing draft content'}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import Link from 'next/link';
 import { MapPin, ArrowRight, Bed, Maximize } from 'lucide-react';
 import type { Project } from '../lib/types';
+import { hasUnitFigures, statsNote } from '../lib/projectStats';
 
 function formatPrice(price: number): string {
   if (price >= 1000000) {
@@ -25,6 +26,8 @@ function statusColor(status: string): string {
 }
 
 export default function ProjectCard({ project }: { project: Project }) {
+  const figures = hasUnitFigures(project);
+  const note = statsNote(project);
   return (
     <Link
       href={`/projects/${project.slug}`}
@@ -49,7 +52,7 @@ export default function ProjectCard({ project }: { project: Project }) {
 
       <div className="absolute top-4 right-4">
         <span className="glass-card px-4 py-1.5 rounded-full text-white text-sm font-semibold">
-          {formatPrice(project.price_from)}
+          {figures ? formatPrice(project.price_from) : 'Price TBA'}
         </span>
       </div>
 
@@ -71,20 +74,25 @@ export default function ProjectCard({ project }: { project: Project }) {
             {project.tagline}
           </p>
 
-          <div className="flex items-center gap-3 mb-4">
-            <div className="glass rounded-lg px-3 py-1.5 flex items-center gap-1.5">
-              <Bed className="w-3.5 h-3.5 text-white/70" />
-              <span className="text-white text-xs font-medium">
-                {project.bedrooms_min}-{project.bedrooms_max} Bed
-              </span>
-            </div>
-            <div className="glass rounded-lg px-3 py-1.5 flex items-center gap-1.5">
-              <Maximize className="w-3.5 h-3.5 text-white/70" />
-              <span className="text-white text-xs font-medium">
-                {project.area_from.toLocaleString()} sqft
-              </span>
+          {figures && (
+            <div className="mb-4">
+              <div className="flex items-center gap-3">
+                <div className="glass rounded-lg px-3 py-1.5 flex items-center gap-1.5">
+                  <Bed className="w-3.5 h-3.5 text-white/70" />
+                  <span className="text-white text-xs font-medium">
+                    {project.bedrooms_min}-{project.bedrooms_max} Bed
+                  </span>
+                </div>
+                <div className="glass rounded-lg px-3 py-1.5 flex items-center gap-1.5">
+                  <Maximize className="w-3.5 h-3.5 text-white/70" />
+                  <span className="text-white text-xs font-medium">
+                    {project.area_from.toLocaleString()} sqft
+                  </span>
+                </div>
+              </div>
+              {note && <p className="text-white/50 text-[11px] mt-2">{note}</p>}
             </div>
-          </div>
+          )}
 
           <div className="flex items-center justify-between">
             <span className="text-white/50 text-xs">
@@ -5,6 +5,7 @@ import { usePathname } from 'next/navigation';
 import { UserButton } from '@clerk/nextjs';
 import {
   LayoutDashboard,
+  BarChart3,
   Building2,
   Users,
   Home,
@@ -12,14 +13,29 @@ import {
   ChevronRight,
   ExternalLink,
   MessageSquareText,
+  History,
+  Trash2,
+  MapPin,
 } from 'lucide-react';
+import type { Permission } from '@convex/lib/permissions';
+import { useAdminPermissions } from '@/hooks/useAdminPermissions';
 
-const NAV = [
+const NAV: {
+  href: string;
+  label: string;
+  icon: typeof LayoutDashboard;
+  exact?: boolean;
+  permission?: Permission;
+}[] = [
   { href: '/admin', label: 'Dashboard', icon: LayoutDashboard, exact: true },
-  { href: '/admin/homepage', label: 'Homepage', icon: Home },
+  { href: '/admin/homepage', label: 'Homepage', icon: Home, permission: 'homepage.edit' },
   { href: '/admin/projects', label: 'Projects', icon: Building2 },
-  { href: '/admin/contacts', label: 'Contact Submissions', icon: MessageSquareText },
-  { href: '/admin/admins', label: 'Admin Users', icon: Users },
+  { href: '/admin/locations', label: 'Locations', icon: MapPin, permission: 'content.edit' },
+  { href: '/admin/analytics', label: 'Analytics', icon: BarChart3 },
+  { href: '/admin/contacts', label: 'Leads', icon: MessageSquareText, permission: 'leads.manage' },
+  { href: '/admin/trash', label: 'Trash', icon: Trash2, permission: 'content.edit' },
+  { href: '/admin/audit', label: 'Audit Log', icon: History },
+  { href: '/admin/admins', label: 'Admin Users', icon: Users, permission: 'admins.manage' },
 ];
 
 export default function AdminSidebar({
@@ -30,6 +46,7 @@ export default function AdminSidebar({
   onClose: () => void;
 }) {
   const pathname = usePathname();
+  const { admin, can } = useAdminPermissions();
 
   const isActive = (href: string, exact?: boolean) => {
     if (exact) return pathname === href;
@@ -64,7 +81,7 @@ export default function AdminSidebar({
         <p className="px-3 py-2 text-xs font-medium text-white/30 uppercase tracking-widest">
           Navigation
         </p>
-        {NAV.map(({ href, label, icon: Icon, exact }) => (
+        {NAV.filter(({ permission }) => !permission || can(permission)).map(({ href, label, icon: Icon, exact }) => (
           <Link
             key={href}
             href={href}
@@ -104,8 +121,10 @@ export default function AdminSidebar({
           }}
         />
         <div className="min-w-0">
-          <p className="text-white text-sm font-medium truncate">Account</p>
-          <p className="text-white/40 text-xs">Click to manage</p>
+          <p className="text-white text-sm font-medium truncate">{admin?.name || 'Account'}</p>
+          <p className="text-white/40 text-xs">
+            {admin?.role === 'super_admin' ? 'Super Admin' : admin ? 'Admin' : 'Click to manage'}
+          </p>
         </div>
       </div>
     </aside>
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Doc } from '@convex/_generated/dataModel';
+import type { AuditEntityType } from '@convex/lib/audit';
+import { ChevronDown, ChevronRight, History, Loader2 } from 'lucide-react';
+
+export const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  project: 'Project',
+  project_phase: 'Phase',
+  project_unit: 'Unit',
+  project_building: 'Building',
+  location: 'Location',
+  homepage_content: 'Homepage',
+  contact_submission: 'Contact submission',
+  admin_user: 'Admin user',
+  admin_invitation: 'Admin invitation',
+};
+
+const ACTION_STYLES: Record<Doc<'audit_log'>['action'], string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700',
+  restore: 'bg-amber-100 text-amber-700',
+  purge: 'bg-gray-800 text-white',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'object') return JSON.stringify(value).slice(0, 80);
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+}
+
+// ─── Single log entry (shared by the history panels and /admin/audit) ────────
+
+export function AuditEntry({ entry, showEntity }: { entry: Doc<'audit_log'>; showEntity?: boolean }) {
+  const [open, setOpen] = useState(false);
+  const hasChanges = entry.changes.length > 0;
+
+  return (
+    <div className="px-5 py-3">
+      <button
+        onClick={() => hasChanges && setOpen(!open)}
+        className="w-full flex items-center gap-3 text-left"
+      >
+        {hasChanges ? (
+          open ? <ChevronDown className="w-4 h-4 text-gray-400 shrink-0" /> : <ChevronRight className="w-4 h-4 text-gray-400 shrink-0" />
+        ) : (
+          <span className="w-4 shrink-0" />
+        )}
+        <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${ACTION_STYLES[entry.action]}`}>
+          {entry.action}
+        </span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-gray-900 truncate">
+            {showEntity && (
+              <span className="text-gray-500">{ENTITY_LABELS[entry.entityType]} · </span>
+            )}
+            {entry.entityLabel ?? entry.entityId}
+            {entry.action === 'update' && (
+              <span className="text-gray-400">
+                {' '}— {entry.changes.map((c) => c.field).slice(0, 3).join(', ')}
+                {entry.changes.length > 3 && ` +${entry.changes.length - 3}`}
+              </span>
+            )}
+          </p>
+          <p className="text-xs text-gray-400">
+            {entry.actorName} · {new Date(entry.createdAt).toLocaleString()}
+          </p>
+        </div>
+      </button>
+
+      {open && (
+        <table className="mt-3 ml-7 text-xs w-[calc(100%-1.75rem)]">
+          <thead>
+            <tr className="text-gray-400 text-left">
+              <th className="font-medium pb-1 pr-4">Field</th>
+              <th className="font-medium pb-1 pr-4">Before</th>
+              <th className="font-medium pb-1">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entry.changes.map((change) => (
+              <tr key={change.field} className="border-t border-gray-50 align-top">
+                <td className="py-1 pr-4 font-mono text-gray-600">{change.field}</td>
+                <td className="py-1 pr-4 text-red-600 break-all">{formatValue(change.before)}</td>
+                <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+// ─── Per-entity history panel ────────────────────────────────────────────────
+
+export default function AuditHistory({ entityType, entityId }: {
+  entityType: AuditEntityType;
+  entityId: string;
+}) {
+  const entries = useQuery(api.auditLog.getForEntity, { entityType, entityId });
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden max-w-4xl">
+      <div className="flex items-center gap-2 px-5 py-4 border-b border-gray-100">
+        <History className="w-4 h-4 text-gray-400" />
+        <h3 className="font-semibold text-gray-900">Change History</h3>
+      </div>
+      {entries === undefined ? (
+        <div className="flex items-center justify-center py-10">
+          <Loader2 className="w-6 h-6 text-olive-500 animate-spin" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="px-5 py-10 text-center text-sm text-gray-400">No changes recorded yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-50">
+          {entries.map((entry) => (
+            <AuditEntry key={entry._id} entry={entry} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+// Dependency-free charts for the admin analytics pages, drawn with divs.
+
+export type ChartSeries<K extends string> = {
+  key: K;
+  label: string;
+  color: string; // Tailwind background class
+};
+
+/**
+ * Vertical bars, one column per point with the series side by side.
+ * Negative values (e.g. a sale reversed) draw as zero-height bars.
+ */
+export function BarChart<K extends string>({ points, series, height = 180 }: {
+  points: ({ label: string } & Record<K, number>)[];
+  series: ChartSeries<K>[];
+  height?: number;
+}) {
+  const max = Math.max(1, ...points.flatMap((p) => series.map((s) => p[s.key])));
+  const labelEvery = Math.ceil(points.length / 12);
+
+  return (
+    <div>
+      <div className="flex items-end gap-1" style={{ height }}>
+        {points.map((p, i) => (
+          <div key={i} className="flex-1 h-full flex items-end justify-center gap-px group relative">
+            {series.map((s) => (
+              <div
+                key={s.key}
+                className={`flex-1 max-w-4 rounded-t ${s.color}`}
+                style={{ height: `${(Math.max(0, p[s.key]) / max) * 100}%` }}
+              />
+            ))}
+            <div className="absolute bottom-full mb-1 hidden group-hover:block z-10 whitespace-nowrap bg-gray-900 text-white text-[10px] rounded-md px-2 py-1">
+              <p className="font-semibold">{p.label}</p>
+              {series.map((s) => (
+                <p key={s.key}>{s.label}: {p[s.key]}</p>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-2 border-t border-gray-100 pt-1">
+        {points.map((p, i) => (
+          <div key={i} className="flex-1 text-center text-[10px] text-gray-400 truncate">
+            {i % labelEvery === 0 ? p.label : ''}
+          </div>
+        ))}
+      </div>
+      <ChartLegend series={series} />
+    </div>
+  );
+}
+
+/** One horizontal bar per row, scaled to the largest value */
+export function HorizontalBars({ rows, color = 'bg-olive-500' }: {
+  rows: { label: string; value: number; display: string; hint?: string }[];
+  color?: string;
+}) {
+  const max = Math.max(1, ...rows.map((r) => r.value));
+  return (
+    <div className="space-y-3">
+      {rows.map((r) => (
+        <div key={r.label}>
+          <div className="flex items-baseline justify-between text-sm mb-1">
+            <span className="text-gray-700 truncate">
+              {r.label}
+              {r.hint && <span className="text-gray-400 text-xs ml-2">{r.hint}</span>}
+            </span>
+            <span className="font-medium text-gray-900 shrink-0 ml-3">{r.display}</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full ${color}`} style={{ width: `${(r.value / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** A single bar split into segments, e.g. available / reserved / sold */
+export function SegmentBar<K extends string>({ values, series }: {
+  values: Record<K, number>;
+  series: ChartSeries<K>[];
+}) {
+  const total = series.reduce((sum, s) => sum + values[s.key], 0);
+  return (
+    <div className="flex h-2 rounded-full overflow-hidden bg-gray-100">
+      {total > 0 && series.map((s) => (
+        <div key={s.key} className={s.color} style={{ width: `${(values[s.key] / total) * 100}%` }} />
+      ))}
+    </div>
+  );
+}
+
+export function ChartLegend<K extends string>({ series }: { series: ChartSeries<K>[] }) {
+  return (
+    <div className="flex flex-wrap gap-4 mt-3">
+      {series.map((s) => (
+        <span key={s.key} className="flex items-center gap-1.5 text-xs text-gray-500">
+          <span className={`w-2.5 h-2.5 rounded-sm ${s.color}`} />
+          {s.label}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DateRange = { from: number; to: number };
+
+const PRESETS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '12 months', days: 365 },
+];
+
+const inputCls =
+  'border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
+
+/** The last `days` days up to the end of today */
+export function lastDays(days: number): DateRange {
+  const end = new Date();
+  end.setHours(23, 59, 59, 999);
+  const to = end.getTime();
+  return { from: to - days * DAY_MS + 1, to };
+}
+
+function toDateInput(ms: number) {
+  const d = new Date(ms - new Date().getTimezoneOffset() * 60_000);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Preset ranges plus from/to date inputs, in local time */
+export default function DateRangePicker({ value, onChange }: {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}) {
+  const activePreset = PRESETS.find((p) => {
+    const range = lastDays(p.days);
+    return Math.abs(range.from - value.from) < DAY_MS && Math.abs(range.to - value.to) < DAY_MS;
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex gap-1 bg-gray-100 p-1 rounded-xl">
+        {PRESETS.map((p) => (
+          <button
+            key={p.days}
+            onClick={() => onChange(lastDays(p.days))}
+            className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-all ${
+              activePreset === p ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+      <input
+        type="date"
+        value={toDateInput(value.from)}
+        max={toDateInput(value.to)}
+        onChange={(e) => e.target.value && onChange({ ...value, from: new Date(`${e.target.value}T00:00`).getTime() })}
+        className={inputCls}
+      />
+      <span className="text-gray-400 text-sm">to</span>
+      <input
+        type="date"
+        value={toDateInput(value.to)}
+        min={toDateInput(value.from)}
+        onChange={(e) => e.target.value && onChange({ ...value, to: new Date(`${e.target.value}T23:59:59.999`).getTime() })}
+        className={inputCls}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { AlertTriangle, Loader2, X } from 'lucide-react';
+
+export interface DeleteSummaryItem {
+  label: string;
+  count: number;
+  /** Optional names listed under the count */
+  names?: string[];
+}
+
+/**
+ * Confirmation dialog that shows a dry-run of what a cascading delete will
+ * remove. `items` is undefined while the summary query is loading.
+ */
+export default function DeleteSummaryDialog({
+  title,
+  note = 'This cannot be undone.',
+  items,
+  confirming,
+  onConfirm,
+  onCancel,
+  children,
+}: {
+  title: string;
+  note?: string;
+  items: DeleteSummaryItem[] | undefined;
+  confirming: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center px-4" onClick={onCancel}>
+      <div
+        className="bg-white rounded-2xl w-full max-w-md shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start gap-3 px-6 pt-6">
+          <div className="w-10 h-10 rounded-full bg-red-50 flex items-center justify-center shrink-0">
+            <AlertTriangle className="w-5 h-5 text-red-500" />
+          </div>
+          <div className="flex-1">
+            <h3 className="font-semibold text-gray-900">{title}</h3>
+            <p className="text-sm text-gray-500">{note}</p>
+          </div>
+          <button onClick={onCancel} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-4">
+          {children}
+
+          {items === undefined ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="w-6 h-6 text-olive-500 animate-spin" />
+            </div>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {items.map((item) => (
+                <li key={item.label} className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-gray-700">{item.label}</p>
+                    {item.names && item.names.length > 0 && (
+                      <p className="text-xs text-gray-400 truncate">{item.names.join(', ')}</p>
+                    )}
+                  </div>
+                  <span className={`font-semibold ${item.count > 0 ? 'text-red-600' : 'text-gray-300'}`}>
+                    {item.count}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 pb-6">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-xl transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={items === undefined || confirming}
+            className="px-4 py-2 bg-red-500 text-white text-sm font-medium rounded-xl hover:bg-red-600 transition-colors disabled:opacity-50 flex items-center gap-2"
+          >
+            {confirming && <Loader2 className="w-4 h-4 animate-spin" />}
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -30,7 +30,7 @@ type FloorZone = {
   label: string;
   points: ZonePoint[];
   unitId?: Id<'project_units'>;
-  status: 'available' | 'reserved' | 'sold';
+  status?: 'available' | 'reserved' | 'sold'; // manual status, unlinked zones only
 };
 
 type UnitOption = {
@@ -67,7 +67,7 @@ export default function FloorPlanManager({
       id: z.id,
       label: z.label,
       points: z.points,
-      status: z.status as ZoneStatus,
+      status: (z.status ?? 'available') as ZoneStatus,
       meta: { unitId: z.unitId },
     }))
   );
@@ -133,6 +133,9 @@ export default function FloorPlanManager({
     setPendingUnitId('');
   }, []);
 
+  // Linked zones follow the unit's status; only unlinked zones set their own
+  const unitStatus = (unitId?: string) => units.find(u => u._id === unitId)?.status;
+
   const confirmPendingZone = () => {
     if (!pendingZone) return;
     if (!pendingLabel.trim()) return toast.error('Zone label is required');
@@ -140,7 +143,7 @@ export default function FloorPlanManager({
       id: pendingZone.id,
       label: pendingLabel.trim(),
       points: pendingZone.points,
-      status: pendingStatus,
+      status: unitStatus(pendingUnitId) ?? pendingStatus,
       meta: pendingUnitId ? { unitId: pendingUnitId } : {},
     };
     setZones(prev => [...prev, newZone]);
@@ -151,12 +154,18 @@ export default function FloorPlanManager({
     setZones(prev => prev.filter(z => z.id !== id));
   }, []);
 
+  const handleZoneUpdate = useCallback((id: string, points: ZonePoint[]) => {
+    setZones(prev => prev.map(z => z.id === id ? { ...z, points } : z));
+  }, []);
+
   const updateZoneField = (id: string, field: string, value: any) => {
     setZones(prev => prev.map(z => {
       if (z.id !== id) return z;
       if (field === 'label')  return { ...z, label: value };
       if (field === 'status') return { ...z, status: value as ZoneStatus };
-      if (field === 'unitId') return { ...z, meta: { ...(z.meta ?? {}), unitId: value || undefined } };
+      if (field === 'unitId') {
+        return { ...z, status: unitStatus(value) ?? z.status, meta: { ...(z.meta ?? {}), unitId: value || undefined } };
+      }
       return z;
     }));
   };
@@ -170,7 +179,7 @@ export default function FloorPlanManager({
         id: z.id,
         label: z.label,
         points: z.points,
-        status: z.status as FloorZone['status'],
+        status: z.meta?.unitId ? undefined : z.status as FloorZone['status'],
         unitId: z.meta?.unitId as Id<'project_units'> | undefined,
       }));
       await updateBuilding({
@@ -280,7 +289,7 @@ export default function FloorPlanManager({
             <div className="min-w-0">
               <h3 className="font-semibold text-gray-900">Draw Unit Zones</h3>
               <p className="text-xs text-gray-500 mt-0.5">
-                Use the pencil tool (top-right on canvas) to draw polygon zones over each unit.
+                Use the pencil tool (top-right on canvas) to draw polygon zones over each unit. Select a zone to drag its points or move it.
                 Click to add points — double-click or click back on the start point to close the polygon.
                 Then link the zone to a unit from the list.
               </p>
@@ -303,6 +312,7 @@ export default function FloorPlanManager({
               mode="edit"
               onZoneAdd={handleZoneAdd}
               onZoneDelete={handleZoneDelete}
+              onZoneUpdate={handleZoneUpdate}
               className="w-full h-full"
             />
           </div>
@@ -326,9 +336,11 @@ export default function FloorPlanManager({
                 <div>
                   <label className="text-xs font-medium text-gray-600 block mb-1">Status</label>
                   <select
-                    value={pendingStatus}
+                    value={unitStatus(pendingUnitId) ?? pendingStatus}
                     onChange={e => setPendingStatus(e.target.value as any)}
-                    className={inputCls}
+                    disabled={!!pendingUnitId}
+                    title={pendingUnitId ? 'Follows the linked unit' : undefined}
+                    className={`${inputCls} disabled:opacity-60`}
                   >
                     <option value="available">Available</option>
                     <option value="reserved">Reserved</option>
@@ -389,9 +401,11 @@ export default function FloorPlanManager({
                     placeholder="Label"
                   />
                   <select
-                    value={zone.status}
+                    value={unitStatus(zone.meta?.unitId) ?? zone.status}
                     onChange={e => updateZoneField(zone.id, 'status', e.target.value)}
-                    className={inputCls}
+                    disabled={!!zone.meta?.unitId}
+                    title={zone.meta?.unitId ? 'Follows the linked unit' : undefined}
+                    className={`${inputCls} disabled:opacity-60`}
                   >
                     <option value="available">Available</option>
                     <option value="reserved">Reserved</option>
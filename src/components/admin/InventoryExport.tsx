@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Doc, Id } from '@convex/_generated/dataModel';
+import { ChevronDown, Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { downloadCsv, downloadXlsx, type ExportCell } from '@/lib/spreadsheet';
+
+type Format = 'csv' | 'xlsx' | 'pdf';
+
+// Headers match the unit import's column names, so an export can be edited
+// and imported back
+const HEADER = ['Name', 'Slug', 'Phase', 'Unit type', 'Bedrooms', 'Bathrooms', 'Area (sqft)', 'Floor', 'Price (KES)', 'Status', 'Published'];
+
+function inventoryRows(units: Doc<'project_units'>[], phaseNames: Map<string, string>): ExportCell[][] {
+  const sorted = units.slice().sort((a, b) =>
+    (phaseNames.get(a.phaseId ?? '') ?? '').localeCompare(phaseNames.get(b.phaseId ?? '') ?? '') ||
+    (a.displayOrder ?? 0) - (b.displayOrder ?? 0) ||
+    a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+  return [
+    HEADER,
+    ...sorted.map((u) => [
+      u.name,
+      u.slug,
+      u.phaseId ? phaseNames.get(u.phaseId) : '',
+      u.unit_type,
+      u.bedrooms,
+      u.bathrooms,
+      u.area_sqft,
+      u.floor_number,
+      u.price,
+      u.status,
+      (u.publishStatus ?? 'published') === 'published' ? 'yes' : 'no',
+    ]),
+  ];
+}
+
+/** Export menu for the project and phase admin pages */
+export default function InventoryExport({ projectId, phaseId }: {
+  projectId: Id<'projects'>;
+  phaseId?: Id<'project_phases'>;
+}) {
+  const project = useQuery(api.projects.getById, { id: projectId, includeDrafts: true });
+  const phases = useQuery(api.projectPhases.getByProject, { projectId, includeDrafts: true });
+  const units = useQuery(api.projectUnits.getByProject, { projectId, includeDrafts: true });
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState<Format | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const ready = project && phases && units;
+
+  const handleExport = async (format: Format) => {
+    if (!ready) return;
+    setOpen(false);
+    setBusy(format);
+    try {
+      const scopePhases = phaseId ? phases.filter((p) => p._id === phaseId) : phases;
+      const scopeUnits = phaseId ? units.filter((u) => u.phaseId === phaseId) : units;
+      const base = phaseId && scopePhases[0] ? `${project.slug}-${scopePhases[0].slug}` : project.slug;
+
+      if (format === 'pdf') {
+        // The price list goes to buyers, so drafts stay out of it
+        const { buildPriceListPdf } = await import('@/lib/priceList');
+        const published = (d: { publishStatus?: string }) => (d.publishStatus ?? 'published') === 'published';
+        await buildPriceListPdf({
+          project,
+          phases: scopePhases.filter(published),
+          units: scopeUnits.filter(published),
+          fileName: `${base}-price-list.pdf`,
+        });
+      } else {
+        const rows = inventoryRows(scopeUnits, new Map(phases.map((p) => [p._id, p.name])));
+        if (format === 'csv') downloadCsv(rows, `${base}-units.csv`);
+        else await downloadXlsx(rows, `${base}-units.xlsx`, 'Units');
+      }
+    } catch (e: any) {
+      toast.error(e?.message ?? 'Export failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={!ready || busy !== null}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-500 hover:text-olive-500 border border-gray-200 hover:border-olive-300 rounded-lg disabled:opacity-50"
+      >
+        {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+        Export <ChevronDown className="w-3 h-3" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-60 bg-white border border-gray-200 rounded-xl shadow-lg z-20 py-1">
+          <MenuItem icon={FileSpreadsheet} label="Units (CSV)" hint="All units with status and price" onClick={() => handleExport('csv')} />
+          <MenuItem icon={FileSpreadsheet} label="Units (Excel)" hint="All units with status and price" onClick={() => handleExport('xlsx')} />
+          <MenuItem icon={FileText} label="Price list (PDF)" hint="Published units, by phase and type" onClick={() => handleExport('pdf')} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MenuItem({ icon: Icon, label, hint, onClick }: {
+  icon: React.ElementType;
+  label: string;
+  hint: string;
+  onClick: () => void;
+}) {
+  return (
+    <button onClick={onClick} className="w-full flex items-start gap-2.5 px-3 py-2 text-left hover:bg-gray-50">
+      <Icon className="w-4 h-4 text-gray-400 mt-0.5" />
+      <span>
+        <span className="block text-sm text-gray-800">{label}</span>
+        <span className="block text-xs text-gray-400">{hint}</span>
+      </span>
+    </button>
+  );
+}
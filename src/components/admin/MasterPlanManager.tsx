@@ -1,16 +1,19 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import { useVideoDisplayArea } from '@/hooks/useVideoDisplayArea';
+import { useUndoableState } from '@/hooks/useUndoableState';
+import { useUnsavedChangesWarning } from '@/hooks/useUnsavedChangesWarning';
 import { useMutation } from 'convex/react';
 import { api } from '@convex/_generated/api';
 import { Id } from '@convex/_generated/dataModel';
 import dynamic from 'next/dynamic';
 import {
-  Upload, Loader2, Save, Trash2, X, Info, Link as LinkIcon, Video, Monitor, Smartphone,
+  Upload, Loader2, Save, Undo2, Redo2, Trash2, X, Info, Link as LinkIcon, Video, Monitor, Smartphone,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import type { CanvasZone, ZonePoint, ZoneStatus } from '@/components/canvas/ImmersiveCanvas';
+import { useZoneHeatmap, ZoneHeatmapBar } from '@/components/admin/ZoneHeatmap';
 
 const ImmersiveCanvas = dynamic(
   () => import('@/components/canvas/ImmersiveCanvas').then(m => m.ImmersiveCanvas),
@@ -43,6 +46,7 @@ type Props = {
   masterPlanVideoUrl?: string;
   masterPlanZones?: MasterPlanZone[];
   phases: Phase[];
+  onDirtyChange?: (dirty: boolean) => void;
 };
 
 const inputCls =
@@ -50,7 +54,7 @@ const inputCls =
 
 export default function MasterPlanManager({
   projectId, masterPlanUrl: initialUrl, masterPlanVideoUrl: initialVideoUrl,
-  masterPlanZones: initialZones = [], phases,
+  masterPlanZones: initialZones = [], phases, onDirtyChange,
 }: Props) {
   const updateProject = useMutation(api.projectPhases.updateProjectMasterPlan);
   const generateUrl   = useMutation(api.files.generateUploadUrl);
@@ -63,7 +67,10 @@ export default function MasterPlanManager({
   const [videoUrl,   setVideoUrl]   = useState(initialVideoUrl ?? '');
   const [videoInput, setVideoInput] = useState(initialVideoUrl ?? '');
 
-  const [zones, setZones] = useState<ZoneWithMobile[]>(
+  // Zones are edited locally with undo/redo and written on Save
+  const {
+    value: zones, set: setZones, undo, redo, canUndo, canRedo, dirty, markSaved,
+  } = useUndoableState<ZoneWithMobile[]>(
     (initialZones ?? []).map(z => ({
       id: z.id, label: z.label, points: z.points,
       mobilePoints: z.mobile_points,
@@ -72,8 +79,17 @@ export default function MasterPlanManager({
     }))
   );
 
+  // A new plan image or video is only kept on Save too
+  const unsaved = dirty || imageUrl !== (initialUrl ?? '') || videoUrl !== (initialVideoUrl ?? '');
+  useUnsavedChangesWarning(unsaved);
+
+  // Lets the project page ask before a tab switch unmounts the editor
+  useEffect(() => { onDirtyChange?.(unsaved); }, [unsaved, onDirtyChange]);
+  useEffect(() => () => onDirtyChange?.(false), [onDirtyChange]);
+
   // Edit mode: desktop or mobile
   const [editMode, setEditMode] = useState<'desktop' | 'mobile'>('desktop');
+  const heat = useZoneHeatmap({ projectId });
   const [saving, setSaving]       = useState(false);
   const [uploading, setUploading] = useState<'image' | 'video' | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -187,31 +203,42 @@ export default function MasterPlanManager({
     setZones(prev => prev.filter(z => z.id !== id));
   }, []);
 
+  // Reshaped in the canvas; the mobile preview edits the mobile outline
+  const handleZoneUpdate = useCallback((id: string, points: ZonePoint[]) => {
+    setZones(prev => prev.map(z =>
+      z.id !== id ? z : editMode === 'mobile' ? { ...z, mobilePoints: points } : { ...z, points }
+    ));
+  }, [editMode]);
+
   const updateZoneField = (id: string, field: string, value: any) => {
+    // Typing a label is one undo step, not one per keystroke
+    const mergeKey = field === 'label' ? `label:${id}` : undefined;
     setZones(prev => prev.map(z => {
       if (z.id !== id) return z;
       if (field === 'label')   return { ...z, label: value };
       if (field === 'status')  return { ...z, status: value };
       if (field === 'phaseId') return { ...z, meta: { phaseId: value || undefined } };
       return z;
-    }));
+    }), mergeKey);
   };
 
   // ── Save ──────────────────────────────────────────────────────────────────
 
   const handleSave = async () => {
+    const saved = zones;
     setSaving(true);
     try {
       await updateProject({
         projectId,
         master_plan_url:       imageUrl || undefined,
         master_plan_video_url: videoUrl || undefined,
-        master_plan_zones: zones.map(z => ({
+        master_plan_zones: saved.map(z => ({
           id: z.id, label: z.label, points: z.points, status: z.status,
           phaseId: z.meta?.phaseId ?? undefined,
           mobile_points: z.mobilePoints,
         })),
       });
+      markSaved(saved);
       toast.success('Master plan saved');
     } catch { toast.error('Failed to save'); }
     finally { setSaving(false); }
@@ -345,7 +372,7 @@ export default function MasterPlanManager({
             <div className="flex-1 min-w-0">
               <h3 className="font-semibold text-gray-900">Draw Phase Zones</h3>
               <p className="text-xs text-gray-500 mt-0.5">
-                Use the pencil tool (top-right) to draw polygon zones over each phase area.
+                Use the pencil tool (top-right) to draw polygon zones over each phase area. Select a zone to drag its points or move it.
                 Link each zone to its phase so clicking it navigates to that phase.
               </p>
             </div>
@@ -370,6 +397,19 @@ export default function MasterPlanManager({
               </button>
             </div>
 
+            {/* Undo / redo (Ctrl+Z, Ctrl+Shift+Z) */}
+            <div className="flex items-center gap-1 shrink-0">
+              {unsaved && <span className="text-xs text-amber-600 mr-1">Unsaved changes</span>}
+              <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)"
+                className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent">
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)"
+                className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent">
+                <Redo2 className="w-4 h-4" />
+              </button>
+            </div>
+
             <button onClick={handleSave} disabled={saving}
               className="flex items-center gap-2 px-5 py-2.5 bg-olive-500 text-white rounded-xl text-sm font-semibold hover:bg-olive-400 disabled:opacity-50 shrink-0">
               {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
@@ -377,6 +417,8 @@ export default function MasterPlanManager({
             </button>
           </div>
 
+          <ZoneHeatmapBar state={heat} />
+
           <div className="h-[60vh] bg-gray-950 relative flex items-center justify-center">
             {/* Mobile mode: render in mobile aspect ratio container */}
             {editMode === 'mobile' ? (
@@ -404,7 +446,9 @@ export default function MasterPlanManager({
                     mode="edit"
                     onZoneAdd={handleZoneAdd}
                     onZoneDelete={handleZoneDelete}
+                    onZoneUpdate={handleZoneUpdate}
                     videoDisplayArea={videoUrl ? videoDisplayArea : undefined}
+                    heatmap={heat.heatmap}
                     className="w-full h-full"
                   />
                 </div>
@@ -431,7 +475,9 @@ export default function MasterPlanManager({
                     mode="edit"
                     onZoneAdd={handleZoneAdd}
                     onZoneDelete={handleZoneDelete}
+                    onZoneUpdate={handleZoneUpdate}
                     videoDisplayArea={videoUrl ? videoDisplayArea : undefined}
+                    heatmap={heat.heatmap}
                     className="w-full h-full"
                   />
                 </div>
@@ -0,0 +1,149 @@
+'use client';
+
+import { Crop, Smartphone } from 'lucide-react';
+import type { ZonePoint } from '@/components/canvas/ImmersiveCanvas';
+import { centredPhoneCrop, mobileCoverage, type MobileCoverage, type MobileCrop } from '@/lib/mobileZones';
+
+type Zone = { id: string; label: string; points: ZonePoint[]; mobilePoints?: ZonePoint[] };
+
+export const COVERAGE: Record<MobileCoverage, { label: string; color: string; text: string }> = {
+  auto:    { label: 'Automatic',          color: '#22c55e', text: 'text-green-600' },
+  manual:  { label: 'Hand-drawn',         color: '#3b82f6', text: 'text-blue-600' },
+  clipped: { label: 'Cut off by crop',    color: '#f59e0b', text: 'text-amber-600' },
+  outside: { label: 'Outside mobile crop', color: '#ef4444', text: 'text-red-600' },
+  missing: { label: 'No outline',         color: '#9ca3af', text: 'text-gray-400' },
+};
+
+const numCls =
+  'w-16 border border-gray-200 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
+
+const pct = (n: number) => Math.round(n * 1000) / 10;
+
+/** The mobile crop of a plan: whole plan, a centred phone-shaped crop, or exact edges in percent */
+export function MobileCropBar({ crop, onChange, planAspect }: {
+  crop: MobileCrop | undefined;
+  onChange: (crop: MobileCrop | undefined) => void;
+  planAspect: number;
+}) {
+  // Edges are kept inside the plan and at least 5% apart
+  const setEdge = (key: keyof MobileCrop, value: string) => {
+    const c = { ...(crop ?? { x: 0, y: 0, width: 1, height: 1 }), [key]: (Number(value) || 0) / 100 };
+    c.x = Math.min(Math.max(c.x, 0), 0.95);
+    c.y = Math.min(Math.max(c.y, 0), 0.95);
+    c.width = Math.min(Math.max(c.width, 0.05), 1 - c.x);
+    c.height = Math.min(Math.max(c.height, 0.05), 1 - c.y);
+    onChange(c);
+  };
+
+  const btn = (active: boolean) =>
+    `flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+      active ? 'bg-olive-50 border-olive-300 text-olive-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-100 flex flex-wrap items-center gap-3 bg-blue-50/40">
+      <span className="flex items-center gap-1.5 text-xs font-semibold text-gray-700">
+        <Crop className="w-3.5 h-3.5" /> Mobile crop
+      </span>
+      <button onClick={() => onChange(undefined)} className={btn(!crop)}>Whole plan</button>
+      <button onClick={() => onChange(centredPhoneCrop(planAspect))} className={btn(false)}>
+        <Smartphone className="w-3.5 h-3.5" /> Centre phone crop
+      </button>
+      {crop && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          {([['x', 'Left'], ['y', 'Top'], ['width', 'Width'], ['height', 'Height']] as const).map(([key, label]) => (
+            <label key={key} className="flex items-center gap-1">
+              {label}
+              <input type="number" step={0.5} value={pct(crop[key])} onChange={e => setEdge(key, e.target.value)} className={numCls} />
+              %
+            </label>
+          ))}
+        </div>
+      )}
+      <p className="basis-full text-[11px] text-gray-500">
+        {crop
+          ? 'Phones show only this part of the plan. Zones are mapped into it automatically; draw or drag in the mobile preview only to correct exceptions. Hand-drawn outlines stay put on the plan when the crop moves.'
+          : 'Phones show the whole plan with the desktop outlines.'}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Which zones phones show and how: a map of the plan with every zone coloured
+ * by its mobile coverage and the crop outlined, and the zones that need a look.
+ */
+export function MobileCoverageReport({ zones, crop, planAspect, imageUrl }: {
+  zones: Zone[];
+  crop: MobileCrop | undefined;
+  planAspect: number;
+  imageUrl?: string;
+}) {
+  if (zones.length === 0) return null;
+
+  // Hand-drawn outlines are in plan coordinates too, so the map shows them where phones do
+  const rows = zones.map(z => ({
+    zone: z,
+    outline: z.mobilePoints && z.mobilePoints.length >= 3 ? z.mobilePoints : z.points,
+    coverage: mobileCoverage(z.points, z.mobilePoints, crop),
+  }));
+  const counts = rows.reduce<Partial<Record<MobileCoverage, number>>>(
+    (acc, r) => ({ ...acc, [r.coverage]: (acc[r.coverage] ?? 0) + 1 }), {}
+  );
+  const problems = rows.filter(r => r.coverage === 'clipped' || r.coverage === 'outside' || r.coverage === 'missing');
+  const covered = zones.length - (counts.outside ?? 0) - (counts.missing ?? 0);
+
+  return (
+    <div className="p-4 border-t border-gray-100">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Mobile coverage</p>
+        <p className="text-xs text-gray-500">{covered} of {zones.length} zones shown on phones</p>
+      </div>
+      <div className="grid sm:grid-cols-[240px_1fr] gap-4">
+        <svg viewBox={`0 0 ${planAspect} 1`} className="w-full rounded-lg bg-gray-900 border border-gray-200">
+          {imageUrl && <image href={imageUrl} width={planAspect} height={1} preserveAspectRatio="none" opacity={0.5} />}
+          {rows.map(({ zone, outline, coverage }) => outline.length >= 3 && (
+            <polygon key={zone.id}
+              points={outline.map(p => `${p.x * planAspect},${p.y}`).join(' ')}
+              fill={COVERAGE[coverage].color} fillOpacity={0.45}
+              stroke={COVERAGE[coverage].color} strokeWidth={0.004}>
+              <title>{zone.label}: {COVERAGE[coverage].label}</title>
+            </polygon>
+          ))}
+          {crop && (
+            <rect x={crop.x * planAspect} y={crop.y} width={crop.width * planAspect} height={crop.height}
+              fill="none" stroke="#fff" strokeWidth={0.006} strokeDasharray="0.02 0.012" />
+          )}
+        </svg>
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {(Object.keys(COVERAGE) as MobileCoverage[]).filter(c => counts[c]).map(c => (
+              <span key={c} className="flex items-center gap-1.5 text-xs text-gray-600">
+                <span className="w-2.5 h-2.5 rounded-sm" style={{ background: COVERAGE[c].color }} />
+                {COVERAGE[c].label} · {counts[c]}
+              </span>
+            ))}
+          </div>
+          {problems.length > 0 ? (
+            <div className="flex flex-wrap gap-1.5">
+              {problems.map(({ zone, coverage }) => (
+                <span key={zone.id} title={COVERAGE[coverage].label}
+                  className="px-2 py-0.5 rounded-full text-[11px] font-medium border"
+                  style={{ borderColor: COVERAGE[coverage].color, color: COVERAGE[coverage].color }}>
+                  {zone.label || 'Untitled'}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-green-600">Every zone is fully shown on phones.</p>
+          )}
+          {problems.length > 0 && (
+            <p className="text-[11px] text-gray-500">
+              Move or widen the crop to bring these zones onto phones. Zones with no outline need one drawn in desktop mode.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { useMutation } from 'convex/react';
+import { useMutation, useQuery } from 'convex/react';
 import { api } from '@convex/_generated/api';
 import { Id } from '@convex/_generated/dataModel';
 import Link from 'next/link';
@@ -9,6 +9,9 @@ import {
   Plus, Layers, ExternalLink, Trash2, Edit2, Upload, Loader2, X,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import DeleteSummaryDialog from '@/components/admin/DeleteSummaryDialog';
+import { PublishStatusBadge } from '@/components/admin/PublishControl';
+import type { PublishStatus } from '@convex/lib/publication';
 
 type Phase = {
   _id: Id<'project_phases'>;
@@ -19,7 +22,9 @@ type Phase = {
   phase_plan_url?: string;
   phase_plan_video_url?: string;
   total_units?: number;
+  available_units?: number;
   displayOrder?: number;
+  publishStatus?: PublishStatus;
 };
 
 type Props = {
@@ -47,9 +52,17 @@ export default function PhasesManager({ projectId, projectSlug, phases }: Props)
   const [uploadProgress, setUploadProgress] = useState(0);
   const thumbRef = useRef<HTMLInputElement>(null);
 
+  const [pendingDelete, setPendingDelete] = useState<{ id: Id<'project_phases'>; name: string } | null>(null);
+  const [unitMode, setUnitMode] = useState<'detach' | 'delete'>('detach');
+  const [deleting, setDeleting] = useState(false);
+  const deletionSummary = useQuery(
+    api.projectPhases.getDeletionSummary,
+    pendingDelete ? { id: pendingDelete.id, units: unitMode } : 'skip'
+  );
+
   const [form, setForm] = useState({
     name: '', slug: '', description: '',
-    thumbnail_url: '', total_units: '',
+    thumbnail_url: '',
   });
 
   const uploadFile = async (file: File): Promise<string> => {
@@ -100,12 +113,11 @@ export default function PhasesManager({ projectId, projectSlug, phases }: Props)
         slug,
         description: form.description || undefined,
         thumbnail_url: form.thumbnail_url || undefined,
-        total_units: form.total_units ? Number(form.total_units) : undefined,
         displayOrder: phases.length,
       });
       toast.success('Phase created');
       setShowForm(false);
-      setForm({ name: '', slug: '', description: '', thumbnail_url: '', total_units: '' });
+      setForm({ name: '', slug: '', description: '', thumbnail_url: '' });
     } catch (e: any) {
       toast.error(e.message ?? 'Failed to create');
     } finally {
@@ -113,12 +125,15 @@ export default function PhasesManager({ projectId, projectSlug, phases }: Props)
     }
   };
 
-  const handleDelete = async (id: Id<'project_phases'>, name: string) => {
-    if (!confirm(`Delete phase "${name}"? This will not delete linked units.`)) return;
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    setDeleting(true);
     try {
-      await deletePhase({ id });
-      toast.success('Phase deleted');
+      await deletePhase({ id: pendingDelete.id, units: unitMode });
+      toast.success('Phase moved to trash');
+      setPendingDelete(null);
     } catch { toast.error('Failed to delete'); }
+    finally { setDeleting(false); }
   };
 
   return (
@@ -172,12 +187,6 @@ export default function PhasesManager({ projectId, projectSlug, phases }: Props)
                   className={inputCls}
                 />
               </div>
-              <div>
-                <label className="text-xs font-medium text-gray-600 block mb-1">Total Units</label>
-                <input type="number" min={0} value={form.total_units}
-                  onChange={(e) => setForm(f => ({ ...f, total_units: e.target.value }))}
-                  className={inputCls} />
-              </div>
 
               {/* Thumbnail */}
               <div>
@@ -237,10 +246,12 @@ export default function PhasesManager({ projectId, projectSlug, phases }: Props)
               </div>
 
               <div className="flex-1 min-w-0">
-                <p className="font-semibold text-gray-900">{ph.name}</p>
+                <p className="font-semibold text-gray-900 flex items-center gap-2">
+                  {ph.name} <PublishStatusBadge status={ph.publishStatus} />
+                </p>
                 <p className="text-xs text-gray-500 mt-0.5">
                   /{ph.slug}
-                  {ph.total_units ? ` · ${ph.total_units} units` : ''}
+                  {ph.total_units ? ` · ${ph.available_units ?? 0} of ${ph.total_units} units available` : ''}
                   {ph.phase_plan_url || ph.phase_plan_video_url ? ' · has plan' : ''}
                 </p>
                 {ph.description && <p className="text-xs text-gray-400 mt-0.5 truncate">{ph.description}</p>}
@@ -255,7 +266,7 @@ export default function PhasesManager({ projectId, projectSlug, phases }: Props)
                   className="p-2 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg" title="Edit phase">
                   <Edit2 className="w-4 h-4" />
                 </Link>
-                <button onClick={() => handleDelete(ph._id, ph.name)}
+                <button onClick={() => { setUnitMode('detach'); setPendingDelete({ id: ph._id, name: ph.name }); }}
                   className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-lg">
                   <Trash2 className="w-4 h-4" />
                 </button>
@@ -272,6 +283,37 @@ export default function PhasesManager({ projectId, projectSlug, phases }: Props)
           )}
         </div>
       </div>
+
+      {pendingDelete && (
+        <DeleteSummaryDialog
+          title={`Delete phase "${pendingDelete.name}"?`}
+          note="It moves to the trash and can be restored for 30 days."
+          items={deletionSummary ? [
+            {
+              label: unitMode === 'delete' ? 'Units trashed with it' : 'Units kept at project level',
+              count: deletionSummary.units.length,
+              names: deletionSummary.units,
+            },
+            { label: 'Master plan zones unlinked on purge', count: deletionSummary.masterPlanZones.length, names: deletionSummary.masterPlanZones },
+            { label: 'Uploaded files (removed on purge if unused elsewhere)', count: deletionSummary.files },
+          ] : undefined}
+          confirming={deleting}
+          onConfirm={handleDelete}
+          onCancel={() => setPendingDelete(null)}
+        >
+          <div className="flex gap-1 bg-gray-100 p-1 rounded-xl">
+            {(['detach', 'delete'] as const).map((mode) => (
+              <button key={mode} onClick={() => setUnitMode(mode)}
+                className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-lg transition-all ${
+                  unitMode === mode ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {mode === 'detach' ? 'Keep units' : 'Delete units too'}
+              </button>
+            ))}
+          </div>
+        </DeleteSummaryDialog>
+      )}
     </div>
   );
 }
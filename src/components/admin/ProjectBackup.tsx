@@ -0,0 +1,304 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useConvex, useMutation } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Id } from '@convex/_generated/dataModel';
+import { BUNDLE_FORMAT, type BundleFile, type ProjectBundle } from '@convex/lib/backup';
+import { AlertCircle, Archive, ChevronDown, Loader2, Upload, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { downloadBlob } from '@/lib/spreadsheet';
+
+const inputCls =
+  'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function base64ToBlob(data: string, contentType: string) {
+  const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type: contentType });
+}
+
+/** Swap every string in `value` that `urls` knows about */
+function replaceUrls<T>(value: T, urls: Map<string, string>): T {
+  if (typeof value === 'string') return (urls.get(value) ?? value) as T;
+  if (Array.isArray(value)) return value.map((v) => replaceUrls(v, urls)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, replaceUrls(v, urls)])) as T;
+  }
+  return value;
+}
+
+// ─── Backup ───────────────────────────────────────────────────────────────────
+
+/** Download the project as a JSON bundle, with or without its stored files */
+export default function ProjectBackup({ projectId }: { projectId: Id<'projects'> }) {
+  const convex = useConvex();
+  const [open, setOpen] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const handleBackup = async (withFiles: boolean) => {
+    setOpen(false);
+    setProgress('Preparing…');
+    try {
+      const { bundle, fileUrls } = await convex.query(api.backup.exportProject, { projectId });
+      const files: BundleFile[] = [];
+      if (withFiles) {
+        for (const [i, url] of fileUrls.entries()) {
+          setProgress(`File ${i + 1} of ${fileUrls.length}…`);
+          const res = await fetch(url);
+          if (!res.ok) throw new Error(`Could not download ${url}`);
+          const blob = await res.blob();
+          files.push({ url, contentType: blob.type || 'application/octet-stream', data: await blobToBase64(blob) });
+        }
+      }
+      const json = JSON.stringify(withFiles ? { ...bundle, files } : bundle);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(new Blob([json], { type: 'application/json' }), `${bundle.project.slug}-backup-${date}.json`);
+      toast.success(withFiles ? `Backup saved with ${files.length} files` : 'Backup saved');
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? e?.message ?? 'Backup failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={progress !== null}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-500 hover:text-olive-500 border border-gray-200 hover:border-olive-300 rounded-lg disabled:opacity-50"
+      >
+        {progress ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Archive className="w-3.5 h-3.5" />}
+        {progress ?? 'Backup'} {!progress && <ChevronDown className="w-3 h-3" />}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-64 bg-white border border-gray-200 rounded-xl shadow-lg z-20 py-1">
+          <button onClick={() => handleBackup(false)} className="w-full px-3 py-2 text-left hover:bg-gray-50">
+            <span className="block text-sm text-gray-800">Content only</span>
+            <span className="block text-xs text-gray-400">Small; files stay linked to this site</span>
+          </button>
+          <button onClick={() => handleBackup(true)} className="w-full px-3 py-2 text-left hover:bg-gray-50">
+            <span className="block text-sm text-gray-800">Content and files</span>
+            <span className="block text-xs text-gray-400">Portable to another deployment; can be large</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Restore ──────────────────────────────────────────────────────────────────
+
+type Check = {
+  name: string;
+  slug: string;
+  slugTaken: boolean;
+  problems: string[];
+  missingLocation: string | null;
+  exportedAt: number;
+  counts: { phases: number; buildings: number; units: number };
+};
+
+/** Restore a backup bundle as a new draft project, on the projects list */
+export function RestoreProjectPanel({ onClose }: { onClose: () => void }) {
+  const router = useRouter();
+  const importProject = useMutation(api.backup.importProject);
+  const generateUrl = useMutation(api.files.generateUploadUrl);
+  const getStorageUrl = useMutation(api.files.getUrl);
+  const discardUploads = useMutation(api.files.discardUploads);
+
+  const [bundle, setBundle] = useState<ProjectBundle | null>(null);
+  const [check, setCheck] = useState<Check | null>(null);
+  const [slug, setSlug] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+
+  // The server checks the manifest only; files are uploaded from here
+  const manifest = (b: ProjectBundle) => {
+    const { files: _files, ...rest } = b;
+    return rest;
+  };
+
+  const runCheck = async (b: ProjectBundle, nextSlug?: string) => {
+    try {
+      const res = await importProject({ bundle: manifest(b), slug: nextSlug, dryRun: true });
+      setCheck(res);
+      setSlug(res.slug);
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Could not read the backup');
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setCheck(null);
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (parsed?.format !== BUNDLE_FORMAT) throw new Error('Not a project backup file');
+      setBundle(parsed);
+      await runCheck(parsed);
+    } catch (e: any) {
+      setBundle(null);
+      toast.error(e instanceof SyntaxError ? 'The file is not valid JSON' : e?.message ?? 'Could not read the backup');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!bundle) return;
+    const urls = new Map<string, string>();
+    try {
+      // Check again with the final slug so a taken slug or a bad bundle is
+      // caught before anything is uploaded
+      setProgress('Checking…');
+      const checked = await importProject({ bundle: manifest(bundle), slug, dryRun: true });
+      if (checked.slugTaken || checked.problems.length > 0) {
+        setCheck(checked);
+        return;
+      }
+
+      // Upload embedded files and point the documents at their new URLs
+      const files = bundle.files ?? [];
+      for (const [i, file] of files.entries()) {
+        setProgress(`Uploading file ${i + 1} of ${files.length}…`);
+        const res = await fetch(await generateUrl(), {
+          method: 'POST',
+          headers: { 'Content-Type': file.contentType },
+          body: base64ToBlob(file.data, file.contentType),
+        });
+        if (!res.ok) throw new Error('File upload failed');
+        const { storageId } = await res.json();
+        const url = await getStorageUrl({ storageId });
+        if (url) urls.set(file.url, url);
+      }
+
+      setProgress('Restoring…');
+      const res = await importProject({ bundle: replaceUrls(manifest(bundle), urls), slug, dryRun: false });
+      if (res.projectId) {
+        toast.success(`Restored "${res.name}" as a draft`);
+        router.push(`/admin/projects/${res.projectId}`);
+        return;
+      }
+      setCheck(res);
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? e?.message ?? 'Restore failed');
+    } finally {
+      setProgress(null);
+    }
+    // Nothing was restored, so the files uploaded for it have no use
+    if (urls.size > 0) await discardUploads({ urls: [...urls.values()] }).catch(() => {});
+  };
+
+  const fileCount = bundle?.files?.length ?? 0;
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 p-6 mb-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-gray-900">Restore from backup</h3>
+          <p className="text-sm text-gray-500 mt-0.5">
+            Recreates the project with its phases, buildings, units and zones as a new draft. Nothing existing is changed.
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-gray-700 rounded-lg">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label className="flex items-center gap-3 px-4 py-3 border-2 border-dashed border-gray-200 rounded-xl cursor-pointer hover:border-olive-300">
+        <Upload className="w-5 h-5 text-gray-400" />
+        <span className="text-sm text-gray-600">Choose a backup .json file</span>
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {bundle && check && (
+        <div className="space-y-4">
+          <div className="bg-gray-50 rounded-xl px-4 py-3 text-sm text-gray-700">
+            <p className="font-medium text-gray-900">{check.name}</p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Backed up {new Date(check.exportedAt).toLocaleString()} · {check.counts.phases} phases ·{' '}
+              {check.counts.buildings} buildings · {check.counts.units} units ·{' '}
+              {fileCount > 0 ? `${fileCount} files included` : 'files not included (links stay pointed at the original site)'}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Project slug</label>
+            <div className="flex gap-2">
+              <input
+                value={slug}
+                onChange={(e) => setSlug(e.target.value.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, ''))}
+                onBlur={() => slug !== check.slug && runCheck(bundle, slug)}
+                className={inputCls}
+              />
+              {check.slugTaken && (
+                <button
+                  onClick={() => runCheck(bundle, `${check.slug}-copy`)}
+                  className="px-3 py-2 text-xs text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 whitespace-nowrap"
+                >
+                  Use {check.slug}-copy
+                </button>
+              )}
+            </div>
+            {check.slugTaken && (
+              <p className="text-xs text-red-600 mt-1">A project with this slug already exists. Pick another slug.</p>
+            )}
+          </div>
+
+          {check.missingLocation && (
+            <p className="bg-amber-50 border border-amber-100 rounded-xl px-4 py-3 text-xs text-amber-700">
+              There is no location &quot;{check.missingLocation}&quot; on this site, so the project will be restored
+              without one. Pick a location in the project form afterwards.
+            </p>
+          )}
+
+          {check.problems.length > 0 && (
+            <div className="bg-red-50 border border-red-100 rounded-xl px-4 py-3 text-sm text-red-700">
+              <p className="flex items-center gap-1.5 font-medium mb-1"><AlertCircle className="w-4 h-4" /> This backup can't be restored</p>
+              <ul className="list-disc pl-5 text-xs space-y-0.5">
+                {check.problems.map((p) => <li key={p}>{p}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleRestore}
+              disabled={progress !== null || check.slugTaken || check.problems.length > 0 || slug !== check.slug}
+              className="flex items-center gap-2 px-4 py-2 bg-olive-500 text-white rounded-xl hover:bg-olive-400 text-sm font-medium disabled:opacity-50"
+            >
+              {progress && <Loader2 className="w-4 h-4 animate-spin" />}
+              {progress ?? 'Restore project'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
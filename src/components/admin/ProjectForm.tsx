@@ -1,9 +1,10 @@
 'use client';
 
 import { useRouter } from 'next/navigation';
-import { useMutation } from 'convex/react';
+import { useMutation, useQuery } from 'convex/react';
 import { api } from '@convex/_generated/api';
 import { Id } from '@convex/_generated/dataModel';
+import type { StatsBasis } from '@convex/lib/aggregates';
 import { useState, useRef, useCallback } from 'react';
 import toast from 'react-hot-toast';
 import {
@@ -88,9 +89,11 @@ type ProjectData = {
   slug?: string;
   tagline?: string;
   description?: string;
+  locationId?: Id<'locations'>;
   location?: string;
   country?: string;
   price_from?: number;
+  stats_basis?: StatsBasis;
   status?: 'ongoing' | 'upcoming' | 'completed';
   image_url?: string;
   gallery?: string[];
@@ -111,6 +114,7 @@ export default function ProjectForm({ project }: { project?: ProjectData }) {
   const updateProject = useMutation(api.projects.update);
   const generateUrl = useMutation(api.files.generateUploadUrl);
   const getStorageUrl = useMutation(api.files.getUrl);
+  const locations = useQuery(api.locations.getAll);
 
   const [saving, setSaving] = useState(false);
   const [amenityInput, setAmenityInput] = useState('');
@@ -121,16 +125,12 @@ export default function ProjectForm({ project }: { project?: ProjectData }) {
     slug: project?.slug ?? '',
     tagline: project?.tagline ?? '',
     description: project?.description ?? '',
+    locationId: project?.locationId ?? '' as Id<'locations'> | '',
     location: project?.location ?? '',
     country: project?.country ?? 'Kenya',
-    price_from: project?.price_from ?? 0,
     status: project?.status ?? 'upcoming' as 'ongoing' | 'upcoming' | 'completed',
     image_url: project?.image_url ?? '',
     gallery: project?.gallery ?? [],
-    bedrooms_min: project?.bedrooms_min ?? 1,
-    bedrooms_max: project?.bedrooms_max ?? 4,
-    area_from: project?.area_from ?? 0,
-    area_to: project?.area_to ?? 0,
     amenities: project?.amenities ?? [],
     completion_date: project?.completion_date ?? '',
     featured: project?.featured ?? false,
@@ -216,10 +216,10 @@ export default function ProjectForm({ project }: { project?: ProjectData }) {
     setSaving(true);
     try {
       if (project?._id) {
-        await updateProject({ id: project._id, ...form });
+        await updateProject({ id: project._id, ...form, locationId: form.locationId || null });
         toast.success('Project updated');
       } else {
-        const id = await createProject(form);
+        const id = await createProject({ ...form, locationId: form.locationId || undefined });
         toast.success('Project created');
         router.push(`/admin/projects/${id}`);
       }
@@ -279,7 +279,23 @@ export default function ProjectForm({ project }: { project?: ProjectData }) {
       {/* Location */}
       <Section title="Location & Status">
         <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-5">
-          <Field label="Location">
+          <Field label="Listed Under">
+            <select
+              value={form.locationId}
+              onChange={(e) => {
+                const location = locations?.find((l) => l._id === e.target.value);
+                set('locationId', e.target.value);
+                if (location) set('country', location.country);
+              }}
+              className={inputCls}
+            >
+              <option value="">No location</option>
+              {locations?.map((l) => (
+                <option key={l._id} value={l._id}>{l.name}, {l.country}</option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Address">
             <input value={form.location} onChange={(e) => set('location', e.target.value)} placeholder="Lukenya, Machakos" className={inputCls} />
           </Field>
           <Field label="Country">
@@ -298,26 +314,39 @@ export default function ProjectForm({ project }: { project?: ProjectData }) {
         </div>
       </Section>
 
-      {/* Pricing & Size */}
-      <Section title="Pricing & Size">
-        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-5">
-          <Field label="Price From (KES)" required>
-            <input type="number" value={form.price_from || ''} onChange={(e) => set('price_from', Number(e.target.value))} placeholder="4500000" className={inputCls} />
-          </Field>
-          <Field label="Bedrooms Min">
-            <input type="number" value={form.bedrooms_min || ''} onChange={(e) => set('bedrooms_min', Number(e.target.value))} min={1} className={inputCls} />
-          </Field>
-          <Field label="Bedrooms Max">
-            <input type="number" value={form.bedrooms_max || ''} onChange={(e) => set('bedrooms_max', Number(e.target.value))} min={1} className={inputCls} />
-          </Field>
-          <Field label="Area From (sqft)">
-            <input type="number" value={form.area_from || ''} onChange={(e) => set('area_from', Number(e.target.value))} className={inputCls} />
-          </Field>
-          <Field label="Area To (sqft)">
-            <input type="number" value={form.area_to || ''} onChange={(e) => set('area_to', Number(e.target.value))} className={inputCls} />
-          </Field>
-        </div>
-      </Section>
+      {/* Pricing & Size: derived from the published units, not edited here */}
+      {project?._id && (
+        <Section title="Pricing & Size">
+          {project.stats_basis === 'none' ? (
+            <p className="text-sm text-gray-500">
+              Publish units to fill these in. Until then the site shows pricing as to be announced.
+            </p>
+          ) : (
+            <>
+              <div className="grid sm:grid-cols-3 gap-5">
+                <Field label="Price From (KES)">
+                  <p className="text-sm font-medium text-gray-900">{(project.price_from ?? 0).toLocaleString()}</p>
+                </Field>
+                <Field label="Bedrooms">
+                  <p className="text-sm font-medium text-gray-900">{project.bedrooms_min}–{project.bedrooms_max}</p>
+                </Field>
+                <Field label="Area (sqft)">
+                  <p className="text-sm font-medium text-gray-900">
+                    {(project.area_from ?? 0).toLocaleString()}–{(project.area_to ?? 0).toLocaleString()}
+                  </p>
+                </Field>
+              </div>
+              <p className="text-xs text-gray-400 mt-4">
+                {project.stats_basis === 'all'
+                  ? 'Every unit is reserved or sold, so these cover all published units.'
+                  : project.stats_basis === 'available'
+                    ? 'Worked out from the published units that are still available, and kept up to date as units change.'
+                    : 'Entered by hand before these were derived; they update the next time a unit changes.'}
+              </p>
+            </>
+          )}
+        </Section>
+      )}
 
       {/* Media */}
       <Section title="Main Images">
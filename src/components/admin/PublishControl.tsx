@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Id } from '@convex/_generated/dataModel';
+import type { PublishStatus } from '@convex/lib/publication';
+import Link from 'next/link';
+import { Eye, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const STATUS_LABELS: Record<PublishStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+const STATUS_STYLES: Record<PublishStatus, string> = {
+  draft: 'bg-gray-100 text-gray-600',
+  scheduled: 'bg-blue-100 text-blue-700',
+  published: 'bg-green-100 text-green-700',
+  archived: 'bg-amber-100 text-amber-700',
+};
+
+const inputCls =
+  'border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
+
+// Rows created before the publishing workflow have no status and are live
+export function PublishStatusBadge({ status }: { status?: PublishStatus }) {
+  const s = status ?? 'published';
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${STATUS_STYLES[s]}`}>
+      {STATUS_LABELS[s]}
+    </span>
+  );
+}
+
+type Target =
+  | { type: 'project'; id: Id<'projects'> }
+  | { type: 'phase'; id: Id<'project_phases'> }
+  | { type: 'unit'; id: Id<'project_units'> };
+
+// datetime-local works in local time without a zone suffix
+function toLocalInput(ms: number) {
+  const d = new Date(ms - new Date().getTimezoneOffset() * 60_000);
+  return d.toISOString().slice(0, 16);
+}
+
+/**
+ * Publication state for a project, phase or unit: current status, a form to
+ * change it (with a go-live time when scheduling) and a link to the draft
+ * preview. Projects and phases can carry their draft children along.
+ */
+export default function PublishControl({ target, status, publishAt, previewHref }: {
+  target: Target;
+  status?: PublishStatus;
+  publishAt?: number;
+  previewHref: string;
+}) {
+  const setProjectStatus = useMutation(api.publishing.setProjectStatus);
+  const setPhaseStatus = useMutation(api.publishing.setPhaseStatus);
+  const setUnitStatus = useMutation(api.publishing.setUnitStatus);
+
+  const current = status ?? 'published';
+  const [next, setNext] = useState<PublishStatus>(current);
+  const [when, setWhen] = useState(publishAt ? toLocalInput(publishAt) : '');
+  const [includeChildren, setIncludeChildren] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const childrenLabel = target.type === 'project' ? 'phases and units' : target.type === 'phase' ? 'units' : null;
+  const cascades = childrenLabel !== null && (next === 'published' || next === 'scheduled');
+
+  const save = async () => {
+    const args = {
+      status: next,
+      publishAt: next === 'scheduled' && when ? new Date(when).getTime() : undefined,
+    };
+    setSaving(true);
+    try {
+      if (target.type === 'project') await setProjectStatus({ id: target.id, ...args, includeChildren });
+      else if (target.type === 'phase') await setPhaseStatus({ id: target.id, ...args, includeChildren });
+      else await setUnitStatus({ id: target.id, ...args });
+      toast.success(next === 'scheduled' ? 'Publishing scheduled' : `Marked as ${STATUS_LABELS[next].toLowerCase()}`);
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Failed to update status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 px-5 py-4 mb-6 max-w-4xl">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2 mr-auto">
+          <span className="text-sm font-medium text-gray-700">Status</span>
+          <PublishStatusBadge status={status} />
+          {current === 'scheduled' && publishAt && (
+            <span className="text-xs text-gray-400">goes live {new Date(publishAt).toLocaleString()}</span>
+          )}
+        </div>
+
+        <select value={next} onChange={(e) => setNext(e.target.value as PublishStatus)} className={inputCls}>
+          {(Object.keys(STATUS_LABELS) as PublishStatus[]).map((s) => (
+            <option key={s} value={s}>{STATUS_LABELS[s]}</option>
+          ))}
+        </select>
+        {next === 'scheduled' && (
+          <input type="datetime-local" value={when} onChange={(e) => setWhen(e.target.value)} className={inputCls} />
+        )}
+        <button
+          onClick={save}
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 bg-olive-500 text-white text-sm font-medium rounded-xl hover:bg-olive-400 transition-colors disabled:opacity-50"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save
+        </button>
+        <Link href={previewHref} target="_blank"
+          className="flex items-center gap-1.5 px-3 py-2 text-xs text-gray-500 hover:text-olive-500 border border-gray-200 hover:border-olive-300 rounded-lg">
+          <Eye className="w-3.5 h-3.5" /> Preview draft
+        </Link>
+      </div>
+
+      {cascades && (
+        <label className="flex items-center gap-2 mt-3 text-sm text-gray-600">
+          <input type="checkbox" checked={includeChildren} onChange={(e) => setIncludeChildren(e.target.checked)} />
+          Also {next === 'scheduled' ? 'schedule' : 'publish'} draft {childrenLabel}
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Doc, Id } from '@convex/_generated/dataModel';
+import { BadgeCheck, Clock, Loader2, Lock, Unlock } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const inputCls =
+  'w-full border border-gray-200 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
+
+const REASON_LABELS: Record<Doc<'unit_status_history'>['reason'], string> = {
+  created: 'Unit created',
+  manual: 'Changed by hand',
+  imported: 'Bulk import',
+  hold_placed: 'Hold placed',
+  hold_released: 'Hold released',
+  hold_expired: 'Hold expired',
+  hold_converted: 'Hold converted to sale',
+};
+
+const RESERVATION_STYLES: Record<Doc<'unit_reservations'>['status'], string> = {
+  active: 'bg-amber-100 text-amber-700',
+  released: 'bg-gray-100 text-gray-600',
+  expired: 'bg-red-100 text-red-700',
+  converted: 'bg-green-100 text-green-700',
+};
+
+// datetime-local works in local time without a zone suffix
+function toLocalInput(ms: number) {
+  const d = new Date(ms - new Date().getTimezoneOffset() * 60_000);
+  return d.toISOString().slice(0, 16);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Active hold ──────────────────────────────────────────────────────────────
+
+function ActiveHold({ hold }: { hold: Doc<'unit_reservations'> }) {
+  const extend = useMutation(api.reservations.extend);
+  const release = useMutation(api.reservations.release);
+  const convert = useMutation(api.reservations.convert);
+
+  const [until, setUntil] = useState(toLocalInput(hold.expiresAt));
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<unknown>, done: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(done);
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Failed to update hold');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-amber-50 rounded-2xl border border-amber-200 p-5">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wider text-amber-700 mb-1">On hold</p>
+          <p className="font-semibold text-gray-900">{hold.buyerName}</p>
+          <p className="text-sm text-gray-500">
+            {[hold.reference, hold.buyerEmail !== hold.reference ? hold.buyerEmail : null, hold.buyerPhone]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        </div>
+        <div className="text-right text-sm">
+          <p className="text-gray-500">Expires</p>
+          <p className="font-medium text-gray-900">{new Date(hold.expiresAt).toLocaleString()}</p>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input type="datetime-local" value={until} onChange={(e) => setUntil(e.target.value)}
+          className={`${inputCls} w-auto`} />
+        <button
+          onClick={() => run(() => extend({ id: hold._id, expiresAt: new Date(until).getTime() }), 'Hold extended')}
+          disabled={busy || !until}
+          className="flex items-center gap-2 px-4 py-2.5 border border-gray-200 bg-white text-gray-700 text-sm font-medium rounded-xl hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Clock className="w-4 h-4" /> Extend
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={() => run(() => release({ id: hold._id }), 'Hold released')}
+          disabled={busy}
+          className="flex items-center gap-2 px-4 py-2.5 border border-gray-200 bg-white text-gray-700 text-sm font-medium rounded-xl hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Unlock className="w-4 h-4" /> Release
+        </button>
+        <button
+          onClick={() => {
+            if (confirm(`Mark this unit as sold to ${hold.buyerName}?`)) {
+              run(() => convert({ id: hold._id }), 'Unit marked as sold');
+            }
+          }}
+          disabled={busy}
+          className="flex items-center gap-2 px-4 py-2.5 bg-olive-500 text-white text-sm font-medium rounded-xl hover:bg-olive-400 disabled:opacity-50"
+        >
+          <BadgeCheck className="w-4 h-4" /> Convert to sale
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─── New hold ─────────────────────────────────────────────────────────────────
+
+function PlaceHoldForm({ unitId }: { unitId: Id<'project_units'> }) {
+  const place = useMutation(api.reservations.place);
+
+  const [form, setForm] = useState({
+    buyerName: '',
+    buyerEmail: '',
+    buyerPhone: '',
+    reference: '',
+    expiresAt: toLocalInput(Date.now() + 2 * DAY_MS),
+  });
+  const [saving, setSaving] = useState(false);
+
+  const set = (key: keyof typeof form, value: string) => setForm((f) => ({ ...f, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await place({
+        unitId,
+        buyerName: form.buyerName.trim(),
+        buyerEmail: form.buyerEmail.trim() || undefined,
+        buyerPhone: form.buyerPhone.trim() || undefined,
+        reference: form.reference.trim() || form.buyerEmail.trim() || form.buyerName.trim(),
+        expiresAt: new Date(form.expiresAt).getTime(),
+      });
+      toast.success('Hold placed');
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Failed to place hold');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-2xl border border-gray-200 p-5 space-y-4">
+      <h3 className="font-semibold text-gray-900">Place a hold</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm font-medium text-gray-700 block mb-1.5">Buyer name *</label>
+          <input value={form.buyerName} onChange={(e) => set('buyerName', e.target.value)} required className={inputCls} />
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-700 block mb-1.5">Reference</label>
+          <input value={form.reference} onChange={(e) => set('reference', e.target.value)}
+            placeholder="Booking or ID number (defaults to email)" className={inputCls} />
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-700 block mb-1.5">Email</label>
+          <input type="email" value={form.buyerEmail} onChange={(e) => set('buyerEmail', e.target.value)} className={inputCls} />
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-700 block mb-1.5">Phone</label>
+          <input type="tel" value={form.buyerPhone} onChange={(e) => set('buyerPhone', e.target.value)} className={inputCls} />
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-700 block mb-1.5">Expires *</label>
+          <input type="datetime-local" value={form.expiresAt} onChange={(e) => set('expiresAt', e.target.value)}
+            required className={inputCls} />
+        </div>
+      </div>
+      <button
+        type="submit"
+        disabled={saving}
+        className="flex items-center gap-2 px-5 py-2.5 bg-olive-500 text-white text-sm font-medium rounded-xl hover:bg-olive-400 transition-colors disabled:opacity-50"
+      >
+        {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+        Place hold
+      </button>
+    </form>
+  );
+}
+
+/**
+ * Reservation tab on the unit page: the active hold (extend, release, convert),
+ * a form to place one while the unit is available, past holds and the unit's
+ * status history.
+ */
+export default function ReservationPanel({ unit }: { unit: Doc<'project_units'> }) {
+  const data = useQuery(api.reservations.getForUnit, { unitId: unit._id });
+
+  if (data === undefined) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 text-olive-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const past = data.reservations.filter((r) => r.status !== 'active');
+
+  return (
+    <div className="max-w-4xl space-y-6">
+      {data.active ? (
+        <ActiveHold key={data.active._id} hold={data.active} />
+      ) : unit.status === 'available' ? (
+        <PlaceHoldForm unitId={unit._id} />
+      ) : (
+        <div className="bg-white rounded-2xl border border-gray-200 p-5 text-sm text-gray-500">
+          This unit is <span className="font-medium text-gray-900">{unit.status}</span>. Only available units can be put on hold.
+        </div>
+      )}
+
+      {past.length > 0 && (
+        <div className="bg-white rounded-2xl border border-gray-200">
+          <h3 className="font-semibold text-gray-900 px-5 pt-5 pb-3">Past holds</h3>
+          <div className="divide-y divide-gray-100">
+            {past.map((r) => (
+              <div key={r._id} className="px-5 py-3 flex items-center gap-3 text-sm">
+                <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${RESERVATION_STYLES[r.status]}`}>
+                  {r.status}
+                </span>
+                <span className="text-gray-900 font-medium">{r.buyerName}</span>
+                <span className="text-gray-400 truncate">{r.reference}</span>
+                <span className="ml-auto text-gray-400 text-xs shrink-0">
+                  {new Date(r.createdAt).toLocaleDateString()} – {new Date(r.endedAt ?? r.expiresAt).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl border border-gray-200">
+        <h3 className="font-semibold text-gray-900 px-5 pt-5 pb-3">Status history</h3>
+        {data.history.length === 0 ? (
+          <p className="px-5 pb-5 text-sm text-gray-400">No status changes recorded yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {data.history.map((h) => (
+              <div key={h._id} className="px-5 py-3 flex items-center gap-3 text-sm">
+                <span className="text-gray-900 capitalize">
+                  {h.from ? `${h.from} → ${h.to}` : h.to}
+                </span>
+                <span className="text-gray-500">{REASON_LABELS[h.reason]}</span>
+                <span className="ml-auto text-gray-400 text-xs shrink-0">
+                  {h.actorName} · {new Date(h.createdAt).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
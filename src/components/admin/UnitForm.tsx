@@ -254,6 +254,7 @@ export default function UnitForm({ unit, projectId }: {
               <option value="reserved">Reserved</option>
               <option value="sold">Sold</option>
             </select>
+            <p className="text-xs text-gray-400 mt-1">Held units change status from the Reservation tab.</p>
           </div>
           <div>
             <label className="text-sm font-medium text-gray-700 block mb-1.5">Bedrooms</label>
@@ -0,0 +1,302 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Id } from '@convex/_generated/dataModel';
+import type { ImportField, ImportRow } from '@convex/lib/unitImport';
+import { AlertCircle, CheckCircle2, FileSpreadsheet, Loader2, Upload, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { readSpreadsheet, type SheetRows } from '@/lib/spreadsheet';
+
+const selectCls =
+  'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
+
+// Column headers each field is matched against when a file is loaded
+const FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'name', label: 'Name', aliases: ['name', 'unit', 'unit name', 'plot'] },
+  { field: 'slug', label: 'Slug', aliases: ['slug', 'id', 'code', 'unit code'] },
+  { field: 'bedrooms', label: 'Bedrooms', aliases: ['bedrooms', 'beds', 'br'] },
+  { field: 'bathrooms', label: 'Bathrooms', aliases: ['bathrooms', 'baths', 'ba'] },
+  { field: 'area_sqft', label: 'Area (sqft)', aliases: ['area sqft', 'area', 'sqft', 'size'] },
+  { field: 'price', label: 'Price (KES)', aliases: ['price', 'price kes', 'amount'] },
+  { field: 'status', label: 'Status', aliases: ['status', 'availability'] },
+  { field: 'unit_type', label: 'Unit type', aliases: ['unit type', 'type'] },
+  { field: 'floor_number', label: 'Floor', aliases: ['floor number', 'floor', 'level'] },
+  { field: 'phase', label: 'Phase', aliases: ['phase'] },
+];
+
+type Mapping = Partial<Record<ImportField, number>>;
+type Result = {
+  applied: boolean;
+  rows: {
+    line: number;
+    slug: string;
+    name: string;
+    action: 'create' | 'update' | 'unchanged' | 'error';
+    changes: { field: string; from?: string | number; to: string | number }[];
+    errors: string[];
+  }[];
+};
+
+const ACTION_STYLES: Record<Result['rows'][number]['action'], string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  unchanged: 'bg-gray-100 text-gray-500',
+  error: 'bg-red-100 text-red-700',
+};
+
+function normalise(header: string) {
+  return header.toLowerCase().replace(/[_()-]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function guessMapping(headers: string[]): Mapping {
+  const names = headers.map(normalise);
+  const mapping: Mapping = {};
+  for (const { field, aliases } of FIELDS) {
+    const index = names.findIndex((h) => aliases.includes(h));
+    if (index !== -1) mapping[field] = index;
+  }
+  return mapping;
+}
+
+function toImportRows(sheet: SheetRows, mapping: Mapping): ImportRow[] {
+  // Header is line 1 of the file, so data starts on line 2
+  return sheet.slice(1).map((cells, i) => {
+    const row: ImportRow = { line: i + 2 };
+    for (const { field } of FIELDS) {
+      const index = mapping[field];
+      if (index !== undefined && cells[index]) row[field] = cells[index];
+    }
+    return row;
+  });
+}
+
+function formatValue(value: string | number | undefined) {
+  if (value === undefined || value === '') return '—';
+  return typeof value === 'number' ? value.toLocaleString() : value;
+}
+
+/** Upload → map columns → preview the diff → apply, on the project's Units tab */
+export default function UnitImport({ projectId, onClose }: {
+  projectId: Id<'projects'>;
+  onClose: () => void;
+}) {
+  const importUnits = useMutation(api.projectUnits.importUnits);
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SheetRows | null>(null);
+  const [mapping, setMapping] = useState<Mapping>({});
+  const [result, setResult] = useState<Result | null>(null);
+  const [busy, setBusy] = useState<'read' | 'preview' | 'apply' | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const handleFile = async (file: File) => {
+    setBusy('read');
+    setResult(null);
+    try {
+      const rows = await readSpreadsheet(file);
+      if (rows.length < 2) throw new Error('The file needs a header row and at least one unit');
+      setSheet(rows);
+      setFileName(file.name);
+      setMapping(guessMapping(rows[0]));
+    } catch (e: any) {
+      toast.error(e?.message ?? 'Could not read the file');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!sheet) return;
+    setBusy(dryRun ? 'preview' : 'apply');
+    try {
+      const res = await importUnits({ projectId, rows: toImportRows(sheet, mapping), dryRun });
+      setResult(res);
+      if (res.applied) {
+        const created = res.rows.filter((r) => r.action === 'create').length;
+        const updated = res.rows.filter((r) => r.action === 'update').length;
+        toast.success(`Imported: ${created} created, ${updated} updated`);
+      } else if (!dryRun) {
+        toast.error('Nothing was imported. Fix the rows marked below and try again.');
+      }
+    } catch (e: any) {
+      toast.error(e?.data?.message ?? 'Import failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const counts = result?.rows.reduce<Record<string, number>>((acc, r) => {
+    acc[r.action] = (acc[r.action] ?? 0) + 1;
+    return acc;
+  }, {});
+  const hasErrors = (counts?.error ?? 0) > 0;
+  const pending = (counts?.create ?? 0) + (counts?.update ?? 0);
+  const visibleRows = result?.rows.filter((r) => showUnchanged || r.action !== 'unchanged') ?? [];
+
+  return (
+    <div className="border border-olive-200 rounded-2xl p-6 bg-olive-50/30 space-y-5">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="font-medium text-gray-900">Import units</h4>
+          <p className="text-sm text-gray-500 mt-0.5">
+            Upload a CSV or XLSX with one unit per row. Rows are matched to existing units by slug
+            (or by name when there is no slug column); new slugs create draft units. Empty cells leave a field unchanged.
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-gray-700 rounded-lg">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* ── File ── */}
+      <label className="flex items-center gap-3 px-4 py-3 border-2 border-dashed border-gray-200 rounded-xl bg-white cursor-pointer hover:border-olive-300">
+        {busy === 'read' ? <Loader2 className="w-5 h-5 text-olive-500 animate-spin" /> : <Upload className="w-5 h-5 text-gray-400" />}
+        <span className="text-sm text-gray-600">
+          {fileName ? (
+            <span className="flex items-center gap-2">
+              <FileSpreadsheet className="w-4 h-4 text-olive-500" /> {fileName}
+              <span className="text-gray-400">· {sheet ? sheet.length - 1 : 0} rows · click to replace</span>
+            </span>
+          ) : 'Choose a .csv or .xlsx file'}
+        </span>
+        <input
+          type="file"
+          accept=".csv,.xlsx"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {/* ── Column mapping ── */}
+      {sheet && (
+        <div>
+          <h5 className="text-sm font-medium text-gray-700 mb-2">Columns</h5>
+          <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-3">
+            {FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <label className="block text-xs text-gray-500 mb-1">{label}</label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => {
+                    setResult(null);
+                    setMapping((m) => ({ ...m, [field]: e.target.value === '' ? undefined : Number(e.target.value) }));
+                  }}
+                  className={selectCls}
+                >
+                  <option value="">— Skip —</option>
+                  {sheet[0].map((header, i) => (
+                    <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end mt-4">
+            <button
+              onClick={() => run(true)}
+              disabled={busy !== null || (mapping.slug === undefined && mapping.name === undefined)}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 text-sm font-medium disabled:opacity-50"
+            >
+              {busy === 'preview' && <Loader2 className="w-4 h-4 animate-spin" />}
+              Preview changes
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* ── Diff preview ── */}
+      {result && counts && (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-100 flex flex-wrap items-center gap-3">
+            {result.applied ? (
+              <span className="flex items-center gap-1.5 text-sm font-medium text-green-700">
+                <CheckCircle2 className="w-4 h-4" /> Import applied
+              </span>
+            ) : hasErrors ? (
+              <span className="flex items-center gap-1.5 text-sm font-medium text-red-700">
+                <AlertCircle className="w-4 h-4" /> {counts.error} row{counts.error === 1 ? '' : 's'} with errors, nothing will be imported
+              </span>
+            ) : (
+              <span className="text-sm font-medium text-gray-700">Preview</span>
+            )}
+            <span className="text-xs text-gray-500">
+              {counts.create ?? 0} new · {counts.update ?? 0} updated · {counts.unchanged ?? 0} unchanged
+            </span>
+            <label className="flex items-center gap-1.5 text-xs text-gray-500 ml-auto">
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+              Show unchanged
+            </label>
+          </div>
+
+          <div className="max-h-[28rem] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+                  <th className="px-4 py-2 font-medium w-14">Row</th>
+                  <th className="px-4 py-2 font-medium">Unit</th>
+                  <th className="px-4 py-2 font-medium w-24">Action</th>
+                  <th className="px-4 py-2 font-medium">Changes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {visibleRows.map((r) => (
+                  <tr key={r.line} className="align-top">
+                    <td className="px-4 py-2 text-gray-400">{r.line}</td>
+                    <td className="px-4 py-2">
+                      <p className="font-medium text-gray-900">{r.name || '—'}</p>
+                      {r.slug && <p className="text-xs text-gray-400">/{r.slug}</p>}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${ACTION_STYLES[r.action]}`}>
+                        {r.action}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-xs">
+                      {r.errors.length > 0 ? (
+                        <ul className="space-y-0.5 text-red-600">
+                          {r.errors.map((e) => <li key={e}>{e}</li>)}
+                        </ul>
+                      ) : r.action === 'update' ? (
+                        <ul className="space-y-0.5 text-gray-600">
+                          {r.changes.map((c) => (
+                            <li key={c.field}>
+                              <span className="text-gray-400">{c.field}:</span>{' '}
+                              <span className="line-through text-gray-400">{formatValue(c.from)}</span> → {formatValue(c.to)}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : r.action === 'create' ? (
+                        <span className="text-gray-400">New draft unit</span>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+                {visibleRows.length === 0 && (
+                  <tr><td colSpan={4} className="px-4 py-6 text-center text-gray-400">Every row matches the current units.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {!result.applied && (
+            <div className="px-4 py-3 border-t border-gray-100 flex justify-end">
+              <button
+                onClick={() => run(false)}
+                disabled={busy !== null || hasErrors || pending === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-olive-500 text-white rounded-xl hover:bg-olive-400 text-sm font-medium disabled:opacity-50"
+              >
+                {busy === 'apply' && <Loader2 className="w-4 h-4 animate-spin" />}
+                Apply {pending} change{pending === 1 ? '' : 's'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
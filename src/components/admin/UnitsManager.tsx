@@ -5,15 +5,18 @@ import { api } from '@convex/_generated/api';
 import { Id } from '@convex/_generated/dataModel';
 import Link from 'next/link';
 import { useState } from 'react';
-import { Plus, Edit, Trash2, ExternalLink } from 'lucide-react';
+import { Plus, Edit, Trash2, ExternalLink, Upload } from 'lucide-react';
 import toast from 'react-hot-toast';
 import UnitForm from './UnitForm';
+import UnitImport from './UnitImport';
+import { PublishStatusBadge } from './PublishControl';
 
 export default function UnitsManager({ projectId }: { projectId: Id<'projects'> }) {
-  const units = useQuery(api.projectUnits.getByProject, { projectId });
-  const project = useQuery(api.projects.getById, { id: projectId });
+  const units = useQuery(api.projectUnits.getByProject, { projectId, includeDrafts: true });
+  const project = useQuery(api.projects.getById, { id: projectId, includeDrafts: true });
   const removeUnit = useMutation(api.projectUnits.remove);
   const [showNewForm, setShowNewForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
 
   const handleDelete = async (id: Id<'project_units'>, name: string) => {
@@ -21,7 +24,7 @@ export default function UnitsManager({ projectId }: { projectId: Id<'projects'>
     setDeleting(id);
     try {
       await removeUnit({ id });
-      toast.success('Unit deleted');
+      toast.success('Unit moved to trash');
     } catch {
       toast.error('Failed to delete unit');
     } finally {
@@ -38,15 +41,26 @@ export default function UnitsManager({ projectId }: { projectId: Id<'projects'>
           <h3 className="font-semibold text-gray-900">Units</h3>
           <p className="text-sm text-gray-500">{units?.length ?? 0} units in this project</p>
         </div>
-        <button
-          onClick={() => setShowNewForm(!showNewForm)}
-          className="flex items-center gap-2 px-4 py-2 bg-olive-500 text-white rounded-xl hover:bg-olive-400 transition-colors text-sm font-medium"
-        >
-          <Plus className="w-4 h-4" />
-          Add Unit
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowImport(!showImport)}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors text-sm font-medium"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button
+            onClick={() => setShowNewForm(!showNewForm)}
+            className="flex items-center gap-2 px-4 py-2 bg-olive-500 text-white rounded-xl hover:bg-olive-400 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            Add Unit
+          </button>
+        </div>
       </div>
 
+      {showImport && <UnitImport projectId={projectId} onClose={() => setShowImport(false)} />}
+
       {showNewForm && (
         <div className="border border-olive-200 rounded-2xl p-6 bg-olive-50/30">
           <h4 className="font-medium text-gray-900 mb-4">New Unit</h4>
@@ -78,7 +92,9 @@ export default function UnitsManager({ projectId }: { projectId: Id<'projects'>
                         <div className="w-9 h-9 bg-gray-100 rounded-lg" />
                       )}
                       <div>
-                        <p className="font-medium text-gray-900 text-sm">{unit.name}</p>
+                        <p className="font-medium text-gray-900 text-sm flex items-center gap-2">
+                          {unit.name} <PublishStatusBadge status={unit.publishStatus} />
+                        </p>
                         <p className="text-xs text-gray-400">/{unit.slug}</p>
                       </div>
                     </div>
@@ -0,0 +1,149 @@
+'use client';
+
+import { useQuery } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Id } from '@convex/_generated/dataModel';
+import { MAX_REPORT_RANGE_MS, type EventType } from '@convex/lib/events';
+import { Loader2 } from 'lucide-react';
+import type { DateRange } from '@/components/admin/DateRangePicker';
+import { HorizontalBars } from '@/components/admin/Charts';
+
+const EVENT_LABELS: Record<EventType, string> = {
+  page_view: 'Viewer opens',
+  zone_hover: 'Zone hovers',
+  zone_click: 'Zone clicks',
+  tab_switch: 'Tab switches',
+  panorama_open: '360° tours opened',
+  floor_plan_open: 'Floor plans opened',
+  media_dwell: 'Media views',
+};
+
+function formatDuration(ms: number) {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m ${s % 60}s`;
+  return `${Math.floor(m / 60)}h ${m % 60}m`;
+}
+
+function fileName(url: string) {
+  return decodeURIComponent(url.split('?')[0].split('/').pop() ?? url);
+}
+
+/** Visitors tab of /admin/analytics, fed by the viewers' event tracking */
+export default function VisitorReport({ range, projectId }: {
+  range: DateRange;
+  projectId?: Id<'projects'>;
+}) {
+  const tooWide = range.to - range.from > MAX_REPORT_RANGE_MS;
+  const data = useQuery(api.events.report, tooWide ? 'skip' : { from: range.from, to: range.to, projectId });
+
+  if (tooWide) {
+    return (
+      <div className="bg-white rounded-2xl border border-gray-200 px-6 py-16 text-center text-gray-400">
+        Visitor activity covers a year at most. Pick a shorter period.
+      </div>
+    );
+  }
+
+  if (data === undefined) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-8 h-8 text-olive-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (data.sessions === 0) {
+    return (
+      <div className="bg-white rounded-2xl border border-gray-200 px-6 py-16 text-center text-gray-400">
+        No visitor activity in this period.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-5">
+        <div className="bg-white rounded-2xl border border-gray-200 p-5">
+          <p className="text-sm text-gray-500 mb-1">Sessions</p>
+          <p className="text-2xl font-bold text-gray-900">{data.sessions.toLocaleString()}</p>
+        </div>
+        {(['page_view', 'zone_click', 'panorama_open'] as const).map((type) => (
+          <div key={type} className="bg-white rounded-2xl border border-gray-200 p-5">
+            <p className="text-sm text-gray-500 mb-1">{EVENT_LABELS[type]}</p>
+            <p className="text-2xl font-bold text-gray-900">{(data.counts[type] ?? 0).toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Panel title="Most viewed units" empty={data.topUnits.length === 0}>
+          <HorizontalBars
+            rows={data.topUnits.map((u) => ({
+              label: u.name,
+              hint: `${u.projectName ?? ''} · ${u.sessions} visitor${u.sessions === 1 ? '' : 's'} · ${formatDuration(u.dwellMs)} on media`,
+              value: u.views,
+              display: `${u.views} view${u.views === 1 ? '' : 's'}`,
+            }))}
+          />
+        </Panel>
+
+        <Panel title="Most clicked zones" empty={data.topZones.length === 0}>
+          <HorizontalBars
+            color="bg-amber-400"
+            rows={data.topZones.map((z) => ({
+              label: z.label,
+              hint: `${z.plan} · ${z.hovers} hover${z.hovers === 1 ? '' : 's'}`,
+              value: z.clicks,
+              display: `${z.clicks} click${z.clicks === 1 ? '' : 's'}`,
+            }))}
+          />
+        </Panel>
+
+        <Panel title="Media watched longest" empty={data.topMedia.length === 0}>
+          <HorizontalBars
+            color="bg-blue-400"
+            rows={data.topMedia.map((m) => ({
+              label: m.label ? `${m.label} — ${fileName(m.url)}` : fileName(m.url),
+              hint: `${m.views} view${m.views === 1 ? '' : 's'}`,
+              value: m.dwellMs,
+              display: formatDuration(m.dwellMs),
+            }))}
+          />
+        </Panel>
+
+        <Panel title="360° tours and tabs" empty={data.topPanoramas.length === 0 && data.tabs.length === 0}>
+          <HorizontalBars
+            color="bg-purple-400"
+            rows={[
+              ...data.topPanoramas.map((p) => ({ label: p.label, hint: '360° tour', value: p.opens, display: `${p.opens} open${p.opens === 1 ? '' : 's'}` })),
+              ...data.tabs.map((t) => ({ label: t.label, hint: 'tab', value: t.switches, display: `${t.switches} switch${t.switches === 1 ? '' : 'es'}` })),
+            ]}
+          />
+        </Panel>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 p-6">
+        <h2 className="font-semibold text-gray-900 mb-4">All events</h2>
+        <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          {(Object.keys(EVENT_LABELS) as EventType[]).map((type) => (
+            <div key={type} className="flex items-center justify-between text-sm bg-gray-50 rounded-xl px-4 py-2.5">
+              <span className="text-gray-500">{EVENT_LABELS[type]}</span>
+              <span className="font-medium text-gray-900">{(data.counts[type] ?? 0).toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Panel({ title, empty, children }: { title: string; empty: boolean; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 p-6">
+      <h2 className="font-semibold text-gray-900 mb-5">{title}</h2>
+      {empty ? <p className="text-sm text-gray-400">Nothing recorded yet.</p> : children}
+    </div>
+  );
+}
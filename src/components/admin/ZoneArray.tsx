@@ -0,0 +1,244 @@
+'use client';
+
+import { useState } from 'react';
+import { Grid3x3, X } from 'lucide-react';
+import type { CanvasZone, ZonePoint, ZoneStatus } from '@/components/canvas/ImmersiveCanvas';
+import { usePlanAspect } from '@/hooks/usePlanAspect';
+
+type Zone = CanvasZone & { mobilePoints?: ZonePoint[] };
+type Unit = { _id: string; name: string; slug: string; status: string };
+
+type Settings = {
+  rows: number;
+  cols: number;
+  colGap: number;    // % of the zone's width
+  rowGap: number;    // % of the zone's height
+  rotation: number;  // degrees; the direction rows run in
+  pattern: string;
+  start: number;
+  autoLink: boolean;
+};
+
+const inputCls =
+  'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
+
+const slugify = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// A, B … Z, AA, AB …
+function rowLetter(row: number): string {
+  let s = '';
+  for (let n = row; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+/** Fill a label pattern: {n} counts from `start`, {row} and {col} from 1, {letter} is the row as A, B, C… */
+export function formatZoneLabel(pattern: string, cell: { n: number; row: number; col: number }): string {
+  return pattern
+    .replace(/\{n\}/g, String(cell.n))
+    .replace(/\{row\}/g, String(cell.row))
+    .replace(/\{col\}/g, String(cell.col))
+    .replace(/\{letter\}/g, rowLetter(cell.row));
+}
+
+/**
+ * Copies of `points` on a rows × cols grid, row by row, the first being the
+ * original. Works in plan pixels (x scaled by `aspect`) so the rotation and
+ * gaps look right on plans that aren't square.
+ */
+function gridOf(points: ZonePoint[], aspect: number, s: Settings): ZonePoint[][] {
+  const pts = points.map(p => ({ x: p.x * aspect, y: p.y }));
+  const angle = (s.rotation * Math.PI) / 180;
+  const u = { x: Math.cos(angle), y: Math.sin(angle) };
+  const v = { x: -u.y, y: u.x };
+  const extent = (d: ZonePoint) => {
+    const proj = pts.map(p => p.x * d.x + p.y * d.y);
+    return Math.max(...proj) - Math.min(...proj);
+  };
+  const colStep = extent(u) * (1 + s.colGap / 100);
+  const rowStep = extent(v) * (1 + s.rowGap / 100);
+
+  const out: ZonePoint[][] = [];
+  for (let r = 0; r < s.rows; r++) {
+    for (let c = 0; c < s.cols; c++) {
+      const dx = u.x * c * colStep + v.x * r * rowStep;
+      const dy = u.y * c * colStep + v.y * r * rowStep;
+      out.push(pts.map(p => ({ x: (p.x + dx) / aspect, y: p.y + dy })));
+    }
+  }
+  return out;
+}
+
+// Angle of the zone's first side, folded into ±45° so rows follow its nearest edge
+function defaultRotation(points: ZonePoint[], aspect: number): number {
+  const [a, b] = points;
+  const deg = (Math.atan2(b.y - a.y, (b.x - a.x) * aspect) * 180) / Math.PI;
+  const folded = ((((deg + 45) % 90) + 90) % 90) - 45;
+  return Math.round(folded * 10) / 10;
+}
+
+/**
+ * Grid generator for a plan editor: repeats one zone as an N×M array with
+ * patterned labels, optionally linking each copy to the unit of the same name
+ * or slug. Pass `preview` to ImmersiveCanvas in place of the zones while it is
+ * open, and apply with `setZones(prev => zoneArray.build(prev))`.
+ */
+export function useZoneArray<Z extends Zone>({ zones, units, imageUrl, videoUrl }: {
+  zones: Z[];
+  units: Unit[];
+  imageUrl?: string;
+  videoUrl?: string;
+}) {
+  const aspect = usePlanAspect(imageUrl, videoUrl);
+  const [sourceId, setSourceId] = useState<string | null>(null);
+  const [stamp, setStamp] = useState(0);
+  const [settings, setSettings] = useState<Settings>({
+    rows: 1, cols: 5, colGap: 0, rowGap: 0, rotation: 0, pattern: 'Plot {n}', start: 1, autoLink: true,
+  });
+
+  const open = (id: string) => {
+    const zone = zones.find(z => z.id === id);
+    if (!zone || zone.points.length < 3) return;
+    setSourceId(id);
+    setStamp(Date.now());
+    setSettings(s => ({ ...s, rotation: defaultRotation(zone.points, aspect) }));
+  };
+  const close = () => setSourceId(null);
+
+  /** `current` with the source replaced by the first cell and the other cells after it */
+  const build = (current: Z[]): Z[] => {
+    const source = current.find(z => z.id === sourceId);
+    if (!source) return current;
+
+    // Units another zone already links to stay with that zone
+    const taken = new Set(current.filter(z => z.id !== source.id).map(z => z.meta?.unitId).filter(Boolean));
+    const byKey = new Map<string, Unit>();
+    for (const u of units) {
+      if (taken.has(u._id)) continue;
+      byKey.set(u.name.trim().toLowerCase(), u);
+      byKey.set(u.slug.toLowerCase(), u);
+    }
+    const matchUnit = (label: string) => byKey.get(label.trim().toLowerCase()) ?? byKey.get(slugify(label));
+
+    // A renamed source no longer names its unit, so it loses the link like the copies
+    const { unitId: _unitId, ...unlinkedMeta } = source.meta ?? {};
+
+    const cells = gridOf(source.points, aspect, settings).map((points, i): Z => {
+      const row = Math.floor(i / settings.cols) + 1;
+      const col = (i % settings.cols) + 1;
+      const label = formatZoneLabel(settings.pattern, { n: settings.start + i, row, col });
+      const unit = settings.autoLink ? matchUnit(label) : undefined;
+      const base: Z = i === 0
+        ? (label === source.label || !source.meta?.unitId ? { ...source, label }
+          : { ...source, label, status: 'available', meta: unlinkedMeta })
+        // Copies take the outline only: no mobile outline, no link of their own
+        : { ...source, id: `zone-${stamp}-${i}`, label, points, mobilePoints: undefined,
+            status: source.meta?.unitId ? 'available' : source.status, meta: {} };
+      return unit ? { ...base, status: unit.status as ZoneStatus, meta: { unitId: unit._id } } : base;
+    });
+
+    const at = current.indexOf(source);
+    return [...current.slice(0, at), cells[0], ...current.slice(at + 1), ...cells.slice(1)];
+  };
+
+  const preview = sourceId ? build(zones) : null;
+
+  return { sourceId, open, close, settings, setSettings, build, preview };
+}
+
+/** Settings and summary for the grid generator, shown below the canvas while it is open */
+export function ZoneArrayPanel<Z extends Zone>({ state, onApply }: {
+  state: ReturnType<typeof useZoneArray<Z>>;
+  onApply: () => void;
+}) {
+  const { sourceId, settings, setSettings, preview, close } = state;
+  if (!sourceId || !preview) return null;
+
+  const set = <K extends keyof Settings>(key: K, value: Settings[K]) => setSettings(s => ({ ...s, [key]: value }));
+  const num = (value: string, min: number, max: number) => Math.min(max, Math.max(min, Number(value) || 0));
+
+  const count = settings.rows * settings.cols;
+  const cells = [preview.find(z => z.id === sourceId)!, ...preview.slice(preview.length - count + 1)];
+  const labels = cells.map(z => z.label);
+  const linked = settings.autoLink ? cells.filter(z => z.meta?.unitId).length : 0;
+  const outside = cells.filter(z => z.points.some(p => p.x < 0 || p.x > 1 || p.y < 0 || p.y > 1)).length;
+  const others = new Set(preview.filter(z => !cells.includes(z)).map(z => z.label.trim().toLowerCase()));
+  const clashes = labels.filter((l, i) => others.has(l.trim().toLowerCase()) || labels.indexOf(l) !== i).length;
+
+  return (
+    <div className="p-4 border-t border-gray-100 bg-sky-50">
+      <div className="flex items-center gap-2 mb-3">
+        <Grid3x3 className="w-4 h-4 text-sky-600" />
+        <h4 className="text-sm font-semibold text-gray-900 flex-1">Repeat zone as a grid</h4>
+        <button onClick={close} className="p-1 text-gray-400 hover:text-gray-600"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        <label className="block">
+          <span className="text-xs font-medium text-gray-600 block mb-1">Rows</span>
+          <input type="number" min={1} max={50} value={settings.rows}
+            onChange={e => set('rows', num(e.target.value, 1, 50))} className={inputCls} />
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-600 block mb-1">Columns</span>
+          <input type="number" min={1} max={50} value={settings.cols}
+            onChange={e => set('cols', num(e.target.value, 1, 50))} className={inputCls} />
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-600 block mb-1">Column gap %</span>
+          <input type="number" min={-50} max={500} value={settings.colGap}
+            onChange={e => set('colGap', num(e.target.value, -50, 500))} className={inputCls} />
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-600 block mb-1">Row gap %</span>
+          <input type="number" min={-50} max={500} value={settings.rowGap}
+            onChange={e => set('rowGap', num(e.target.value, -50, 500))} className={inputCls} />
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-600 block mb-1">Rotation °</span>
+          <input type="number" step={0.5} min={-180} max={180} value={settings.rotation}
+            onChange={e => set('rotation', num(e.target.value, -180, 180))} className={inputCls} />
+        </label>
+        <label className="block col-span-2 sm:col-span-3">
+          <span className="text-xs font-medium text-gray-600 block mb-1">Label pattern</span>
+          <input value={settings.pattern} onChange={e => set('pattern', e.target.value)}
+            placeholder="Plot {n}, A{row}{col}, Block {letter}-{col}" className={inputCls} />
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-600 block mb-1">{'{n}'} starts at</span>
+          <input type="number" value={settings.start}
+            onChange={e => set('start', num(e.target.value, 0, 100000))} className={inputCls} />
+        </label>
+        <label className="flex items-end gap-2 pb-2 text-sm text-gray-700">
+          <input type="checkbox" checked={settings.autoLink} onChange={e => set('autoLink', e.target.checked)}
+            className="rounded border-gray-300 text-olive-500 focus:ring-olive-500" />
+          Link matching units
+        </label>
+      </div>
+
+      <p className="text-[11px] text-gray-500 mt-2">
+        Gaps are a percentage of the zone&apos;s size; 0 places copies edge to edge. Rotation turns the rows, and each
+        copy keeps the drawn outline. Units match when their name or slug equals the label.
+      </p>
+
+      <div className="mt-3 text-xs text-gray-600 space-y-1">
+        <p className="truncate">
+          {labels.length <= 6 ? labels.join(', ') : `${labels.slice(0, 3).join(', ')} … ${labels.slice(-2).join(', ')}`}
+        </p>
+        <p>
+          {count} zone{count !== 1 ? 's' : ''}
+          {settings.autoLink && <> · {linked} linked to units</>}
+          {outside > 0 && <span className="text-amber-600"> · {outside} outside the plan</span>}
+          {clashes > 0 && <span className="text-amber-600"> · {clashes} duplicate label{clashes !== 1 ? 's' : ''}</span>}
+        </p>
+      </div>
+
+      <div className="flex gap-3 mt-3">
+        <button onClick={onApply} disabled={!settings.pattern.trim()}
+          className="px-4 py-2 bg-olive-500 text-white rounded-lg text-sm font-semibold disabled:opacity-50">
+          Generate {count} Zone{count !== 1 ? 's' : ''}
+        </button>
+        <button onClick={close} className="px-4 py-2 text-gray-500 text-sm">Cancel</button>
+      </div>
+    </div>
+  );
+}
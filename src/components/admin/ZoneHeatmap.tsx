@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Id } from '@convex/_generated/dataModel';
+import { MAX_REPORT_RANGE_MS } from '@convex/lib/events';
+import { Flame } from 'lucide-react';
+import { heatColor } from '@/components/canvas/ImmersiveCanvas';
+import DateRangePicker, { lastDays, type DateRange } from '@/components/admin/DateRangePicker';
+
+type Metric = 'clicks' | 'hovers';
+type Plan = { projectId: Id<'projects'> } | { phaseId: Id<'project_phases'> };
+
+const selectCls =
+  'border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-olive-500/30 focus:border-olive-400 bg-white';
+
+/**
+ * Heatmap state for a plan editor. Pass `heatmap` to ImmersiveCanvas and
+ * render <ZoneHeatmapBar> with the rest above the canvas.
+ */
+export function useZoneHeatmap(plan: Plan) {
+  const [enabled, setEnabled] = useState(false);
+  const [metric, setMetric] = useState<Metric>('clicks');
+  const [range, setRange] = useState<DateRange>(() => lastDays(30));
+  const tooWide = range.to - range.from > MAX_REPORT_RANGE_MS;
+  const data = useQuery(
+    api.events.zoneHeatmap,
+    enabled && !tooWide ? { ...plan, metric, from: range.from, to: range.to } : 'skip'
+  );
+  return {
+    heatmap: enabled ? data?.counts ?? {} : undefined,
+    enabled, setEnabled, metric, setMetric, range, setRange, tooWide, data,
+  };
+}
+
+/** Toggle, metric, period and legend for the zone engagement heatmap */
+export function ZoneHeatmapBar({ state }: { state: ReturnType<typeof useZoneHeatmap> }) {
+  const { enabled, setEnabled, metric, setMetric, range, setRange, tooWide, data } = state;
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-100 flex flex-wrap items-center gap-3">
+      <button
+        onClick={() => setEnabled(!enabled)}
+        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+          enabled ? 'bg-orange-500 text-white' : 'bg-gray-100 text-gray-600 hover:text-gray-900'
+        }`}
+      >
+        <Flame className="w-3.5 h-3.5" /> Engagement heatmap
+      </button>
+      {enabled && (
+        <>
+          <select value={metric} onChange={(e) => setMetric(e.target.value as Metric)} className={selectCls}>
+            <option value="clicks">Clicks</option>
+            <option value="hovers">Views (hovers)</option>
+          </select>
+          <DateRangePicker value={range} onChange={setRange} />
+          {tooWide ? (
+            <span className="text-xs text-amber-600 ml-auto">Pick a period of a year or less</span>
+          ) : (
+            <div className="flex items-center gap-2 text-xs text-gray-500 ml-auto">
+              <span>0</span>
+              <span
+                className="w-32 h-2.5 rounded-full"
+                style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map((t) => heatColor(t, 1)).join(', ')})` }}
+              />
+              <span>{data?.max ?? '…'}</span>
+              <span className="text-gray-400">· {data?.total ?? 0} {metric === 'clicks' ? 'clicks' : 'views'} in period</span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,18 @@
  *
  * Modes:
  *   "view" — read-only, zones are clickable / tappable
- *   "edit" — draw mode toggle, can add/delete zones
+ *   "edit" — select or draw. Drawing adds a zone; selecting a zone shows its
+ *            vertex handles, which can be dragged, double-clicked to remove,
+ *            or added by dragging an edge midpoint. Dragging inside the
+ *            selected zone moves it. Edits go out through onZoneUpdate.
+ *
+ * Drawing aids (edit mode):
+ *   • Tools: free polygon, rectangle (two corners) and rotated rectangle
+ *     (one side, then its depth)
+ *   • Snapping (magnet toggle): points snap to other zones' vertices, then
+ *     their edges. Going from one snapped vertex to another of the same zone
+ *     follows that zone's outline, so neighbouring plots share their edge.
+ *   • Shift while drawing locks the new side to 0/45/90°.
  *
  * Background:
  *   imageUrl provided → image drawn inside canvas with internal pan/zoom
@@ -30,8 +41,10 @@ import React, {
 } from 'react';
 import {
   MousePointer, Pencil, ZoomIn, ZoomOut, RotateCcw, Trash2,
-  Check, X as XIcon,
+  Check, X as XIcon, Minus, Square, Diamond, Magnet,
 } from 'lucide-react';
+import { useTracker } from '@/hooks/useTracker';
+import { lockAngle, nearestOnSegment, rectFromCorners, rotatedRect, traceBetween } from './zoneGeometry';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -49,6 +62,15 @@ export type CanvasZone = {
 
 export type ImmersiveCanvasMode = 'view' | 'edit';
 
+type DrawTool = 'polygon' | 'rect' | 'rotated';
+
+// Where the next drawn point will land, and what it snapped to
+type Aim = {
+  point: ZonePoint;
+  snap: 'vertex' | 'edge' | null;
+  vertex: { zoneId: string; index: number } | null;
+};
+
 export type VideoDisplayArea = {
   offsetX: number;
   offsetY: number;
@@ -65,6 +87,8 @@ export type ImmersiveCanvasProps = {
   onZoneClick?: (zone: CanvasZone) => void;
   onZoneAdd?:   (points: ZonePoint[], id: string) => void;
   onZoneDelete?: (zoneId: string) => void;
+  /** Edit mode: a zone's points after a vertex drag, insert or delete, or a move */
+  onZoneUpdate?: (zoneId: string, points: ZonePoint[]) => void;
   highlightedZoneId?: string | null;
   className?: string;
   /**
@@ -82,6 +106,12 @@ export type ImmersiveCanvasProps = {
    * (accounting for letterboxing), not the full container.
    */
   videoDisplayArea?: VideoDisplayArea;
+  /**
+   * Admin heatmap: zone id → engagement count. When set, zones are coloured
+   * by count relative to the busiest zone instead of by status, and each
+   * label shows its count.
+   */
+  heatmap?: Record<string, number>;
 };
 
 export interface ImmersiveCanvasRef {
@@ -99,6 +129,12 @@ function zoneColor(status: ZoneStatus, alpha = 0.35): string {
   if (status === 'sold')        return `rgba(156,163,175,${alpha})`;
   return `rgba(99,102,241,${alpha})`;
 }
+// Cold (blue) → warm (yellow) → hot (red) for t in [0, 1]
+export function heatColor(t: number, alpha = 0.45): string {
+  const c = Math.max(0, Math.min(1, t));
+  const hue = 220 - c * 220;
+  return `hsla(${hue},85%,55%,${alpha})`;
+}
 function zoneBorderColor(status: ZoneStatus): string {
   if (status === 'available')   return 'rgba(52,211,153,0.9)';
   if (status === 'coming_soon') return 'rgba(251,191,36,0.9)';
@@ -111,12 +147,16 @@ function zoneBorderColor(status: ZoneStatus): string {
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const CLOSE_PX = 18;
+const HANDLE_PX = 9;   // hit radius of vertex / midpoint handles
+const SNAP_PX   = 10;  // snapping distance to other zones' vertices and edges
+const HOVER_MS = 400;
 const MIN_Z    = 0.15;
 const MAX_Z    = 8;
 const Z_STEP   = 0.15;
 const DPR = typeof window !== 'undefined' ? (window.devicePixelRatio || 1) : 1;
 
 function lerp(a: number, b: number, t: number) { return a + (b - a) * t; }
+function clamp01(v: number) { return Math.max(0, Math.min(1, v)); }
 
 function clampTransparent(scale: number, tx: number, ty: number, cw: number, ch: number) {
   if (scale <= 1) return { tx: 0, ty: 0 };
@@ -131,10 +171,11 @@ function clampTransparent(scale: number, tx: number, ty: number, cw: number, ch:
 export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasProps>(
   function ImmersiveCanvas({
     imageUrl, transparent = false, zones, mode = 'view',
-    onZoneClick, onZoneAdd, onZoneDelete,
+    onZoneClick, onZoneAdd, onZoneDelete, onZoneUpdate,
     highlightedZoneId, className = '',
     onTransparentZoom,
     videoDisplayArea,
+    heatmap,
   }, ref) {
     const canvasRef    = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -159,12 +200,42 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
     const [isDrawing,   setIsDrawing]   = useState(false);
     const [drawPath,    setDrawPath]    = useState<ZonePoint[]>([]);
     const [nearStart,   setNearStart]   = useState(false);
+    const [drawTool,    setDrawTool]    = useState<DrawTool>('polygon');
+    const [snapping,    setSnapping]    = useState(true);
+    const [aim,         setAim]         = useState<Aim | null>(null);
+    const lastSnap = useRef<Aim['vertex']>(null);   // snapped vertex of the last drawn point
     // Mouse drag state
     const [isPanning,   setIsPanning]   = useState(false);
     const [dragLast,    setDragLast]    = useState({ x: 0, y: 0 });
     // Hover / selection
     const [hoverZoneId, setHoverZoneId] = useState<string | null>(null);
     const [selZoneId,   setSelZoneId]   = useState<string | null>(null);
+    const [selVertex,   setSelVertex]   = useState<number | null>(null);
+    useEffect(() => { setSelVertex(null); }, [selZoneId]);
+
+    // Select-mode edit in progress. `draft` holds the zone's points while a
+    // drag is under way; they are only sent to onZoneUpdate when it ends.
+    const edit = useRef<{
+      zoneId: string; kind: 'vertex' | 'move'; index: number;
+      start: ZonePoint; origin: ZonePoint[]; points: ZonePoint[]; moved: boolean;
+    } | null>(null);
+    const [draft, setDraft] = useState<{ zoneId: string; points: ZonePoint[] } | null>(null);
+    const shownZones = draft ? zones.map(z => z.id === draft.zoneId ? { ...z, points: draft.points } : z) : zones;
+
+    // Visitor tracking (no-op outside a TrackingProvider, i.e. in the editors)
+    const track = useTracker();
+    const clickZone = useCallback((zone: CanvasZone) => {
+      track('zone_click', { zoneId: zone.id, label: zone.label });
+      onZoneClick?.(zone);
+    }, [track, onZoneClick]);
+    // A hover counts once the pointer has rested on the zone for a moment
+    useEffect(() => {
+      if (mode !== 'view' || !hoverZoneId) return;
+      const zone = zones.find(z => z.id === hoverZoneId);
+      if (!zone) return;
+      const t = setTimeout(() => track('zone_hover', { zoneId: zone.id, label: zone.label }), HOVER_MS);
+      return () => clearTimeout(t);
+    }, [hoverZoneId, mode, zones, track]);
 
     // Touch gesture bookkeeping (mutable ref — no re-render needed)
     const touch = useRef({
@@ -313,6 +384,194 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
       return null;
     }, [zones, transparent, imgSize, videoDisplayArea]);
 
+    // ── Normalized point ↔ canvas position (same mapping as hitTest) ─────
+
+    const toScreen = useCallback((q: ZonePoint): ZonePoint => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      const CW = rect?.width ?? 1, CH = rect?.height ?? 1;
+      if (transparent) {
+        return videoDisplayArea?.ready
+          ? { x: videoDisplayArea.offsetX + q.x * videoDisplayArea.displayWidth, y: videoDisplayArea.offsetY + q.y * videoDisplayArea.displayHeight }
+          : { x: q.x * CW, y: q.y * CH };
+      }
+      return { x: q.x * imgSize.w * zoomRef.current + panRef.current.x, y: q.y * imgSize.h * zoomRef.current + panRef.current.y };
+    }, [transparent, imgSize, videoDisplayArea]);
+
+    const toNorm = useCallback((pos: ZonePoint): ZonePoint => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      const CW = rect?.width ?? 1, CH = rect?.height ?? 1;
+      if (transparent) {
+        return videoDisplayArea?.ready
+          ? { x: (pos.x - videoDisplayArea.offsetX) / videoDisplayArea.displayWidth, y: (pos.y - videoDisplayArea.offsetY) / videoDisplayArea.displayHeight }
+          : { x: pos.x / CW, y: pos.y / CH };
+      }
+      return { x: (pos.x - panRef.current.x) / zoomRef.current / imgSize.w, y: (pos.y - panRef.current.y) / zoomRef.current / imgSize.h };
+    }, [transparent, imgSize, videoDisplayArea]);
+
+    // ── Drawing aids ──────────────────────────────────────────────────────
+
+    /** Nearest other-zone vertex within SNAP_PX of `pos`, else nearest edge point */
+    const snapTarget = useCallback((pos: ZonePoint, excludeZoneId?: string): Aim | null => {
+      let best: Aim | null = null, bestDist = SNAP_PX;
+      for (const zone of zones) {
+        if (zone.id === excludeZoneId || zone.points.length < 3) continue;
+        zone.points.map(toScreen).forEach((q, index) => {
+          const d = Math.hypot(q.x - pos.x, q.y - pos.y);
+          if (d <= bestDist) {
+            bestDist = d;
+            // The stored point itself, so shared vertices match exactly
+            best = { point: zone.points[index], snap: 'vertex', vertex: { zoneId: zone.id, index } };
+          }
+        });
+      }
+      if (best) return best;
+      for (const zone of zones) {
+        if (zone.id === excludeZoneId || zone.points.length < 3) continue;
+        const pts = zone.points.map(toScreen);
+        pts.forEach((a, i) => {
+          const q = nearestOnSegment(pos, a, pts[(i + 1) % pts.length]);
+          const d = Math.hypot(q.x - pos.x, q.y - pos.y);
+          if (d <= bestDist) { bestDist = d; best = { point: toNorm(q), snap: 'edge', vertex: null }; }
+        });
+      }
+      return best;
+    }, [zones, toScreen, toNorm]);
+
+    /** Where a draw tap at `pos` lands, after angle locking or snapping */
+    const aimAt = useCallback((pos: ZonePoint, shift: boolean): Aim => {
+      const last = drawPath[drawPath.length - 1];
+      // Shift locks the new side (or the rotated rectangle's first side) to 45° steps
+      if (shift && last && (drawTool === 'polygon' || (drawTool === 'rotated' && drawPath.length === 1))) {
+        return { point: toNorm(lockAngle(toScreen(last), pos)), snap: null, vertex: null };
+      }
+      return (snapping ? snapTarget(pos) : null) ?? { point: toNorm(pos), snap: null, vertex: null };
+    }, [drawPath, drawTool, snapping, snapTarget, toNorm, toScreen]);
+
+    // Rectangle previews and results are computed on screen, where right angles look right
+    const shapeFor = useCallback((points: ZonePoint[], cursor: ZonePoint): ZonePoint[] | null => {
+      if (drawTool === 'rect' && points.length === 1) return rectFromCorners(points[0], cursor);
+      if (drawTool === 'rotated' && points.length === 2) {
+        return rotatedRect(toScreen(points[0]), toScreen(points[1]), toScreen(cursor)).map(toNorm);
+      }
+      return null;
+    }, [drawTool, toScreen, toNorm]);
+
+    const resetDraw = useCallback(() => {
+      setDrawPath([]); setNearStart(false); setAim(null); lastSnap.current = null;
+    }, []);
+
+    const finishZone = useCallback((points: ZonePoint[]) => {
+      onZoneAdd?.(points, `zone-${Date.now()}`);
+      resetDraw();
+    }, [onZoneAdd, resetDraw]);
+
+    const drawTap = useCallback((pos: ZonePoint, shift: boolean) => {
+      const target = aimAt(pos, shift);
+      const { point } = target;
+      // Only allow drawing within the video area (0-1 range)
+      if (transparent && videoDisplayArea?.ready && (point.x < 0 || point.x > 1 || point.y < 0 || point.y > 1)) return;
+
+      const shape = shapeFor(drawPath, point);
+      if (shape) return finishZone(shape);
+      if (drawTool !== 'polygon') { setDrawPath(prev => [...prev, point]); return; }
+
+      // Tapping the first point again closes the polygon
+      const first = drawPath.length > 2 ? toScreen(drawPath[0]) : null;
+      if (first && Math.hypot(pos.x - first.x, pos.y - first.y) < CLOSE_PX) return finishZone(drawPath);
+      // From one vertex of a neighbour to another: follow its outline between them
+      const prevSnap = lastSnap.current;
+      const shared = !shift && prevSnap && target.vertex && prevSnap.zoneId === target.vertex.zoneId
+        ? traceBetween(zones.find(z => z.id === prevSnap.zoneId)?.points ?? [], prevSnap.index, target.vertex.index)
+        : [];
+      setDrawPath(prev => [...prev, ...shared, point]);
+      lastSnap.current = target.vertex;
+    }, [aimAt, shapeFor, drawPath, drawTool, toScreen, finishZone, transparent, videoDisplayArea, zones]);
+
+    // ── Select-mode editing ───────────────────────────────────────────────
+
+    // Index of the selected zone's vertex under `pos`, or -1
+    const vertexAt = useCallback((zone: CanvasZone, pos: ZonePoint) =>
+      zone.points.map(toScreen).findIndex(q => Math.hypot(q.x - pos.x, q.y - pos.y) <= HANDLE_PX),
+    [toScreen]);
+
+    /** Start a vertex drag, an edge insert or a move; false if `pos` isn't on the selected zone */
+    const beginEdit = useCallback((pos: ZonePoint): boolean => {
+      if (mode !== 'edit' || isDrawing || !selZoneId || !onZoneUpdate) return false;
+      const zone = zones.find(z => z.id === selZoneId);
+      if (!zone || zone.points.length < 3) return false;
+      const start = { zoneId: zone.id, start: pos, moved: false };
+
+      const vi = vertexAt(zone, pos);
+      if (vi >= 0) {
+        edit.current = { ...start, kind: 'vertex', index: vi, origin: zone.points, points: zone.points };
+        setSelVertex(vi);
+        return true;
+      }
+      const pts = zone.points.map(toScreen);
+      const mi = pts.findIndex((q, i) => {
+        const r = pts[(i + 1) % pts.length];
+        return Math.hypot((q.x + r.x) / 2 - pos.x, (q.y + r.y) / 2 - pos.y) <= HANDLE_PX;
+      });
+      if (mi >= 0) {
+        const a = zone.points[mi], b = zone.points[(mi + 1) % zone.points.length];
+        const points = [...zone.points.slice(0, mi + 1), { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, ...zone.points.slice(mi + 1)];
+        // The point only goes in once the drag passes the threshold, so a click
+        // or double-click on a midpoint changes nothing
+        edit.current = { ...start, kind: 'vertex', index: mi + 1, origin: points, points: zone.points };
+        return true;
+      }
+      if (hitTest(pos.x, pos.y)?.id === zone.id) {
+        edit.current = { ...start, kind: 'move', index: -1, origin: zone.points, points: zone.points };
+        setSelVertex(null);
+        return true;
+      }
+      return false;
+    }, [mode, isDrawing, selZoneId, onZoneUpdate, zones, vertexAt, toScreen, hitTest]);
+
+    const dragEdit = useCallback((pos: ZonePoint): boolean => {
+      const e = edit.current;
+      if (!e) return false;
+      if (!e.moved && Math.hypot(pos.x - e.start.x, pos.y - e.start.y) < 4) return true;
+      if (!e.moved && e.kind === 'vertex') setSelVertex(e.index);
+      e.moved = true;
+      const from = toNorm(e.start), to = toNorm(pos);
+      let dx = to.x - from.x, dy = to.y - from.y;
+      if (e.kind === 'vertex') {
+        const target = snapping ? snapTarget(pos, e.zoneId) : null;
+        e.points = e.origin.map((q, i) => i !== e.index ? q
+          : target ? target.point
+          : { x: clamp01(q.x + dx), y: clamp01(q.y + dy) });
+        setAim(target);
+      } else {
+        // Keep the whole zone inside the plan
+        const xs = e.origin.map(q => q.x), ys = e.origin.map(q => q.y);
+        dx = Math.max(-Math.min(...xs), Math.min(1 - Math.max(...xs), dx));
+        dy = Math.max(-Math.min(...ys), Math.min(1 - Math.max(...ys), dy));
+        e.points = e.origin.map(q => ({ x: q.x + dx, y: q.y + dy }));
+      }
+      setDraft({ zoneId: e.zoneId, points: e.points });
+      return true;
+    }, [toNorm, snapping, snapTarget]);
+
+    const endEdit = useCallback((): boolean => {
+      const e = edit.current;
+      if (!e) return false;
+      edit.current = null;
+      setDraft(null); setAim(null);
+      if (e.moved) onZoneUpdate?.(e.zoneId, e.points);
+      // A click inside the selected zone deselects it, as before
+      else if (e.kind === 'move') setSelZoneId(null);
+      return true;
+    }, [onZoneUpdate]);
+
+    // A zone needs at least three points, so the last three stay
+    const removeVertex = useCallback((index: number) => {
+      const zone = zones.find(z => z.id === selZoneId);
+      if (!zone || zone.points.length <= 3) return;
+      onZoneUpdate?.(zone.id, zone.points.filter((_, i) => i !== index));
+      setSelVertex(null);
+    }, [zones, selZoneId, onZoneUpdate]);
+
     // ── Draw render loop ──────────────────────────────────────────────────
 
     const render = useCallback(() => {
@@ -339,7 +598,8 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
         else { ctx.fillStyle = '#111'; ctx.fillRect(0, 0, W, H); }
       }
 
-      for (const zone of zones) {
+      const heatMax = heatmap ? Math.max(1, ...Object.values(heatmap)) : 1;
+      for (const zone of shownZones) {
         if (zone.points.length < 3) continue;
         const pts = transparent
           ? (videoDisplayArea?.ready
@@ -353,8 +613,9 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
         ctx.beginPath(); ctx.moveTo(pts[0].x, pts[0].y);
         for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y);
         ctx.closePath();
-        ctx.fillStyle   = zoneColor(zone.status, hot ? 0.55 : 0.25);
-        ctx.strokeStyle = zoneBorderColor(zone.status);
+        const heat = heatmap ? (heatmap[zone.id] ?? 0) / heatMax : null;
+        ctx.fillStyle   = heat !== null ? heatColor(heat, hot ? 0.75 : 0.55) : zoneColor(zone.status, hot ? 0.55 : 0.25);
+        ctx.strokeStyle = heat !== null ? heatColor(heat, 0.95) : zoneBorderColor(zone.status);
         ctx.lineWidth   = hot ? 2.5 : 1.5;
         ctx.fill(); ctx.stroke();
         if (transparent || z > 0.25) {
@@ -364,31 +625,58 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
           ctx.font = `600 ${fs}px system-ui,sans-serif`; ctx.fillStyle = '#fff';
           ctx.shadowColor = 'rgba(0,0,0,0.8)'; ctx.shadowBlur = 5;
           ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
-          ctx.fillText(zone.label, cx, cy); ctx.shadowBlur = 0;
+          ctx.fillText(heatmap ? `${zone.label} · ${heatmap[zone.id] ?? 0}` : zone.label, cx, cy); ctx.shadowBlur = 0;
         }
       }
 
+      // Vertex handles (filled) and edge midpoints (hollow) on the selected zone
+      const place = (q: ZonePoint) => transparent
+        ? (videoDisplayArea?.ready
+            ? { x: videoDisplayArea.offsetX + q.x * videoDisplayArea.displayWidth, y: videoDisplayArea.offsetY + q.y * videoDisplayArea.displayHeight }
+            : { x: q.x * W, y: q.y * H })
+        : { x: q.x * imgSize.w * z + p.x, y: q.y * imgSize.h * z + p.y };
+      const selZone = mode === 'edit' && !isDrawing && onZoneUpdate ? shownZones.find(zn => zn.id === selZoneId) : undefined;
+      if (selZone && selZone.points.length >= 3) {
+        const pts = selZone.points.map(place);
+        ctx.lineWidth = 1.5;
+        pts.forEach((q, i) => {
+          const r = pts[(i + 1) % pts.length];
+          ctx.beginPath(); ctx.arc((q.x + r.x) / 2, (q.y + r.y) / 2, 3.5, 0, Math.PI * 2);
+          ctx.fillStyle = 'rgba(0,0,0,0.4)'; ctx.fill(); ctx.strokeStyle = '#fff'; ctx.stroke();
+        });
+        pts.forEach((q, i) => {
+          ctx.beginPath(); ctx.arc(q.x, q.y, 5, 0, Math.PI * 2);
+          ctx.fillStyle = i === selVertex ? '#f97316' : '#fff'; ctx.fill();
+          ctx.strokeStyle = '#f97316'; ctx.stroke();
+        });
+      }
+
       if (isDrawing && drawPath.length > 0) {
-        const pts = drawPath.map(q => transparent
-          ? (videoDisplayArea?.ready
-              ? { x: videoDisplayArea.offsetX + q.x * videoDisplayArea.displayWidth, y: videoDisplayArea.offsetY + q.y * videoDisplayArea.displayHeight }
-              : { x: q.x * W, y: q.y * H })
-          : { x: q.x * z + p.x, y: q.y * z + p.y });
-        ctx.beginPath(); ctx.moveTo(pts[0].x, pts[0].y);
-        for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y);
+        const pts = drawPath.map(place);
+        // Rubber band to the cursor: the whole shape for rectangles, the next side for polygons
+        const shape = aim ? shapeFor(drawPath, aim.point) : null;
+        const band = shape ? shape.map(place) : aim ? [...pts, place(aim.point)] : pts;
+        ctx.beginPath(); ctx.moveTo(band[0].x, band[0].y);
+        for (let i = 1; i < band.length; i++) ctx.lineTo(band[i].x, band[i].y);
+        if (shape) { ctx.closePath(); ctx.fillStyle = 'rgba(249,115,22,0.15)'; ctx.fill(); }
         ctx.strokeStyle = '#f97316'; ctx.lineWidth = 2; ctx.setLineDash([6, 4]); ctx.stroke(); ctx.setLineDash([]);
         for (const q of pts) { ctx.beginPath(); ctx.arc(q.x, q.y, 5, 0, Math.PI * 2); ctx.fillStyle = '#f97316'; ctx.fill(); }
         if (nearStart && drawPath.length > 2) { ctx.beginPath(); ctx.arc(pts[0].x, pts[0].y, 10, 0, Math.PI * 2); ctx.strokeStyle = '#f97316'; ctx.lineWidth = 2; ctx.stroke(); }
       }
+
+      // Snap indicator: a square on a vertex, a ring on an edge
+      if (aim?.snap) {
+        const q = place(aim.point);
+        ctx.beginPath();
+        if (aim.snap === 'vertex') ctx.rect(q.x - 6, q.y - 6, 12, 12);
+        else ctx.arc(q.x, q.y, 6, 0, Math.PI * 2);
+        ctx.strokeStyle = '#22d3ee'; ctx.lineWidth = 2; ctx.stroke();
+      }
       ctx.restore();
-    }, [zones, drawPath, isDrawing, nearStart, hoverZoneId, highlightedZoneId, selZoneId, imgSize, transparent, videoDisplayArea]);
+    }, [shownZones, drawPath, isDrawing, nearStart, aim, shapeFor, hoverZoneId, highlightedZoneId, selZoneId, selVertex, mode, onZoneUpdate, imgSize, transparent, videoDisplayArea, heatmap]);
 
     useEffect(() => { cancelAnimationFrame(rafRef.current); rafRef.current = requestAnimationFrame(render); return () => cancelAnimationFrame(rafRef.current); }, [render]);
 
-    // ── imageToNorm helper ────────────────────────────────────────────────
-
-    const imageToNorm = useCallback((q: ZonePoint): ZonePoint => ({ x: q.x / imgSize.w, y: q.y / imgSize.h }), [imgSize]);
-
     // ── Mouse handlers ────────────────────────────────────────────────────
 
     const getMousePos = (e: React.MouseEvent) => {
@@ -398,76 +686,50 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
 
     const handleMouseDown = useCallback((e: React.MouseEvent) => {
       const pos = getMousePos(e);
-      if (transparent) {
-        if (isDrawing) {
-          const r = canvasRef.current!.getBoundingClientRect();
-          let np: ZonePoint;
-          if (videoDisplayArea?.ready) {
-            // Normalize relative to video display area (accounts for letterboxing)
-            np = {
-              x: (pos.x - videoDisplayArea.offsetX) / videoDisplayArea.displayWidth,
-              y: (pos.y - videoDisplayArea.offsetY) / videoDisplayArea.displayHeight
-            };
-            // Only allow drawing within the video area (0-1 range)
-            if (np.x < 0 || np.x > 1 || np.y < 0 || np.y > 1) return;
-          } else {
-            // Fallback: normalize to container
-            np = { x: pos.x / r.width, y: pos.y / r.height };
-          }
-          if (nearStart && drawPath.length > 2) { onZoneAdd?.(drawPath, `zone-${Date.now()}`); setDrawPath([]); setNearStart(false); }
-          else setDrawPath(prev => [...prev, np]);
-        }
-        return;
-      }
-      if (isDrawing) {
-        const ip: ZonePoint = { x: (pos.x - panRef.current.x) / zoomRef.current, y: (pos.y - panRef.current.y) / zoomRef.current };
-        if (nearStart && drawPath.length > 2) { onZoneAdd?.(drawPath.map(imageToNorm), `zone-${Date.now()}`); setDrawPath([]); setNearStart(false); }
-        else setDrawPath(prev => [...prev, ip]);
-        return;
-      }
+      if (beginEdit(pos)) return;
+      if (isDrawing) { drawTap(pos, e.shiftKey); return; }
+      if (transparent) return;
       setIsPanning(true); setDragLast(pos);
-    }, [isDrawing, nearStart, drawPath, onZoneAdd, transparent, imageToNorm, videoDisplayArea]);
+    }, [isDrawing, transparent, beginEdit, drawTap]);
 
     const handleMouseMove = useCallback((e: React.MouseEvent) => {
       const pos = getMousePos(e);
+      if (dragEdit(pos)) return;
       if (!isDrawing) setHoverZoneId(hitTest(pos.x, pos.y)?.id ?? null);
       if (isPanning && !transparent) {
         panRef.current = { x: panRef.current.x + pos.x - dragLast.x, y: panRef.current.y + pos.y - dragLast.y };
         setDragLast(pos); rerender(); return;
       }
-      if (isDrawing && drawPath.length > 2) {
-        if (transparent) {
-          // Calculate first point position accounting for videoDisplayArea
-          let firstX: number, firstY: number;
-          if (videoDisplayArea?.ready) {
-            firstX = videoDisplayArea.offsetX + drawPath[0].x * videoDisplayArea.displayWidth;
-            firstY = videoDisplayArea.offsetY + drawPath[0].y * videoDisplayArea.displayHeight;
-          } else {
-            const r = canvasRef.current!.getBoundingClientRect();
-            firstX = drawPath[0].x * r.width;
-            firstY = drawPath[0].y * r.height;
-          }
-          setNearStart(Math.hypot(pos.x - firstX, pos.y - firstY) < CLOSE_PX);
-        } else {
-          setNearStart(Math.hypot(pos.x - (drawPath[0].x * zoomRef.current + panRef.current.x), pos.y - (drawPath[0].y * zoomRef.current + panRef.current.y)) < CLOSE_PX);
+      if (isDrawing) {
+        setAim(aimAt(pos, e.shiftKey));
+        if (drawTool === 'polygon' && drawPath.length > 2) {
+          const first = toScreen(drawPath[0]);
+          setNearStart(Math.hypot(pos.x - first.x, pos.y - first.y) < CLOSE_PX);
         }
       }
-    }, [isDrawing, isPanning, drawPath, dragLast, hitTest, transparent, rerender, videoDisplayArea]);
+    }, [isDrawing, isPanning, drawPath, drawTool, dragLast, hitTest, transparent, rerender, dragEdit, aimAt, toScreen]);
 
     const handleMouseUp = useCallback((e: React.MouseEvent) => {
       const pos = getMousePos(e);
+      if (endEdit()) return;
       if (transparent) {
-        if (!isDrawing) { const z = hitTest(pos.x, pos.y); if (z) { if (mode === 'view') onZoneClick?.(z); else setSelZoneId(p => p === z.id ? null : z.id); } }
+        if (!isDrawing) { const z = hitTest(pos.x, pos.y); if (z) { if (mode === 'view') clickZone(z); else setSelZoneId(p => p === z.id ? null : z.id); } }
         return;
       }
       if (!isPanning) return; setIsPanning(false);
       const dx = pos.x - dragLast.x, dy = pos.y - dragLast.y;
-      if (Math.abs(dx) < 4 && Math.abs(dy) < 4 && !isDrawing) { const z = hitTest(pos.x, pos.y); if (z) { if (mode === 'view') onZoneClick?.(z); else setSelZoneId(p => p === z.id ? null : z.id); } }
-    }, [isPanning, dragLast, isDrawing, hitTest, mode, onZoneClick, transparent]);
-
-    const handleDblClick = useCallback(() => {
-      if (isDrawing && drawPath.length >= 3) { onZoneAdd?.(transparent ? drawPath : drawPath.map(imageToNorm), `zone-${Date.now()}`); setDrawPath([]); setNearStart(false); }
-    }, [isDrawing, drawPath, onZoneAdd, transparent, imageToNorm]);
+      if (Math.abs(dx) < 4 && Math.abs(dy) < 4 && !isDrawing) { const z = hitTest(pos.x, pos.y); if (z) { if (mode === 'view') clickZone(z); else setSelZoneId(p => p === z.id ? null : z.id); } }
+    }, [isPanning, dragLast, isDrawing, hitTest, mode, clickZone, transparent, endEdit]);
+
+    const handleDblClick = useCallback((e: React.MouseEvent) => {
+      if (mode === 'edit' && !isDrawing && selZoneId) {
+        const zone = zones.find(z => z.id === selZoneId);
+        const vi = zone ? vertexAt(zone, getMousePos(e)) : -1;
+        if (vi >= 0) removeVertex(vi);
+        return;
+      }
+      if (isDrawing && drawTool === 'polygon' && drawPath.length >= 3) finishZone(drawPath);
+    }, [isDrawing, drawTool, drawPath, finishZone, mode, selZoneId, zones, vertexAt, removeVertex]);
 
     const handleWheel = useCallback((e: React.WheelEvent) => {
       if (transparent) return; e.preventDefault();
@@ -490,9 +752,10 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
         const r = canvasRef.current!.getBoundingClientRect();
         st.tapStart = { x: ts[0].clientX - r.left, y: ts[0].clientY - r.top };
         st.tapTime  = Date.now();
+        beginEdit(st.tapStart);
       }
       st.active = ts.map(t => ({ id: t.identifier, x: t.clientX, y: t.clientY }));
-    }, []);
+    }, [beginEdit]);
 
     const handleTouchMove = useCallback((e: React.TouchEvent) => {
       e.preventDefault();
@@ -500,6 +763,13 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
       const st  = touch.current;
       const prev = st.active;
 
+      if (edit.current && ts.length === 1) {
+        const r = canvasRef.current!.getBoundingClientRect();
+        dragEdit({ x: ts[0].clientX - r.left, y: ts[0].clientY - r.top });
+        st.active = ts.map(t => ({ id: t.identifier, x: t.clientX, y: t.clientY }));
+        return;
+      }
+
       if (ts.length >= 2 && prev.length >= 2) {
         // ── Pinch zoom + two-finger pan ──────────────────────────────────
         st.pinching = true; st.moved = true;
@@ -574,12 +844,18 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
       }
 
       st.active = ts.map(t => ({ id: t.identifier, x: t.clientX, y: t.clientY }));
-    }, [transparent, onTransparentZoom, rerender, isDrawing]);
+    }, [transparent, onTransparentZoom, rerender, isDrawing, dragEdit]);
 
     const handleTouchEnd = useCallback((e: React.TouchEvent) => {
       e.preventDefault();
       const st = touch.current;
 
+      if (endEdit()) {
+        st.active = Array.from(e.touches).map(t => ({ id: t.identifier, x: t.clientX, y: t.clientY }));
+        st.tapStart = null; st.moved = false; st.pinching = false;
+        return;
+      }
+
       // ── Tap detection ────────────────────────────────────────────────
       if (e.changedTouches.length === 1 && !st.moved && !st.pinching && st.tapStart) {
         const elapsed = Date.now() - st.tapTime;
@@ -588,33 +864,12 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
           if (!isDrawing) {
             const zone = hitTest(pos.x, pos.y);
             if (zone) {
-              if (mode === 'view') onZoneClick?.(zone);
+              if (mode === 'view') clickZone(zone);
               else setSelZoneId(p => p === zone.id ? null : zone.id);
             }
           } else {
             // Tap adds draw point
-            if (transparent) {
-              const r = canvasRef.current!.getBoundingClientRect();
-              let np: ZonePoint;
-              if (videoDisplayArea?.ready) {
-                // Normalize relative to video display area (accounts for letterboxing)
-                np = {
-                  x: (pos.x - videoDisplayArea.offsetX) / videoDisplayArea.displayWidth,
-                  y: (pos.y - videoDisplayArea.offsetY) / videoDisplayArea.displayHeight
-                };
-                // Only allow drawing within the video area (0-1 range)
-                if (np.x < 0 || np.x > 1 || np.y < 0 || np.y > 1) return;
-              } else {
-                // Fallback: normalize to container
-                np = { x: pos.x / r.width, y: pos.y / r.height };
-              }
-              if (nearStart && drawPath.length > 2) { onZoneAdd?.(drawPath, `zone-${Date.now()}`); setDrawPath([]); setNearStart(false); }
-              else setDrawPath(prev => [...prev, np]);
-            } else {
-              const ip: ZonePoint = { x: (pos.x - panRef.current.x) / zoomRef.current, y: (pos.y - panRef.current.y) / zoomRef.current };
-              if (nearStart && drawPath.length > 2) { onZoneAdd?.(drawPath.map(imageToNorm), `zone-${Date.now()}`); setDrawPath([]); setNearStart(false); }
-              else setDrawPath(prev => [...prev, ip]);
-            }
+            drawTap(pos, false);
           }
         }
       }
@@ -627,20 +882,30 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
         st.active   = Array.from(e.touches).map(t => ({ id: t.identifier, x: t.clientX, y: t.clientY }));
         st.tapStart = null; st.moved = false;
       }
-    }, [isDrawing, hitTest, mode, onZoneClick, transparent, nearStart, drawPath, onZoneAdd, imageToNorm, videoDisplayArea]);
+    }, [isDrawing, hitTest, mode, clickZone, endEdit, drawTap]);
 
     // ── Keyboard ──────────────────────────────────────────────────────────
 
     useEffect(() => {
       const fn = (e: KeyboardEvent) => {
-        if (e.key === 'Escape') { setDrawPath([]); setNearStart(false); setIsDrawing(false); setSelZoneId(null); }
-        if ((e.key === 'Delete' || e.key === 'Backspace') && selZoneId && mode === 'edit') { onZoneDelete?.(selZoneId); setSelZoneId(null); }
+        // Keys typed into the zone form belong to the field, not the canvas
+        const target = e.target as HTMLElement | null;
+        if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+        if (e.key === 'Escape') { resetDraw(); setIsDrawing(false); setSelZoneId(null); }
+        if ((e.key === 'Delete' || e.key === 'Backspace') && selZoneId && mode === 'edit') {
+          // With a point selected only that point goes
+          if (selVertex !== null) removeVertex(selVertex);
+          else { onZoneDelete?.(selZoneId); setSelZoneId(null); }
+        }
       };
       window.addEventListener('keydown', fn); return () => window.removeEventListener('keydown', fn);
-    }, [selZoneId, mode, onZoneDelete]);
+    }, [selZoneId, selVertex, mode, onZoneDelete, removeVertex, resetDraw]);
+
+    const selPointCount = zones.find(z => z.id === selZoneId)?.points.length ?? 0;
 
     const cursor = isDrawing
       ? (nearStart && drawPath.length > 2 ? 'pointer' : 'crosshair')
+      : draft ? (edit.current?.kind === 'move' ? 'move' : 'grabbing')
       : isPanning ? 'grabbing'
       : hoverZoneId ? 'pointer'
       : transparent ? 'default'
@@ -657,6 +922,7 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
           onMouseDown={handleMouseDown}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
+          onMouseLeave={() => setAim(null)}
           onDoubleClick={handleDblClick}
           onWheel={handleWheel}
           onContextMenu={e => e.preventDefault()}
@@ -677,20 +943,39 @@ export const ImmersiveCanvas = forwardRef<ImmersiveCanvasRef, ImmersiveCanvasPro
           )}
           {mode === 'edit' && <>
             {!transparent && <div className="border-t border-white/10 my-0.5" />}
-            <button onClick={() => { setIsDrawing(false); setDrawPath([]); setNearStart(false); }} className={`w-8 h-8 rounded-lg flex items-center justify-center backdrop-blur-sm border text-white ${!isDrawing ? 'bg-white/20 border-white/40' : 'bg-black/60 border-white/10 hover:bg-black/80'}`}><MousePointer className="w-4 h-4" /></button>
-            <button onClick={() => { setIsDrawing(true); setDrawPath([]); setNearStart(false); }} className={`w-8 h-8 rounded-lg flex items-center justify-center backdrop-blur-sm border text-white ${isDrawing ? 'bg-orange-500/80 border-orange-400' : 'bg-black/60 border-white/10 hover:bg-black/80'}`}><Pencil className="w-4 h-4" /></button>
+            <button onClick={() => { setIsDrawing(false); resetDraw(); }} title="Select and edit zones" className={`w-8 h-8 rounded-lg flex items-center justify-center backdrop-blur-sm border text-white ${!isDrawing ? 'bg-white/20 border-white/40' : 'bg-black/60 border-white/10 hover:bg-black/80'}`}><MousePointer className="w-4 h-4" /></button>
+            {([
+              ['polygon', Pencil,  'Draw a zone point by point'],
+              ['rect',    Square,  'Draw a rectangle from two corners'],
+              ['rotated', Diamond, 'Draw a rotated rectangle: one side, then its depth'],
+            ] as const).map(([tool, Icon, title]) => (
+              <button key={tool} onClick={() => { setIsDrawing(true); setDrawTool(tool); resetDraw(); setSelZoneId(null); }} title={title} className={`w-8 h-8 rounded-lg flex items-center justify-center backdrop-blur-sm border text-white ${isDrawing && drawTool === tool ? 'bg-orange-500/80 border-orange-400' : 'bg-black/60 border-white/10 hover:bg-black/80'}`}><Icon className="w-4 h-4" /></button>
+            ))}
+            <button onClick={() => setSnapping(v => !v)} title={snapping ? 'Snapping on' : 'Snapping off'} className={`w-8 h-8 rounded-lg flex items-center justify-center backdrop-blur-sm border text-white ${snapping ? 'bg-cyan-500/70 border-cyan-400' : 'bg-black/60 border-white/10 hover:bg-black/80'}`}><Magnet className="w-4 h-4" /></button>
+            {selZoneId && selVertex !== null && onZoneUpdate && <button onClick={() => removeVertex(selVertex)} disabled={selPointCount <= 3} title={selPointCount <= 3 ? 'A zone needs at least 3 points' : 'Remove point'} className="w-8 h-8 rounded-lg bg-black/60 hover:bg-black/80 disabled:opacity-40 text-white flex items-center justify-center backdrop-blur-sm border border-white/10"><Minus className="w-4 h-4" /></button>}
             {selZoneId && <button onClick={() => { onZoneDelete?.(selZoneId); setSelZoneId(null); }} className="w-8 h-8 rounded-lg bg-red-500/80 hover:bg-red-500 text-white flex items-center justify-center backdrop-blur-sm border border-red-400"><Trash2 className="w-4 h-4" /></button>}
           </>}
         </div>
 
+        {/* Select-mode hint */}
+        {mode === 'edit' && !isDrawing && selZoneId && onZoneUpdate && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 pointer-events-none bg-black/70 backdrop-blur-sm text-white px-4 py-2 rounded-full text-xs border border-white/10 whitespace-nowrap">
+            Drag points or the zone · drag a midpoint to add · double-click a point to remove
+          </div>
+        )}
+
         {/* Drawing instructions */}
         {isDrawing && (
           <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 px-2">
             <div className="bg-black/70 backdrop-blur-sm text-white px-4 py-2 rounded-full text-xs border border-white/10 whitespace-nowrap">
-              {drawPath.length === 0 ? 'Tap to start' : drawPath.length < 3 ? `${drawPath.length} pts — need 3+` : nearStart ? 'Tap to close' : 'Tap start to finish'}
+              {drawTool === 'rect'
+                ? (drawPath.length === 0 ? 'Tap the first corner' : 'Tap the opposite corner')
+                : drawTool === 'rotated'
+                ? (drawPath.length === 0 ? 'Tap where the first side starts' : drawPath.length === 1 ? 'Tap where it ends (Shift locks the angle)' : 'Tap to set the depth')
+                : drawPath.length === 0 ? 'Tap to start' : drawPath.length < 3 ? `${drawPath.length} pts — need 3+` : nearStart ? 'Tap to close' : 'Tap start to finish'}
             </div>
-            {drawPath.length >= 3 && <button onClick={() => { onZoneAdd?.(transparent ? drawPath : drawPath.map(imageToNorm), `zone-${Date.now()}`); setDrawPath([]); setNearStart(false); }} className="bg-orange-500 text-white px-3 py-2 rounded-full text-xs font-semibold flex items-center gap-1"><Check className="w-3 h-3" /> Done</button>}
-            {drawPath.length > 0 && <button onClick={() => { setDrawPath([]); setNearStart(false); }} className="bg-black/60 text-white p-2 rounded-full border border-white/20"><XIcon className="w-3 h-3" /></button>}
+            {drawTool === 'polygon' && drawPath.length >= 3 && <button onClick={() => finishZone(drawPath)} className="bg-orange-500 text-white px-3 py-2 rounded-full text-xs font-semibold flex items-center gap-1"><Check className="w-3 h-3" /> Done</button>}
+            {drawPath.length > 0 && <button onClick={resetDraw} className="bg-black/60 text-white p-2 rounded-full border border-white/20"><XIcon className="w-3 h-3" /></button>}
           </div>
         )}
 
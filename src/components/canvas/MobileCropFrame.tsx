@@ -0,0 +1,70 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { MobileCrop } from '@/lib/mobileZones';
+
+/**
+ * Shows only the mobile crop of a plan image or video, fitted inside its
+ * parent. Children (a transparent ImmersiveCanvas) cover exactly the crop, so
+ * zone points inside it are normalized to the crop. `zoomStyle` is the
+ * transform from `onTransparentZoom`; it moves the plan and the canvas
+ * together.
+ */
+export function MobileCropFrame({ crop, imageUrl, videoUrl, zoomStyle, children }: {
+  crop: MobileCrop;
+  imageUrl?: string;
+  videoUrl?: string;
+  zoomStyle?: React.CSSProperties;
+  children: React.ReactNode;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState({ w: 0, h: 0 });
+  const [media, setMedia] = useState({ w: 0, h: 0 });
+  const imgRef = useRef<HTMLImageElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const measure = () => setBox({ w: el.clientWidth, h: el.clientHeight });
+    measure();
+    const obs = new ResizeObserver(measure);
+    obs.observe(el);
+    return () => obs.disconnect();
+  }, []);
+
+  // Media that finished loading before hydration never fires its load event
+  useEffect(() => {
+    const img = imgRef.current, video = videoRef.current;
+    if (img?.complete && img.naturalWidth) setMedia({ w: img.naturalWidth, h: img.naturalHeight });
+    if (video && video.readyState >= 1) setMedia({ w: video.videoWidth, h: video.videoHeight });
+  }, [imageUrl, videoUrl]);
+
+  const ready = box.w > 0 && media.w > 0;
+  // Scale that fits the cropped region of the plan inside the container
+  const s = ready ? Math.min(box.w / (crop.width * media.w), box.h / (crop.height * media.h)) : 0;
+  const frameW = crop.width * media.w * s, frameH = crop.height * media.h * s;
+  const mediaStyle: React.CSSProperties = ready
+    ? { left: -crop.x * media.w * s, top: -crop.y * media.h * s, width: media.w * s, height: media.h * s }
+    : { opacity: 0 };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0">
+      <div
+        className="absolute overflow-hidden"
+        style={{ left: (box.w - frameW) / 2, top: (box.h - frameH) / 2, width: frameW, height: frameH }}
+      >
+        <div className="absolute inset-0" style={zoomStyle}>
+          {videoUrl ? (
+            <video ref={videoRef} src={videoUrl} autoPlay loop muted playsInline className="absolute max-w-none" style={mediaStyle}
+              onLoadedMetadata={e => setMedia({ w: e.currentTarget.videoWidth, h: e.currentTarget.videoHeight })} />
+          ) : imageUrl ? (
+            <img ref={imgRef} src={imageUrl} alt="" className="absolute max-w-none" style={mediaStyle}
+              onLoad={e => setMedia({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })} />
+          ) : null}
+          {ready && <div className="absolute inset-0">{children}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * Plane geometry for the zone drawing aids in ImmersiveCanvas. Everything
+ * here works in whatever space it is given; the canvas passes screen pixels
+ * wherever angles or distances have to look right.
+ */
+
+import type { ZonePoint } from './ImmersiveCanvas';
+
+/** Axis-aligned rectangle with opposite corners `a` and `b`, clockwise from `a` */
+export function rectFromCorners(a: ZonePoint, b: ZonePoint): ZonePoint[] {
+  return [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+}
+
+/**
+ * Rectangle with one side from `a` to `b`, extended perpendicular to that
+ * side as far as `c` reaches.
+ */
+export function rotatedRect(a: ZonePoint, b: ZonePoint, c: ZonePoint): ZonePoint[] {
+  const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  const nx = -(b.y - a.y) / len, ny = (b.x - a.x) / len;
+  const d = (c.x - a.x) * nx + (c.y - a.y) * ny;
+  return [a, b, { x: b.x + nx * d, y: b.y + ny * d }, { x: a.x + nx * d, y: a.y + ny * d }];
+}
+
+/** `to`, moved onto the nearest line through `from` at a multiple of `step` radians */
+export function lockAngle(from: ZonePoint, to: ZonePoint, step = Math.PI / 4): ZonePoint {
+  const dx = to.x - from.x, dy = to.y - from.y;
+  const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+  const ux = Math.cos(angle), uy = Math.sin(angle);
+  const len = dx * ux + dy * uy;
+  return { x: from.x + ux * len, y: from.y + uy * len };
+}
+
+/** Closest point to `p` on the segment `a`–`b` */
+export function nearestOnSegment(p: ZonePoint, a: ZonePoint, b: ZonePoint): ZonePoint {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return { x: a.x + dx * t, y: a.y + dy * t };
+}
+
+/**
+ * The vertices of a closed polygon strictly between indices `from` and `to`,
+ * going whichever way round is shorter. Used to follow a neighbour's outline
+ * so two zones share the same edge points.
+ */
+export function traceBetween(points: ZonePoint[], from: number, to: number): ZonePoint[] {
+  const n = points.length;
+  const forward = (to - from + n) % n;
+  const backward = (from - to + n) % n;
+  if (forward <= 1 || backward <= 1) return [];
+  const dir = forward <= backward ? 1 : -1;
+  const out: ZonePoint[] = [];
+  for (let i = (from + dir + n) % n; i !== to; i = (i + dir + n) % n) out.push(points[i]);
+  return out;
+}
@@ -2,6 +2,7 @@
 
 import { X, ZoomIn, ZoomOut, Download } from 'lucide-react';
 import { useEffect, useState } from 'react';
+import { useTracker } from '@/hooks/useTracker';
 
 export function FloorPlanModal({
   url,
@@ -11,6 +12,9 @@ export function FloorPlanModal({
   onClose: () => void;
 }) {
   const [scale, setScale] = useState(1);
+  const track = useTracker();
+
+  useEffect(() => { track('floor_plan_open', { url }); }, [url, track]);
 
   useEffect(() => {
     const fn = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
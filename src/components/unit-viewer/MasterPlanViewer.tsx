@@ -19,6 +19,9 @@ import {
 import dynamic from 'next/dynamic';
 import { PanoramaModal } from '@/components/unit-viewer/PanoramaModal';
 import { useVideoDisplayArea } from '@/hooks/useVideoDisplayArea';
+import { useDwellTracker, usePageView, useTabTracker } from '@/hooks/useTracker';
+import { hasUnitFigures, statsNote } from '@/lib/projectStats';
+import type { StatsBasis } from '@convex/lib/aggregates';
 
 const ImmersiveCanvas = dynamic(
   () => import('@/components/canvas/ImmersiveCanvas').then(m => m.ImmersiveCanvas),
@@ -31,7 +34,7 @@ import type { CanvasZone, ZoneStatus } from '@/components/canvas/ImmersiveCanvas
 
 type MediaItem = { url: string; type: 'video' | 'image'; thumbnailUrl?: string; caption?: string; };
 type Panorama  = { name: string; panoramaUrl: string; description?: string; initialView?: { yaw: number; pitch: number; fov: number }; };
-type Phase     = { _id: string; name: string; slug: string; description?: string; thumbnail_url?: string; total_units?: number; };
+type Phase     = { _id: string; name: string; slug: string; description?: string; thumbnail_url?: string; total_units?: number; available_units?: number; };
 type MasterPlanZone = {
   id: string; label: string;
   points: { x: number; y: number }[];
@@ -43,6 +46,7 @@ type ProjectData = {
   _id: string; name: string; slug: string;
   tagline: string; description: string;
   location: string; price_from: number; status: string;
+  stats_basis?: StatsBasis;
   image_url: string;
   master_plan_url?: string; master_plan_video_url?: string;
   master_plan_zones?: MasterPlanZone[];
@@ -100,10 +104,16 @@ function PhasePopup({ phase, projectSlug, onClose }: {
               {phase.description && <p className="text-white/50 text-sm mt-1 line-clamp-2">{phase.description}</p>}
             </div>
 
-            {phase.total_units && (
-              <div className="bg-white/5 rounded-xl p-3 mb-4 border border-white/5 flex items-center justify-between">
-                <span className="text-white/50 text-xs uppercase tracking-wider">Units</span>
-                <span className="text-white font-bold text-lg">{phase.total_units}</span>
+            {!!phase.total_units && (
+              <div className="bg-white/5 rounded-xl p-3 mb-4 border border-white/5 grid grid-cols-2 gap-3">
+                <div>
+                  <div className="text-white/50 text-[10px] uppercase tracking-wider">Available</div>
+                  <div className="text-white font-bold text-lg">{phase.available_units ?? '—'}</div>
+                </div>
+                <div>
+                  <div className="text-white/50 text-[10px] uppercase tracking-wider">All units</div>
+                  <div className="text-white font-bold text-lg">{phase.total_units}</div>
+                </div>
               </div>
             )}
 
@@ -273,6 +283,11 @@ export default function MasterPlanViewer({ project, phases }: {
   }, [handlePopupClose]);
 
   const currentMedia = galleryMedia[mediaIndex];
+
+  // Visitor tracking
+  usePageView();
+  useTabTracker(tab);
+  useDwellTracker(tab === 'gallery' && currentMedia ? { url: currentMedia.url, label: currentMedia.caption } : null);
   const tabs = [
     { key: 'sitemap' as Tab, label: 'Site Plan', icon: <Map className="w-3.5 h-3.5" /> },
     { key: 'gallery' as Tab, label: 'Gallery',   icon: <Images className="w-3.5 h-3.5" /> },
@@ -446,8 +461,9 @@ export default function MasterPlanViewer({ project, phases }: {
           </div>
           <div className="grid grid-cols-2 gap-4">
             <div><div className="text-white/50 text-[9px] uppercase">Phases</div><div className="text-white text-2xl font-bold">{phases.length}</div></div>
-            <div><div className="text-white/50 text-[9px] uppercase">From</div><div className="text-white text-2xl font-bold">{formatPrice(project.price_from)}</div></div>
+            <div><div className="text-white/50 text-[9px] uppercase">From</div><div className="text-white text-2xl font-bold">{hasUnitFigures(project) ? formatPrice(project.price_from) : 'TBA'}</div></div>
           </div>
+          {statsNote(project) && <div className="text-white/40 text-[10px] -mt-3">{statsNote(project)}</div>}
           {phases.length > 0 && (
             <div className="space-y-0.5 pt-2">
               <div className="text-white/50 text-[9px] uppercase tracking-wider mb-2">Phases</div>
@@ -461,7 +477,9 @@ export default function MasterPlanViewer({ project, phases }: {
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="text-white text-xs font-semibold">{ph.name}</div>
-                    {ph.total_units && <div className="text-white/40 text-[10px]">{ph.total_units} units</div>}
+                    {!!ph.total_units && (
+                      <div className="text-white/40 text-[10px]">{ph.available_units ?? 0} of {ph.total_units} units available</div>
+                    )}
                   </div>
                   <Chevron className="w-4 h-4 text-white/30 group-hover:text-white/70" />
                 </Link>
@@ -2,6 +2,7 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { X, Loader2 } from 'lucide-react';
+import { useTracker } from '@/hooks/useTracker';
 
 declare global {
   interface Window {
@@ -30,6 +31,11 @@ export function PanoramaModal({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [loaded, setLoaded] = useState(false);
+  const track = useTracker();
+
+  useEffect(() => {
+    track('panorama_open', { label: panorama.name, url: panorama.panoramaUrl });
+  }, [panorama.name, panorama.panoramaUrl, track]);
 
   useEffect(() => {
     if (window.pannellum) { setLoaded(true); return; }
@@ -5,7 +5,9 @@
  * Shows unit zones on a canvas over a video/image.
  * Tapping / clicking a zone opens a popup with unit details.
  *
- * Mobile: canvas is full-screen, popup is a fixed bottom sheet.
+ * Mobile: canvas is full-screen, popup is a fixed bottom sheet. When the
+ * phase has a mobile crop only that part of the plan is shown, and zones
+ * without hand-drawn mobile points are mapped into it.
  * Desktop: left panel + bottom carousel unchanged.
  */
 
@@ -20,7 +22,11 @@ import {
 } from 'lucide-react';
 import dynamic from 'next/dynamic';
 import { PanoramaModal } from '@/components/unit-viewer/PanoramaModal';
+import { UnitEnquiryForm } from '@/components/unit-viewer/UnitEnquiryForm';
 import { useVideoDisplayArea } from '@/hooks/useVideoDisplayArea';
+import { MobileCropFrame } from '@/components/canvas/MobileCropFrame';
+import { mobileOutline, type MobileCrop } from '@/lib/mobileZones';
+import { useDwellTracker, usePageView, useTabTracker } from '@/hooks/useTracker';
 
 const ImmersiveCanvas = dynamic(
   () => import('@/components/canvas/ImmersiveCanvas').then(m => m.ImmersiveCanvas),
@@ -51,6 +57,7 @@ type PhaseData = {
   _id: string; name: string; slug: string;
   description?: string; thumbnail_url?: string;
   phase_plan_url?: string; phase_plan_video_url?: string;
+  phase_plan_mobile_crop?: MobileCrop;
   phase_unit_zones?: PhaseUnitZone[];
   exterior_media?: MediaItem[]; gallery_media?: MediaItem[];
   panoramas?: Panorama[]; total_units?: number;
@@ -73,9 +80,9 @@ function statusColor(s: string) {
 
 // ─── Unit popup — fixed overlay so it covers full screen on mobile ─────────
 
-function UnitPopup({ unit, projectSlug, onClose, onExplore }: {
+function UnitPopup({ unit, projectSlug, onClose, onExplore, onEnquire }: {
   unit: Unit; projectSlug: string;
-  onClose: () => void; onExplore: () => void;
+  onClose: () => void; onExplore: () => void; onEnquire: () => void;
 }) {
   // Prevent body scroll while popup is open
   useEffect(() => {
@@ -145,9 +152,9 @@ function UnitPopup({ unit, projectSlug, onClose, onExplore }: {
               >
                 Explore Unit <ArrowRight className="w-3.5 h-3.5" />
               </Link>
-              <Link href="/contact" className="px-5 py-3.5 bg-olive-500 hover:bg-olive-400 text-white font-bold rounded-2xl text-xs uppercase tracking-wide flex items-center justify-center">
+              <button onClick={onEnquire} className="px-5 py-3.5 bg-olive-500 hover:bg-olive-400 text-white font-bold rounded-2xl text-xs uppercase tracking-wide flex items-center justify-center">
                 Enquire
-              </Link>
+              </button>
             </div>
           </div>
         </div>
@@ -239,6 +246,7 @@ export default function PhaseViewer({ phase, units, projectSlug, projectName }:
   const [selectedUnit,     setSelectedUnit]     = useState<Unit | null>(null);
   const [activePanorama,   setActivePanorama]   = useState<Panorama | null>(null);
   const [showPanoramaPicker, setShowPanoramaPicker] = useState(false);
+  const [enquiryUnit,      setEnquiryUnit]      = useState<Unit | null>(null);
 
   // Transparent-mode CSS transform (scale + translate)
   const [tStyle, setTStyle] = useState<React.CSSProperties>({});
@@ -250,6 +258,7 @@ export default function PhaseViewer({ phase, units, projectSlug, projectName }:
   const hasPhasePlan = !!(phase.phase_plan_url || phase.phase_plan_video_url);
   const hasPlanVideo = !!phase.phase_plan_video_url;
   const hasPlanImage = !!phase.phase_plan_url;
+  const mobileCrop = isMobile ? phase.phase_plan_mobile_crop : undefined;
 
   const galleryMedia = useMemo(() => [
     ...(phase.exterior_media ?? []),
@@ -260,11 +269,11 @@ export default function PhaseViewer({ phase, units, projectSlug, projectName }:
 
   const canvasZones: CanvasZone[] = useMemo(() => (phase.phase_unit_zones ?? []).map(z => ({
     id: z.id, label: z.label,
-    // Use mobile_points on mobile devices if available
-    points: (isMobile && z.mobile_points && z.mobile_points.length > 0) ? z.mobile_points : z.points,
+    // Phones use hand-drawn mobile points, or the desktop outline mapped into the mobile crop
+    points: isMobile ? mobileOutline(z.points, z.mobile_points, phase.phase_plan_mobile_crop) : z.points,
     status: z.status as ZoneStatus,
     meta: { unitId: z.unitId },
-  })), [phase.phase_unit_zones, isMobile]);
+  })), [phase.phase_unit_zones, phase.phase_plan_mobile_crop, isMobile]);
 
   // DEBUG: Log zone alignment info for mobile debugging
   useEffect(() => {
@@ -312,6 +321,11 @@ export default function PhaseViewer({ phase, units, projectSlug, projectName }:
   }, [handlePopupClose]);
 
   const currentMedia = galleryMedia[mediaIndex];
+
+  // Visitor tracking
+  usePageView();
+  useTabTracker(tab);
+  useDwellTracker(tab === 'gallery' && currentMedia ? { url: currentMedia.url, label: currentMedia.caption } : null);
   const tabs = [
     { key: 'phase-plan' as Tab, label: 'Phase Plan', icon: <Map className="w-3.5 h-3.5" /> },
     { key: 'gallery'    as Tab, label: 'Gallery',    icon: <Images className="w-3.5 h-3.5" /> },
@@ -319,7 +333,27 @@ export default function PhaseViewer({ phase, units, projectSlug, projectName }:
 
   // ── Canvas + popup layer ─────────────────────────────────────────────────
 
-  const renderPlanCanvas = () => (
+  const renderPlanCanvas = () => mobileCrop ? (
+    <div className="absolute inset-0 overflow-hidden">
+      <MobileCropFrame
+        crop={mobileCrop}
+        imageUrl={phase.phase_plan_url}
+        videoUrl={phase.phase_plan_video_url}
+        zoomStyle={tStyle}
+      >
+        <ImmersiveCanvas
+          ref={canvasRef}
+          transparent
+          zones={canvasZones}
+          mode="view"
+          onZoneClick={handleZoneClick}
+          highlightedZoneId={highlightedZoneId}
+          onTransparentZoom={handleTransparentZoom}
+          className="w-full h-full"
+        />
+      </MobileCropFrame>
+    </div>
+  ) : (
     <div className="absolute inset-0 overflow-hidden" ref={canvasContainerRef}>
       {/* Zoom wrapper — video + canvas scale together */}
       <div className="absolute inset-0" style={hasPlanVideo ? tStyle : {}}>
@@ -584,6 +618,18 @@ export default function PhaseViewer({ phase, units, projectSlug, projectName }:
           projectSlug={projectSlug}
           onClose={handlePopupClose}
           onExplore={handlePopupClose}
+          onEnquire={() => setEnquiryUnit(selectedUnit)}
+        />
+      )}
+
+      {/* ── Unit enquiry — the popup sits on the phase plan, so that's what was in view ── */}
+      {enquiryUnit && (
+        <UnitEnquiryForm
+          unit={enquiryUnit}
+          viewing={hasPhasePlan
+            ? { kind: 'plan', url: (phase.phase_plan_video_url || phase.phase_plan_url)!, label: phase.name }
+            : undefined}
+          onClose={() => setEnquiryUnit(null)}
         />
       )}
 
@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Id } from '@convex/_generated/dataModel';
+import type { LeadViewing } from '@convex/lib/leads';
+import { CheckCircle, Loader2, Send, X } from 'lucide-react';
+
+const fieldCls =
+  'w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm text-white placeholder-white/30 focus:outline-none focus:border-olive-400';
+
+/**
+ * "Enquire about this unit" sheet shared by PhaseViewer and UnitViewer.
+ * The submission is linked to the unit (and through it the phase and project)
+ * and records what the visitor was looking at.
+ */
+export function UnitEnquiryForm({ unit, viewing, onClose }: {
+  unit: { _id: string; name: string };
+  viewing?: LeadViewing;
+  onClose: () => void;
+}) {
+  const submitEnquiry = useMutation(api.contactSubmissions.submitUnitEnquiry);
+
+  const [form, setForm] = useState({
+    full_name: '',
+    email: '',
+    phone: '',
+    message: `I'd like to know more about ${unit.name}.`,
+  });
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setForm({ ...form, [e.target.name]: e.target.value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError(null);
+    try {
+      await submitEnquiry({ unitId: unit._id as Id<'project_units'>, ...form, viewing });
+      setSent(true);
+    } catch (err: any) {
+      setError(err?.data?.message ?? 'Something went wrong. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[95] flex items-end md:items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-[#1a1a1a] border border-white/10 rounded-t-3xl md:rounded-3xl w-full md:max-w-md p-6 z-10 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-5">
+          <div>
+            <p className="text-white/40 text-[10px] uppercase tracking-widest">Enquire about</p>
+            <h3 className="text-white font-semibold text-lg">{unit.name}</h3>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/10 hover:bg-white/20">
+            <X className="w-4 h-4 text-white" />
+          </button>
+        </div>
+
+        {sent ? (
+          <div className="text-center py-8">
+            <CheckCircle className="w-12 h-12 text-olive-400 mx-auto mb-4" />
+            <p className="text-white font-semibold mb-1">Thank you!</p>
+            <p className="text-white/50 text-sm mb-6">Our team will be in touch about {unit.name} shortly.</p>
+            <button onClick={onClose} className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl text-xs font-semibold uppercase tracking-widest">
+              Close
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <input name="full_name" value={form.full_name} onChange={handleChange} required
+              placeholder="Full name" className={fieldCls} />
+            <input name="email" type="email" value={form.email} onChange={handleChange} required
+              placeholder="Email" className={fieldCls} />
+            <input name="phone" type="tel" value={form.phone} onChange={handleChange}
+              placeholder="Phone (optional)" className={fieldCls} />
+            <textarea name="message" value={form.message} onChange={handleChange} required rows={4}
+              className={fieldCls} />
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+            <button type="submit" disabled={sending}
+              className="w-full bg-olive-500 hover:bg-olive-400 text-white font-bold py-3.5 rounded-xl uppercase tracking-widest text-xs flex items-center justify-center gap-2 disabled:opacity-50">
+              {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              Send Enquiry
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
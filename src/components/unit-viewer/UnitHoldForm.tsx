@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useConvexAuth, useMutation } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Id } from '@convex/_generated/dataModel';
+import { BUYER_HOLD_MS } from '@convex/lib/reservations';
+import { CheckCircle, Loader2, Lock, X } from 'lucide-react';
+
+const fieldCls =
+  'w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm text-white placeholder-white/30 focus:outline-none focus:border-olive-400';
+
+/**
+ * "Reserve this unit" sheet in UnitViewer. Signed-in visitors can hold one
+ * available unit for BUYER_HOLD_MS; the hold is released automatically after.
+ */
+export function UnitHoldForm({ unit, onClose }: {
+  unit: { _id: string; name: string };
+  onClose: () => void;
+}) {
+  const { isAuthenticated, isLoading } = useConvexAuth();
+  const placeHold = useMutation(api.reservations.placeBuyerHold);
+
+  const [form, setForm] = useState({ buyerName: '', buyerPhone: '' });
+  const [sending, setSending] = useState(false);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm({ ...form, [e.target.name]: e.target.value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError(null);
+    try {
+      const result = await placeHold({
+        unitId: unit._id as Id<'project_units'>,
+        buyerName: form.buyerName,
+        buyerPhone: form.buyerPhone.trim() || undefined,
+      });
+      setExpiresAt(result.expiresAt);
+    } catch (err: any) {
+      setError(err?.data?.message ?? 'Something went wrong. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const hours = Math.round(BUYER_HOLD_MS / (60 * 60 * 1000));
+
+  return (
+    <div className="fixed inset-0 z-[95] flex items-end md:items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-[#1a1a1a] border border-white/10 rounded-t-3xl md:rounded-3xl w-full md:max-w-md p-6 z-10 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-5">
+          <div>
+            <p className="text-white/40 text-[10px] uppercase tracking-widest">Reserve</p>
+            <h3 className="text-white font-semibold text-lg">{unit.name}</h3>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/10 hover:bg-white/20">
+            <X className="w-4 h-4 text-white" />
+          </button>
+        </div>
+
+        {expiresAt !== null ? (
+          <div className="text-center py-8">
+            <CheckCircle className="w-12 h-12 text-olive-400 mx-auto mb-4" />
+            <p className="text-white font-semibold mb-1">{unit.name} is on hold for you</p>
+            <p className="text-white/50 text-sm mb-6">
+              The hold lasts until {new Date(expiresAt).toLocaleString()}. Our team will contact you to take it forward.
+            </p>
+            <button onClick={onClose} className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl text-xs font-semibold uppercase tracking-widest">
+              Close
+            </button>
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="w-6 h-6 text-white/50 animate-spin" />
+          </div>
+        ) : !isAuthenticated ? (
+          <div className="text-center py-6">
+            <p className="text-white/60 text-sm mb-6">
+              Sign in to hold this unit for {hours} hours while you decide.
+            </p>
+            <Link href="/sign-in"
+              className="inline-block px-6 py-3 bg-olive-500 hover:bg-olive-400 text-white rounded-xl text-xs font-bold uppercase tracking-widest">
+              Sign in
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <p className="text-white/50 text-sm mb-2">
+              We&apos;ll hold {unit.name} for {hours} hours. You can hold one unit at a time.
+            </p>
+            <input name="buyerName" value={form.buyerName} onChange={handleChange} required
+              placeholder="Full name" className={fieldCls} />
+            <input name="buyerPhone" type="tel" value={form.buyerPhone} onChange={handleChange}
+              placeholder="Phone (optional)" className={fieldCls} />
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+            <button type="submit" disabled={sending}
+              className="w-full bg-olive-500 hover:bg-olive-400 text-white font-bold py-3.5 rounded-xl uppercase tracking-widest text-xs flex items-center justify-center gap-2 disabled:opacity-50">
+              {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+              Hold This Unit
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,9 @@ import { MainVideo, TransitionVideo, isEmbedUrl } from './VideoPlayer';
 import { useVideoTransition } from './useVideoTransition';
 import { PanoramaModal } from './PanoramaModal';
 import { FloorPlanModal } from './FloorPlanModal';
+import { UnitEnquiryForm } from './UnitEnquiryForm';
+import { UnitHoldForm } from './UnitHoldForm';
+import { useDwellTracker, usePageView, useTabTracker } from '@/hooks/useTracker';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -209,6 +212,10 @@ export default function UnitViewer({
   const [activePanorama, setActivePanorama]         = useState<Panorama | null>(null);
   const [showPanoramaPicker, setShowPanoramaPicker] = useState(false);
   const [showFloorPlan, setShowFloorPlan]           = useState(false);
+  const [showEnquiry, setShowEnquiry]               = useState(false);
+  const [showHold, setShowHold]                     = useState(false);
+  // Last panorama opened since the visitor moved off the current media — sent with enquiries
+  const [viewedPanorama, setViewedPanorama]         = useState<Panorama | null>(null);
 
   // ── Resolve media ──────────────────────────────────────────────────────────
 
@@ -239,6 +246,12 @@ export default function UnitViewer({
   const currentMedia = effectiveMedia[currentMediaIndex] ?? { url: unit.thumbnail_url ?? '', type: 'image' as const };
   const fallbackThumb = unit.thumbnail_url ?? '';
 
+  // ── Visitor tracking ───────────────────────────────────────────────────────
+
+  usePageView();
+  useTabTracker(currentCategory);
+  useDwellTracker(currentMedia.url ? { url: currentMedia.url, label: currentMedia.caption ?? currentCategory } : null);
+
   // ── Transition hook ────────────────────────────────────────────────────────
 
   const handleTransitionComplete = useCallback((targetIndex: number) => {
@@ -258,6 +271,7 @@ export default function UnitViewer({
     setCurrentMediaIndex(0);
     setIsVideoReady(false);
     setIsTransitionFading(false);
+    setViewedPanorama(null);
     cancelTransition();
     // auto-play if first item is video
     setTimeout(() => {
@@ -275,6 +289,7 @@ export default function UnitViewer({
 
   const navigateToMedia = useCallback((toIndex: number) => {
     if (toIndex === currentMediaIndex) return;
+    setViewedPanorama(null);
     if (isPlayingTransition) cancelTransition();
     const from = effectiveMedia[currentMediaIndex];
     const to   = effectiveMedia[toIndex];
@@ -644,12 +659,20 @@ export default function UnitViewer({
             >
               Fullscreen Tour
             </button>
-            <Link
-              href="/contact"
+            <button
+              onClick={() => setShowEnquiry(true)}
               className="block text-center w-full bg-olive-500 hover:bg-olive-400 text-white font-bold py-3 rounded-lg transition-all duration-300 shadow-lg uppercase tracking-widest text-xs"
             >
               Inquire Now
-            </Link>
+            </button>
+            {unit.status === 'available' && (
+              <button
+                onClick={() => setShowHold(true)}
+                className="w-full bg-white/10 hover:bg-white/20 border border-white/20 text-white font-semibold py-3 rounded-lg transition-all duration-300 uppercase tracking-widest text-xs"
+              >
+                Reserve This Unit
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -838,11 +861,18 @@ export default function UnitViewer({
                 <Compass className="w-4 h-4" /> 360° Virtual Tour
               </button>
             )}
-            <Link href="/contact"
+            <button onClick={() => setShowEnquiry(true)}
               className="block text-center w-full bg-white/90 hover:bg-white text-gray-800 font-bold py-4 rounded-xl shadow-lg uppercase tracking-widest text-xs"
             >
               Inquire About This Unit
-            </Link>
+            </button>
+            {unit.status === 'available' && (
+              <button onClick={() => setShowHold(true)}
+                className="w-full bg-white/10 hover:bg-white/20 border border-white/20 text-white font-bold py-4 rounded-xl uppercase tracking-widest text-xs"
+              >
+                Reserve This Unit
+              </button>
+            )}
             <Link href={`/projects/${projectSlug}/units`}
               className="block text-center w-full bg-gray-300/90 hover:bg-gray-200 text-gray-800 font-semibold py-4 rounded-xl shadow-lg uppercase tracking-wide text-xs"
             >
@@ -862,13 +892,25 @@ export default function UnitViewer({
       {showPanoramaPicker && hasPanoramas && (
         <PanoramaPicker
           panoramas={unit.panoramas!}
-          onSelect={p => { setActivePanorama(p); setShowPanoramaPicker(false); }}
+          onSelect={p => { setActivePanorama(p); setViewedPanorama(p); setShowPanoramaPicker(false); }}
           onClose={() => setShowPanoramaPicker(false)}
         />
       )}
       {activePanorama && (
         <PanoramaModal panorama={activePanorama} onClose={() => setActivePanorama(null)} />
       )}
+      {showEnquiry && (
+        <UnitEnquiryForm
+          unit={unit}
+          viewing={viewedPanorama
+            ? { kind: 'panorama', url: viewedPanorama.panoramaUrl, label: viewedPanorama.name }
+            : currentMedia.url
+              ? { kind: 'media', url: currentMedia.url, label: currentMedia.caption ?? currentCategory }
+              : undefined}
+          onClose={() => setShowEnquiry(false)}
+        />
+      )}
+      {showHold && <UnitHoldForm unit={unit} onClose={() => setShowHold(false)} />}
     </div>
   );
 }
@@ -0,0 +1,16 @@
+'use client';
+
+import { useQuery } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { hasPermission, type Permission } from '@convex/lib/permissions';
+
+/**
+ * Current admin + a `can(permission)` check against the server-side role matrix.
+ * Only hides UI — the Convex functions enforce the same rules.
+ */
+export function useAdminPermissions() {
+  const admin = useQuery(api.adminUsers.getAdmin);
+  const can = (permission: Permission) =>
+    !!admin && hasPermission(admin.role, permission);
+  return { admin, can };
+}
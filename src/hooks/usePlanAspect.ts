@@ -0,0 +1,29 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Width over height of a plan image or video (the video wins when both are
+ * set), read from the file itself. 1 until it has loaded.
+ */
+export function usePlanAspect(imageUrl?: string, videoUrl?: string): number {
+  const [aspect, setAspect] = useState(1);
+
+  useEffect(() => {
+    if (videoUrl) {
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+      video.onloadedmetadata = () => { if (video.videoHeight) setAspect(video.videoWidth / video.videoHeight); };
+      video.src = videoUrl;
+      return () => { video.onloadedmetadata = null; video.removeAttribute('src'); };
+    }
+    if (imageUrl) {
+      const img = new Image();
+      img.onload = () => { if (img.naturalHeight) setAspect(img.naturalWidth / img.naturalHeight); };
+      img.src = imageUrl;
+      return () => { img.onload = null; };
+    }
+  }, [imageUrl, videoUrl]);
+
+  return aspect;
+}
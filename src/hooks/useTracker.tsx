@@ -0,0 +1,138 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@convex/_generated/api';
+import { Id } from '@convex/_generated/dataModel';
+import { MAX_EVENT_BATCH, type EventType, type TrackedEvent } from '@convex/lib/events';
+
+/**
+ * First-party visitor tracking for the public viewers.
+ *
+ * The public project pages wrap their viewer in <TrackingProvider> with the
+ * project/phase/unit on screen; anything inside (the viewers, ImmersiveCanvas,
+ * the modals) calls `useTracker()` and the ids are attached automatically.
+ * Outside a provider — the admin zone editors and the draft previews —
+ * tracking is a no-op.
+ *
+ * Events are queued per page and flushed in batches every few seconds and
+ * when the tab is hidden.
+ */
+
+type TrackContext = { projectId?: string; phaseId?: string; unitId?: string };
+type EventFields = Omit<TrackedEvent, 'type' | 'projectId' | 'phaseId' | 'unitId'>;
+
+const FLUSH_MS = 5000;
+const SESSION_KEY = 'kelani_session';
+
+const TrackingContext = createContext<TrackContext | null>(null);
+
+export function TrackingProvider({ projectId, phaseId, unitId, children }: TrackContext & {
+  children: React.ReactNode;
+}) {
+  const value = useMemo(() => ({ projectId, phaseId, unitId }), [projectId, phaseId, unitId]);
+  return <TrackingContext.Provider value={value}>{children}</TrackingContext.Provider>;
+}
+
+// ─── Queue (shared by every tracker on the page) ─────────────────────────────
+
+const queue: TrackedEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let sendBatch: ((args: { sessionId: string; events: TrackedEvent[] }) => Promise<unknown>) | null = null;
+
+function sessionId() {
+  let id = sessionStorage.getItem(SESSION_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_KEY, id);
+  }
+  return id;
+}
+
+function flush() {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  if (!sendBatch) return;
+  while (queue.length > 0) {
+    // Analytics must never surface errors to visitors
+    sendBatch({ sessionId: sessionId(), events: queue.splice(0, MAX_EVENT_BATCH) }).catch(() => {});
+  }
+}
+
+function enqueue(event: TrackedEvent) {
+  queue.push(event);
+  if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_MS);
+}
+
+// ─── Hooks ────────────────────────────────────────────────────────────────────
+
+/** `track(type, fields)` bound to the nearest TrackingProvider (no-op without one) */
+export function useTracker() {
+  const context = useContext(TrackingContext);
+  const send = useMutation(api.events.track);
+
+  useEffect(() => {
+    if (!context) return;
+    sendBatch = send;
+    const onHide = () => { if (document.visibilityState === 'hidden') flush(); };
+    document.addEventListener('visibilitychange', onHide);
+    return () => document.removeEventListener('visibilitychange', onHide);
+  }, [context, send]);
+
+  return useCallback((type: EventType, fields: EventFields = {}) => {
+    if (!context) return;
+    enqueue({
+      type,
+      ...fields,
+      projectId: context.projectId as Id<'projects'> | undefined,
+      phaseId: context.phaseId as Id<'project_phases'> | undefined,
+      unitId: context.unitId as Id<'project_units'> | undefined,
+    });
+  }, [context]);
+}
+
+/** Record a page_view once when the viewer mounts */
+export function usePageView() {
+  const track = useTracker();
+  useEffect(() => { track('page_view'); }, [track]);
+}
+
+/** Record a tab_switch whenever `tab` changes after the first render */
+export function useTabTracker(tab: string) {
+  const track = useTracker();
+  const first = useRef(true);
+  useEffect(() => {
+    if (first.current) { first.current = false; return; }
+    track('tab_switch', { label: tab });
+  }, [tab, track]);
+}
+
+/**
+ * Record how long a media item stays on screen. Time while the tab is hidden
+ * is not counted; glances under a second are ignored.
+ */
+export function useDwellTracker(media: { url: string; label?: string } | null) {
+  const track = useTracker();
+  const url = media?.url;
+  const label = media?.label;
+
+  useEffect(() => {
+    if (!url) return;
+    let start: number | null = document.visibilityState === 'visible' ? Date.now() : null;
+    const record = () => {
+      if (start === null) return;
+      const durationMs = Date.now() - start;
+      start = null;
+      if (durationMs >= 1000) track('media_dwell', { url, label, durationMs });
+    };
+    const onVisibility = () => {
+      if (document.visibilityState === 'hidden') { record(); flush(); }
+      else start = Date.now();
+    };
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibility);
+      record();
+    };
+  }, [url, label, track]);
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+const MAX_STEPS = 100;
+
+type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  saved: T;              // the value last written to the server
+  mergeKey: string | null;
+};
+
+/**
+ * Editor state with an undo/redo stack, used by the zone editors.
+ *
+ * Every `set` is one step. Pass a `mergeKey` to fold a run of edits to the
+ * same thing (typing a label) into a single step. `dirty` is true while the
+ * value differs from the one last passed to `markSaved`, so undoing back to
+ * what was saved clears it.
+ *
+ * Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes (⌘ on a Mac) while the editor
+ * is mounted. Keys pressed in a form field are left to the field's own undo.
+ */
+export function useUndoableState<T>(initial: T) {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [], present: initial, future: [], saved: initial, mergeKey: null,
+  }));
+
+  const set = useCallback((next: T | ((prev: T) => T), mergeKey?: string) => {
+    setHistory(h => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(h.present) : next;
+      if (value === h.present) return h;
+      const merge = mergeKey !== undefined && mergeKey === h.mergeKey;
+      return {
+        ...h,
+        past: merge ? h.past : [...h.past, h.present].slice(-MAX_STEPS),
+        present: value,
+        future: [],
+        mergeKey: mergeKey ?? null,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      ...h,
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+      mergeKey: null,
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      ...h,
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+      mergeKey: null,
+    });
+  }, []);
+
+  // Pass the value that was sent, in case it was edited again while saving
+  const markSaved = useCallback((value: T) => {
+    setHistory(h => ({ ...h, saved: value, mergeKey: null }));
+  }, []);
+
+  useEffect(() => {
+    const fn = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', fn);
+    return () => window.removeEventListener('keydown', fn);
+  }, [undo, redo]);
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    dirty: history.present !== history.saved,
+    markSaved,
+  };
+}
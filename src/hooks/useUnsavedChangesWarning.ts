@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect } from 'react';
+
+const MESSAGE = 'You have unsaved changes. Leave without saving?';
+
+/** True when nothing would be lost or the admin agreed to drop it, e.g. before a tab switch unmounts an editor */
+export function confirmDiscard(dirty: boolean): boolean {
+  return !dirty || window.confirm(MESSAGE);
+}
+
+/**
+ * Ask before leaving the page while `dirty`: on reload or tab close through
+ * the browser's own prompt, and on in-app links with a confirm dialog.
+ */
+export function useUnsavedChangesWarning(dirty: boolean) {
+  useEffect(() => {
+    if (!dirty) return;
+
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+
+    // Capture phase, so this runs before next/link's own click handler
+    const onClick = (e: MouseEvent) => {
+      if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      const link = (e.target as HTMLElement | null)?.closest('a[href]') as HTMLAnchorElement | null;
+      if (!link || link.target === '_blank' || link.hasAttribute('download')) return;
+      const url = new URL(link.href, window.location.href);
+      if (url.origin === window.location.origin && url.pathname === window.location.pathname) return;
+      if (!confirmDiscard(true)) {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+    };
+
+    window.addEventListener('beforeunload', onBeforeUnload);
+    document.addEventListener('click', onClick, true);
+    return () => {
+      window.removeEventListener('beforeunload', onBeforeUnload);
+      document.removeEventListener('click', onClick, true);
+    };
+  }, [dirty]);
+}
@@ -0,0 +1,88 @@
+import type { Infer } from 'convex/values';
+import type { mobileCropValidator } from '@convex/lib/zones';
+
+type Point = { x: number; y: number };
+
+/** The part of a plan phones show, normalized to the plan image or video */
+export type MobileCrop = Infer<typeof mobileCropValidator>;
+
+/** Phone screens are about 9:19.5 in portrait */
+export const PHONE_ASPECT = 9 / 19.5;
+
+/**
+ * How a zone appears on phones:
+ *  - manual  : hand-drawn mobile points (in plan coordinates, like the desktop ones)
+ *  - auto    : derived from the desktop outline
+ *  - clipped : derived, but part of the zone is outside the mobile crop
+ *  - outside : the whole zone is outside the mobile crop, so phones don't show it
+ *  - missing : no desktop outline to derive from
+ */
+export type MobileCoverage = 'manual' | 'auto' | 'clipped' | 'outside' | 'missing';
+
+// The polygon cut to the 0–1 square (Sutherland–Hodgman, one side at a time)
+function clipToFrame(points: Point[]): Point[] {
+  const sides: [(p: Point) => number, number][] = [
+    [p => p.x, 0], [p => -p.x, -1], [p => p.y, 0], [p => -p.y, -1],
+  ];
+  let out = points;
+  for (const [value, min] of sides) {
+    const input = out;
+    out = [];
+    input.forEach((cur, i) => {
+      const prev = input[(i + input.length - 1) % input.length];
+      const a = value(prev) - min, b = value(cur) - min;
+      if ((a >= 0) !== (b >= 0)) {
+        const t = a / (a - b);
+        out.push({ x: prev.x + (cur.x - prev.x) * t, y: prev.y + (cur.y - prev.y) * t });
+      }
+      if (b >= 0) out.push(cur);
+    });
+  }
+  return out;
+}
+
+const inCrop = (points: Point[], crop: MobileCrop): Point[] =>
+  points.map(p => ({ x: (p.x - crop.x) / crop.width, y: (p.y - crop.y) / crop.height }));
+
+/**
+ * Points drawn over the crop (normalized to it) back on the whole plan. Mobile
+ * points are stored this way so moving the crop never moves them.
+ */
+export const fromCrop = (points: Point[], crop: MobileCrop | undefined): Point[] =>
+  crop ? points.map(p => ({ x: crop.x + p.x * crop.width, y: crop.y + p.y * crop.height })) : points;
+
+const hasOutline = (points?: Point[]): points is Point[] => !!points && points.length >= 3;
+
+// The outline mapped into the crop and cut to it; empty when it is outside
+function cropped(points: Point[], crop: MobileCrop): Point[] {
+  const clipped = clipToFrame(inCrop(points, crop));
+  return clipped.length >= 3 ? clipped : [];
+}
+
+/**
+ * The outline phones draw for a zone, normalized to the crop: the hand-drawn
+ * mobile points if any, else the desktop outline, mapped into the crop and cut
+ * to it (empty when the zone is outside). Without a crop phones show the whole
+ * plan, so the outline is used as is.
+ */
+export function mobileOutline(points: Point[], mobilePoints: Point[] | undefined, crop: MobileCrop | undefined): Point[] {
+  const outline = hasOutline(mobilePoints) ? mobilePoints : points;
+  if (!crop || !hasOutline(outline)) return outline;
+  return cropped(outline, crop);
+}
+
+export function mobileCoverage(points: Point[], mobilePoints: Point[] | undefined, crop: MobileCrop | undefined): MobileCoverage {
+  if (hasOutline(mobilePoints)) return !crop || cropped(mobilePoints, crop).length > 0 ? 'manual' : 'outside';
+  if (!hasOutline(points)) return 'missing';
+  if (!crop) return 'auto';
+  const mapped = inCrop(points, crop);
+  if (mapped.every(p => p.x >= 0 && p.x <= 1 && p.y >= 0 && p.y <= 1)) return 'auto';
+  return cropped(points, crop).length > 0 ? 'clipped' : 'outside';
+}
+
+/** The largest centred crop of a plan with the given width/height that fills a phone screen */
+export function centredPhoneCrop(planAspect: number): MobileCrop {
+  const width = Math.min(1, PHONE_ASPECT / planAspect);
+  const height = Math.min(1, planAspect / PHONE_ASPECT);
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+}
@@ -0,0 +1,220 @@
+import type { Doc } from '@convex/_generated/dataModel';
+
+/**
+ * Branded PDF price list for sales staff: one section per phase with the
+ * phase plan (zones coloured by status), then the units grouped by type.
+ * Built in the browser with jsPDF, loaded on demand.
+ */
+
+type Unit = Doc<'project_units'>;
+type PlanZone = { label: string; points: { x: number; y: number }[]; status?: string };
+type Phase = Pick<Doc<'project_phases'>, '_id' | 'name' | 'displayOrder' | 'phase_plan_url'> & {
+  phase_unit_zones?: PlanZone[];
+};
+
+const PAGE_W = 210;
+const PAGE_H = 297;
+const MARGIN = 14;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const PLAN_MAX_H = 110;
+const PLAN_MAX_PX = 1600;
+
+// Brand colours (tailwind olive-500 / charcoal-900)
+const OLIVE: [number, number, number] = [73, 96, 75];
+const CHARCOAL: [number, number, number] = [22, 30, 23];
+
+const STATUS_COLORS: Record<string, { fill: string; stroke: string; text: [number, number, number] }> = {
+  available: { fill: 'rgba(52,211,153,0.35)', stroke: 'rgba(16,185,129,0.95)', text: [4, 120, 87] },
+  reserved: { fill: 'rgba(251,191,36,0.35)', stroke: 'rgba(217,119,6,0.95)', text: [180, 83, 9] },
+  sold: { fill: 'rgba(156,163,175,0.45)', stroke: 'rgba(107,114,128,0.95)', text: [107, 114, 128] },
+};
+const OTHER_ZONE = { fill: 'rgba(99,102,241,0.3)', stroke: 'rgba(79,70,229,0.9)' };
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Could not load ${src}`));
+    img.src = src;
+  });
+}
+
+/**
+ * The phase plan with its zones drawn on top, as a JPEG data URL. Null when
+ * the image can't be loaded or read back (e.g. the host sends no CORS headers).
+ */
+async function renderPlan(url: string, zones: PlanZone[]) {
+  try {
+    const img = await loadImage(url);
+    const scale = Math.min(1, PLAN_MAX_PX / img.naturalWidth);
+    const w = Math.round(img.naturalWidth * scale);
+    const h = Math.round(img.naturalHeight * scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = w;
+    canvas.height = h;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0, w, h);
+
+    // Zone points are normalised to the image, as in ImmersiveCanvas
+    for (const zone of zones) {
+      if (zone.points.length < 3) continue;
+      const colors = STATUS_COLORS[zone.status ?? ''] ?? OTHER_ZONE;
+      ctx.beginPath();
+      zone.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x * w, p.y * h) : ctx.lineTo(p.x * w, p.y * h)));
+      ctx.closePath();
+      ctx.fillStyle = colors.fill;
+      ctx.strokeStyle = colors.stroke;
+      ctx.lineWidth = Math.max(1.5, w / 600);
+      ctx.fill();
+      ctx.stroke();
+
+      const cx = zone.points.reduce((s, p) => s + p.x, 0) / zone.points.length * w;
+      const cy = zone.points.reduce((s, p) => s + p.y, 0) / zone.points.length * h;
+      ctx.font = `600 ${Math.max(11, Math.round(w / 90))}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = 'rgba(0,0,0,0.7)';
+      ctx.strokeText(zone.label, cx, cy);
+      ctx.fillStyle = '#fff';
+      ctx.fillText(zone.label, cx, cy);
+    }
+    return { dataUrl: canvas.toDataURL('image/jpeg', 0.85), w, h };
+  } catch {
+    return null;
+  }
+}
+
+function byDisplayOrder(a: { displayOrder?: number; name: string }, b: { displayOrder?: number; name: string }) {
+  return (a.displayOrder ?? 0) - (b.displayOrder ?? 0) || a.name.localeCompare(b.name, undefined, { numeric: true });
+}
+
+export async function buildPriceListPdf({ project, phases, units, fileName }: {
+  project: Pick<Doc<'projects'>, 'name' | 'location' | 'country'>;
+  phases: Phase[];
+  units: Unit[];
+  fileName: string;
+}) {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const generated = new Date().toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' });
+
+  // ── Header ──
+  doc.setFillColor(...CHARCOAL);
+  doc.rect(0, 0, PAGE_W, 34, 'F');
+  try {
+    doc.addImage(await loadImage('/kelani_logo_(2).png'), 'PNG', MARGIN, 5, 24, 24);
+  } catch {
+    // The header reads fine without the logo
+  }
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(project.name, MARGIN + 30, 16);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(`Price list · ${[project.location, project.country].filter(Boolean).join(', ')}`, MARGIN + 30, 23);
+  doc.text(generated, PAGE_W - MARGIN, 23, { align: 'right' });
+
+  let y = 44;
+  const ensureSpace = (needed: number) => {
+    if (y + needed > PAGE_H - 18) {
+      doc.addPage();
+      y = MARGIN + 4;
+    }
+  };
+
+  // Units without a phase go last under their own heading
+  const sections: { title: string; phase?: Phase; units: Unit[] }[] = phases
+    .slice()
+    .sort(byDisplayOrder)
+    .map((phase) => ({ title: phase.name, phase, units: units.filter((u) => u.phaseId === phase._id) }));
+  const unphased = units.filter((u) => !u.phaseId || !phases.some((p) => p._id === u.phaseId));
+  if (unphased.length > 0) sections.push({ title: phases.length > 0 ? 'Other units' : 'Units', units: unphased });
+
+  for (const section of sections) {
+    if (section.units.length === 0 && !section.phase?.phase_plan_url) continue;
+
+    ensureSpace(20);
+    doc.setTextColor(...OLIVE);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.text(section.title, MARGIN, y);
+    y += 3;
+    doc.setDrawColor(...OLIVE);
+    doc.setLineWidth(0.4);
+    doc.line(MARGIN, y, PAGE_W - MARGIN, y);
+    y += 6;
+
+    if (section.phase?.phase_plan_url) {
+      const plan = await renderPlan(section.phase.phase_plan_url, section.phase.phase_unit_zones ?? []);
+      if (plan) {
+        const scale = Math.min(CONTENT_W / plan.w, PLAN_MAX_H / plan.h);
+        const w = plan.w * scale;
+        const h = plan.h * scale;
+        ensureSpace(h + 6);
+        doc.addImage(plan.dataUrl, 'JPEG', MARGIN + (CONTENT_W - w) / 2, y, w, h);
+        y += h + 6;
+      }
+    }
+
+    const groups = new Map<string, Unit[]>();
+    for (const unit of section.units.slice().sort(byDisplayOrder)) {
+      const type = unit.unit_type || 'Other';
+      groups.set(type, [...(groups.get(type) ?? []), unit]);
+    }
+
+    for (const [type, group] of groups) {
+      ensureSpace(24);
+      doc.setTextColor(...CHARCOAL);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(11);
+      const available = group.filter((u) => u.status === 'available').length;
+      doc.text(`${type}`, MARGIN, y);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor(120, 120, 120);
+      doc.text(`${group.length} unit${group.length === 1 ? '' : 's'} · ${available} available`, PAGE_W - MARGIN, y, { align: 'right' });
+      y += 2;
+
+      autoTable(doc, {
+        startY: y,
+        margin: { left: MARGIN, right: MARGIN, bottom: 18 },
+        head: [['Unit', 'Beds', 'Baths', 'Area (sqft)', 'Floor', 'Price (KES)', 'Status']],
+        body: group.map((u) => [
+          u.name,
+          u.bedrooms,
+          u.bathrooms,
+          u.area_sqft.toLocaleString(),
+          u.floor_number ?? '—',
+          u.price.toLocaleString(),
+          u.status.charAt(0).toUpperCase() + u.status.slice(1),
+        ]),
+        theme: 'striped',
+        styles: { fontSize: 9, cellPadding: 2 },
+        headStyles: { fillColor: OLIVE, textColor: 255 },
+        columnStyles: { 5: { halign: 'right', fontStyle: 'bold' }, 6: { halign: 'center' } },
+        didParseCell: (data) => {
+          if (data.section === 'body' && data.column.index === 6) {
+            const status = group[data.row.index]?.status;
+            if (status) data.cell.styles.textColor = STATUS_COLORS[status].text;
+          }
+        },
+      });
+      y = ((doc as any).lastAutoTable?.finalY ?? y) + 8;
+    }
+  }
+
+  // ── Footer on every page ──
+  const pages = doc.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(140, 140, 140);
+    doc.text(`Prices in KES and subject to change without notice. Generated ${generated}.`, MARGIN, PAGE_H - 8);
+    doc.text(`Page ${i} of ${pages}`, PAGE_W - MARGIN, PAGE_H - 8, { align: 'right' });
+  }
+
+  doc.save(fileName);
+}
@@ -0,0 +1,20 @@
+import type { StatsBasis } from '@convex/lib/aggregates';
+
+type WithStats = { stats_basis?: StatsBasis };
+
+/** False while a project has no published units to take its price and size figures from */
+export function hasUnitFigures(project: WithStats): boolean {
+  return project.stats_basis !== 'none';
+}
+
+/** Which units a project's price, bedroom and area figures describe, for display next to them */
+export function statsNote(project: WithStats): string | null {
+  switch (project.stats_basis) {
+    case 'available':
+      return 'Based on available units';
+    case 'all':
+      return 'Sold out · based on all units';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Reading and writing CSV and XLSX files in the browser for the admin
+ * import and export screens. Read cells come back as trimmed text; empty
+ * rows are dropped.
+ */
+
+export type SheetRows = string[][];
+
+/** RFC 4180 CSV: quoted fields, "" escapes, CRLF or LF line ends */
+export function parseCsv(text: string): SheetRows {
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row);
+      row = []; field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+  return clean(rows);
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+}
+
+function clean(rows: unknown[][]): SheetRows {
+  return rows
+    .map((r) => r.map((c) => cellText(c).trim()))
+    .filter((r) => r.some((c) => c !== ''));
+}
+
+/** First sheet of an .xlsx file, or the whole of a .csv file */
+export async function readSpreadsheet(file: File): Promise<SheetRows> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.csv')) {
+    // Strip the BOM Excel puts on UTF-8 CSVs
+    return parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+  }
+  if (name.endsWith('.xlsx')) {
+    const { readSheet } = await import('read-excel-file/browser');
+    return clean(await readSheet(file));
+  }
+  throw new Error('Upload a .csv or .xlsx file');
+}
+
+// ─── Writing ──────────────────────────────────────────────────────────────────
+
+export type ExportCell = string | number | null | undefined;
+
+function csvField(value: ExportCell) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: ExportCell[][]): string {
+  return rows.map((r) => r.map(csvField).join(',')).join('\r\n');
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Save as CSV (with a BOM so Excel reads it as UTF-8) */
+export function downloadCsv(rows: ExportCell[][], fileName: string) {
+  downloadBlob(new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }), fileName);
+}
+
+/** Save as a single-sheet XLSX; the first row is the bold, frozen header */
+export async function downloadXlsx(rows: ExportCell[][], fileName: string, sheet = 'Sheet1') {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const [header, ...body] = rows;
+  await writeXlsxFile(
+    [
+      header.map((value) => ({ value: String(value ?? ''), fontWeight: 'bold' as const })),
+      ...body.map((r) => r.map((value) => (value === null || value === undefined || value === '' ? null : value))),
+    ],
+    { sheet, stickyRowsCount: 1 }
+  ).toFile(fileName);
+}
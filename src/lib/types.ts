@@ -4,6 +4,7 @@ export interface Project {
   slug: string;
   tagline: string;
   description: string;
+  locationId?: string;
   location: string;
   country: string;
   price_from: number;
@@ -17,6 +18,7 @@ export interface Project {
   amenities: string[];
   completion_date: string;
   featured: boolean;
+  stats_basis?: 'available' | 'all' | 'none'; // which units the price/size figures cover
   _creationTime: number;
 }
 